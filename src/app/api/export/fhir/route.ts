@@ -0,0 +1,61 @@
+/**
+ * FHIR Export API Route
+ * 測定データのFHIR R4形式（transaction Bundle）でのエクスポート
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db, exportFhirBundle } from '@/lib/data-manager/database';
+
+/**
+ * GET /api/export/fhir
+ * ユーザーと測定データ・痛みレベルをFHIRのtransaction Bundleで取得
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    // クエリパラメータの解析
+    const url = new URL(request.url);
+    const userId = url.searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'ユーザーIDは必須です',
+        },
+        { status: 400 }
+      );
+    }
+
+    // データベース初期化確認
+    if (!db.isOpen()) {
+      await db.open();
+    }
+
+    const bundle = await exportFhirBundle(userId);
+    if (!bundle) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'ユーザーが見つかりません',
+        },
+        { status: 404 }
+      );
+    }
+
+    // 電子カルテにそのまま取り込めるよう、Bundleのみを返す
+    return NextResponse.json(bundle, {
+      headers: { 'Content-Type': 'application/fhir+json; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('FHIR Export GET API エラー:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'FHIRエクスポートに失敗しました',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,9 +7,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/data-manager/database';
 import {
   createMeasurement,
+  getTimeOfDay,
   validateMeasurement,
 } from '@/lib/data-manager/models/motion-measurement';
-import type { CreateMeasurementInput } from '@/lib/data-manager/models/motion-measurement';
+import type {
+  CreateMeasurementInput,
+  TimeOfDay,
+} from '@/lib/data-manager/models/motion-measurement';
 
 /**
  * GET /api/measurements
@@ -31,6 +35,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       | null;
     const startDate = url.searchParams.get('startDate');
     const endDate = url.searchParams.get('endDate');
+    const timeOfDay = url.searchParams.get('timeOfDay') as TimeOfDay | null;
     const limit = parseInt(url.searchParams.get('limit') || '100');
     const offset = parseInt(url.searchParams.get('offset') || '0');
 
@@ -49,6 +54,14 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       measurements = measurements.filter((m) => m.handUsed === handUsed);
     }
 
+    if (timeOfDay) {
+      measurements = measurements.filter(
+        (m) =>
+          (m.timeOfDay ?? getTimeOfDay(new Date(m.measurementDate))) ===
+          timeOfDay
+      );
+    }
+
     if (startDate) {
       const start = new Date(startDate);
       measurements = measurements.filter((m) => m.measurementDate >= start);
@@ -147,31 +160,8 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // 測定データ作成
     const newMeasurement = createMeasurement(createMeasurementData);
 
-    // タイムゾーンに依存しないようにYYYY-MM-DD形式の文字列で比較
-    const targetDate = new Date(newMeasurement.measurementDate);
-    const targetDateString = `${targetDate.getFullYear()}-${String(
-      targetDate.getMonth() + 1
-    ).padStart(2, '0')}-${String(targetDate.getDate()).padStart(2, '0')}`;
-
-    const existing = await db.measurements
-      .where('userId')
-      .equals(newMeasurement.userId)
-      .filter((m) => {
-        const recordDate = new Date(m.measurementDate);
-        const recordDateString = `${recordDate.getFullYear()}-${String(
-          recordDate.getMonth() + 1
-        ).padStart(2, '0')}-${String(recordDate.getDate()).padStart(2, '0')}`;
-        return recordDateString === targetDateString;
-      })
-      .first();
-
-    // 既存データがあれば、そのIDを新しいデータに引き継ぐ
-    if (existing?.id) {
-      newMeasurement.id = existing.id;
-    }
-
-    // データベースに保存
-    await db.measurements.put(newMeasurement);
+    // データベースに保存（同じ日の測定も上書きせず、測定ごとに保存する）
+    await db.measurements.add(newMeasurement);
 
     return NextResponse.json(
       {
@@ -15,6 +15,13 @@ import {
   isImprovementTrend,
   needsAttention,
 } from '@/lib/data-manager/models/progress-data';
+import {
+  DEFAULT_DAILY_AGGREGATION,
+  groupMeasurementsByDay,
+  isDailyAggregation,
+} from '@/lib/data-manager/models/daily-aggregation';
+import type { DailyAggregation } from '@/lib/data-manager/models/daily-aggregation';
+import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
 import type {
   CreateProgressDataInput,
   ProgressData,
@@ -106,7 +113,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     // リクエストボディの解析
     const body = await request.json();
-    const { userId, analysisPeriod, forceRecalculate } = body;
+    const {
+      userId,
+      analysisPeriod,
+      forceRecalculate,
+      dailyAggregation = DEFAULT_DAILY_AGGREGATION,
+    } = body;
 
     if (!userId || !analysisPeriod) {
       return NextResponse.json(
@@ -118,6 +130,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    if (!isDailyAggregation(dailyAggregation)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '1日の集計方法が無効です',
+        },
+        { status: 400 }
+      );
+    }
+
     // データベース初期化確認
     if (!db.isOpen()) {
       await db.open();
@@ -157,7 +179,11 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // 進捗データを自動生成
-    const progressData = await generateProgressData(userId, analysisPeriod);
+    const progressData = await generateProgressData(
+      userId,
+      analysisPeriod,
+      dailyAggregation
+    );
 
     if (!progressData) {
       return NextResponse.json(
@@ -266,7 +292,8 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
  */
 async function generateProgressData(
   userId: string,
-  analysisPeriod: AnalysisPeriod
+  analysisPeriod: AnalysisPeriod,
+  dailyAggregation: DailyAggregation
 ): Promise<ProgressData | null> {
   try {
     const periodDays = getAnalysisPeriodDays(analysisPeriod);
@@ -292,7 +319,10 @@ async function generateProgressData(
     }
 
     // 動作進捗の計算
-    const motionProgress = calculateMotionProgress(measurements);
+    const motionProgress = calculateMotionProgress(
+      measurements,
+      dailyAggregation
+    );
 
     // 活動進捗の計算
     const activityProgress = calculateActivityProgress(records, periodDays);
@@ -313,6 +343,7 @@ async function generateProgressData(
       measurementCount: measurements.length,
       recordCount: records.length,
       dataQuality,
+      dailyAggregation,
     };
 
     return createProgressData(createProgressInput);
@@ -324,9 +355,17 @@ async function generateProgressData(
 
 /**
  * 動作進捗の計算
+ * 最新の測定日と前回の測定日を、1日の集計方法で集計した値で比較する
  */
-function calculateMotionProgress(measurements: any[]): MotionProgress {
-  if (measurements.length < 2) {
+function calculateMotionProgress(
+  measurements: MotionMeasurement[],
+  dailyAggregation: DailyAggregation
+): MotionProgress {
+  const days = groupMeasurementsByDay(measurements);
+  const latestDay = days[days.length - 1];
+  const previousDay = days[days.length - 2];
+
+  if (!latestDay || !previousDay) {
     // デフォルトの進捗データ
     const defaultTrend = {
       currentValue: 0,
@@ -349,42 +388,34 @@ function calculateMotionProgress(measurements: any[]): MotionProgress {
     };
   }
 
-  const latest = measurements[measurements.length - 1];
-  const previous = measurements[measurements.length - 2];
-
   // 各角度のトレンド計算
-  const wristFlexion = calculateAngleTrend(
-    latest.wristFlexion,
-    previous.wristFlexion
-  );
-  const wristExtension = calculateAngleTrend(
-    latest.wristExtension,
-    previous.wristExtension
-  );
-  const wristUlnarDeviation = calculateAngleTrend(
-    latest.wristUlnarDeviation,
-    previous.wristUlnarDeviation
-  );
-  const wristRadialDeviation = calculateAngleTrend(
-    latest.wristRadialDeviation,
-    previous.wristRadialDeviation
-  );
-  const thumbFlexion = calculateAngleTrend(
-    latest.thumbFlexion,
-    previous.thumbFlexion
-  );
-  const thumbExtension = calculateAngleTrend(
-    latest.thumbExtension,
-    previous.thumbExtension
-  );
-  const thumbAdduction = calculateAngleTrend(
-    latest.thumbAdduction,
-    previous.thumbAdduction
-  );
-  const thumbAbduction = calculateAngleTrend(
-    latest.thumbAbduction,
-    previous.thumbAbduction
-  );
+  const calculateFieldTrend = (
+    field: keyof Pick<
+      MotionMeasurement,
+      | 'wristFlexion'
+      | 'wristExtension'
+      | 'wristUlnarDeviation'
+      | 'wristRadialDeviation'
+      | 'thumbFlexion'
+      | 'thumbExtension'
+      | 'thumbAdduction'
+      | 'thumbAbduction'
+    >
+  ) =>
+    calculateAngleTrend(
+      latestDay.map((measurement) => measurement[field]),
+      previousDay.map((measurement) => measurement[field]),
+      dailyAggregation
+    );
+
+  const wristFlexion = calculateFieldTrend('wristFlexion');
+  const wristExtension = calculateFieldTrend('wristExtension');
+  const wristUlnarDeviation = calculateFieldTrend('wristUlnarDeviation');
+  const wristRadialDeviation = calculateFieldTrend('wristRadialDeviation');
+  const thumbFlexion = calculateFieldTrend('thumbFlexion');
+  const thumbExtension = calculateFieldTrend('thumbExtension');
+  const thumbAdduction = calculateFieldTrend('thumbAdduction');
+  const thumbAbduction = calculateFieldTrend('thumbAbduction');
 
   const trends = [
     wristFlexion,
@@ -126,10 +126,11 @@ export async function PUT(
 
     // 名前重複チェック（自分以外）
     if (updateUserData.name && updateUserData.name !== existingUser.name) {
+      // 暗号化した名前はインデックスで検索できないため、復号した値で比較する
       const duplicateUser = await db.users
-        .where('name')
-        .equals(updateUserData.name)
-        .and((user) => user.id !== userId)
+        .filter(
+          (user) => user.name === updateUserData.name && user.id !== userId
+        )
         .first();
 
       if (duplicateUser) {
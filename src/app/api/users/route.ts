@@ -79,9 +79,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // 重複チェック（名前による簡易チェック）
+    // 暗号化した名前はインデックスで検索できないため、復号した値で比較する
     const existingUser = await db.users
-      .where('name')
-      .equals(createUserData.name)
+      .filter((user) => user.name === createUserData.name)
       .first();
 
     if (existingUser) {
@@ -2,6 +2,7 @@ import type { Metadata } from 'next';
 import './globals.scss';
 import '../styles/variables.css';
 import Header from '@/components/common/Header';
+import EncryptionLockGate from '@/components/security/EncryptionLockGate';
 
 export const metadata: Metadata = {
   title: '手首・母指可動域リハビリテーションアプリ',
@@ -17,7 +18,9 @@ export default function RootLayout({
     <html lang="ja">
       <body>
         <Header />
-        <main className="main-content">{children}</main>
+        <main className="main-content">
+          <EncryptionLockGate>{children}</EncryptionLockGate>
+        </main>
       </body>
     </html>
   );
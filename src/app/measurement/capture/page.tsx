@@ -13,9 +13,28 @@ import React, {
   Suspense,
 } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { Hands, Results } from '@mediapipe/hands';
-import type { NormalizedLandmark } from '@mediapipe/hands';
+import { useAtomValue } from 'jotai';
+import {
+  createHandTrackingBackend,
+  HandDetectionResult,
+  HandTrackingBackend,
+  NormalizedLandmark,
+  toDetectedHands,
+} from '@/lib/mediapipe/hand-tracking-backend';
+import { findTargetHand } from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import { handTrackingBackendAtom } from '@/shared/state/settings-atoms';
+import { usePauseAutoLock } from '@/hooks/useDatabaseEncryption';
 import { angleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  PeakDetector,
+  PeakDetectorStatus,
+} from '@/core/infrastructure/mediapipe/peak-detector';
+import {
+  aggregateQualityMetrics,
+  QualityAnalyzer,
+} from '@/core/infrastructure/mediapipe/quality-analyzer';
+import type { QualityMetrics } from '@/core/domain/types/hand-landmark';
+import { captureVideoFrame } from '@/lib/mediapipe/camera-service';
 
 // 互換性のためのラッパー関数
 const calculateWristAngles = (landmarks: any) => {
@@ -35,18 +54,25 @@ const calculateWristAngles = (landmarks: any) => {
 };
 
 const calculateThumbAngles = (landmarks: any) => {
-  // 母指角度は現在未実装のため、ダミーデータを返す
+  const convertedLandmarks = landmarks.map((lm: any, index: number) => ({
+    ...lm,
+    id: index,
+  }));
+  const domainAngles = angleCalculator.calculateThumbAngles(convertedLandmarks);
+
+  // ThumbAngles (domain) から AngleData.thumb (store) に変換
   return {
-    flexion: 0,
-    extension: 0,
-    abduction: 0,
-    adduction: 0,
+    flexion: domainAngles.flexion,
+    extension: domainAngles.extension,
+    abduction: domainAngles.abduction,
+    adduction: domainAngles.adduction,
   };
 };
 import type { AngleData } from '@/stores/measurement-atoms';
 import type {
   HandType,
   CreateMeasurementInput,
+  MotionAngleField,
 } from '@/lib/data-manager/models/motion-measurement';
 import { createMeasurement } from '@/lib/data-manager/models/motion-measurement';
 import { db, initializeDatabase } from '@/lib/data-manager/database';
@@ -74,6 +100,21 @@ interface PhaseInfo {
   instruction: string;
 }
 
+/**
+ * フェーズと保存する測定項目の対応
+ */
+const PHASE_MOTION_FIELDS: Record<MeasurementPhase, MotionAngleField> = {
+  flexion: 'wristFlexion',
+  extension: 'wristExtension',
+  ulnarDeviation: 'wristUlnarDeviation',
+  radialDeviation: 'wristRadialDeviation',
+};
+
+/**
+ * 品質評価のためにカメラ画像を取得する間隔（ミリ秒）
+ */
+const IMAGE_QUALITY_INTERVAL_MS = 500;
+
 /**
  * 測定状態
  */
@@ -86,6 +127,12 @@ interface MeasurementState {
   currentPhase: MeasurementPhase;
   phaseResults: Record<MeasurementPhase, number>;
   isPhaseComplete: boolean;
+  /** 最大角度の保持確認の状態 */
+  peakStatus: PeakDetectorStatus;
+  /** 保持の進捗（0-1） */
+  holdProgress: number;
+  /** 最大角度の確定までのフレームを集計した品質指標 */
+  phaseQuality: Partial<Record<MeasurementPhase, QualityMetrics>>;
 }
 
 /**
@@ -170,18 +217,43 @@ const MeasurementCaptureContent: React.FC = () => {
       radialDeviation: 0,
     },
     isPhaseComplete: false,
+    peakStatus: 'tracking',
+    holdProgress: 0,
+    phaseQuality: {},
   });
 
+  // 測定中は手を使わずに操作するため、自動ロックを保留する
+  usePauseAutoLock(measurementState.isCapturing);
+
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
-  const [hands, setHands] = useState<Hands | null>(null);
+  const handTrackingBackend = useAtomValue(handTrackingBackendAtom);
+  const [handTracker, setHandTracker] = useState<HandTrackingBackend | null>(
+    null
+  );
   const [mediaPipeReady, setMediaPipeReady] = useState(false);
 
   // 精度履歴管理
   const accuracyHistoryRef = useRef<number[]>([]);
   const ACCURACY_HISTORY_SIZE = 10;
 
+  // 最大角度の保持確認（onResultsから参照するため現在のフェーズもrefで保持）
+  const peakDetectorRef = useRef(new PeakDetector());
+  const currentPhaseRef = useRef<MeasurementPhase>(
+    measurementState.currentPhase
+  );
+
+  useEffect(() => {
+    currentPhaseRef.current = measurementState.currentPhase;
+  }, [measurementState.currentPhase]);
+
+  // 測定品質の評価（フェーズ中のフレームごとの品質指標）
+  const qualityAnalyzerRef = useRef(new QualityAnalyzer());
+  const qualityFramesRef = useRef<QualityMetrics[]>([]);
+  const qualityCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastImageCaptureRef = useRef(0);
+
   /**
    * MediaPipe初期化
    */
@@ -194,25 +266,17 @@ const MeasurementCaptureContent: React.FC = () => {
         throw new Error('WebAssembly is not supported in this browser');
       }
 
-      const handsDetector = new Hands({
-        locateFile: (file) => {
-          // より安定したCDNを使用
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`;
-        },
-      });
-
       // より保守的な設定を使用
-      handsDetector.setOptions({
+      const tracker = await createHandTrackingBackend(handTrackingBackend, {
         maxNumHands: 2, // 両手を検出して対象の手を選択
         modelComplexity: 0, // 最軽量モデル
         minDetectionConfidence: 0.8,
         minTrackingConfidence: 0.5,
+        staticImageMode: false,
       });
+      await tracker.initialize();
 
-      // 結果処理の設定
-      handsDetector.onResults(handleResults);
-
-      setHands(handsDetector);
+      setHandTracker(tracker);
       setMediaPipeReady(true);
       console.log('MediaPipe初期化完了');
     } catch (error) {
@@ -220,7 +284,7 @@ const MeasurementCaptureContent: React.FC = () => {
       setMediaPipeReady(false);
       setCameraError('手の検出機能の初期化に失敗しました');
     }
-  }, []);
+  }, [handTrackingBackend]);
 
   /**
    * カメラ初期化
@@ -319,7 +383,7 @@ const MeasurementCaptureContent: React.FC = () => {
    * MediaPipe結果処理
    */
   const handleResults = useCallback(
-    (results: Results) => {
+    (result: HandDetectionResult) => {
       if (!canvasRef.current || !videoRef.current) return;
 
       const canvas = canvasRef.current;
@@ -330,34 +394,62 @@ const MeasurementCaptureContent: React.FC = () => {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
 
       // 手が検出された場合
-      if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-        // 複数の手から対象の手を探す
-        let targetHandIndex = -1;
-        for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-          const handedness = results.multiHandedness?.[i]?.label || 'Right';
-
-          // MediaPipeのhandednessはカメラ視点（鏡像）なので、実際の左右を判定する
-          // カメラに映った「Right」は実際には左手、「Left」は実際には右手
-          const detectedHand = handedness === 'Right' ? 'left' : 'right';
-
-          if (detectedHand === selectedHand) {
-            targetHandIndex = i;
-            break;
-          }
-        }
+      if (result.detected) {
+        // 複数の手から対象の手を探す（handednessは鏡像のため実際の左右に変換）
+        const targetHand = findTargetHand(
+          toDetectedHands(result),
+          selectedHand
+        );
 
         // 対象の手が見つからない場合
-        if (targetHandIndex === -1) {
+        if (!targetHand) {
           setMeasurementState((prev) => ({ ...prev, handDetected: false }));
           return;
         }
 
-        const landmarks = results.multiHandLandmarks[targetHandIndex];
+        const landmarks = targetHand.landmarks;
 
         // 角度計算
         const wristAngles = calculateWristAngles(landmarks as any);
         const thumbAngles = calculateThumbAngles(landmarks as any);
 
+        // 検出精度が中信頼度以上で一定時間保持された角度のみを最大角度とする
+        const points = landmarks.map((lm, index) => ({ ...lm, id: index }));
+        const detectionConfidence = targetHand.score;
+        const accuracy = angleCalculator.calculateLandmarkAccuracy(
+          points,
+          detectionConfidence
+        );
+        const phase = currentPhaseRef.current;
+        const now = performance.now();
+        const peak = peakDetectorRef.current.addSample({
+          angle: wristAngles[phase],
+          accuracy,
+          timestampMs: now,
+        });
+        const confirmedPeak = peak.confirmedPeak;
+
+        // フレームの品質を記録（画像は一定間隔でのみ取得）
+        let image: ImageData | null = null;
+        if (now - lastImageCaptureRef.current >= IMAGE_QUALITY_INTERVAL_MS) {
+          qualityCanvasRef.current ??= document.createElement('canvas');
+          image = captureVideoFrame(videoRef.current, qualityCanvasRef.current);
+          lastImageCaptureRef.current = now;
+        }
+        qualityFramesRef.current.push(
+          qualityAnalyzerRef.current.analyzeFrame({
+            landmarks: points,
+            image,
+            ...(detectionConfidence !== undefined
+              ? { detectionConfidence }
+              : {}),
+            timestampMs: now,
+          })
+        );
+        const quality = peak.isNewPeak
+          ? aggregateQualityMetrics(qualityFramesRef.current)
+          : null;
+
         const angleData: AngleData = {
           wrist: wristAngles,
           thumb: thumbAngles,
@@ -370,8 +462,25 @@ const MeasurementCaptureContent: React.FC = () => {
         setMeasurementState((prev) => ({
           ...prev,
           currentAngles: angleData,
+          accuracy,
           handDetected: true,
           lastUpdateTime: Date.now(),
+          peakStatus: peak.status,
+          holdProgress: peak.holdProgress,
+          ...(peak.isNewPeak && confirmedPeak !== null
+            ? {
+                phaseResults: {
+                  ...prev.phaseResults,
+                  [phase]: Math.round(confirmedPeak),
+                },
+                ...(quality
+                  ? {
+                      phaseQuality: { ...prev.phaseQuality, [phase]: quality },
+                    }
+                  : {}),
+                isPhaseComplete: true,
+              }
+            : {}),
         }));
       } else {
         setMeasurementState((prev) => ({ ...prev, handDetected: false }));
@@ -384,11 +493,17 @@ const MeasurementCaptureContent: React.FC = () => {
    * フレーム処理
    */
   const processFrame = useCallback(async () => {
-    if (videoRef.current && hands && measurementState.isCapturing) {
-      await hands.send({ image: videoRef.current });
+    if (videoRef.current && handTracker && measurementState.isCapturing) {
+      try {
+        handleResults(
+          await handTracker.processFrame(videoRef.current, performance.now())
+        );
+      } catch (error) {
+        console.error('手の検出エラー:', error);
+      }
     }
     animationFrameRef.current = requestAnimationFrame(processFrame);
-  }, [hands, measurementState.isCapturing]);
+  }, [handTracker, handleResults, measurementState.isCapturing]);
 
   /**
    * 次のフェーズに進む
@@ -401,10 +516,15 @@ const MeasurementCaptureContent: React.FC = () => {
     if (currentPhaseIndex < MEASUREMENT_PHASES.length - 1) {
       const nextPhase = MEASUREMENT_PHASES[currentPhaseIndex + 1];
       if (nextPhase) {
+        peakDetectorRef.current.reset();
+        qualityAnalyzerRef.current.reset();
+        qualityFramesRef.current = [];
         setMeasurementState((prev) => ({
           ...prev,
           currentPhase: nextPhase.id,
           isPhaseComplete: false,
+          peakStatus: 'tracking',
+          holdProgress: 0,
         }));
       }
     }
@@ -428,33 +548,18 @@ const MeasurementCaptureContent: React.FC = () => {
         thumbAdduction: measurementState.currentAngles?.thumb?.adduction || 0,
         thumbAbduction: measurementState.currentAngles?.thumb?.abduction || 0,
         accuracyScore: measurementState.accuracy,
+        qualityMetrics: Object.fromEntries(
+          Object.entries(measurementState.phaseQuality).map(
+            ([phase, quality]) => [
+              PHASE_MOTION_FIELDS[phase as MeasurementPhase],
+              quality,
+            ]
+          )
+        ),
       });
 
-      // タイムゾーンに依存しないようにYYYY-MM-DD形式の文字列で比較
-      const targetDate = new Date(measurementData.measurementDate);
-      const targetDateString = `${targetDate.getFullYear()}-${String(
-        targetDate.getMonth() + 1
-      ).padStart(2, '0')}-${String(targetDate.getDate()).padStart(2, '0')}`;
-
-      const existing = await db.measurements
-        .where('userId')
-        .equals(measurementData.userId)
-        .filter((m) => {
-          const recordDate = new Date(m.measurementDate);
-          const recordDateString = `${recordDate.getFullYear()}-${String(
-            recordDate.getMonth() + 1
-          ).padStart(2, '0')}-${String(recordDate.getDate()).padStart(2, '0')}`;
-          return recordDateString === targetDateString;
-        })
-        .first();
-
-      // 既存データがあれば、そのIDを新しいデータに引き継ぐ
-      if (existing?.id) {
-        measurementData.id = existing.id;
-      }
-
-      // putメソッドで保存（存在すれば更新、なければ新規作成）
-      await db.measurements.put(measurementData);
+      // 同じ日の測定も上書きせず、測定ごとに保存する
+      await db.measurements.add(measurementData);
 
       // 進捗ページに移動
       router.push('/progress');
@@ -541,6 +646,13 @@ const MeasurementCaptureContent: React.FC = () => {
     };
   }, [cameraReady, mediaPipeReady, processFrame]);
 
+  // 検出バックエンドの解放
+  useEffect(() => {
+    return () => {
+      handTracker?.dispose();
+    };
+  }, [handTracker]);
+
   // ビデオにストリーム設定
   useEffect(() => {
     if (videoRef.current && cameraStream) {
@@ -625,9 +737,21 @@ const MeasurementCaptureContent: React.FC = () => {
             status={
               !measurementState.handDetected
                 ? 'invalid'
-                : measurementState.isPhaseComplete
-                  ? 'complete'
-                  : 'measuring'
+                : measurementState.peakStatus === 'holding'
+                  ? 'holding'
+                  : measurementState.isPhaseComplete
+                    ? 'complete'
+                    : 'measuring'
+            }
+            holdProgress={measurementState.holdProgress}
+            peakAngle={
+              measurementState.isPhaseComplete
+                ? measurementState.phaseResults[measurementState.currentPhase]
+                : null
+            }
+            qualityMetrics={
+              measurementState.phaseQuality[measurementState.currentPhase] ??
+              null
             }
           />
         )}
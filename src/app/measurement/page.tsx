@@ -8,6 +8,7 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import ReactDOM from 'react-dom';
 import { useRouter } from 'next/navigation';
+import { useAtom, useAtomValue } from 'jotai';
 import styles from './page.module.scss';
 import { Button } from '@/components/common';
 import palmarFlexionVideo from '@/assets/palmar-flexion.mp4';
@@ -21,37 +22,87 @@ import {
   MeasurementSession as DBMeasurementSession,
   MeasurementResult as DBMeasurementResult,
 } from '@/lib/database/measurement-db';
-import { angleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
-import { Point3D } from '@/core/domain/types/hand-landmark';
-
-// 互換性のためのラッパー関数
-const calculateWristAngle = (landmarks: Point3D[], stepId: string): number => {
-  return angleCalculator.calculateAngleForStep(landmarks, stepId);
-};
+import {
+  ANGLE_ALGORITHM_VERSION,
+  angleCalculator,
+  FOREARM_AXIS_STEP_IDS,
+} from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  CalibrationProgress,
+  NeutralCalibrator,
+} from '@/core/infrastructure/mediapipe/neutral-calibrator';
+import {
+  PeakDetector,
+  PeakDetectorState,
+} from '@/core/infrastructure/mediapipe/peak-detector';
+import {
+  aggregateQualityMetrics,
+  QualityAnalyzer,
+} from '@/core/infrastructure/mediapipe/quality-analyzer';
+import { AngleSeriesRecorder } from '@/core/infrastructure/mediapipe/angle-series-recorder';
+import { calculateMovementKinematics } from '@/core/infrastructure/mediapipe/movement-kinematics';
+import { isOppositeHandView } from '@/core/infrastructure/mediapipe/hand-view-classifier';
+import {
+  HandFrameProcessor,
+  ProcessedHandFrame,
+} from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import {
+  createHandTrackingBackend,
+  HandDetectionResult,
+  HandTrackingBackend,
+  HandTrackingOptions,
+  resolveWorkerBackend,
+  toDetectedHands,
+} from '@/lib/mediapipe/hand-tracking-backend';
+import {
+  contralateralTargetAtom,
+  goniometerStudyModeAtom,
+  handTrackingBackendAtom,
+  sessionRecordingAtom,
+  smoothingSettingsAtom,
+} from '@/shared/state/settings-atoms';
+import {
+  ForearmLandmarks,
+  Point3D,
+  QualityMetrics,
+} from '@/core/domain/types/hand-landmark';
+import type {
+  FingerName,
+  FingerRangeOfMotion,
+  ForearmAxisMethod,
+} from '@/core/domain/types/angle';
+import type {
+  AngleSeries,
+  BilateralSessionLink,
+  HandView,
+  MeasurementMode,
+  NeutralCalibration,
+  StepId,
+} from '@/core/domain/types/measurement';
+import type {
+  PoseDetector,
+  PoseDetectionResult,
+} from '@/lib/mediapipe/pose-detector';
+import { captureVideoFrame } from '@/lib/mediapipe/camera-service';
+import { SessionRecorder } from '@/lib/mediapipe/session-recorder';
+import { HandTrackingPipeline } from '@/lib/mediapipe/hand-tracking-pipeline';
+import { renderEvidenceSnapshot } from '@/lib/mediapipe/evidence-snapshot';
+import QualityBadge from '@/components/measurement/QualityBadge';
+import AngleTrajectoryChart from '@/components/measurement/AngleTrajectoryChart';
+import {
+  calculateBilateralDeficits,
+  getContralateralTargets,
+} from '@/lib/analysis/bilateral-deficit';
 
-const validateLandmarks = (landmarks: Point3D[]): boolean => {
-  return angleCalculator.validateLandmarks(landmarks);
-};
 import { useMeasurementService } from '@/hooks/useMeasurementService';
+import { usePauseAutoLock } from '@/hooks/useDatabaseEncryption';
 import {
   createMeasurement,
   CreateMeasurementInput,
+  MotionAngleField,
+  MotionQualityMetrics,
 } from '@/lib/data-manager/models/motion-measurement';
 
-/**
- * MediaPipe 型定義
- */
-interface Hands {
-  setOptions(options: any): void;
-  onResults(callback: (results: any) => void): void;
-  send(data: { image: HTMLVideoElement }): Promise<void>;
-  close(): void;
-}
-
-interface MediaPipeHands {
-  Hands: new (config: any) => Hands;
-}
-
 /**
  * 手のランドマーク座標
  */
@@ -113,13 +164,14 @@ type MeasurementPhase = 'preparation' | 'measuring' | 'complete';
  * 測定ステップ
  */
 interface MeasurementStep {
-  id: string;
+  id: StepId;
   name: string;
   instruction: string;
   description: string;
   targetAngle: number;
   videoInstructions: string[];
-  videoPath: string;
+  /** 説明動画（未用意のステップは説明文のみ表示） */
+  videoPath?: string;
 }
 
 /**
@@ -132,6 +184,7 @@ type DisplayStep = 'instructions' | 'selection' | 'measurement';
  */
 interface MeasurementSetup {
   selectedHand: HandSelection | null;
+  mode: MeasurementMode;
   currentStep: DisplayStep;
   currentMeasurementStep: number;
   currentAngle: number;
@@ -142,8 +195,157 @@ interface MeasurementSetup {
   isCapturing: boolean;
   countdown: number | null;
   isPhotoTaken: boolean;
+  /** 前腕軸の推定方法（手首ステップの測定中のみ） */
+  forearmAxisMethod: ForearmAxisMethod | null;
+  /** 中間位キャリブレーション中フラグ */
+  isCalibrating: boolean;
+  /** 中間位キャリブレーションの進捗 */
+  calibration: CalibrationProgress | null;
+  /** 最大角度の保持確認の状態（測定中のみ） */
+  peak: PeakDetectorState | null;
+  /** 現在のステップで記録したゴニオメーター測定値（比較モードのみ） */
+  goniometerAngle: number | null;
+  /** 左右比較測定の情報（健側→患側の順に測定、左右比較測定のみ） */
+  bilateral: BilateralSessionLink | null;
 }
 
+/**
+ * 保持により確定した最大角度のフレーム
+ */
+interface PeakFrame {
+  angle: number;
+  landmarks: Point3D[];
+  method: ForearmAxisMethod;
+  /** 前腕軸に使用した前腕ランドマーク */
+  forearm: ForearmLandmarks | null;
+  /** 最大角度を保持していた間の各フレームのランドマーク */
+  holdLandmarks: Point3D[][];
+}
+
+/**
+ * 最大角度の保持判定に含めたフレーム
+ */
+interface HoldFrame {
+  timestampMs: number;
+  landmarks: Point3D[];
+}
+
+/**
+ * 手の面の表示名
+ */
+const HAND_VIEW_LABELS: Record<HandView, string> = {
+  'palm-facing': '手のひら',
+  'dorsum-facing': '手の甲',
+  'ulnar-side': '小指側',
+  'radial-side': '親指側',
+};
+
+/**
+ * 手の向きを直す案内文
+ * 検出した面から必要な面まで手を何度回すかを示す
+ */
+const getHandViewGuidance = (
+  required: HandView,
+  detected: HandView | null
+): string => {
+  const instruction = `${HAND_VIEW_LABELS[required]}をカメラに向けてください`;
+  if (!detected) {
+    return `手の向きを判定できません - ${instruction}`;
+  }
+  const rotation = isOppositeHandView(required, detected) ? 180 : 90;
+  return `${HAND_VIEW_LABELS[detected]}が見えています - 手を${rotation}°回して${instruction}`;
+};
+
+/**
+ * 中間位キャリブレーションの案内文
+ */
+const getCalibrationMessage = (
+  calibration: CalibrationProgress | null
+): string => {
+  if (!calibration) {
+    return '開始姿勢で手を静止させてください';
+  }
+  switch (calibration.status) {
+    case 'wrong-orientation':
+      return getHandViewGuidance(
+        calibration.requiredView,
+        calibration.detectedView
+      );
+    case 'unstable':
+      return '手が動いています - 開始姿勢で静止させてください';
+    case 'complete':
+      return '✓ 0度の基準を記録しました';
+    default:
+      return `開始姿勢を記録中... ${calibration.stableFrames}/${calibration.requiredFrames}`;
+  }
+};
+
+/**
+ * 最大角度の保持確認の案内文
+ *
+ * @param peak 最大角度の保持確認の状態
+ * @param toDisplayAngle 確定した角度の変化量を表示する測定値に変換する関数
+ */
+const getPeakMessage = (
+  peak: PeakDetectorState,
+  toDisplayAngle: (change: number) => number
+): string => {
+  switch (peak.status) {
+    case 'holding':
+      return `保持… ${Math.round(peak.holdProgress * 100)}%`;
+    case 'confirmed':
+      return `✓ ${Math.round(toDisplayAngle(peak.confirmedPeak ?? 0))}° を記録しました`;
+    case 'rejected':
+      return '検出精度が低いため測定値に含めていません';
+    default:
+      return peak.confirmedPeak !== null
+        ? `記録済み: ${Math.round(toDisplayAngle(peak.confirmedPeak))}°（さらに動かして静止すると更新）`
+        : '最大まで動かしたところで静止してください';
+  }
+};
+
+/**
+ * Pose検出結果を前腕軸として使用する最大経過時間（ミリ秒）
+ */
+const POSE_RESULT_MAX_AGE_MS = 500;
+
+/**
+ * 測定時の手の検出設定（両手を検出して対象の手を選択）
+ */
+const HAND_TRACKING_OPTIONS: HandTrackingOptions = {
+  maxNumHands: 2,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.3,
+  minTrackingConfidence: 0.2,
+  staticImageMode: false,
+};
+
+/**
+ * 品質評価のためにカメラ画像を取得する間隔（ミリ秒）
+ * 画像解析は負荷が高いため、ランドマークの評価より低い頻度で行う
+ */
+const IMAGE_QUALITY_INTERVAL_MS = 500;
+
+/**
+ * 最大角度の保持中のランドマークとして保存する最大フレーム数
+ * 再計算時に保持中の平均角度を求めるためのもので、長く保持した場合は直近のフレームのみ保存する
+ */
+const MAX_HOLD_LANDMARK_FRAMES = 30;
+
+/**
+ * 測定ステップと保存する測定項目の対応
+ */
+const STEP_MOTION_FIELDS: Partial<Record<StepId, MotionAngleField>> = {
+  'palmar-flexion': 'wristFlexion',
+  'dorsal-flexion': 'wristExtension',
+  'ulnar-deviation': 'wristUlnarDeviation',
+  'radial-deviation': 'wristRadialDeviation',
+  'thumb-flexion': 'thumbFlexion',
+  'thumb-extension': 'thumbExtension',
+  'thumb-adduction': 'thumbAdduction',
+  'thumb-abduction': 'thumbAbduction',
+};
+
 /**
  * 測定ステップ定義
  */
@@ -238,8 +440,215 @@ const measurementSteps: MeasurementStep[] = [
     ],
     videoPath: supinationVideo,
   },
+  {
+    id: 'thumb-flexion',
+    name: '母指屈曲',
+    instruction: '親指の付け根（MCP関節）を手のひら側に曲げてください',
+    description:
+      '手のひらをカメラに向け、指を上に伸ばしてから測定を開始してください。（正常関節可動域 : 60°）',
+    targetAngle: 60,
+    videoInstructions: [
+      '手のひらをカメラに向け、指を上に伸ばします',
+      '親指を人差し指の横にそろえて伸ばします',
+      'ゲージが表示されたら、親指の付け根を手のひら側に曲げます',
+      '親指の先は伸ばしたまま、付け根で60°近くまで曲げてください',
+    ],
+  },
+  {
+    id: 'thumb-extension',
+    name: '母指伸展',
+    instruction: '親指の付け根（MCP関節）を手の甲側に反らせてください',
+    description:
+      '手のひらをカメラに向け、指を上に伸ばしてから測定を開始してください。（正常関節可動域 : 10°）',
+    targetAngle: 10,
+    videoInstructions: [
+      '母指屈曲と同じく、手のひらをカメラに向けます',
+      '親指を人差し指の横にそろえて伸ばします',
+      'ゲージが表示されたら、親指の付け根を手の甲側に反らせます',
+      '痛みのない範囲で10°近くまで反らせてください',
+    ],
+  },
+  {
+    id: 'thumb-abduction',
+    name: '母指外転',
+    instruction: '親指を人差し指から離すように広げてください',
+    description:
+      '手のひらをカメラに向け、指を上に伸ばしてから測定を開始してください。（正常関節可動域 : 60°）',
+    targetAngle: 60,
+    videoInstructions: [
+      '手のひらをカメラに向け、指を上に伸ばします',
+      '親指を人差し指の横にそろえます',
+      'ゲージが表示されたら、手のひらと同じ面で親指を人差し指から離します',
+      '親指と人差し指の間が60°近くまで開くように広げてください',
+    ],
+  },
+  {
+    id: 'thumb-adduction',
+    name: '母指内転',
+    instruction: '親指を人差し指に寄せてください',
+    description:
+      '手のひらをカメラに向け、親指を広げた状態から測定を開始してください。（基準位置 : 0°）',
+    targetAngle: 0,
+    videoInstructions: [
+      '手のひらをカメラに向け、親指を広げた状態で準備します',
+      'ゲージが表示されたら、手のひらと同じ面で親指を人差し指に寄せます',
+      '親指が人差し指の横にそろう位置まで戻してください',
+    ],
+  },
+];
+
+/**
+ * 指関節測定ステップ定義
+ * 示指〜小指のMCP・PIP・DIP関節を同時に測定し、TAMを算出する
+ */
+const fingerMeasurementSteps: MeasurementStep[] = [
+  {
+    id: 'finger-flexion',
+    name: '指屈曲',
+    instruction: '指をしっかり握り込んでください',
+    description:
+      '手のひらをカメラに向け、指を伸ばした状態から測定を開始してください。（正常TAM : 260°）',
+    targetAngle: 270,
+    videoInstructions: [
+      '手のひらをカメラに向け、4本の指をそろえて伸ばします',
+      '手首はまっすぐに保ちます',
+      'ゲージが表示されたら、指の付け根・第二関節・第一関節を順に曲げます',
+      '指先が手のひらにつくまでしっかり握り込んでください',
+    ],
+  },
+  {
+    id: 'finger-extension',
+    name: '指伸展',
+    instruction: '指をまっすぐに伸ばしてください',
+    description:
+      '手のひらをカメラに向け、指を握り込んだ状態から測定を開始してください。（伸展不足 : 0°）',
+    targetAngle: 0,
+    videoInstructions: [
+      '手のひらをカメラに向け、指を握り込んだ状態で準備します',
+      'ゲージが表示されたら、4本の指を開いていきます',
+      '全ての関節ができるだけまっすぐになるまで伸ばしてください',
+    ],
+  },
 ];
 
+/**
+ * 測定モードごとのステップ定義
+ */
+const measurementStepsByMode: Record<MeasurementMode, MeasurementStep[]> = {
+  wrist: measurementSteps,
+  finger: fingerMeasurementSteps,
+};
+
+/**
+ * 指の表示名
+ */
+const FINGER_LABELS: Record<FingerName, string> = {
+  index: '示指',
+  middle: '中指',
+  ring: '環指',
+  pinky: '小指',
+};
+
+/**
+ * 伸展不足を測定値とするステップ
+ * 開始姿勢（握り込み）からの変化量ではなく、伸ばしきった時点で残った伸展不足を記録する
+ */
+const DEFICIT_STEP_IDS: readonly string[] = ['finger-extension'];
+
+/**
+ * 開始姿勢からの角度の変化量をステップの測定値に変換
+ * 伸展不足のステップでは、開始姿勢の伸展不足から伸ばせた分を差し引いた値とする
+ *
+ * @param stepId ステップID
+ * @param change 開始姿勢からの角度の変化量
+ * @param baseAngle 開始姿勢の角度
+ */
+const toStepAngle = (
+  stepId: string,
+  change: number,
+  baseAngle: number
+): number =>
+  DEFICIT_STEP_IDS.includes(stepId) ? Math.max(0, baseAngle - change) : change;
+
+/**
+ * ステップの最新の測定結果（撮り直した場合は撮り直し後の結果）
+ */
+const findLatestStepResult = (
+  results: DBMeasurementResult[],
+  stepId: string
+): DBMeasurementResult | undefined =>
+  results
+    .filter((r) => r.stepId === stepId)
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+
+/**
+ * 指モードの測定結果からTAMを算出
+ * 握り込み・伸展の両ステップの指関節角度が揃っていない場合はnull
+ */
+const buildFingerRangeOfMotion = (
+  results: DBMeasurementResult[]
+): FingerRangeOfMotion | null => {
+  const flexion = findLatestStepResult(results, 'finger-flexion')?.fingerAngles;
+  const extension = findLatestStepResult(
+    results,
+    'finger-extension'
+  )?.fingerAngles;
+
+  if (!flexion || !extension) return null;
+
+  return angleCalculator.calculateTotalActiveMotion(flexion, extension);
+};
+
+/**
+ * 手首・母指モードの測定結果から保存する可動域測定データを構築
+ * 各ステップの最大角度と、その記録時の品質指標を使用する（根拠画像は測定結果にのみ保存する）
+ * 結果のないステップの項目は0度とし、測定した項目に含めない
+ */
+const buildMotionMeasurementInput = (
+  results: DBMeasurementResult[],
+  hand: HandSelection
+): CreateMeasurementInput => {
+  const maxAnglesMap = new Map<string, number>();
+  const qualityMetrics: MotionQualityMetrics = {};
+  const measuredFields: MotionAngleField[] = [];
+  measurementSteps.forEach((step) => {
+    const stepResults = results.filter((r) => r.stepId === step.id);
+    if (stepResults.length > 0) {
+      const maxResult = stepResults.reduce((max, r) =>
+        r.angle > max.angle ? r : max
+      );
+      maxAnglesMap.set(step.id, Math.round(maxResult.angle));
+      const field = STEP_MOTION_FIELDS[step.id];
+      if (field) measuredFields.push(field);
+      if (field && maxResult.qualityMetrics) {
+        qualityMetrics[field] = maxResult.qualityMetrics;
+      }
+    } else {
+      maxAnglesMap.set(step.id, 0); // データがない場合は0
+    }
+  });
+
+  const sessionId = results[0]?.sessionId;
+
+  return {
+    userId: 'test-user-id', // TODO: 実際のユーザーIDに置き換える
+    ...(sessionId ? { sessionId } : {}),
+    measurementDate: new Date(),
+    wristFlexion: maxAnglesMap.get('palmar-flexion') || 0,
+    wristExtension: maxAnglesMap.get('dorsal-flexion') || 0,
+    wristUlnarDeviation: maxAnglesMap.get('ulnar-deviation') || 0,
+    wristRadialDeviation: maxAnglesMap.get('radial-deviation') || 0,
+    thumbFlexion: maxAnglesMap.get('thumb-flexion') || 0,
+    thumbExtension: maxAnglesMap.get('thumb-extension') || 0,
+    thumbAdduction: maxAnglesMap.get('thumb-adduction') || 0,
+    thumbAbduction: maxAnglesMap.get('thumb-abduction') || 0,
+    accuracyScore: 1.0, // TODO: 実際の精度スコアを計算して設定
+    handUsed: hand,
+    ...(Object.keys(qualityMetrics).length > 0 ? { qualityMetrics } : {}),
+    measuredFields,
+  };
+};
+
 /**
  * 説明セクションコンポーネント
  */
@@ -275,6 +684,8 @@ const InstructionsSection: React.FC<{
               <br />
               手首から指先までを正面から画面に収めてください。
               <br />
+              肘まで映すと、前腕の向きを基準により正確に測定できます。
+              <br />
             </p>
           </div>
 
@@ -284,7 +695,7 @@ const InstructionsSection: React.FC<{
               <h3 className={styles.stepTitle}>測定動作</h3>
             </div>
             <p className={styles.stepDescription}>
-              画面の指示に従い、手首(掌屈・背屈・尺屈・橈屈・回内・回外）をゆっくり最大まで動かしてください。
+              画面の指示に従い、手首(掌屈・背屈・尺屈・橈屈・回内・回外）と親指(屈曲・伸展・外転・内転）、または指(握り込み・伸展）をゆっくり最大まで動かしてください。
               <br />
               測定中はカメラから手が外れないよう注意してください。
             </p>
@@ -318,46 +729,120 @@ const InstructionsSection: React.FC<{
  */
 const HandSelectionSection: React.FC<{
   selectedHand: HandSelection | null;
+  mode: MeasurementMode;
+  goniometerStudyMode: boolean;
+  bilateralMode: boolean;
+  sessionRecording: boolean;
   onHandSelect: (hand: HandSelection) => void;
-}> = ({ selectedHand, onHandSelect }) => {
+  onModeSelect: (mode: MeasurementMode) => void;
+  onGoniometerStudyModeChange: (enabled: boolean) => void;
+  onBilateralModeChange: (enabled: boolean) => void;
+  onSessionRecordingChange: (enabled: boolean) => void;
+}> = ({
+  selectedHand,
+  mode,
+  goniometerStudyMode,
+  bilateralMode,
+  sessionRecording,
+  onHandSelect,
+  onModeSelect,
+  onGoniometerStudyModeChange,
+  onBilateralModeChange,
+  onSessionRecordingChange,
+}) => {
+  const hands: HandSelection[] = ['left', 'right'];
+  const isBilateral = bilateralMode && mode === 'wrist';
+
   return (
     <div className={styles.handSelectionSection}>
       <h2 className={styles.selectionTitle}>
-        測定部位を選択してください
-        <span className={styles.selectionNote}> *どちらか選択してください</span>
+        {isBilateral
+          ? '患側（治療中の手）を選択してください'
+          : '測定部位を選択してください'}
+        <span className={styles.selectionNote}>
+          {isBilateral
+            ? ' *健側→患側の順に両手を測定します'
+            : ' *どちらか選択してください'}
+        </span>
       </h2>
 
-      <div className={styles.handCards}>
-        <div
-          className={`${styles.handCard} ${selectedHand === 'left' ? styles.selected : ''}`}
-          onClick={() => onHandSelect('left')}
+      {/* 測定モード切替 */}
+      <div className={styles.modeTabs}>
+        <button
+          type="button"
+          className={`${styles.modeTab} ${mode === 'wrist' ? styles.active : ''}`}
+          onClick={() => onModeSelect('wrist')}
         >
-          <h3 className={styles.handTitle}>左手首</h3>
-          <p className={styles.handDescription}>左手首の可動域を測定します</p>
-          <div className={styles.movementTags}>
-            <span className={styles.tag}>掌屈</span>
-            <span className={styles.tag}>背屈</span>
-            <span className={styles.tag}>尺屈</span>
-            <span className={styles.tag}>橈屈</span>
-            <span className={styles.tag}>回内</span>
-            <span className={styles.tag}>回外</span>
-          </div>
-        </div>
-        <div
-          className={`${styles.handCard} ${selectedHand === 'right' ? styles.selected : ''}`}
-          onClick={() => onHandSelect('right')}
+          手首・母指
+        </button>
+        <button
+          type="button"
+          className={`${styles.modeTab} ${mode === 'finger' ? styles.active : ''}`}
+          onClick={() => onModeSelect('finger')}
         >
-          <h3 className={styles.handTitle}>右手首</h3>
-          <p className={styles.handDescription}>右手首の可動域を測定します</p>
-          <div className={styles.movementTags}>
-            <span className={styles.tag}>掌屈</span>
-            <span className={styles.tag}>背屈</span>
-            <span className={styles.tag}>尺屈</span>
-            <span className={styles.tag}>橈屈</span>
-            <span className={styles.tag}>回内</span>
-            <span className={styles.tag}>回外</span>
-          </div>
-        </div>
+          手指（MCP・PIP・DIP）
+        </button>
+      </div>
+
+      {/* ゴニオメーター比較モード */}
+      <label className={styles.studyModeToggle}>
+        <input
+          type="checkbox"
+          checked={goniometerStudyMode}
+          onChange={(e) => onGoniometerStudyModeChange(e.target.checked)}
+        />
+        ゴニオメーター比較モード（各ステップの後にゴニオメーター値を入力）
+      </label>
+
+      {/* 左右比較測定（手首・母指モードのみ） */}
+      <label className={styles.studyModeToggle}>
+        <input
+          type="checkbox"
+          checked={isBilateral}
+          disabled={mode !== 'wrist'}
+          onChange={(e) => onBilateralModeChange(e.target.checked)}
+        />
+        左右比較モード（健側と患側の両手を続けて測定し、左右差を算出）
+      </label>
+
+      {/* 測定セッションの録画 */}
+      <label className={styles.studyModeToggle}>
+        <input
+          type="checkbox"
+          checked={sessionRecording}
+          onChange={(e) => onSessionRecordingChange(e.target.checked)}
+        />
+        測定を録画する（カメラ映像を端末内に保存し、後からランドマークと角度を重ねて確認）
+      </label>
+
+      <div className={styles.handCards}>
+        {hands.map((hand) => {
+          const side = hand === 'left' ? '左' : '右';
+          return (
+            <div
+              key={hand}
+              className={`${styles.handCard} ${selectedHand === hand ? styles.selected : ''}`}
+              onClick={() => onHandSelect(hand)}
+            >
+              <h3 className={styles.handTitle}>
+                {side}
+                {mode === 'finger' ? '手指' : '手首'}
+              </h3>
+              <p className={styles.handDescription}>
+                {mode === 'finger'
+                  ? `${side}手の示指〜小指の関節可動域（TAM）を測定します`
+                  : `${side}手首と${side}母指の可動域を測定します`}
+              </p>
+              <div className={styles.movementTags}>
+                {measurementStepsByMode[mode].map((step) => (
+                  <span key={step.id} className={styles.tag}>
+                    {step.name}
+                  </span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -375,6 +860,8 @@ const MeasurementExecution: React.FC<{
   onStopMeasurement: () => void;
   onStartCapture: () => void;
   onRetake: () => void;
+  goniometerStudyMode: boolean;
+  onRecordGoniometer: (angle: number) => void;
 }> = ({
   setup,
   onBack,
@@ -384,8 +871,27 @@ const MeasurementExecution: React.FC<{
   onStopMeasurement,
   onStartCapture,
   onRetake,
+  goniometerStudyMode,
+  onRecordGoniometer,
 }) => {
-  const currentStep = measurementSteps[setup.currentMeasurementStep];
+  const steps = measurementStepsByMode[setup.mode];
+  const currentStep = steps[setup.currentMeasurementStep];
+  const [goniometerInput, setGoniometerInput] = useState('');
+
+  // ステップが変わったら入力欄をクリア
+  useEffect(() => {
+    setGoniometerInput('');
+  }, [setup.currentMeasurementStep]);
+
+  // 比較モードではゴニオメーター値を記録するまで次に進めない
+  const isGoniometerPending =
+    goniometerStudyMode && setup.isPhotoTaken && setup.goniometerAngle === null;
+  const goniometerValue = Number(goniometerInput);
+  const isGoniometerInputValid =
+    goniometerInput.trim() !== '' &&
+    Number.isFinite(goniometerValue) &&
+    goniometerValue >= 0 &&
+    goniometerValue <= 180;
 
   if (!currentStep) {
     return <div>測定ステップが見つかりません</div>;
@@ -395,7 +901,7 @@ const MeasurementExecution: React.FC<{
     <div className={styles.measurementExecution}>
       {/* 測定部位タグ */}
       <div className={styles.measurementTags}>
-        {measurementSteps.map((step, index) => (
+        {steps.map((step, index) => (
           <span
             key={step.id}
             className={`${styles.measurementTag} ${
@@ -443,6 +949,17 @@ const MeasurementExecution: React.FC<{
         <div className={styles.statusContainer}>
           {!setup.mediaPipeReady ? (
             <p className={styles.loadingStatus}>MediaPipe初期化中...</p>
+          ) : setup.isCalibrating ? (
+            <p
+              className={
+                setup.calibration?.status === 'wrong-orientation' ||
+                setup.calibration?.status === 'unstable'
+                  ? styles.waitingStatus
+                  : styles.detectedStatus
+              }
+            >
+              {getCalibrationMessage(setup.calibration)}
+            </p>
           ) : setup.currentAngle > 0 ? (
             <p className={styles.detectedStatus}>✓ 手を検出中 - 測定中</p>
           ) : (
@@ -451,9 +968,72 @@ const MeasurementExecution: React.FC<{
               手をカメラに向けてください
             </p>
           )}
+          {setup.isCalibrating && setup.calibration && (
+            <p className={styles.subInstruction}>
+              手の向き:{' '}
+              {setup.calibration.detectedView
+                ? HAND_VIEW_LABELS[setup.calibration.detectedView]
+                : '判定中'}
+              {setup.calibration.detectedView === setup.calibration.requiredView
+                ? ' ✓'
+                : `（${HAND_VIEW_LABELS[setup.calibration.requiredView]}に合わせると測定を開始します）`}
+            </p>
+          )}
+          {setup.countdown !== null && setup.peak && (
+            <p
+              className={
+                setup.peak.status === 'rejected'
+                  ? styles.waitingStatus
+                  : styles.detectedStatus
+              }
+            >
+              {getPeakMessage(setup.peak, (change) =>
+                toStepAngle(currentStep.id, change, setup.baseAngle ?? 0)
+              )}
+            </p>
+          )}
+          {setup.forearmAxisMethod && (
+            <p className={styles.subInstruction}>
+              {setup.forearmAxisMethod === 'pose'
+                ? '前腕軸: 肘と手首の位置から測定'
+                : '前腕軸: 手の形から推定（肘まで映すと精度が上がります）'}
+            </p>
+          )}
         </div>
       </div>
 
+      {/* ゴニオメーター値の入力（比較モードのみ） */}
+      {goniometerStudyMode && setup.isPhotoTaken && (
+        <div className={styles.goniometerEntry}>
+          <label className={styles.goniometerLabel}>
+            ゴニオメーター測定値
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={180}
+              step={1}
+              value={goniometerInput}
+              onChange={(e) => setGoniometerInput(e.target.value)}
+              className={styles.goniometerInput}
+            />
+            °
+          </label>
+          <Button
+            variant="secondary"
+            onClick={() => onRecordGoniometer(goniometerValue)}
+            disabled={!isGoniometerInputValid}
+          >
+            記録
+          </Button>
+          <p className={styles.subInstruction}>
+            {setup.goniometerAngle !== null
+              ? `記録済み: AI ${setup.currentAngle}° / ゴニオメーター ${setup.goniometerAngle}°`
+              : '同じ肢位でゴニオメーターで測定した値を入力してください'}
+          </p>
+        </div>
+      )}
+
       {/* コントロールボタン */}
       <div className={styles.controls}>
         <Button variant="outline" onClick={onStopMeasurement}>
@@ -463,19 +1043,25 @@ const MeasurementExecution: React.FC<{
           <Button
             variant="primary"
             onClick={onStartCapture}
-            disabled={setup.countdown !== null}
+            disabled={setup.countdown !== null || setup.isCalibrating}
           >
-            {setup.countdown !== null
-              ? `測定中... ${setup.countdown}`
-              : '測定を開始'}
+            {setup.isCalibrating
+              ? 'キャリブレーション中...'
+              : setup.countdown !== null
+                ? `測定中... ${setup.countdown}`
+                : '測定を開始'}
           </Button>
         ) : (
           <>
             <Button variant="secondary" onClick={onRetake}>
               撮り直す
             </Button>
-            <Button variant="primary" onClick={onNextStep}>
-              {setup.currentMeasurementStep < measurementSteps.length - 1
+            <Button
+              variant="primary"
+              onClick={onNextStep}
+              disabled={isGoniometerPending}
+            >
+              {setup.currentMeasurementStep < steps.length - 1
                 ? '次のフェーズ'
                 : '完了'}
             </Button>
@@ -495,7 +1081,17 @@ const MeasurementInfoSection: React.FC<{
   selectedHand: HandSelection | null;
   onCameraTest: () => void;
   onStartMeasurement: () => void;
-}> = ({ selectedHand, onCameraTest, onStartMeasurement }) => {
+  onVideoMeasurement: () => void;
+  onTremorTest: () => void;
+  onPlayback: () => void;
+}> = ({
+  selectedHand,
+  onCameraTest,
+  onStartMeasurement,
+  onVideoMeasurement,
+  onTremorTest,
+  onPlayback,
+}) => {
   return (
     <div className={styles.measurementInfoSection}>
       <h2 className={styles.infoSectionTitle}>測定について</h2>
@@ -523,6 +1119,15 @@ const MeasurementInfoSection: React.FC<{
 
       {/* ボタンセクション */}
       <div className={styles.bottomSection}>
+        <Button variant="outline" onClick={onVideoMeasurement}>
+          動画ファイルから測定
+        </Button>
+        <Button variant="outline" onClick={onTremorTest}>
+          振戦検査
+        </Button>
+        <Button variant="outline" onClick={onPlayback}>
+          録画を確認
+        </Button>
         <Button
           variant={!selectedHand ? 'disabled' : 'primary'}
           onClick={onStartMeasurement}
@@ -625,30 +1230,128 @@ const CameraPreview: React.FC<{
  */
 const MeasurementResultSection: React.FC<{
   results: DBMeasurementResult[];
+  mode: MeasurementMode;
+  bilateral: BilateralSessionLink | null;
   onSave: () => void;
   onRetry: () => void;
-}> = ({ results, onSave, onRetry }) => {
-  // 各ステップの最大角度を計算
-  const maxAngles = measurementSteps.map((step) => {
-    const stepResults = results.filter((r) => r.stepId === step.id);
+}> = ({ results, mode, bilateral, onSave, onRetry }) => {
+  // 左右比較測定では患側の結果を表示し、健側との差を併記
+  // （健側の途中で終了した場合は健側の結果のみ）
+  const affectedHand =
+    bilateral && results.some((r) => r.hand === bilateral.affectedHand)
+      ? bilateral.affectedHand
+      : null;
+  const displayResults = affectedHand
+    ? results.filter((r) => r.hand === affectedHand)
+    : results;
+  const deficits = bilateral
+    ? calculateBilateralDeficits(results, bilateral.affectedHand)
+    : [];
+
+  // 各ステップの最大角度と、その記録時の品質指標・角度の推移を取得
+  const maxAngles = measurementStepsByMode[mode].map((step) => {
+    const stepResults = displayResults.filter((r) => r.stepId === step.id);
     if (stepResults.length === 0) {
-      return { name: step.name, angle: 0 };
+      return {
+        stepId: step.id,
+        name: step.name,
+        angle: 0,
+        qualityMetrics: undefined,
+        angleSeries: undefined,
+      };
     }
-    const maxAngle = Math.max(...stepResults.map((r) => r.angle));
-    return { name: step.name, angle: Math.round(maxAngle) };
+    const maxResult = stepResults.reduce((max, r) =>
+      r.angle > max.angle ? r : max
+    );
+    return {
+      stepId: step.id,
+      name: step.name,
+      angle: Math.round(maxResult.angle),
+      qualityMetrics: maxResult.qualityMetrics,
+      angleSeries: maxResult.angleSeries,
+    };
   });
 
+  const fingerRangeOfMotion =
+    mode === 'finger' ? buildFingerRangeOfMotion(results) : null;
+
   return (
     <div className={styles.resultSection}>
-      <h1 className={styles.resultTitle}>測定結果</h1>
+      <h1 className={styles.resultTitle}>
+        測定結果{affectedHand ? '（患側）' : ''}
+      </h1>
       <div className={styles.resultSummary}>
         {maxAngles.map((result) => (
           <div key={result.name} className={styles.resultItem}>
-            <span className={styles.resultName}>{result.name}</span>
+            <div>
+              <span className={styles.resultName}>{result.name}</span>
+              {result.qualityMetrics && (
+                <p className={styles.resultDetail}>
+                  <QualityBadge metrics={result.qualityMetrics} />
+                </p>
+              )}
+            </div>
             <span className={styles.resultAngle}>{result.angle}°</span>
           </div>
         ))}
+        {fingerRangeOfMotion &&
+          (Object.keys(FINGER_LABELS) as FingerName[]).map((finger) => {
+            const flexion = fingerRangeOfMotion.flexion[finger];
+            return (
+              <div key={finger} className={styles.resultItem}>
+                <div>
+                  <span className={styles.resultName}>
+                    {FINGER_LABELS[finger]} TAM
+                  </span>
+                  <p className={styles.resultDetail}>
+                    MCP {Math.round(flexion.mcp)}° / PIP{' '}
+                    {Math.round(flexion.pip)}° / DIP {Math.round(flexion.dip)}°
+                  </p>
+                </div>
+                <span className={styles.resultAngle}>
+                  {Math.round(fingerRangeOfMotion.totalActiveMotion[finger])}°
+                </span>
+              </div>
+            );
+          })}
       </div>
+      {maxAngles.some((result) => result.angleSeries) && (
+        <>
+          <h2 className={styles.resultSubtitle}>角度の推移</h2>
+          <AngleTrajectoryChart
+            steps={maxAngles.map((result) => ({
+              stepId: result.stepId,
+              stepName: result.name,
+              ...(result.angleSeries
+                ? { angleSeries: result.angleSeries }
+                : {}),
+            }))}
+          />
+        </>
+      )}
+      {deficits.length > 0 && (
+        <>
+          <h2 className={styles.resultSubtitle}>左右差（健側との比較）</h2>
+          <div className={styles.resultSummary}>
+            {deficits.map((deficit) => (
+              <div key={deficit.stepId} className={styles.resultItem}>
+                <div>
+                  <span className={styles.resultName}>{deficit.stepName}</span>
+                  <p className={styles.resultDetail}>
+                    健側 {Math.round(deficit.unaffectedAngle)}° / 患側{' '}
+                    {Math.round(deficit.affectedAngle)}°
+                  </p>
+                </div>
+                <span className={styles.resultAngle}>
+                  {Math.round(deficit.deficitDegrees)}°
+                  {deficit.deficitPercent !== null &&
+                    `（${Math.round(deficit.deficitPercent)}%）`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
       <div className={styles.resultControls}>
         <Button variant="secondary" onClick={onRetry}>
           最初からやり直す
@@ -669,15 +1372,20 @@ const InstructionModal: React.FC<{
   onClose: () => void;
   onComplete?: () => void;
   selectedHand: HandSelection | null;
+  mode: MeasurementMode;
   currentMeasurementStep?: number;
+  bilateral?: BilateralSessionLink | null;
 }> = ({
   isOpen,
   onClose,
   onComplete,
   selectedHand,
+  mode,
   currentMeasurementStep = 0,
+  bilateral = null,
 }) => {
   const [step, setStep] = useState<'intro' | 'video'>('intro');
+  const currentStep = measurementStepsByMode[mode][currentMeasurementStep];
 
   useEffect(() => {
     if (isOpen) {
@@ -710,7 +1418,12 @@ const InstructionModal: React.FC<{
           <div className={styles.introText}>
             <p>
               これから{selectedHand === 'right' ? '右' : '左'}
-              手首を測定していきます。
+              {mode === 'finger' ? '手指' : '手首'}
+              {bilateral &&
+                (bilateral.affectedHand === selectedHand
+                  ? '（患側）'
+                  : '（健側）')}
+              を測定していきます。
             </p>
             <p>この後に説明が流れますので説明に従って</p>
             <p>測定を行なってください</p>
@@ -725,9 +1438,9 @@ const InstructionModal: React.FC<{
           {/* 右側に白枠の動画プレビュー */}
           <div className={styles.previewImageWrapper}>
             <div className={styles.previewImageBorder}>
-              {measurementSteps[currentMeasurementStep] && (
+              {currentStep?.videoPath && (
                 <video
-                  src={measurementSteps[currentMeasurementStep].videoPath}
+                  src={currentStep.videoPath}
                   className={styles.previewVideo}
                   autoPlay
                   loop
@@ -740,17 +1453,14 @@ const InstructionModal: React.FC<{
 
           {/* オーバーレイに直接配置されたテキスト */}
           <div className={styles.overlayText}>
-            {measurementSteps[currentMeasurementStep] && (
+            {currentStep && (
               <>
                 <h2 className={styles.stepTitle}>
-                  step{currentMeasurementStep + 1}.{' '}
-                  {measurementSteps[currentMeasurementStep].name}
+                  step{currentMeasurementStep + 1}. {currentStep.name}
                 </h2>
-                {measurementSteps[currentMeasurementStep].videoInstructions.map(
-                  (instruction, index) => (
-                    <p key={index}>{instruction}</p>
-                  )
-                )}
+                {currentStep.videoInstructions.map((instruction, index) => (
+                  <p key={index}>{instruction}</p>
+                ))}
               </>
             )}
           </div>
@@ -777,6 +1487,16 @@ const InstructionModal: React.FC<{
 const MeasurementPage: React.FC = () => {
   const router = useRouter();
   const { saveMotionMeasurement } = useMeasurementService();
+  const [goniometerStudyMode, setGoniometerStudyMode] = useAtom(
+    goniometerStudyModeAtom
+  );
+  const contralateralTarget = useAtomValue(contralateralTargetAtom);
+  const [sessionRecording, setSessionRecording] = useAtom(sessionRecordingAtom);
+
+  // 左右比較モード（測定開始時に健側→患側の測定順を決定）
+  const [bilateralMode, setBilateralMode] = useState(false);
+  // 左右比較測定で患側の目標とする健側の角度（健側を目標にする設定が有効な場合のみ）
+  const contralateralTargetsRef = useRef<Record<string, number>>({});
 
   const [measurementResults, setMeasurementResults] = useState<
     DBMeasurementResult[]
@@ -788,6 +1508,7 @@ const MeasurementPage: React.FC = () => {
   // 測定セットアップ状態管理
   const [setup, setSetup] = useState<MeasurementSetup>({
     selectedHand: null,
+    mode: 'wrist',
     currentStep: 'instructions',
     currentMeasurementStep: 0,
     currentAngle: 0,
@@ -798,10 +1519,53 @@ const MeasurementPage: React.FC = () => {
     isCapturing: false,
     countdown: null,
     isPhotoTaken: false,
+    forearmAxisMethod: null,
+    isCalibrating: false,
+    calibration: null,
+    peak: null,
+    goniometerAngle: null,
+    bilateral: null,
   });
 
-  // 各フェーズの最大角度を保持
-  const maxAngleRef = useRef<number>(0);
+  // 測定中は手を使わずに操作するため、自動ロックを保留する（録画も測定中のみ行う）
+  usePauseAutoLock(
+    setup.currentStep === 'measurement' && setup.phase !== 'complete'
+  );
+
+  // 各フェーズの最大角度（一定時間保持された角度のみ採用）
+  const peakDetectorRef = useRef(new PeakDetector());
+  const peakFrameRef = useRef<PeakFrame | null>(null);
+  const holdFramesRef = useRef<HoldFrame[]>([]);
+
+  /**
+   * 最大角度の保持確認をリセット
+   */
+  const resetPeakDetection = useCallback(() => {
+    peakDetectorRef.current.reset();
+    peakFrameRef.current = null;
+    holdFramesRef.current = [];
+  }, []);
+
+  // 測定品質の評価（ステップ中のフレームごとの品質指標）
+  const qualityAnalyzerRef = useRef(new QualityAnalyzer());
+  const qualityFramesRef = useRef<QualityMetrics[]>([]);
+  const qualityCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastImageCaptureRef = useRef(0);
+
+  /**
+   * 測定品質の評価をリセット
+   */
+  const resetQualityAnalysis = useCallback(() => {
+    qualityAnalyzerRef.current.reset();
+    qualityFramesRef.current = [];
+    lastImageCaptureRef.current = 0;
+  }, []);
+
+  // ステップ中の角度の時系列（キャリブレーション開始から記録）
+  const angleSeriesRef = useRef<AngleSeriesRecorder | null>(null);
+
+  // 測定セッションの録画（録画する設定が有効な場合のみ）
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null);
 
   // カメラ状態管理
   const [cameraState, setCameraState] = useState<CameraState>({
@@ -812,12 +1576,42 @@ const MeasurementPage: React.FC = () => {
 
   // MediaPipe関連のref
   const videoRef = useRef<HTMLVideoElement>(null);
-  const handsRef = useRef<Hands | null>(null);
+  const handTrackingBackend = useAtomValue(handTrackingBackendAtom);
+  const handTrackerRef = useRef<HandTrackingBackend | null>(null);
+  const poseDetectorRef = useRef<PoseDetector | null>(null);
+  const poseResultRef = useRef<PoseDetectionResult | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationFrameRef = useRef<number>();
 
-  // 最後の角度更新時刻
-  const lastAngleUpdateRef = useRef<number>(0);
+  // 角度・ランドマークの平滑化フィルター
+  const smoothingSettings = useAtomValue(smoothingSettingsAtom);
+  const smoothingSettingsRef = useRef(smoothingSettings);
+  const frameProcessorRef = useRef(new HandFrameProcessor(smoothingSettings));
+
+  // 検出・角度計算をWorkerで行うパイプライン（利用できない場合はメインスレッドで処理）
+  const handTrackingPipelineRef = useRef<HandTrackingPipeline | null>(null);
+
+  // 設定変更時にフィルターを作り直す
+  useEffect(() => {
+    smoothingSettingsRef.current = smoothingSettings;
+    frameProcessorRef.current.setSmoothing(smoothingSettings);
+    handTrackingPipelineRef.current?.configure(smoothingSettings);
+  }, [smoothingSettings]);
+
+  /**
+   * 平滑化フィルターの履歴をリセット
+   */
+  const resetSmoothingFilters = useCallback(() => {
+    frameProcessorRef.current.reset();
+    handTrackingPipelineRef.current?.reset();
+  }, []);
+
+  // 中間位キャリブレーション
+  const calibratorRef = useRef<NeutralCalibrator | null>(null);
+  // 0度基準を確定したときのランドマーク（根拠画像の基準軸に使用）
+  const calibrationLandmarksRef = useRef<Point3D[] | null>(null);
+
+  const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   // 最新のsetup状態を参照するためのref
   const setupRef = useRef(setup);
@@ -827,8 +1621,6 @@ const MeasurementPage: React.FC = () => {
     setupRef.current = setup;
   }, [setup]);
 
-  const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
   /**
    * ランドマークをキャンバスに描画
    */
@@ -882,14 +1674,37 @@ const MeasurementPage: React.FC = () => {
    * 測定結果をデータベースに保存
    */
   const saveMeasurementToDatabase = useCallback(
-    async (angle: number, landmarks: Point3D[]) => {
-      const { sessionId, selectedHand, currentMeasurementStep } =
-        setupRef.current;
+    async (
+      angle: number,
+      landmarks: Point3D[],
+      forearmAxisMethod: ForearmAxisMethod,
+      forearm: ForearmLandmarks | null,
+      qualityMetrics: QualityMetrics | null,
+      angleSeries: AngleSeries | null,
+      evidenceImage: string | null,
+      holdLandmarks: Point3D[][]
+    ) => {
+      const {
+        sessionId,
+        selectedHand,
+        mode,
+        currentMeasurementStep,
+        bilateral,
+      } = setupRef.current;
       if (!sessionId || !selectedHand) return;
 
-      const currentStep = measurementSteps[currentMeasurementStep];
+      const currentStep = measurementStepsByMode[mode][currentMeasurementStep];
       if (!currentStep) return;
 
+      // 患側の測定では健側の角度を目標とする（設定が有効な場合のみ）
+      const contralateralTargetAngle =
+        bilateral?.affectedHand === selectedHand
+          ? contralateralTargetsRef.current[currentStep.id]
+          : undefined;
+      const kinematics = angleSeries
+        ? calculateMovementKinematics(angleSeries)
+        : null;
+
       try {
         await db.saveMeasurementResult({
           sessionId: sessionId,
@@ -897,9 +1712,31 @@ const MeasurementPage: React.FC = () => {
           stepId: currentStep.id,
           stepName: currentStep.name,
           angle,
-          targetAngle: currentStep.targetAngle,
+          targetAngle: contralateralTargetAngle ?? currentStep.targetAngle,
           isCompleted: false,
           landmarks,
+          forearmAxisMethod,
+          algorithmVersion: ANGLE_ALGORITHM_VERSION,
+          ...(forearm ? { forearm } : {}),
+          ...(holdLandmarks.length > 0
+            ? {
+                holdLandmarks: holdLandmarks.map((frame) =>
+                  frame.map(({ x, y, z }) => ({ x, y, z }))
+                ),
+              }
+            : {}),
+          ...(qualityMetrics ? { qualityMetrics } : {}),
+          ...(angleSeries ? { angleSeries } : {}),
+          ...(kinematics ? { kinematics } : {}),
+          ...(evidenceImage ? { evidenceImage } : {}),
+          ...(mode === 'finger'
+            ? {
+                fingerAngles: angleCalculator.calculateFingerAngles(
+                  landmarks,
+                  selectedHand
+                ),
+              }
+            : {}),
         });
       } catch (error) {
         console.error('測定結果の保存エラー:', error);
@@ -909,96 +1746,386 @@ const MeasurementPage: React.FC = () => {
   );
 
   /**
-   * 手の検出結果を処理
+   * 中間位キャリブレーション結果をデータベースに保存
    */
-  const processHandResults = useCallback(
-    (results: any) => {
-      if (!setupRef.current.isCapturing) {
-        return;
+  const saveCalibrationToDatabase = useCallback(
+    async (calibration: NeutralCalibration) => {
+      const { sessionId } = setupRef.current;
+      if (!sessionId) return;
+
+      try {
+        await db.saveCalibration(sessionId, calibration);
+      } catch (error) {
+        console.error('キャリブレーションの保存エラー:', error);
       }
+    },
+    []
+  );
 
-      if (
-        !results.multiHandLandmarks ||
-        results.multiHandLandmarks.length === 0
-      ) {
-        setSetup((prev) => ({ ...prev, currentAngle: 0 }));
-        return;
+  /**
+   * 測定セッションの録画を開始（録画する設定が有効な場合のみ）
+   */
+  const startSessionRecording = useCallback(
+    (stream: MediaStream) => {
+      if (!sessionRecording || !SessionRecorder.isSupported()) return;
+
+      try {
+        const recorder = new SessionRecorder();
+        recorder.start(stream, performance.now());
+        sessionRecorderRef.current = recorder;
+      } catch (error) {
+        console.error('録画の開始エラー:', error);
+      }
+    },
+    [sessionRecording]
+  );
+
+  /**
+   * 測定セッションの録画を停止してデータベースに保存
+   */
+  const saveSessionRecording = useCallback(async () => {
+    const recorder = sessionRecorderRef.current;
+    sessionRecorderRef.current = null;
+    if (!recorder) return;
+
+    const { sessionId, selectedHand } = setupRef.current;
+    if (!sessionId || !selectedHand) {
+      recorder.cancel();
+      return;
+    }
+
+    try {
+      const recording = await recorder.stop(performance.now());
+      if (recording) {
+        await db.saveSessionRecording({
+          sessionId,
+          hand: selectedHand,
+          ...recording,
+        });
       }
+    } catch (error) {
+      console.error('録画の保存エラー:', error);
+    }
+  }, []);
+
+  /**
+   * 録画中のフレームのランドマークと角度を記録
+   */
+  const recordFrame = useCallback(
+    (
+      timestampMs: number,
+      landmarks: Point3D[] | null,
+      angle: number | null
+    ) => {
+      const recorder = sessionRecorderRef.current;
+      if (!recorder) return;
+
+      const { mode, currentMeasurementStep } = setupRef.current;
+      const stepId = measurementStepsByMode[mode][currentMeasurementStep]?.id;
+      if (!stepId) return;
+
+      recorder.addFrame(timestampMs, { stepId, landmarks, angle });
+    },
+    []
+  );
+
+  /**
+   * 保持により確定した最大角度をデータベースに保存
+   */
+  const saveConfirmedPeak = useCallback(() => {
+    const peakFrame = peakFrameRef.current;
+    if (!peakFrame) return;
+
+    // 最大角度を保持したままの姿勢のフレームに軸線と角度を描き、数値を確認できる根拠画像とする
+    // 画像の取得は保存時の1回のみとし、品質評価用のキャンバスを使い回す
+    const { mode, currentMeasurementStep } = setupRef.current;
+    const currentStep = measurementStepsByMode[mode][currentMeasurementStep];
+    let image: ImageData | null = null;
+    if (videoRef.current) {
+      qualityCanvasRef.current ??= document.createElement('canvas');
+      image = captureVideoFrame(videoRef.current, qualityCanvasRef.current);
+    }
+    const evidenceImage =
+      image && currentStep
+        ? renderEvidenceSnapshot({
+            image,
+            landmarks: peakFrame.landmarks,
+            referenceLandmarks: calibrationLandmarksRef.current,
+            forearm: peakFrame.forearm,
+            stepId: currentStep.id,
+            angle: peakFrame.angle,
+            label: currentStep.name,
+          })
+        : null;
+
+    saveMeasurementToDatabase(
+      peakFrame.angle,
+      peakFrame.landmarks,
+      peakFrame.method,
+      peakFrame.forearm,
+      aggregateQualityMetrics(qualityFramesRef.current),
+      angleSeriesRef.current?.getSeries() ?? null,
+      evidenceImage,
+      peakFrame.holdLandmarks
+    );
+  }, [saveMeasurementToDatabase]);
+
+  /**
+   * カウントダウンを開始し、終了時の確定済み最大角度を測定値とする
+   */
+  const startCountdown = useCallback(() => {
+    if (countdownIntervalRef.current) {
+      clearInterval(countdownIntervalRef.current);
+    }
 
-      // 複数の手から対象の手を探す
-      let targetHandIndex = -1;
-      for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-        const handedness = results.multiHandedness?.[i]?.label || 'Right';
+    setSetup((prev) => ({ ...prev, countdown: 3 }));
 
-        // MediaPipeのhandednessはカメラ視点（鏡像）なので、実際の左右を判定する
-        // カメラに映った「Right」は実際には左手、「Left」は実際には右手
-        const detectedHand = handedness === 'Right' ? 'left' : 'right';
+    countdownIntervalRef.current = setInterval(() => {
+      // 最後のカウントで確定済みの最大角度を保存
+      const { countdown } = setupRef.current;
+      if (countdown !== null && countdown <= 1) {
+        saveConfirmedPeak();
+      }
 
-        if (detectedHand === setupRef.current.selectedHand) {
-          targetHandIndex = i;
-          break;
+      setSetup((prev) => {
+        if (prev.countdown === null) {
+          if (countdownIntervalRef.current)
+            clearInterval(countdownIntervalRef.current);
+          return prev;
+        }
+        if (prev.countdown <= 1) {
+          if (countdownIntervalRef.current) {
+            clearInterval(countdownIntervalRef.current);
+          }
+          // カウントダウン終了時に最大角度を現在の角度として設定
+          const finalAngle = Math.round(
+            peakFrameRef.current?.angle ??
+              peakDetectorRef.current.getConfirmedPeak() ??
+              0
+          );
+          return {
+            ...prev,
+            countdown: null,
+            isPhotoTaken: true,
+            isCapturing: false,
+            currentAngle: finalAngle, // 最大角度を保存
+          };
         }
+        return { ...prev, countdown: prev.countdown - 1 };
+      });
+    }, 1000);
+  }, [saveConfirmedPeak]);
+
+  /**
+   * 直近のPose検出結果から測定対象の手の前腕ランドマークを取得
+   */
+  const getCurrentForearm = useCallback(
+    (hand: HandSelection): ForearmLandmarks | null => {
+      const poseResult = poseResultRef.current;
+      return poseResult &&
+        Date.now() - poseResult.timestamp < POSE_RESULT_MAX_AGE_MS
+        ? (poseResult.forearms[hand] ?? null)
+        : null;
+    },
+    []
+  );
+
+  /**
+   * 平滑化・角度計算を終えたフレームを測定に反映
+   * メインスレッドでの検出とWorkerでの検出の両方から呼び出す
+   */
+  const applyHandFrame = useCallback(
+    (frame: ProcessedHandFrame) => {
+      if (!setupRef.current.isCapturing) {
+        return;
       }
 
-      // 対象の手が見つからない場合
-      if (targetHandIndex === -1) {
+      const currentStep =
+        measurementStepsByMode[setupRef.current.mode][
+          setupRef.current.currentMeasurementStep
+        ];
+      // 以前のステップのフレームは破棄
+      if (!currentStep || currentStep.id !== frame.stepId) {
+        return;
+      }
+
+      const now = frame.timestampMs;
+      const { landmarks, smoothedLandmarks, angle, method, forearm } = frame;
+
+      if (frame.status === 'missing' || frame.status === 'other-hand') {
+        angleSeriesRef.current?.addSample(now, null);
+        recordFrame(now, null, null);
         setSetup((prev) => ({ ...prev, currentAngle: 0 }));
         // 対象外の手のランドマークは描画しない
-        drawLandmarks({ multiHandLandmarks: [], multiHandedness: [] });
+        if (frame.status === 'other-hand') {
+          drawLandmarks({ multiHandLandmarks: [], multiHandedness: [] });
+        }
         return;
       }
 
       // 対象の手のみを描画
-      drawLandmarks({
-        multiHandLandmarks: [results.multiHandLandmarks[targetHandIndex]],
-        multiHandedness: [results.multiHandedness[targetHandIndex]],
-      });
-
-      const landmarks: Point3D[] = results.multiHandLandmarks[targetHandIndex];
+      drawLandmarks({ multiHandLandmarks: [landmarks], multiHandedness: [] });
 
-      if (!validateLandmarks(landmarks)) {
+      if (
+        frame.status === 'invalid' ||
+        !landmarks ||
+        !smoothedLandmarks ||
+        angle === null ||
+        method === null
+      ) {
+        angleSeriesRef.current?.addSample(now, null);
+        recordFrame(now, landmarks, null);
         setSetup((prev) => ({ ...prev, currentAngle: 0 }));
         return;
       }
 
-      const currentStep =
-        measurementSteps[setupRef.current.currentMeasurementStep];
-      if (!currentStep) {
+      angleSeriesRef.current?.addSample(now, angle);
+      const forearmAxisMethod = FOREARM_AXIS_STEP_IDS.includes(currentStep.id)
+        ? method
+        : null;
+
+      // 開始姿勢を一定フレーム保持したら、その角度を0度基準とする
+      if (setupRef.current.isCalibrating) {
+        recordFrame(now, landmarks, null);
+        const calibrator = calibratorRef.current;
+        if (!calibrator) return;
+
+        const calibration = calibrator.addSample({
+          angle,
+          palmCameraAlignment: frame.palmCameraAlignment,
+          view: frame.view,
+          timestampMs: now,
+        });
+        const result = calibrator.getCalibration();
+
+        if (!result) {
+          setSetup((prev) => ({
+            ...prev,
+            calibration,
+            currentAngle: 0,
+            forearmAxisMethod,
+          }));
+          return;
+        }
+
+        setupRef.current = {
+          ...setupRef.current,
+          isCalibrating: false,
+          baseAngle: result.referenceAngle,
+        };
+        angleSeriesRef.current?.setReference(now, result.referenceAngle);
+        calibrationLandmarksRef.current = smoothedLandmarks;
+        setSetup((prev) => ({
+          ...prev,
+          isCalibrating: false,
+          calibration,
+          baseAngle: result.referenceAngle,
+          currentAngle: 0,
+          forearmAxisMethod,
+        }));
+        // 角度計算の変更時に基準角度も再計算できるようランドマークを保存
+        saveCalibrationToDatabase({
+          ...result,
+          landmarks: smoothedLandmarks.map(({ x, y, z }) => ({ x, y, z })),
+          ...(forearm && method === 'pose' ? { forearm } : {}),
+        });
+        startCountdown();
+        return;
+      }
+
+      const baseAngle = setupRef.current.baseAngle;
+      if (baseAngle === null) {
+        recordFrame(now, landmarks, null);
         return;
       }
 
-      const rawAngle = calculateWristAngle(landmarks, currentStep.id);
+      // 相対角度（平滑化後の角度の基準角度からの変化量）
+      const relativeAngle = Math.abs(angle - baseAngle);
+      recordFrame(now, landmarks, relativeAngle);
 
-      const now = performance.now();
-      if (now - lastAngleUpdateRef.current > 100) {
-        setSetup((prev) => {
-          // 基準角度が未設定の場合、現在の角度を基準として設定
-          const baseAngle = prev.baseAngle !== null ? prev.baseAngle : rawAngle;
+      // 検出精度が中信頼度以上で一定時間保持された角度のみを最大角度とする
+      const detectionConfidence = frame.detectionConfidence ?? undefined;
+      const peak = peakDetectorRef.current.addSample({
+        angle: relativeAngle,
+        accuracy: frame.accuracy ?? 0,
+        timestampMs: now,
+      });
 
-          // 相対角度を計算（基準角度からの変化量の絶対値）
-          const relativeAngle = Math.abs(rawAngle - baseAngle);
+      // 保持中の平均角度を再計算できるよう、保持判定に含めたフレームのランドマークを残す
+      // （除外したフレームは保持判定に含めず、検出器が保持をやり直した場合のみ破棄する）
+      if (peak.status !== 'rejected') {
+        holdFramesRef.current = [
+          ...(peak.isHoldRestarted ? [] : holdFramesRef.current),
+          { timestampMs: now, landmarks },
+        ].slice(-MAX_HOLD_LANDMARK_FRAMES);
+      }
 
-          // 最大角度を更新
-          if (relativeAngle > maxAngleRef.current) {
-            maxAngleRef.current = relativeAngle;
-          }
+      // 測定中のフレームの品質を記録（画像は一定間隔でのみ取得）
+      let image: ImageData | null = null;
+      if (
+        videoRef.current &&
+        now - lastImageCaptureRef.current >= IMAGE_QUALITY_INTERVAL_MS
+      ) {
+        qualityCanvasRef.current ??= document.createElement('canvas');
+        image = captureVideoFrame(videoRef.current, qualityCanvasRef.current);
+        lastImageCaptureRef.current = now;
+      }
+      qualityFramesRef.current.push(
+        qualityAnalyzerRef.current.analyzeFrame({
+          landmarks,
+          image,
+          ...(detectionConfidence !== undefined ? { detectionConfidence } : {}),
+          timestampMs: now,
+        })
+      );
+      if (peak.isNewPeak && peak.confirmedPeak !== null) {
+        angleSeriesRef.current?.markPeak(now, peak.holdStartMs);
+        // データベースには確定した最大角度と生のランドマークを保存
+        peakFrameRef.current = {
+          angle: toStepAngle(currentStep.id, peak.confirmedPeak, baseAngle),
+          landmarks,
+          method,
+          forearm: method === 'pose' ? forearm : null,
+          holdLandmarks: holdFramesRef.current.map(
+            (holdFrame) => holdFrame.landmarks
+          ),
+        };
+      }
 
-          return {
-            ...prev,
-            baseAngle,
-            currentAngle: Math.round(relativeAngle),
-          };
-        });
-        lastAngleUpdateRef.current = now;
+      setSetup((prev) => ({
+        ...prev,
+        currentAngle: Math.round(
+          toStepAngle(currentStep.id, relativeAngle, baseAngle)
+        ),
+        forearmAxisMethod,
+        peak,
+      }));
+    },
+    [drawLandmarks, recordFrame, saveCalibrationToDatabase, startCountdown]
+  );
 
-        // データベースには相対角度を保存
-        const baseAngle = setupRef.current.baseAngle;
-        const relativeAngle =
-          baseAngle !== null ? Math.abs(rawAngle - baseAngle) : 0;
-        saveMeasurementToDatabase(relativeAngle, landmarks);
+  /**
+   * メインスレッドで検出した結果を処理
+   */
+  const processHandResults = useCallback(
+    (result: HandDetectionResult) => {
+      const { mode, currentMeasurementStep, selectedHand } = setupRef.current;
+      const stepId = measurementStepsByMode[mode][currentMeasurementStep]?.id;
+      if (!setupRef.current.isCapturing || !stepId || !selectedHand) {
+        return;
       }
+
+      applyHandFrame(
+        frameProcessorRef.current.process({
+          timestampMs: performance.now(),
+          hands: toDetectedHands(result, handTrackerRef.current?.capabilities),
+          stepId,
+          hand: selectedHand,
+          forearm: getCurrentForearm(selectedHand),
+        })
+      );
     },
-    [drawLandmarks, saveMeasurementToDatabase]
+    [applyHandFrame, getCurrentForearm]
   );
 
   /**
@@ -1008,33 +2135,74 @@ const MeasurementPage: React.FC = () => {
     try {
       console.log('MediaPipe初期化開始...');
 
-      // MediaPipeライブラリの動的読み込み
-      const { Hands } = await import('@mediapipe/hands');
-
       if (!videoRef.current) {
         console.error('Video element not found');
         return;
       }
 
-      const hands = new Hands({
-        locateFile: (file) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-      });
-
-      hands.setOptions({
-        maxNumHands: 2, // 両手を検出して対象の手を選択
-        modelComplexity: 1,
-        minDetectionConfidence: 0.3,
-        minTrackingConfidence: 0.2,
-      });
-
-      hands.onResults((results) => {
-        if (setupRef.current.currentStep === 'measurement') {
-          processHandResults(results);
+      // 推論・角度計算はWorkerで行い、UIの更新と競合しないようにする
+      // （Worker内で動作しないバックエンドを選択している場合はHandLandmarkerで検出する）
+      if (HandTrackingPipeline.isSupported()) {
+        try {
+          const { createHandTrackingWorker } = await import(
+            '@/lib/mediapipe/create-hand-tracking-worker'
+          );
+          const pipeline = new HandTrackingPipeline(createHandTrackingWorker, {
+            onResult: (frame) => {
+              if (setupRef.current.currentStep === 'measurement') {
+                applyHandFrame(frame);
+              }
+            },
+            onError: (error) => {
+              console.error('手の検出Workerのエラー:', error);
+            },
+          });
+          await pipeline.initialize(
+            smoothingSettingsRef.current,
+            resolveWorkerBackend(handTrackingBackend),
+            HAND_TRACKING_OPTIONS
+          );
+          handTrackingPipelineRef.current = pipeline;
+        } catch (error) {
+          console.warn(
+            'Workerでの手の検出に失敗、メインスレッドで検出します:',
+            error
+          );
         }
-      });
+      }
 
-      handsRef.current = hands;
+      // Workerを利用できない場合はメインスレッドで検出
+      if (!handTrackingPipelineRef.current) {
+        const tracker = await createHandTrackingBackend(
+          handTrackingBackend,
+          HAND_TRACKING_OPTIONS
+        );
+        await tracker.initialize();
+        handTrackerRef.current = tracker;
+      }
+
+      // 前腕軸取得用のMediaPipe Pose（失敗時は手のみの推定で測定を継続）
+      try {
+        const { PoseDetector } = await import('@/lib/mediapipe/pose-detector');
+        const poseDetector = new PoseDetector(
+          {},
+          {
+            onResults: (result) => {
+              poseResultRef.current = result;
+            },
+            onError: (error) => {
+              console.error('Pose検出エラー:', error);
+            },
+          }
+        );
+        await poseDetector.initialize();
+        poseDetectorRef.current = poseDetector;
+      } catch (error) {
+        console.warn(
+          'MediaPipe Pose初期化に失敗、手のみで前腕軸を推定します:',
+          error
+        );
+      }
 
       setSetup((prev) => ({ ...prev, mediaPipeReady: true }));
       console.log('MediaPipe Hands初期化完了');
@@ -1042,7 +2210,7 @@ const MeasurementPage: React.FC = () => {
       console.error('MediaPipe初期化エラー:', error);
       setSetup((prev) => ({ ...prev, mediaPipeReady: false }));
     }
-  }, [processHandResults]);
+  }, [applyHandFrame, handTrackingBackend]);
 
   /**
    * 手の骨格線を描画
@@ -1114,7 +2282,11 @@ const MeasurementPage: React.FC = () => {
     if (!setup.selectedHand) return;
 
     try {
-      const sessionId = await db.startSession(setup.selectedHand);
+      const sessionId = await db.startSession(
+        setup.selectedHand,
+        setup.mode,
+        setup.bilateral ?? undefined
+      );
       setSetup((prev) => ({
         ...prev,
         sessionId,
@@ -1124,7 +2296,7 @@ const MeasurementPage: React.FC = () => {
     } catch (error) {
       console.error('セッション開始エラー:', error);
     }
-  }, [setup.selectedHand]);
+  }, [setup.selectedHand, setup.mode, setup.bilateral]);
 
   /**
    * MediaPipeでの検出を開始
@@ -1132,7 +2304,9 @@ const MeasurementPage: React.FC = () => {
   const startMeasurementWithMediaPipe = useCallback(async () => {
     console.log('MediaPipe測定開始');
 
-    if (!handsRef.current || !videoRef.current || !cameraState.stream) {
+    const hasDetector =
+      handTrackerRef.current || handTrackingPipelineRef.current;
+    if (!hasDetector || !videoRef.current || !cameraState.stream) {
       console.error(
         'MediaPipe、ビデオ、またはカメラストリームが準備できていません'
       );
@@ -1147,13 +2321,14 @@ const MeasurementPage: React.FC = () => {
       console.log('ビデオ読み込み完了');
 
       await startMeasurementSession();
+      if (cameraState.stream) startSessionRecording(cameraState.stream);
       startDetection();
     };
 
     videoRef.current.addEventListener('loadeddata', onVideoLoaded, {
       once: true,
     });
-  }, [startMeasurementSession, cameraState.stream]);
+  }, [startMeasurementSession, startSessionRecording, cameraState.stream]);
 
   /**
    * MediaPipeでの検出を開始
@@ -1161,16 +2336,20 @@ const MeasurementPage: React.FC = () => {
   const startDetection = useCallback(async () => {
     console.log('MediaPipe検出開始');
 
-    if (!handsRef.current || !videoRef.current) {
+    if (
+      (!handTrackerRef.current && !handTrackingPipelineRef.current) ||
+      !videoRef.current
+    ) {
       console.error('MediaPipeまたはビデオが準備できていません');
       return;
     }
 
     let frameCount = 0;
     const detectFrame = async () => {
+      const pipeline = handTrackingPipelineRef.current;
       if (
         videoRef.current &&
-        handsRef.current &&
+        (pipeline || handTrackerRef.current) &&
         setupRef.current.currentStep === 'measurement'
       ) {
         try {
@@ -1179,8 +2358,40 @@ const MeasurementPage: React.FC = () => {
             // 30フレームごとにログ出力
           }
 
-          // MediaPipeに画像を送信
-          await handsRef.current.send({ image: videoRef.current });
+          const { mode, currentMeasurementStep, selectedHand } =
+            setupRef.current;
+          const stepId =
+            measurementStepsByMode[mode][currentMeasurementStep]?.id;
+
+          if (pipeline) {
+            // Workerに画像を転送（前のフレームを処理中の場合は破棄される）
+            if (stepId && selectedHand && setupRef.current.isCapturing) {
+              void pipeline.submitFrame(videoRef.current, {
+                timestampMs: performance.now(),
+                stepId,
+                hand: selectedHand,
+                forearm: getCurrentForearm(selectedHand),
+              });
+            }
+          } else if (handTrackerRef.current) {
+            // メインスレッドで検出
+            const result = await handTrackerRef.current.processFrame(
+              videoRef.current,
+              performance.now()
+            );
+            if (setupRef.current.currentStep === 'measurement') {
+              processHandResults(result);
+            }
+          }
+
+          // 手首ステップでは前腕軸取得のためPoseにも送信（処理中はスキップ）
+          if (
+            poseDetectorRef.current?.isReady() &&
+            stepId &&
+            FOREARM_AXIS_STEP_IDS.includes(stepId)
+          ) {
+            void poseDetectorRef.current.send(videoRef.current);
+          }
         } catch (error) {
           console.error('MediaPipe送信エラー:', error);
         }
@@ -1196,12 +2407,15 @@ const MeasurementPage: React.FC = () => {
 
     // 最初のフレームを送信
     detectFrame();
-  }, []);
+  }, [getCurrentForearm, processHandResults]);
 
   /**
    * 測定を停止
    */
   const stopMeasurement = useCallback(async () => {
+    // カメラを止める前に録画を保存
+    await saveSessionRecording();
+
     // カメラストリームを停止
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream;
@@ -1217,10 +2431,11 @@ const MeasurementPage: React.FC = () => {
       try {
         // セッションを完了としてマーク
         await db.completeSession(setupRef.current.sessionId);
-        // 最終結果を取得
-        const finalResults = await db.getSessionResults(
-          setupRef.current.sessionId
-        );
+        // 最終結果を取得（左右比較測定では両手の結果）
+        const { bilateral } = setupRef.current;
+        const finalResults = bilateral
+          ? await db.getBilateralResults(bilateral.bilateralId)
+          : await db.getSessionResults(setupRef.current.sessionId);
         setMeasurementResults(finalResults);
       } catch (error) {
         console.error('結果の取得またはセッション完了エラー:', error);
@@ -1230,17 +2445,83 @@ const MeasurementPage: React.FC = () => {
     setSetup((prev) => ({
       ...prev,
       isCapturing: false,
+      isCalibrating: false,
       phase: 'complete',
     }));
-  }, []);
+  }, [saveSessionRecording]);
+
+  /**
+   * 左右比較測定で健側の測定を終え、患側の測定を開始
+   */
+  const startAffectedSideMeasurement = useCallback(async () => {
+    const { sessionId, mode, bilateral } = setupRef.current;
+    if (!bilateral) return;
+
+    try {
+      // 健側の録画を保存し、患側は別の録画とする
+      await saveSessionRecording();
+      if (sessionId) {
+        await db.completeSession(sessionId);
+        // 健側の角度を患側の目標として保持
+        contralateralTargetsRef.current = contralateralTarget
+          ? getContralateralTargets(await db.getSessionResults(sessionId))
+          : {};
+      }
+      const affectedSessionId = await db.startSession(
+        bilateral.affectedHand,
+        mode,
+        bilateral
+      );
+      if (videoRef.current?.srcObject) {
+        startSessionRecording(videoRef.current.srcObject as MediaStream);
+      }
+
+      resetPeakDetection(); // 最大角度をリセット
+      resetQualityAnalysis();
+      resetSmoothingFilters();
+      setSetup((prev) => ({
+        ...prev,
+        selectedHand: bilateral.affectedHand,
+        sessionId: affectedSessionId,
+        isCapturing: false,
+        currentMeasurementStep: 0,
+        currentAngle: 0,
+        baseAngle: null,
+        isPhotoTaken: false,
+        forearmAxisMethod: null,
+        isCalibrating: false,
+        calibration: null,
+        peak: null,
+        goniometerAngle: null,
+        countdown: null,
+        phase: 'preparation',
+      }));
+      // 患側の導入画面から再開
+      setShowInstructionModal(true);
+    } catch (error) {
+      console.error('患側の測定開始エラー:', error);
+    }
+  }, [
+    contralateralTarget,
+    saveSessionRecording,
+    startSessionRecording,
+    resetSmoothingFilters,
+    resetPeakDetection,
+    resetQualityAnalysis,
+  ]);
 
   /**
    * 次の測定ステップに進む
    */
   const nextMeasurementStep = useCallback(() => {
-    if (setup.currentMeasurementStep < measurementSteps.length - 1) {
+    if (
+      setup.currentMeasurementStep <
+      measurementStepsByMode[setup.mode].length - 1
+    ) {
       // 測定を一旦停止してモーダル表示（測定画面は維持）
-      maxAngleRef.current = 0; // 最大角度をリセット
+      resetPeakDetection(); // 最大角度をリセット
+      resetQualityAnalysis();
+      resetSmoothingFilters();
       setSetup((prev) => ({
         ...prev,
         isCapturing: false,
@@ -1249,15 +2530,36 @@ const MeasurementPage: React.FC = () => {
         currentAngle: 0,
         baseAngle: null, // 次のステップでは基準角度をリセット
         isPhotoTaken: false,
+        forearmAxisMethod: null,
+        isCalibrating: false,
+        calibration: null,
+        peak: null,
+        goniometerAngle: null,
         countdown: null,
         phase: 'preparation',
       }));
       // モーダルを再表示
       setShowInstructionModal(true);
+    } else if (
+      setup.bilateral &&
+      setup.selectedHand !== setup.bilateral.affectedHand
+    ) {
+      // 左右比較測定: 健側の測定が終わったら患側へ
+      void startAffectedSideMeasurement();
     } else {
       stopMeasurement();
     }
-  }, [setup.currentMeasurementStep, stopMeasurement]);
+  }, [
+    setup.currentMeasurementStep,
+    setup.mode,
+    setup.bilateral,
+    setup.selectedHand,
+    stopMeasurement,
+    startAffectedSideMeasurement,
+    resetSmoothingFilters,
+    resetPeakDetection,
+    resetQualityAnalysis,
+  ]);
 
   // MediaPipe初期化のuseEffect
   useEffect(() => {
@@ -1319,6 +2621,10 @@ const MeasurementPage: React.FC = () => {
       if (countdownIntervalRef.current) {
         clearInterval(countdownIntervalRef.current);
       }
+      poseDetectorRef.current?.dispose();
+      handTrackingPipelineRef.current?.close();
+      handTrackerRef.current?.dispose();
+      sessionRecorderRef.current?.cancel();
     };
   }, []);
 
@@ -1329,6 +2635,13 @@ const MeasurementPage: React.FC = () => {
     setSetup((prev) => ({ ...prev, selectedHand: hand }));
   };
 
+  /**
+   * 測定モードの選択ハンドラー
+   */
+  const handleModeSelect = (mode: MeasurementMode) => {
+    setSetup((prev) => ({ ...prev, mode, currentMeasurementStep: 0 }));
+  };
+
   /**
    * 次のステップへ進む
    */
@@ -1378,6 +2691,19 @@ const MeasurementPage: React.FC = () => {
   const handleStartMeasurement = () => {
     if (setup.selectedHand) {
       console.log('測定方法モーダルを表示します');
+      // 左右比較測定では選択した手を患側とし、健側から測定
+      if (bilateralMode && setup.mode === 'wrist') {
+        const affectedHand = setup.selectedHand;
+        contralateralTargetsRef.current = {};
+        setSetup((prev) => ({
+          ...prev,
+          selectedHand: affectedHand === 'left' ? 'right' : 'left',
+          bilateral: {
+            bilateralId: `bilateral_${Date.now()}`,
+            affectedHand,
+          },
+        }));
+      }
       setShowInstructionModal(true);
     } else {
       console.log('手が選択されていません');
@@ -1401,98 +2727,145 @@ const MeasurementPage: React.FC = () => {
    * 測定画面から戻る
    */
   const handleBackFromMeasurement = () => {
-    setSetup((prev) => ({ ...prev, currentStep: 'selection' }));
+    setSetup((prev) => ({
+      ...prev,
+      currentStep: 'selection',
+      // 左右比較測定は選択画面で患側を選び直す
+      ...(prev.bilateral
+        ? { selectedHand: prev.bilateral.affectedHand, bilateral: null }
+        : {}),
+    }));
   };
 
-  // カウントダウン
+  // 中間位キャリブレーションを開始（完了後にカウントダウン）
   const handleStartCapture = () => {
+    const currentStep =
+      measurementStepsByMode[setup.mode][setup.currentMeasurementStep];
+    if (!currentStep) return;
+
     if (countdownIntervalRef.current) {
       clearInterval(countdownIntervalRef.current);
     }
 
-    // カウントダウン開始時に0点調整（基準角度と最大角度をリセット）
-    maxAngleRef.current = 0; // 最大角度をリセット
+    // 基準角度と最大角度をリセットし、開始姿勢から0点調整
+    resetPeakDetection(); // 最大角度をリセット
+    resetQualityAnalysis();
+    resetSmoothingFilters();
+    calibratorRef.current = new NeutralCalibrator(currentStep.id);
+    calibrationLandmarksRef.current = null;
+    angleSeriesRef.current = new AngleSeriesRecorder(performance.now());
+    // 録画の再生時にステップの頭出しができるよう開始時刻を記録
+    const contralateralTargetAngle =
+      setup.bilateral?.affectedHand === setup.selectedHand
+        ? contralateralTargetsRef.current[currentStep.id]
+        : undefined;
+    sessionRecorderRef.current?.startStep(
+      {
+        stepId: currentStep.id,
+        stepName: currentStep.name,
+        targetAngle: contralateralTargetAngle ?? currentStep.targetAngle,
+      },
+      performance.now()
+    );
     setSetup((prev) => ({
       ...prev,
-      countdown: 3,
+      countdown: null,
       isCapturing: true,
-      baseAngle: null, // 基準角度をリセットして0点調整
+      isCalibrating: true,
+      calibration: null,
+      peak: null,
+      goniometerAngle: null,
+      baseAngle: null, // 基準角度はキャリブレーションで設定
       currentAngle: 0,
     }));
+  };
 
-    countdownIntervalRef.current = setInterval(() => {
-      setSetup((prev) => {
-        if (prev.countdown === null) {
-          if (countdownIntervalRef.current)
-            clearInterval(countdownIntervalRef.current);
-          return prev;
-        }
-        if (prev.countdown <= 1) {
-          if (countdownIntervalRef.current) {
-            clearInterval(countdownIntervalRef.current);
-          }
-          // カウントダウン終了時に最大角度を現在の角度として設定
-          const finalAngle = Math.round(maxAngleRef.current);
-          return {
-            ...prev,
-            countdown: null,
-            isPhotoTaken: true,
-            isCapturing: false,
-            currentAngle: finalAngle, // 最大角度を保存
-          };
-        }
-        return { ...prev, countdown: prev.countdown - 1 };
+  /**
+   * ゴニオメーター測定値をAI測定値と組にして保存
+   */
+  const handleRecordGoniometer = async (goniometerAngle: number) => {
+    const { sessionId, selectedHand, mode, currentMeasurementStep } = setup;
+    const currentStep = measurementStepsByMode[mode][currentMeasurementStep];
+    if (!sessionId || !selectedHand || !currentStep) return;
+
+    try {
+      await db.savePairedReading({
+        sessionId,
+        stepId: currentStep.id,
+        stepName: currentStep.name,
+        hand: selectedHand,
+        aiAngle: setup.currentAngle,
+        goniometerAngle,
       });
-    }, 1000);
+      setSetup((prev) => ({ ...prev, goniometerAngle }));
+    } catch (error) {
+      console.error('ゴニオメーター測定値の保存エラー:', error);
+      alert('ゴニオメーター測定値の保存に失敗しました。');
+    }
   };
 
   const handleRetake = () => {
-    maxAngleRef.current = 0; // 最大角度をリセット
+    resetPeakDetection(); // 最大角度をリセット
+    resetQualityAnalysis();
+    resetSmoothingFilters();
     setSetup((prev) => ({
       ...prev,
       isPhotoTaken: false,
       countdown: null,
       currentAngle: 0,
-      baseAngle: null, // 基準角度をリセット
-      isCapturing: true,
+      baseAngle: null, // 基準角度をリセット（測定開始時に再キャリブレーション）
+      isCapturing: false,
+      isCalibrating: false,
+      calibration: null,
+      peak: null,
+      goniometerAngle: null,
     }));
   };
 
+  /**
+   * 指モードの結果保存（TAMをセッションに記録）
+   */
+  const saveFingerResults = async () => {
+    const fingerRangeOfMotion = buildFingerRangeOfMotion(measurementResults);
+    if (!setup.sessionId || !fingerRangeOfMotion) {
+      alert('握り込みと伸展の両方を測定してください。');
+      return;
+    }
+
+    try {
+      await db.saveFingerRangeOfMotion(setup.sessionId, fingerRangeOfMotion);
+      console.log('指の測定結果を保存しました:', fingerRangeOfMotion);
+      router.push('/calendar');
+    } catch (error) {
+      console.error('指の測定結果の保存に失敗しました:', error);
+      alert('測定結果の保存に失敗しました。');
+    }
+  };
+
   const handleSave = async () => {
-    // 各ステップの最大角度を計算
-    const maxAnglesMap = new Map<string, number>();
-    measurementSteps.forEach((step) => {
-      const stepResults = measurementResults.filter(
-        (r) => r.stepId === step.id
-      );
-      if (stepResults.length > 0) {
-        const maxAngle = Math.max(...stepResults.map((r) => r.angle));
-        maxAnglesMap.set(step.id, Math.round(maxAngle));
-      } else {
-        maxAnglesMap.set(step.id, 0); // データがない場合は0
-      }
-    });
+    if (setup.mode === 'finger') {
+      await saveFingerResults();
+      return;
+    }
 
-    // MotionMeasurementオブジェクトを構築
-    const motionMeasurementInput: CreateMeasurementInput = {
-      userId: 'test-user-id', // TODO: 実際のユーザーIDに置き換える
-      measurementDate: new Date(),
-      wristFlexion: maxAnglesMap.get('palmar-flexion') || 0,
-      wristExtension: maxAnglesMap.get('dorsal-flexion') || 0,
-      wristUlnarDeviation: maxAnglesMap.get('ulnar-deviation') || 0,
-      wristRadialDeviation: maxAnglesMap.get('radial-deviation') || 0,
-      thumbFlexion: 0, // TODO: 親指の測定ステップが追加されたら更新
-      thumbExtension: 0, // TODO: 親指の測定ステップが追加されたら更新
-      thumbAdduction: 0, // TODO: 親指の測定ステップが追加されたら更新
-      thumbAbduction: 0, // TODO: 親指の測定ステップが追加されたら更新
-      accuracyScore: 1.0, // TODO: 実際の精度スコアを計算して設定
-      handUsed: setup.selectedHand || 'right', // 選択された手、デフォルトは右手
-    };
+    // 左右比較測定では測定済みの健側・患側の両方を保存
+    const hands: HandSelection[] = setup.bilateral
+      ? (['left', 'right'] as const).filter((hand) =>
+          measurementResults.some((r) => r.hand === hand)
+        )
+      : [setup.selectedHand || 'right']; // 選択された手、デフォルトは右手
 
     try {
-      const finalMotionMeasurement = createMeasurement(motionMeasurementInput);
-      await saveMotionMeasurement(finalMotionMeasurement);
-      console.log('最終測定結果を保存しました:', finalMotionMeasurement);
+      for (const hand of hands) {
+        const finalMotionMeasurement = createMeasurement(
+          buildMotionMeasurementInput(
+            measurementResults.filter((r) => r.hand === hand),
+            hand
+          )
+        );
+        await saveMotionMeasurement(finalMotionMeasurement);
+        console.log('最終測定結果を保存しました:', finalMotionMeasurement);
+      }
       router.push('/progress');
     } catch (error) {
       console.error('最終測定結果の保存に失敗しました:', error);
@@ -1504,6 +2877,7 @@ const MeasurementPage: React.FC = () => {
   const handleRetry = () => {
     setSetup({
       selectedHand: null,
+      mode: 'wrist',
       currentStep: 'instructions',
       currentMeasurementStep: 0,
       currentAngle: 0,
@@ -1514,6 +2888,12 @@ const MeasurementPage: React.FC = () => {
       isCapturing: false,
       countdown: null,
       isPhotoTaken: false,
+      forearmAxisMethod: null,
+      isCalibrating: false,
+      calibration: null,
+      peak: null,
+      goniometerAngle: null,
+      bilateral: null,
     });
     setMeasurementResults([]);
     // カメラを再初期化
@@ -1544,6 +2924,8 @@ const MeasurementPage: React.FC = () => {
           {setup.phase === 'complete' ? (
             <MeasurementResultSection
               results={measurementResults}
+              mode={setup.mode}
+              bilateral={setup.bilateral}
               onSave={handleSave}
               onRetry={handleRetry}
             />
@@ -1559,17 +2941,30 @@ const MeasurementPage: React.FC = () => {
               onStopMeasurement={stopMeasurement}
               onStartCapture={handleStartCapture}
               onRetake={handleRetake}
+              goniometerStudyMode={goniometerStudyMode}
+              onRecordGoniometer={handleRecordGoniometer}
             />
           ) : (
             <>
               <HandSelectionSection
                 selectedHand={setup.selectedHand}
+                mode={setup.mode}
+                goniometerStudyMode={goniometerStudyMode}
+                bilateralMode={bilateralMode}
                 onHandSelect={handleHandSelect}
+                onModeSelect={handleModeSelect}
+                onGoniometerStudyModeChange={setGoniometerStudyMode}
+                onBilateralModeChange={setBilateralMode}
+                sessionRecording={sessionRecording}
+                onSessionRecordingChange={setSessionRecording}
               />
               <MeasurementInfoSection
                 selectedHand={setup.selectedHand}
                 onCameraTest={handleCameraTest}
                 onStartMeasurement={handleStartMeasurement}
+                onVideoMeasurement={() => router.push('/measurement/video')}
+                onTremorTest={() => router.push('/measurement/tremor')}
+                onPlayback={() => router.push('/measurement/playback')}
               />
             </>
           )}
@@ -1605,7 +3000,9 @@ const MeasurementPage: React.FC = () => {
         onClose={() => setShowInstructionModal(false)}
         onComplete={handleStartActualMeasurement}
         selectedHand={setup.selectedHand}
+        mode={setup.mode}
         currentMeasurementStep={setup.currentMeasurementStep}
+        bilateral={setup.bilateral}
       />
     </div>
   );
@@ -0,0 +1,116 @@
+/**
+ * 測定録画の再生ページ
+ * 録画した測定セッションを選択し、ランドマークと角度を重ねてコマ送りで確認する
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import styles from './page.module.scss';
+import { Button } from '@/components/common';
+import SessionPlaybackViewer from '@/components/measurement/SessionPlaybackViewer';
+import { db, SessionRecording } from '@/lib/database/measurement-db';
+
+/**
+ * 録画日時の表示
+ */
+const formatRecordedAt = (recordedAt: number): string =>
+  new Date(recordedAt).toLocaleString('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * 測定録画の再生ページ
+ */
+export default function SessionPlaybackPage() {
+  const router = useRouter();
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRecordings = async () => {
+      try {
+        const loaded = await db.getSessionRecordings();
+        setRecordings(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      } catch (error) {
+        console.error('録画の読み込みエラー:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecordings();
+  }, []);
+
+  const selected =
+    recordings.find((recording) => recording.id === selectedId) ?? null;
+
+  return (
+    <div className={styles.playbackPage}>
+      <div className={styles.header}>
+        <Button
+          variant="outline"
+          size="small"
+          icon="←"
+          iconPosition="left"
+          onClick={() => router.push('/measurement')}
+        >
+          戻る
+        </Button>
+        <h1 className={styles.title}>測定録画の確認</h1>
+      </div>
+
+      <div className={styles.content}>
+        {/* 左側: 録画の一覧 */}
+        <section className={styles.listPanel}>
+          <h2 className={styles.sectionTitle}>録画一覧</h2>
+          {isLoading ? (
+            <p className={styles.note}>読み込み中...</p>
+          ) : recordings.length === 0 ? (
+            <p className={styles.note}>
+              録画がありません。測定画面で「測定を録画する」を有効にすると、測定セッションが録画されます。
+            </p>
+          ) : (
+            <ul className={styles.recordingList}>
+              {recordings.map((recording) => (
+                <li key={recording.id}>
+                  <button
+                    type="button"
+                    className={`${styles.recordingItem} ${
+                      recording.id === selectedId ? styles.active : ''
+                    }`}
+                    onClick={() => setSelectedId(recording.id ?? null)}
+                  >
+                    <span className={styles.recordingDate}>
+                      {formatRecordedAt(recording.recordedAt)}
+                    </span>
+                    <span className={styles.recordingMeta}>
+                      {recording.hand === 'left' ? '左手' : '右手'}・
+                      {recording.steps.length}ステップ・
+                      {Math.round(recording.durationMs / 1000)}秒
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* 右側: 再生 */}
+        <section className={styles.viewerPanel}>
+          {selected ? (
+            <SessionPlaybackViewer recording={selected} />
+          ) : (
+            <p className={styles.note}>再生する録画を選択してください</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+/**
+ * 振戦検査ページ
+ * 安静時・姿勢時振戦の検査として指先ランドマークを一定時間記録し、
+ * スペクトル解析で主周波数と振幅を求める
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAtomValue } from 'jotai';
+import styles from './page.module.scss';
+import { Button } from '@/components/common';
+import TremorSpectrumChart from '@/components/measurement/TremorSpectrumChart';
+import { db } from '@/lib/database/measurement-db';
+import type {
+  TremorAnalysis,
+  TremorTestType,
+} from '@/core/domain/types/measurement';
+import {
+  analyzeTremor,
+  TremorFrame,
+  TremorFrameSize,
+} from '@/core/infrastructure/mediapipe/tremor-analyzer';
+import type {
+  HandDetectionResult,
+  HandDetector,
+} from '@/lib/mediapipe/hands-detector';
+import type { CameraService } from '@/lib/mediapipe/camera-service';
+import { selectTargetHand } from '@/lib/mediapipe/video-analysis';
+import { handTrackingBackendAtom } from '@/shared/state/settings-atoms';
+import { usePauseAutoLock } from '@/hooks/useDatabaseEncryption';
+
+/**
+ * 検査の種類ごとの説明
+ */
+const TEST_TYPES: Record<
+  TremorTestType,
+  { label: string; instruction: string }
+> = {
+  resting: {
+    label: '安静時振戦',
+    instruction:
+      '手のひらを下に向けて膝や机の上に置き、力を抜いてください。指先がカメラに映るようにします。',
+  },
+  postural: {
+    label: '姿勢時振戦',
+    instruction:
+      '腕を前に伸ばし、指を開いて手のひらを下に向けたまま保持してください。指先がカメラに映るようにします。',
+  },
+};
+
+/**
+ * 記録時間の選択肢（秒）
+ */
+const DURATION_OPTIONS = [10, 15, 20] as const;
+
+/**
+ * 記録開始までのカウントダウン（秒）
+ */
+const COUNTDOWN_SECONDS = 3;
+
+/**
+ * 検査の状態
+ */
+type TremorTestPhase = 'setup' | 'countdown' | 'recording' | 'result';
+
+/**
+ * 振戦検査ページ
+ */
+export default function TremorTestPage() {
+  const router = useRouter();
+  const handTrackingBackend = useAtomValue(handTrackingBackendAtom);
+
+  const [hand, setHand] = useState<'left' | 'right'>('right');
+  const [testType, setTestType] = useState<TremorTestType>('resting');
+  const [durationSeconds, setDurationSeconds] = useState<number>(
+    DURATION_OPTIONS[0]
+  );
+  const [phase, setPhase] = useState<TremorTestPhase>('setup');
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [isHandDetected, setIsHandDetected] = useState(false);
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [analysis, setAnalysis] = useState<TremorAnalysis | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  // 検査中は手を使わずに待つため、自動ロックを保留する
+  usePauseAutoLock(phase === 'countdown' || phase === 'recording');
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cameraRef = useRef<CameraService | null>(null);
+  const handDetectorRef = useRef<HandDetector | null>(null);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  // 検出器のコールバックから参照する状態
+  const handRef = useRef(hand);
+  const isRecordingRef = useRef(false);
+  const framesRef = useRef<TremorFrame[]>([]);
+  const frameSizeRef = useRef<TremorFrameSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    handRef.current = hand;
+  }, [hand]);
+
+  /**
+   * 手の検出結果の処理（記録中のみフレームを保存）
+   */
+  const handleHandResults = useCallback((result: HandDetectionResult) => {
+    const target = selectTargetHand(result, handRef.current);
+    setIsHandDetected(!!target);
+
+    if (isRecordingRef.current) {
+      // 推論の完了時刻ではなくフレームの取得時刻を使い、推論時間の揺らぎを周波数解析に含めない
+      framesRef.current.push({
+        timestampMs: result.timestamp,
+        landmarks: target?.landmarks ?? null,
+      });
+    }
+  }, []);
+
+  /**
+   * カメラと手の検出器を起動
+   */
+  const startCamera = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setErrorMessage(null);
+
+    try {
+      const [{ CameraService }, { HandDetector }] = await Promise.all([
+        import('@/lib/mediapipe/camera-service'),
+        import('@/lib/mediapipe/hands-detector'),
+      ]);
+
+      const camera = new CameraService(
+        {},
+        {
+          onStreamStart: () => {},
+          onStreamStop: () => {},
+          onError: (error) => console.error('カメラエラー:', error),
+          onPermissionGranted: () => {},
+          onPermissionDenied: () => {},
+        }
+      );
+      await camera.initialize(video);
+      cameraRef.current = camera;
+
+      const handDetector = new HandDetector(
+        { maxNumHands: 2 },
+        {
+          onResults: handleHandResults,
+          onError: (error) => console.error('手の検出エラー:', error),
+          onLoadingStart: () => {},
+          onLoadingComplete: () => {},
+        },
+        handTrackingBackend
+      );
+      await handDetector.initialize();
+      await handDetector.connectCamera(video);
+      handDetectorRef.current = handDetector;
+
+      setIsCameraReady(true);
+    } catch (error) {
+      console.error('カメラの起動エラー:', error);
+      setErrorMessage('カメラを起動できませんでした');
+    }
+  };
+
+  // アンマウント時のクリーンアップ
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      isRecordingRef.current = false;
+      void handDetectorRef.current?.dispose();
+      void cameraRef.current?.stop();
+    };
+  }, []);
+
+  /**
+   * 記録の終了と解析
+   */
+  const finishRecording = useCallback(() => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    isRecordingRef.current = false;
+
+    const video = videoRef.current;
+    frameSizeRef.current = {
+      width: video?.videoWidth ?? 0,
+      height: video?.videoHeight ?? 0,
+    };
+    const result = analyzeTremor(framesRef.current, frameSizeRef.current);
+    setAnalysis(result);
+    setErrorMessage(
+      result
+        ? null
+        : '手を検出できたフレームが不足しています。指先がカメラに映るようにして再検査してください'
+    );
+    setPhase('result');
+  }, []);
+
+  /**
+   * カウントダウン後に記録を開始
+   */
+  const startTest = () => {
+    if (timerRef.current) clearInterval(timerRef.current);
+    framesRef.current = [];
+    setAnalysis(null);
+    setIsSaved(false);
+    setErrorMessage(null);
+    setCountdown(COUNTDOWN_SECONDS);
+    setElapsedMs(0);
+    setPhase('countdown');
+
+    let remaining = COUNTDOWN_SECONDS;
+    timerRef.current = setInterval(() => {
+      remaining -= 1;
+      setCountdown(remaining);
+      if (remaining > 0) return;
+
+      if (timerRef.current) clearInterval(timerRef.current);
+      const startedAt = Date.now();
+      isRecordingRef.current = true;
+      setPhase('recording');
+
+      timerRef.current = setInterval(() => {
+        const elapsed = Date.now() - startedAt;
+        setElapsedMs(elapsed);
+        if (elapsed >= durationSeconds * 1000) finishRecording();
+      }, 100);
+    }, 1000);
+  };
+
+  /**
+   * 検査結果の保存
+   */
+  const handleSave = async () => {
+    if (!analysis) return;
+
+    try {
+      await db.saveTremorRecord({
+        hand,
+        testType,
+        analysis,
+        frameSize: frameSizeRef.current,
+        frames: framesRef.current.map(({ timestampMs, landmarks }) => ({
+          timestampMs,
+          landmarks: landmarks
+            ? landmarks.map(({ x, y, z }) => ({ x, y, z }))
+            : null,
+        })),
+      });
+      setIsSaved(true);
+    } catch (error) {
+      console.error('振戦検査の保存エラー:', error);
+      setErrorMessage('検査結果を保存できませんでした');
+    }
+  };
+
+  const isBusy = phase === 'countdown' || phase === 'recording';
+  const progress = Math.min(1, elapsedMs / (durationSeconds * 1000));
+
+  return (
+    <div className={styles.tremorTestPage}>
+      <div className={styles.header}>
+        <Button
+          variant="outline"
+          size="small"
+          icon="←"
+          iconPosition="left"
+          onClick={() => router.push('/measurement')}
+        >
+          戻る
+        </Button>
+        <h1 className={styles.title}>振戦検査</h1>
+      </div>
+
+      <div className={styles.content}>
+        {/* 左側: 設定と結果 */}
+        <section className={styles.panel}>
+          <h2 className={styles.sectionTitle}>検査の設定</h2>
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>検査する手</span>
+            <div className={styles.optionButtons}>
+              {(['left', 'right'] as const).map((side) => (
+                <button
+                  key={side}
+                  type="button"
+                  className={`${styles.optionButton} ${hand === side ? styles.active : ''}`}
+                  onClick={() => setHand(side)}
+                  disabled={isBusy}
+                >
+                  {side === 'left' ? '左手' : '右手'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>検査の種類</span>
+            <div className={styles.optionButtons}>
+              {(Object.keys(TEST_TYPES) as TremorTestType[]).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  className={`${styles.optionButton} ${testType === type ? styles.active : ''}`}
+                  onClick={() => setTestType(type)}
+                  disabled={isBusy}
+                >
+                  {TEST_TYPES[type].label}
+                </button>
+              ))}
+            </div>
+            <p className={styles.note}>{TEST_TYPES[testType].instruction}</p>
+          </div>
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>記録時間</span>
+            <div className={styles.optionButtons}>
+              {DURATION_OPTIONS.map((seconds) => (
+                <button
+                  key={seconds}
+                  type="button"
+                  className={`${styles.optionButton} ${durationSeconds === seconds ? styles.active : ''}`}
+                  onClick={() => setDurationSeconds(seconds)}
+                  disabled={isBusy}
+                >
+                  {seconds}秒
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={styles.actions}>
+            {!isCameraReady ? (
+              <Button variant="primary" onClick={startCamera} icon="→">
+                カメラを起動
+              </Button>
+            ) : (
+              <Button
+                variant={isBusy ? 'disabled' : 'primary'}
+                onClick={startTest}
+                disabled={isBusy}
+                icon="→"
+              >
+                {phase === 'result' ? 'もう一度検査する' : '検査を開始'}
+              </Button>
+            )}
+          </div>
+
+          {errorMessage && <p className={styles.error}>{errorMessage}</p>}
+
+          {phase === 'result' && analysis && (
+            <div className={styles.result}>
+              <h2 className={styles.sectionTitle}>
+                検査結果（{hand === 'left' ? '左手' : '右手'}・
+                {TEST_TYPES[testType].label}）
+              </h2>
+              <div className={styles.resultGrid}>
+                <div className={styles.resultItem}>
+                  <span className={styles.resultLabel}>主周波数</span>
+                  <span className={styles.resultValue}>
+                    {analysis.dominantFrequencyHz.toFixed(1)}Hz
+                  </span>
+                </div>
+                <div className={styles.resultItem}>
+                  <span className={styles.resultLabel}>
+                    振幅（手の大きさ比）
+                  </span>
+                  <span className={styles.resultValue}>
+                    {(analysis.amplitude * 100).toFixed(1)}%
+                  </span>
+                </div>
+                <div className={styles.resultItem}>
+                  <span className={styles.resultLabel}>振戦帯域の割合</span>
+                  <span className={styles.resultValue}>
+                    {Math.round(analysis.tremorBandRatio * 100)}%
+                  </span>
+                </div>
+              </div>
+              <TremorSpectrumChart analysis={analysis} />
+              <p className={styles.note}>
+                {(analysis.durationMs / 1000).toFixed(1)}秒・
+                {analysis.frameCount}フレーム（
+                {analysis.sampleRateHz.toFixed(0)}fps）を解析しました
+              </p>
+              {analysis.isBandLimited && (
+                <p className={styles.warning}>
+                  フレームレートが低いため、
+                  {(analysis.sampleRateHz / 2).toFixed(1)}
+                  Hzより高い周波数の振戦は解析できていません。明るい場所で再検査してください
+                </p>
+              )}
+              <div className={styles.actions}>
+                <Button
+                  variant={isSaved ? 'disabled' : 'primary'}
+                  size="small"
+                  onClick={handleSave}
+                  disabled={isSaved}
+                >
+                  {isSaved ? '保存しました' : '検査結果を保存'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </section>
+
+        {/* 右側: カメラ */}
+        <section className={styles.panel}>
+          <div className={styles.videoContainer}>
+            <video ref={videoRef} className={styles.video} muted playsInline />
+            {isCameraReady && (
+              <div className={styles.videoStatus}>
+                {phase === 'countdown' && (
+                  <span className={styles.countdown}>{countdown}</span>
+                )}
+                {phase === 'recording' && (
+                  <span>
+                    記録中…残り
+                    {Math.ceil((durationSeconds * 1000 - elapsedMs) / 1000)}秒
+                  </span>
+                )}
+                {phase !== 'countdown' && phase !== 'recording' && (
+                  <span>
+                    {isHandDetected
+                      ? '対象の手を検出しています'
+                      : '対象の手が映っていません'}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+          {phase === 'recording' && (
+            <div className={styles.progressBar}>
+              <div
+                className={styles.progressFill}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
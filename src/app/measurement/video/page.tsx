@@ -0,0 +1,544 @@
+/**
+ * 動画ファイル測定ページ
+ * アップロードした動画（MP4/WebM）を一定間隔のフレームで解析し、
+ * ライブ測定と同じ手順で最大角度と角度の時系列を求める
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAtomValue } from 'jotai';
+import styles from './page.module.scss';
+import { Button } from '@/components/common';
+import QualityBadge from '@/components/measurement/QualityBadge';
+import VideoAngleTimeline from '@/components/measurement/VideoAngleTimeline';
+import { db } from '@/lib/database/measurement-db';
+import { ANGLE_ALGORITHM_VERSION } from '@/core/infrastructure/mediapipe/angle-calculator';
+import { calculateMovementKinematics } from '@/core/infrastructure/mediapipe/movement-kinematics';
+import {
+  handTrackingBackendAtom,
+  smoothingSettingsAtom,
+} from '@/shared/state/settings-atoms';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type { StepId } from '@/core/domain/types/measurement';
+import type { HandDetector } from '@/lib/mediapipe/hands-detector';
+import type {
+  PoseDetectionResult,
+  PoseDetector,
+} from '@/lib/mediapipe/pose-detector';
+import {
+  SUPPORTED_VIDEO_TYPES,
+  VideoFileSource,
+} from '@/lib/mediapipe/video-file-source';
+import {
+  analyzeVideoFile,
+  VideoAnalysisResult,
+} from '@/lib/mediapipe/video-analysis';
+import { usePauseAutoLock } from '@/hooks/useDatabaseEncryption';
+
+/**
+ * 動画で測定できるステップ（手首・母指モード）
+ */
+const VIDEO_STEPS: { id: StepId; name: string; targetAngle: number }[] = [
+  { id: 'palmar-flexion', name: '掌屈', targetAngle: 90 },
+  { id: 'dorsal-flexion', name: '背屈', targetAngle: 70 },
+  { id: 'ulnar-deviation', name: '尺屈', targetAngle: 55 },
+  { id: 'radial-deviation', name: '橈屈', targetAngle: 25 },
+  { id: 'pronation', name: '回内', targetAngle: 90 },
+  { id: 'supination', name: '回外', targetAngle: 90 },
+  { id: 'thumb-flexion', name: '母指屈曲', targetAngle: 60 },
+  { id: 'thumb-extension', name: '母指伸展', targetAngle: 10 },
+  { id: 'thumb-abduction', name: '母指外転', targetAngle: 60 },
+  { id: 'thumb-adduction', name: '母指内転', targetAngle: 0 },
+];
+
+/**
+ * 手の骨格線（MediaPipe Handsの接続定義）
+ */
+const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1],
+  [1, 2],
+  [2, 3],
+  [3, 4],
+  [0, 5],
+  [5, 6],
+  [6, 7],
+  [7, 8],
+  [5, 9],
+  [9, 10],
+  [10, 11],
+  [11, 12],
+  [9, 13],
+  [13, 14],
+  [14, 15],
+  [15, 16],
+  [13, 17],
+  [0, 17],
+  [17, 18],
+  [18, 19],
+  [19, 20],
+];
+
+/**
+ * 解析の状態
+ */
+type AnalysisStatus = 'idle' | 'analyzing' | 'done' | 'error';
+
+/**
+ * 動画ファイル測定ページ
+ */
+export default function VideoMeasurementPage() {
+  const router = useRouter();
+  const smoothingSettings = useAtomValue(smoothingSettingsAtom);
+  const handTrackingBackend = useAtomValue(handTrackingBackendAtom);
+
+  const [hand, setHand] = useState<'left' | 'right'>('right');
+  const [stepId, setStepId] = useState<StepId>('palmar-flexion');
+  const [source, setSource] = useState<VideoFileSource | null>(null);
+  const [status, setStatus] = useState<AnalysisStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [result, setResult] = useState<VideoAnalysisResult | null>(null);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+  const [isSaved, setIsSaved] = useState(false);
+
+  // 解析中は操作せずに待つため、自動ロックを保留する
+  usePauseAutoLock(status === 'analyzing');
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const handDetectorRef = useRef<HandDetector | null>(null);
+  const poseDetectorRef = useRef<PoseDetector | null>(null);
+  const poseResultRef = useRef<PoseDetectionResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const step = VIDEO_STEPS.find((s) => s.id === stepId);
+
+  /**
+   * 検出器の初期化（初回の解析時のみ）
+   */
+  const ensureDetectors = useCallback(async (): Promise<HandDetector> => {
+    if (handDetectorRef.current) return handDetectorRef.current;
+
+    const { HandDetector } = await import('@/lib/mediapipe/hands-detector');
+    const handDetector = new HandDetector(
+      {
+        maxNumHands: 2,
+        minDetectionConfidence: 0.3,
+        minTrackingConfidence: 0.2,
+      },
+      {
+        onResults: () => {},
+        onError: (error) => {
+          console.error('手の検出エラー:', error);
+        },
+        onLoadingStart: () => {},
+        onLoadingComplete: () => {},
+      },
+      handTrackingBackend
+    );
+    await handDetector.initialize();
+    handDetectorRef.current = handDetector;
+
+    // 前腕軸取得用のMediaPipe Pose（失敗時は手のみの推定で解析を継続）
+    try {
+      const { PoseDetector } = await import('@/lib/mediapipe/pose-detector');
+      const poseDetector = new PoseDetector(
+        {},
+        {
+          onResults: (poseResult) => {
+            poseResultRef.current = poseResult;
+          },
+          onError: (error) => {
+            console.error('Pose検出エラー:', error);
+          },
+        }
+      );
+      await poseDetector.initialize();
+      poseDetectorRef.current = poseDetector;
+    } catch (error) {
+      console.warn(
+        'MediaPipe Pose初期化に失敗、手のみで前腕軸を推定します:',
+        error
+      );
+    }
+
+    return handDetector;
+  }, [handTrackingBackend]);
+
+  // アンマウント時のクリーンアップ
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      void handDetectorRef.current?.dispose();
+      poseDetectorRef.current?.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => source?.dispose();
+  }, [source]);
+
+  /**
+   * 動画ファイルの選択
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    abortRef.current?.abort();
+    setResult(null);
+    setStatus('idle');
+    setCurrentTimeMs(0);
+    setIsSaved(false);
+    setErrorMessage(null);
+
+    try {
+      setSource(await VideoFileSource.load(file));
+    } catch (error) {
+      console.error('動画の読み込みエラー:', error);
+      setSource(null);
+      setErrorMessage(
+        error instanceof Error ? error.message : '動画を読み込めませんでした'
+      );
+    }
+  };
+
+  /**
+   * 動画の解析
+   */
+  const handleAnalyze = async () => {
+    if (!source) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('analyzing');
+    setProgress(0);
+    setResult(null);
+    setIsSaved(false);
+    setErrorMessage(null);
+
+    try {
+      const handDetector = await ensureDetectors();
+      const analysisResult = await analyzeVideoFile(
+        source,
+        handDetector,
+        stepId,
+        hand,
+        {
+          smoothing: smoothingSettings,
+          poseDetector: poseDetectorRef.current,
+          getPoseResult: () => poseResultRef.current,
+          onProgress: setProgress,
+          signal: controller.signal,
+        }
+      );
+      setResult(analysisResult);
+      setCurrentTimeMs(analysisResult.analysis.peak?.timestampMs ?? 0);
+      setStatus('done');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('動画の解析エラー:', error);
+      setErrorMessage(
+        error instanceof Error ? error.message : '動画を解析できませんでした'
+      );
+      setStatus('error');
+    }
+  };
+
+  /**
+   * 解析結果の保存
+   */
+  const handleSave = async () => {
+    const peak = result?.analysis.peak;
+    if (!result || !peak || !step) return;
+    const kinematics = calculateMovementKinematics(result.analysis.angleSeries);
+
+    try {
+      // 動画からは1ステップのみを解析するため、ステップ数は1とする
+      const sessionId = await db.startSession(hand, 'wrist', undefined, 1);
+      if (result.analysis.calibration) {
+        await db.saveCalibration(sessionId, result.analysis.calibration);
+      }
+      await db.saveMeasurementResult({
+        sessionId,
+        hand,
+        stepId: step.id,
+        stepName: step.name,
+        angle: peak.angle,
+        targetAngle: step.targetAngle,
+        isCompleted: true,
+        landmarks: peak.landmarks,
+        forearmAxisMethod: peak.method,
+        algorithmVersion: ANGLE_ALGORITHM_VERSION,
+        angleSeries: result.analysis.angleSeries,
+        ...(kinematics ? { kinematics } : {}),
+        ...(peak.forearm ? { forearm: peak.forearm } : {}),
+        ...(result.analysis.qualityMetrics
+          ? { qualityMetrics: result.analysis.qualityMetrics }
+          : {}),
+      });
+      await db.completeSession(sessionId);
+      setIsSaved(true);
+    } catch (error) {
+      console.error('動画の測定結果の保存エラー:', error);
+      setErrorMessage('測定結果を保存できませんでした');
+    }
+  };
+
+  /**
+   * 指定した時刻に最も近いフレームのランドマークを取得
+   */
+  const getFrameLandmarks = useCallback(
+    (timeMs: number): Point3D[] | null => {
+      if (!result) return null;
+      const index = Math.round(timeMs / result.frameStepMs);
+      const clamped = Math.min(
+        Math.max(index, 0),
+        result.frameLandmarks.length - 1
+      );
+      return result.frameLandmarks[clamped] ?? null;
+    },
+    [result]
+  );
+
+  /**
+   * ランドマークの描画
+   */
+  const drawOverlay = useCallback(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = video.videoWidth || 640;
+    canvas.height = video.videoHeight || 480;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    const landmarks = getFrameLandmarks(currentTimeMs);
+    if (!landmarks) return;
+
+    ctx.strokeStyle = '#00FF00';
+    ctx.lineWidth = 2;
+    HAND_CONNECTIONS.forEach(([from, to]) => {
+      const start = landmarks[from];
+      const end = landmarks[to];
+      if (!start || !end) return;
+      ctx.beginPath();
+      ctx.moveTo(start.x * canvas.width, start.y * canvas.height);
+      ctx.lineTo(end.x * canvas.width, end.y * canvas.height);
+      ctx.stroke();
+    });
+
+    ctx.fillStyle = '#FF0000';
+    landmarks.forEach((landmark) => {
+      ctx.beginPath();
+      ctx.arc(
+        landmark.x * canvas.width,
+        landmark.y * canvas.height,
+        4,
+        0,
+        2 * Math.PI
+      );
+      ctx.fill();
+    });
+  }, [currentTimeMs, getFrameLandmarks]);
+
+  // 選択中の時刻に動画をシークし、シーク完了後にランドマークを描画
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !source) return;
+
+    const time = currentTimeMs / 1000;
+    if (Math.abs(video.currentTime - time) < 1e-3) {
+      drawOverlay();
+      return;
+    }
+    video.addEventListener('seeked', drawOverlay, { once: true });
+    video.currentTime = time;
+    return () => video.removeEventListener('seeked', drawOverlay);
+  }, [currentTimeMs, drawOverlay, source]);
+
+  const peak = result?.analysis.peak ?? null;
+  const handLabel = hand === 'left' ? '左' : '右';
+
+  return (
+    <div className={styles.videoMeasurementPage}>
+      <div className={styles.header}>
+        <Button
+          variant="outline"
+          size="small"
+          icon="←"
+          iconPosition="left"
+          onClick={() => router.push('/measurement')}
+        >
+          戻る
+        </Button>
+        <h1 className={styles.title}>動画ファイルから測定</h1>
+      </div>
+
+      <div className={styles.content}>
+        {/* 左側: 設定と結果 */}
+        <section className={styles.panel}>
+          <h2 className={styles.sectionTitle}>測定の設定</h2>
+
+          <div className={styles.field}>
+            <span className={styles.fieldLabel}>測定する手</span>
+            <div className={styles.handButtons}>
+              {(['left', 'right'] as const).map((side) => (
+                <button
+                  key={side}
+                  type="button"
+                  className={`${styles.handButton} ${hand === side ? styles.active : ''}`}
+                  onClick={() => setHand(side)}
+                  disabled={status === 'analyzing'}
+                >
+                  {side === 'left' ? '左手' : '右手'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>測定ステップ</span>
+            <select
+              className={styles.select}
+              value={stepId}
+              onChange={(e) => setStepId(e.target.value as StepId)}
+              disabled={status === 'analyzing'}
+            >
+              {VIDEO_STEPS.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.field}>
+            <span className={styles.fieldLabel}>動画ファイル（MP4・WebM）</span>
+            <input
+              type="file"
+              accept={SUPPORTED_VIDEO_TYPES.join(',')}
+              onChange={handleFileChange}
+              disabled={status === 'analyzing'}
+            />
+          </label>
+
+          <p className={styles.note}>
+            動画の冒頭で開始姿勢を約1秒保持し、最大まで動かした位置で保持してください。
+            ライブ測定と同じく、開始姿勢を0°の基準とし、保持が確認された最大角度を記録します。
+          </p>
+
+          <div className={styles.actions}>
+            <Button
+              variant={
+                !source || status === 'analyzing' ? 'disabled' : 'primary'
+              }
+              onClick={handleAnalyze}
+              disabled={!source || status === 'analyzing'}
+              icon="→"
+            >
+              {status === 'analyzing'
+                ? `解析中... ${Math.round(progress * 100)}%`
+                : '解析する'}
+            </Button>
+          </div>
+
+          {status === 'analyzing' && (
+            <div className={styles.progressBar}>
+              <div
+                className={styles.progressFill}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          )}
+
+          {errorMessage && <p className={styles.error}>{errorMessage}</p>}
+
+          {result && step && (
+            <div className={styles.result}>
+              <h2 className={styles.sectionTitle}>
+                解析結果（{handLabel}手・{step.name}）
+              </h2>
+              {peak ? (
+                <>
+                  <p className={styles.resultAngle}>
+                    {peak.angle.toFixed(1)}°
+                    <span className={styles.resultTarget}>
+                      / 目標 {step.targetAngle}°
+                    </span>
+                  </p>
+                  {result.analysis.qualityMetrics && (
+                    <QualityBadge metrics={result.analysis.qualityMetrics} />
+                  )}
+                  <div className={styles.actions}>
+                    <Button
+                      variant="outline"
+                      size="small"
+                      onClick={() => setCurrentTimeMs(peak.timestampMs)}
+                    >
+                      最大角度のフレームへ移動
+                    </Button>
+                    <Button
+                      variant={isSaved ? 'disabled' : 'primary'}
+                      size="small"
+                      onClick={handleSave}
+                      disabled={isSaved}
+                    >
+                      {isSaved ? '保存しました' : '測定結果を保存'}
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className={styles.error}>
+                  {result.analysis.calibration
+                    ? '最大角度での保持が確認できませんでした'
+                    : '開始姿勢の保持が確認できませんでした'}
+                </p>
+              )}
+            </div>
+          )}
+        </section>
+
+        {/* 右側: 動画とタイムライン */}
+        <section className={styles.panel}>
+          {source ? (
+            <>
+              <div className={styles.videoContainer}>
+                <video
+                  ref={videoRef}
+                  className={styles.video}
+                  src={source.objectUrl}
+                  muted
+                  playsInline
+                  preload="auto"
+                  onLoadedData={drawOverlay}
+                />
+                <canvas ref={canvasRef} className={styles.overlay} />
+              </div>
+              {result ? (
+                <VideoAngleTimeline
+                  samples={result.analysis.samples}
+                  durationMs={result.durationMs}
+                  currentTimeMs={currentTimeMs}
+                  peakTimeMs={peak?.timestampMs ?? null}
+                  onSeek={setCurrentTimeMs}
+                />
+              ) : (
+                <p className={styles.note}>
+                  解析すると角度の時系列と最大角度のフレームが表示されます
+                </p>
+              )}
+            </>
+          ) : (
+            <p className={styles.placeholder}>動画ファイルを選択してください</p>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -11,10 +11,48 @@ import {
   rightHandImprovementRateAtom,
   leftHandImprovementRateAtom,
 } from '@/atom/improvement';
-import { db, MeasurementSession } from '@/lib/database/measurement-db';
+import {
+  BilateralResults,
+  db,
+  MeasurementResult,
+  MeasurementSession,
+  TremorRecord,
+} from '@/lib/database/measurement-db';
 import { MotionChartsContainer } from '@/components/progress/MotionChartsContainer';
-import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import { AgreementReport } from '@/components/progress/AgreementReport';
+import { SymmetryChart } from '@/components/progress/SymmetryChart';
+import { KinematicsChart } from '@/components/progress/KinematicsChart';
+import { TremorTrendChart } from '@/components/progress/TremorTrendChart';
+import type { MotionType } from '@/components/progress/MotionChart';
+import { calculateBilateralDeficits } from '@/lib/analysis/bilateral-deficit';
+import {
+  contralateralTargetAtom,
+  dailyAggregationAtom,
+} from '@/shared/state/settings-atoms';
+import {
+  AngleVersionSelection,
+  collectAlgorithmVersions,
+  reprocessMeasurementResults,
+  resolveResultAngle,
+} from '@/lib/database/angle-reprocessor';
+import { ANGLE_ALGORITHM_VERSION } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  getTimeOfDay,
+  MotionAngleField,
+  MotionMeasurement,
+  TIME_OF_DAY_LABELS,
+  TimeOfDay,
+} from '@/lib/data-manager/models/motion-measurement';
+import {
+  aggregateMeasurementsByDay,
+  DAILY_AGGREGATION_LABELS,
+  DAILY_AGGREGATIONS,
+} from '@/lib/data-manager/models/daily-aggregation';
 import type { CalendarRecord } from '@/lib/data-manager/models/calendar-record';
+import type { QualityMetrics } from '@/core/domain/types/hand-landmark';
+import type { PairedReading } from '@/core/domain/types/measurement';
+import { aggregateQualityMetrics } from '@/core/infrastructure/mediapipe/quality-analyzer';
+import QualityBadge from '@/components/measurement/QualityBadge';
 import styles from './page.module.scss';
 
 /**
@@ -29,6 +67,28 @@ import styles from './page.module.scss';
  */
 const FORCE_USE_SAMPLE_DATA = true;
 
+/**
+ * 測定ステップ名と測定項目の対応
+ */
+const STEP_NAME_FIELDS: Record<string, MotionAngleField> = {
+  掌屈: 'wristFlexion',
+  背屈: 'wristExtension',
+  尺屈: 'wristUlnarDeviation',
+  橈屈: 'wristRadialDeviation',
+};
+
+/**
+ * 測定ステップIDとグラフの可動域タイプの対応
+ */
+const STEP_MOTION_TYPES: Record<string, MotionType> = {
+  'palmar-flexion': 'flexion',
+  'dorsal-flexion': 'extension',
+  'radial-deviation': 'radial',
+  'ulnar-deviation': 'ulnar',
+  pronation: 'pronation',
+  supination: 'supination',
+};
+
 /**
  * テスト用サンプルデータを生成
  */
@@ -185,6 +245,7 @@ const generateSampleData = (
  */
 const fetchMeasurements = async (
   hand: 'left' | 'right',
+  angleVersion: AngleVersionSelection = 'recorded',
   userId: string = 'default-user' // userIdは現状未使用ですが、将来的な拡張のため残します
 ): Promise<{ measurements: MotionMeasurement[]; isRealData: boolean }> => {
   try {
@@ -195,22 +256,28 @@ const fetchMeasurements = async (
       return { measurements: sampleData, isRealData: false };
     }
 
-    // MeasurementDatabaseのdb.sessionsからデータを取得し、handでフィルタリング
-    const sessions = await db.sessions
-      .where('hand')
-      .equals(hand)
-      .sortBy('startTime');
+    // 手ごとのセッションを、ステップごとの測定結果・集計した測定データと合わせて取得
+    const sessions = await db.getSessionsWithResults(hand);
 
     const allRealMeasurements: MotionMeasurement[] = [];
 
-    for (const session of sessions) {
-      const results = await db.getSessionResults(session.sessionId);
+    for (const { session, results: sessionResults, measurement } of sessions) {
+      // 指モードのセッションは手首・母指の推移に含めない
+      if (session.mode === 'finger') continue;
+
+      // 選択したアルゴリズムバージョンで計算された結果のみを使用
+      const results = sessionResults.flatMap((result) => {
+        const angle = resolveResultAngle(result, angleVersion);
+        return angle === null ? [] : [{ ...result, angle }];
+      });
 
       if (results.length > 0) {
         const motionMeasurement: MotionMeasurement = {
           id: session.sessionId,
-          userId: userId, // またはセッションから取得可能なuserId
+          userId: measurement?.userId ?? userId,
+          sessionId: session.sessionId,
           measurementDate: new Date(session.startTime),
+          timeOfDay: getTimeOfDay(new Date(session.startTime)),
           wristFlexion: 0,
           wristExtension: 0,
           wristUlnarDeviation: 0,
@@ -247,31 +314,31 @@ const fetchMeasurements = async (
         motionMeasurement.wristUlnarDeviation = latestAngles['尺屈'] || 0;
         motionMeasurement.wristRadialDeviation = latestAngles['橈屈'] || 0;
 
+        // 各ステップの品質指標を測定項目ごとに割り当て
+        results.forEach((result) => {
+          const field = STEP_NAME_FIELDS[result.stepName];
+          if (field && result.qualityMetrics) {
+            motionMeasurement.qualityMetrics = {
+              ...motionMeasurement.qualityMetrics,
+              [field]: result.qualityMetrics,
+            };
+          }
+        });
+
         allRealMeasurements.push(motionMeasurement);
       }
     }
 
-    // 日付ごとに最新の測定結果のみを保持
-    const latestMeasurementsByDate = new Map<string, MotionMeasurement>();
-    allRealMeasurements.forEach((measurement) => {
-      const date = new Date(measurement.measurementDate);
-      const year = date.getFullYear();
-      const month = (date.getMonth() + 1).toString().padStart(2, '0');
-      const day = date.getDate().toString().padStart(2, '0');
-      const dateKey = `${year}-${month}-${day}`;
-      // 既にその日のデータがある場合、より新しいもので上書き
-      if (
-        !latestMeasurementsByDate.has(dateKey) ||
-        new Date(measurement.measurementDate).getTime() >
-          new Date(
-            latestMeasurementsByDate.get(dateKey)!.measurementDate
-          ).getTime()
-      ) {
-        latestMeasurementsByDate.set(dateKey, measurement);
-      }
-    });
+    // ゴニオメーター測定値の取り込みなど、セッションのない測定データは記録した角度をそのまま使う
+    const standaloneMeasurements = await db.measurements
+      .where('handUsed')
+      .equals(hand)
+      .filter((measurement) => !measurement.sessionId)
+      .toArray();
+    allRealMeasurements.push(...standaloneMeasurements);
 
-    const realMeasurements = Array.from(latestMeasurementsByDate.values()).sort(
+    // 同じ日の測定もすべて返し、日ごとの集計は表示時に行う
+    const realMeasurements = allRealMeasurements.sort(
       (a, b) =>
         new Date(a.measurementDate).getTime() -
         new Date(b.measurementDate).getTime()
@@ -285,7 +352,7 @@ const fetchMeasurements = async (
     }
 
     console.log(
-      `MeasurementDatabaseから取得した実際のデータを使用。(Hand: ${hand})`,
+      `データベースから取得した実際のデータを使用。(Hand: ${hand})`,
       realMeasurements
     );
     return {
@@ -374,6 +441,17 @@ const HANDS = [
   { value: 'left' as const, label: '左手' },
 ];
 
+/**
+ * 時間帯選択オプション
+ */
+const TIME_OF_DAY_OPTIONS: { value: TimeOfDay | 'all'; label: string }[] = [
+  { value: 'all', label: 'すべて' },
+  ...(Object.keys(TIME_OF_DAY_LABELS) as TimeOfDay[]).map((timeOfDay) => ({
+    value: timeOfDay,
+    label: TIME_OF_DAY_LABELS[timeOfDay],
+  })),
+];
+
 /**
  * 期間に基づいてデータをフィルタリング
  */
@@ -681,6 +759,8 @@ interface ProgressStats {
   improvementRate: number;
   consecutiveDays: number;
   latestMeasurementDate: Date | null;
+  /** 最新測定の品質指標（測定項目の平均） */
+  latestQuality: QualityMetrics | null;
 }
 
 const calculateProgressStats = (
@@ -693,6 +773,7 @@ const calculateProgressStats = (
       improvementRate: 0,
       consecutiveDays: 0,
       latestMeasurementDate: null,
+      latestQuality: null,
     };
   }
 
@@ -722,12 +803,16 @@ const calculateProgressStats = (
     sortedMeasurements.length > 0 && sortedMeasurements[0]
       ? new Date(sortedMeasurements[0].measurementDate)
       : null;
+  const latestQuality = aggregateQualityMetrics(
+    Object.values(sortedMeasurements[0]?.qualityMetrics ?? {})
+  );
 
   return {
     totalMeasurements: measurements.length,
     improvementRate: -Math.round(improvementRate * 10) / 10, // 小数点1桁まで表示
     consecutiveDays,
     latestMeasurementDate,
+    latestQuality,
   };
 };
 
@@ -743,6 +828,26 @@ const ProgressPage: React.FC = () => {
     'week' | 'month' | '3months' | '6months' | 'year'
   >('month');
   const [selectedHand, setSelectedHand] = useState<'left' | 'right'>('right'); // デフォルトは右手
+  const [selectedTimeOfDay, setSelectedTimeOfDay] = useState<TimeOfDay | 'all'>(
+    'all'
+  );
+  const [dailyAggregation, setDailyAggregation] = useAtom(dailyAggregationAtom);
+  const [pairedReadings, setPairedReadings] = useState<PairedReading[]>([]);
+  const [angleVersion, setAngleVersion] =
+    useState<AngleVersionSelection>('recorded');
+  const [algorithmVersions, setAlgorithmVersions] = useState<number[]>([]);
+  const [isReprocessing, setIsReprocessing] = useState(false);
+  const [reprocessMessage, setReprocessMessage] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+  const [bilateralResults, setBilateralResults] =
+    useState<BilateralResults | null>(null);
+  const [kinematicsResults, setKinematicsResults] = useState<
+    MeasurementResult[]
+  >([]);
+  const [tremorRecords, setTremorRecords] = useState<TremorRecord[]>([]);
+  const [contralateralTarget, setContralateralTarget] = useAtom(
+    contralateralTargetAtom
+  );
 
   const [, setRightHandImprovementRate] = useAtom(rightHandImprovementRateAtom);
   const [, setLeftHandImprovementRate] = useAtom(leftHandImprovementRateAtom);
@@ -753,10 +858,23 @@ const ProgressPage: React.FC = () => {
       setLoading(true);
       try {
         console.log(`Fetching measurements for hand: ${selectedHand}`);
-        const measurementResult = await fetchMeasurements(selectedHand);
+        const measurementResult = await fetchMeasurements(
+          selectedHand,
+          angleVersion
+        );
 
         setMeasurements(measurementResult.measurements);
         setUsingRealData(measurementResult.isRealData);
+        setPairedReadings(await db.getPairedReadings(selectedHand));
+        const allResults = await db.getAllResults();
+        setAlgorithmVersions(collectAlgorithmVersions(allResults));
+        setKinematicsResults(
+          allResults.filter(
+            (result) => result.hand === selectedHand && result.kinematics
+          )
+        );
+        setTremorRecords(await db.getTremorRecords(selectedHand));
+        setBilateralResults(await db.getLatestBilateralResults());
       } catch (error) {
         console.error('データの読み込みに失敗:', error);
       } finally {
@@ -765,12 +883,68 @@ const ProgressPage: React.FC = () => {
     };
 
     loadData();
-  }, [selectedHand]); // selectedHandが変更されたらデータを再読み込み
+  }, [selectedHand, angleVersion, reloadCount]); // 手・角度計算バージョンが変更されたらデータを再読み込み
+
+  // 保存済みランドマークから現在の計算方法で角度を再計算
+  const handleReprocess = async () => {
+    setIsReprocessing(true);
+    try {
+      const summary = await reprocessMeasurementResults(db);
+      const excluded = [
+        ...(summary.unavailable > 0
+          ? [`ランドマークが無い${summary.unavailable}件`]
+          : []),
+        ...(summary.noReference > 0
+          ? [`基準角度が無く比較できない${summary.noReference}件`]
+          : []),
+      ];
+      setReprocessMessage(
+        excluded.length > 0
+          ? `${summary.recomputed}件を再計算しました（${excluded.join('・')}を除く）`
+          : `${summary.recomputed}件を再計算しました`
+      );
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      console.error('角度の再計算に失敗:', error);
+      setReprocessMessage('再計算に失敗しました');
+    } finally {
+      setIsReprocessing(false);
+    }
+  };
+
+  // 角度計算バージョンの選択肢
+  const angleVersionOptions: {
+    value: AngleVersionSelection;
+    label: string;
+  }[] = [
+    { value: 'recorded', label: '記録時' },
+    ...algorithmVersions.map((version) => ({
+      value: version,
+      label: `v${version}`,
+    })),
+  ];
+
+  // 時間帯・期間でフィルタリングされた測定データ（測定ごと）
+  const periodMeasurements = useMemo(
+    () =>
+      filterDataByPeriod(
+        selectedTimeOfDay === 'all'
+          ? measurements
+          : measurements.filter(
+              (measurement) =>
+                (measurement.timeOfDay ??
+                  getTimeOfDay(new Date(measurement.measurementDate))) ===
+                selectedTimeOfDay
+            ),
+        selectedPeriod
+      ),
+    [measurements, selectedTimeOfDay, selectedPeriod]
+  );
 
-  // 期間でフィルタリングされた測定データ
+  // 1日の集計方法で日ごとに集計した測定データ
   const filteredMeasurements = useMemo(
-    () => filterDataByPeriod(measurements, selectedPeriod),
-    [measurements, selectedPeriod]
+    () => aggregateMeasurementsByDay(periodMeasurements, dailyAggregation),
+    [periodMeasurements, dailyAggregation]
   );
 
   // 期間に応じてデータを集約
@@ -786,10 +960,43 @@ const ProgressPage: React.FC = () => {
     return filteredMeasurements;
   }, [filteredMeasurements, selectedPeriod]);
 
+  // 最新の左右比較測定の運動ごとの左右差（選択したアルゴリズムバージョンの角度）
+  const bilateralDeficits = useMemo(() => {
+    if (!bilateralResults) return [];
+    const results = bilateralResults.results.flatMap((result) => {
+      const angle = resolveResultAngle(result, angleVersion);
+      return angle === null ? [] : [{ ...result, angle }];
+    });
+    return calculateBilateralDeficits(
+      results,
+      bilateralResults.link.affectedHand
+    );
+  }, [bilateralResults, angleVersion]);
+
+  // 健側を目標にする設定が有効な場合、患側のグラフの目標を健側の角度にする
+  const contralateralTargetAngles = useMemo(() => {
+    if (
+      !contralateralTarget ||
+      bilateralResults?.link.affectedHand !== selectedHand
+    ) {
+      return undefined;
+    }
+    const targets: Partial<Record<MotionType, number>> = {};
+    bilateralDeficits.forEach((deficit) => {
+      const motionType = STEP_MOTION_TYPES[deficit.stepId];
+      if (motionType) targets[motionType] = deficit.unaffectedAngle;
+    });
+    return targets;
+  }, [contralateralTarget, bilateralResults, bilateralDeficits, selectedHand]);
+
   // 統計情報（フィルタリングされたデータに基づく）
   const stats = useMemo(
-    () => calculateProgressStats(filteredMeasurements, []),
-    [filteredMeasurements]
+    () => ({
+      ...calculateProgressStats(filteredMeasurements, []),
+      // 同じ日の複数回の測定も測定回数に含める
+      totalMeasurements: periodMeasurements.length,
+    }),
+    [filteredMeasurements, periodMeasurements]
   );
 
   // レスポンシブ時はスクロールを有効にする
@@ -882,6 +1089,80 @@ const ProgressPage: React.FC = () => {
             </div>
           </div>
 
+          {/* 時間帯の選択 */}
+          <div className={styles.periodSelector}>
+            <h2>時間帯</h2>
+            <div className={styles.periodButtons}>
+              {TIME_OF_DAY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`${styles.periodButton} ${
+                    selectedTimeOfDay === option.value ? styles.active : ''
+                  }`}
+                  onClick={() => setSelectedTimeOfDay(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 1日の集計方法の選択 */}
+          <div className={styles.periodSelector}>
+            <h2>1日の集計</h2>
+            <div className={styles.periodButtons}>
+              {DAILY_AGGREGATIONS.map((aggregation) => (
+                <button
+                  key={aggregation}
+                  type="button"
+                  className={`${styles.periodButton} ${
+                    dailyAggregation === aggregation ? styles.active : ''
+                  }`}
+                  onClick={() => setDailyAggregation(aggregation)}
+                >
+                  {DAILY_AGGREGATION_LABELS[aggregation]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 角度計算バージョンの選択 */}
+          <div className={styles.periodSelector}>
+            <h2>角度計算バージョン</h2>
+            <div className={styles.periodButtons}>
+              {angleVersionOptions.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  className={`${styles.periodButton} ${
+                    angleVersion === option.value ? styles.active : ''
+                  }`}
+                  onClick={() => setAngleVersion(option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className={styles.reprocessRow}>
+              <button
+                type="button"
+                className={styles.reprocessButton}
+                onClick={handleReprocess}
+                disabled={isReprocessing}
+              >
+                {isReprocessing
+                  ? '再計算中...'
+                  : `現在の計算方法（v${ANGLE_ALGORITHM_VERSION}）で再計算`}
+              </button>
+              {reprocessMessage && (
+                <span className={styles.reprocessMessage}>
+                  {reprocessMessage}
+                </span>
+              )}
+            </div>
+          </div>
+
           {/* 統計セクション */}
           <div className={styles.statsSection}>
             <h2>統計情報</h2>
@@ -923,6 +1204,11 @@ const ProgressPage: React.FC = () => {
                   <span className={styles.statDescription}>
                     最後に測定した日
                   </span>
+                  {stats.latestQuality && (
+                    <div className={styles.statBadge}>
+                      <QualityBadge metrics={stats.latestQuality} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -935,8 +1221,51 @@ const ProgressPage: React.FC = () => {
             <MotionChartsContainer
               measurements={aggregatedMeasurements}
               selectedPeriod={selectedPeriod}
+              {...(contralateralTargetAngles
+                ? { targetAngles: contralateralTargetAngles }
+                : {})}
             />
           </div>
+
+          {/* 左右比較（左右比較測定を行った場合のみ） */}
+          {bilateralResults && (
+            <div className={styles.symmetrySection}>
+              <SymmetryChart
+                deficits={bilateralDeficits}
+                affectedHand={bilateralResults.link.affectedHand}
+                measuredAt={new Date(bilateralResults.startTime)}
+              />
+              <label className={styles.contralateralTargetToggle}>
+                <input
+                  type="checkbox"
+                  checked={contralateralTarget}
+                  onChange={(e) => setContralateralTarget(e.target.checked)}
+                />
+                正常可動域の代わりに健側の可動域を患側の目標にする
+              </label>
+            </div>
+          )}
+
+          {/* 動作の質（角度の推移を記録した測定のみ） */}
+          {kinematicsResults.length > 0 && (
+            <div className={styles.kinematicsSection}>
+              <KinematicsChart results={kinematicsResults} />
+            </div>
+          )}
+
+          {/* 振戦の推移（振戦検査を記録した場合のみ） */}
+          {tremorRecords.length > 0 && (
+            <div className={styles.tremorSection}>
+              <TremorTrendChart records={tremorRecords} />
+            </div>
+          )}
+
+          {/* ゴニオメーター比較（検証モードで記録した場合のみ） */}
+          {pairedReadings.length > 0 && (
+            <div className={styles.agreementSection}>
+              <AgreementReport readings={pairedReadings} />
+            </div>
+          )}
         </div>
 
         {aggregatedMeasurements.length === 0 && usingRealData && (
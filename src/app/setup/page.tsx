@@ -6,7 +6,30 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import { useAtom } from 'jotai';
 import styles from './page.module.scss';
+import EncryptionSettings from '@/components/security/EncryptionSettings';
+import CsvExportSettings from '@/components/data/CsvExportSettings';
+import CsvImportSettings from '@/components/data/CsvImportSettings';
+import { exportFhirBundle } from '@/lib/data-manager/database';
+import {
+  handTrackingBackendAtom,
+  smoothingSettingsAtom,
+} from '@/shared/state/settings-atoms';
+import {
+  DEFAULT_HAND_TRACKING_BACKEND,
+  HAND_TRACKING_BACKEND_LABELS,
+  HandTrackingBackendId,
+} from '@/lib/mediapipe/hand-tracking-backend';
+import {
+  DEFAULT_SMOOTHING_SETTINGS,
+  SMOOTHING_PARAM_MIN,
+} from '@/core/infrastructure/mediapipe/signal-filter';
+import type {
+  KalmanFilterParams,
+  OneEuroFilterParams,
+  SmoothingSettings,
+} from '@/core/domain/types/angle';
 
 /**
  * ユーザー設定の型
@@ -67,8 +90,29 @@ export default function SetupPage() {
     useState<UserSettings>(defaultUserSettings);
   const [appSettings, setAppSettings] =
     useState<AppSettings>(defaultAppSettings);
+  const [savedSmoothingSettings, setSavedSmoothingSettings] = useAtom(
+    smoothingSettingsAtom
+  );
+  const [smoothingSettings, setSmoothingSettings] = useState<SmoothingSettings>(
+    savedSmoothingSettings
+  );
+  const [savedHandTrackingBackend, setSavedHandTrackingBackend] = useAtom(
+    handTrackingBackendAtom
+  );
+  const [handTrackingBackend, setHandTrackingBackend] =
+    useState<HandTrackingBackendId>(savedHandTrackingBackend);
   const [isModified, setIsModified] = useState(false);
 
+  // 保存済みの平滑化設定を反映
+  useEffect(() => {
+    setSmoothingSettings(savedSmoothingSettings);
+  }, [savedSmoothingSettings]);
+
+  // 保存済みの検出バックエンドを反映
+  useEffect(() => {
+    setHandTrackingBackend(savedHandTrackingBackend);
+  }, [savedHandTrackingBackend]);
+
   // 設定の読み込み
   useEffect(() => {
     const loadSettings = async () => {
@@ -114,6 +158,8 @@ export default function SetupPage() {
       // 実際の実装では API に送信
       localStorage.setItem('userSettings', JSON.stringify(userSettings));
       localStorage.setItem('appSettings', JSON.stringify(appSettings));
+      setSavedSmoothingSettings(smoothingSettings);
+      setSavedHandTrackingBackend(handTrackingBackend);
 
       setIsModified(false);
       setError(null);
@@ -131,6 +177,8 @@ export default function SetupPage() {
     if (confirm('設定をリセットしてもよろしいですか？')) {
       setUserSettings(defaultUserSettings);
       setAppSettings(defaultAppSettings);
+      setSmoothingSettings(DEFAULT_SMOOTHING_SETTINGS);
+      setHandTrackingBackend(DEFAULT_HAND_TRACKING_BACKEND);
       setIsModified(true);
     }
   };
@@ -153,6 +201,36 @@ export default function SetupPage() {
     setIsModified(true);
   };
 
+  // 平滑化設定の更新
+  const updateSmoothingSetting = <K extends keyof SmoothingSettings>(
+    key: K,
+    value: SmoothingSettings[K]
+  ) => {
+    setSmoothingSettings((prev) => ({ ...prev, [key]: value }));
+    setIsModified(true);
+  };
+
+  // 1€フィルターのパラメータ更新
+  const updateOneEuroParam = (
+    key: keyof OneEuroFilterParams,
+    value: number
+  ) => {
+    if (Number.isNaN(value)) return;
+    updateSmoothingSetting('oneEuro', {
+      ...smoothingSettings.oneEuro,
+      [key]: Math.max(value, SMOOTHING_PARAM_MIN.oneEuro[key]),
+    });
+  };
+
+  // カルマンフィルターのパラメータ更新
+  const updateKalmanParam = (key: keyof KalmanFilterParams, value: number) => {
+    if (Number.isNaN(value)) return;
+    updateSmoothingSetting('kalman', {
+      ...smoothingSettings.kalman,
+      [key]: Math.max(value, SMOOTHING_PARAM_MIN.kalman[key]),
+    });
+  };
+
   // カメラテスト
   const handleCameraTest = async () => {
     try {
@@ -197,6 +275,27 @@ export default function SetupPage() {
     URL.revokeObjectURL(url);
   };
 
+  // FHIR形式のエクスポート（電子カルテへの取り込み用）
+  const handleFhirExport = async () => {
+    try {
+      const bundle = await exportFhirBundle();
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: 'application/fhir+json',
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `rehabilitation-fhir-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('FHIRエクスポートエラー:', err);
+      setError('FHIR形式のエクスポートに失敗しました');
+    }
+  };
+
   // データインポート
   const handleDataImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -574,6 +673,180 @@ export default function SetupPage() {
                   カメラが正常に動作するかテストします
                 </p>
               </div>
+
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>手の検出エンジン</label>
+                <select
+                  value={handTrackingBackend}
+                  onChange={(e) => {
+                    setHandTrackingBackend(
+                      e.target.value as HandTrackingBackendId
+                    );
+                    setIsModified(true);
+                  }}
+                  className={styles.settingSelect}
+                >
+                  {(
+                    Object.keys(
+                      HAND_TRACKING_BACKEND_LABELS
+                    ) as HandTrackingBackendId[]
+                  ).map((id) => (
+                    <option key={id} value={id}>
+                      {HAND_TRACKING_BACKEND_LABELS[id]}
+                    </option>
+                  ))}
+                </select>
+                <p className={styles.settingDescription}>
+                  HandLandmarkerはGPUで推論し、メートル単位の3次元座標を出力します。変更は次の測定から反映されます
+                </p>
+              </div>
+
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>角度の平滑化</label>
+                <select
+                  value={smoothingSettings.filterType}
+                  onChange={(e) =>
+                    updateSmoothingSetting(
+                      'filterType',
+                      e.target.value as SmoothingSettings['filterType']
+                    )
+                  }
+                  className={styles.settingSelect}
+                >
+                  <option value="one-euro">1€フィルター（推奨）</option>
+                  <option value="kalman">カルマンフィルター</option>
+                  <option value="none">平滑化しない</option>
+                </select>
+                <p className={styles.settingDescription}>
+                  測定中の角度のぶれを抑えます。最大角度の取りこぼしを防ぐため移動平均は使用しません
+                </p>
+              </div>
+
+              {smoothingSettings.filterType !== 'none' && (
+                <div className={styles.settingGroup}>
+                  <label className={styles.settingLabel}>
+                    平滑化の適用対象
+                  </label>
+                  <select
+                    value={smoothingSettings.target}
+                    onChange={(e) =>
+                      updateSmoothingSetting(
+                        'target',
+                        e.target.value as SmoothingSettings['target']
+                      )
+                    }
+                    className={styles.settingSelect}
+                  >
+                    <option value="angle">角度</option>
+                    <option value="landmark">ランドマーク座標</option>
+                  </select>
+                </div>
+              )}
+
+              {smoothingSettings.filterType === 'one-euro' && (
+                <>
+                  <div className={styles.settingGroup}>
+                    <label className={styles.settingLabel}>
+                      最小カットオフ周波数（Hz）
+                    </label>
+                    <input
+                      type="number"
+                      min={SMOOTHING_PARAM_MIN.oneEuro.minCutoff}
+                      step="0.1"
+                      value={smoothingSettings.oneEuro.minCutoff}
+                      onChange={(e) =>
+                        updateOneEuroParam('minCutoff', e.target.valueAsNumber)
+                      }
+                      className={styles.settingInput}
+                    />
+                    <p className={styles.settingDescription}>
+                      小さいほど静止時の揺れが減り、遅延が増えます
+                    </p>
+                  </div>
+
+                  <div className={styles.settingGroup}>
+                    <label className={styles.settingLabel}>速度係数</label>
+                    <input
+                      type="number"
+                      min={SMOOTHING_PARAM_MIN.oneEuro.beta}
+                      step="0.01"
+                      value={smoothingSettings.oneEuro.beta}
+                      onChange={(e) =>
+                        updateOneEuroParam('beta', e.target.valueAsNumber)
+                      }
+                      className={styles.settingInput}
+                    />
+                    <p className={styles.settingDescription}>
+                      大きいほど素早い動作への追従が速くなります
+                    </p>
+                  </div>
+
+                  <div className={styles.settingGroup}>
+                    <label className={styles.settingLabel}>
+                      速度推定のカットオフ周波数（Hz）
+                    </label>
+                    <input
+                      type="number"
+                      min={SMOOTHING_PARAM_MIN.oneEuro.derivativeCutoff}
+                      step="0.1"
+                      value={smoothingSettings.oneEuro.derivativeCutoff}
+                      onChange={(e) =>
+                        updateOneEuroParam(
+                          'derivativeCutoff',
+                          e.target.valueAsNumber
+                        )
+                      }
+                      className={styles.settingInput}
+                    />
+                  </div>
+                </>
+              )}
+
+              {smoothingSettings.filterType === 'kalman' && (
+                <>
+                  <div className={styles.settingGroup}>
+                    <label className={styles.settingLabel}>
+                      プロセスノイズ
+                    </label>
+                    <input
+                      type="number"
+                      min={SMOOTHING_PARAM_MIN.kalman.processNoise}
+                      step="10"
+                      value={smoothingSettings.kalman.processNoise}
+                      onChange={(e) =>
+                        updateKalmanParam(
+                          'processNoise',
+                          e.target.valueAsNumber
+                        )
+                      }
+                      className={styles.settingInput}
+                    />
+                    <p className={styles.settingDescription}>
+                      大きいほど動作への追従が速くなります
+                    </p>
+                  </div>
+
+                  <div className={styles.settingGroup}>
+                    <label className={styles.settingLabel}>観測ノイズ</label>
+                    <input
+                      type="number"
+                      min={SMOOTHING_PARAM_MIN.kalman.measurementNoise}
+                      step="0.5"
+                      value={smoothingSettings.kalman.measurementNoise}
+                      onChange={(e) =>
+                        updateKalmanParam(
+                          'measurementNoise',
+                          e.target.valueAsNumber
+                        )
+                      }
+                      className={styles.settingInput}
+                    />
+                    <p className={styles.settingDescription}>
+                      大きいほど平滑化が強くなり、遅延が増えます
+                    </p>
+                  </div>
+                </>
+              )}
             </div>
           </section>
         )}
@@ -598,6 +871,40 @@ export default function SetupPage() {
                 </p>
               </div>
 
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>
+                  電子カルテ用エクスポート
+                </label>
+                <button
+                  onClick={handleFhirExport}
+                  className={styles.exportButton}
+                >
+                  🏥 FHIR形式でエクスポート
+                </button>
+                <p className={styles.settingDescription}>
+                  測定した角度と痛みレベルをFHIR
+                  R4のBundle（JSON）でダウンロードします
+                </p>
+              </div>
+
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>CSVエクスポート</label>
+                <CsvExportSettings />
+                <p className={styles.settingDescription}>
+                  測定データ・カレンダー記録を選択した列と期間でCSVファイルにし、Excelなどで分析できるようにします
+                </p>
+              </div>
+
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>
+                  ゴニオメーター測定値の取り込み
+                </label>
+                <CsvImportSettings />
+                <p className={styles.settingDescription}>
+                  医療機関でゴニオメーターを使って測定した角度をCSVファイルから取り込みます。取り込んだデータは取得元を記録し、カメラ測定と区別します
+                </p>
+              </div>
+
               <div className={styles.settingGroup}>
                 <label className={styles.settingLabel}>データインポート</label>
                 <input
@@ -611,6 +918,14 @@ export default function SetupPage() {
                 </p>
               </div>
 
+              <div className={styles.settingGroup}>
+                <label className={styles.settingLabel}>データの暗号化</label>
+                <EncryptionSettings />
+                <p className={styles.settingDescription}>
+                  名前・メモ・角度・ランドマークなどをパスフレーズで暗号化して保存します。パスフレーズを忘れるとデータを復元できません
+                </p>
+              </div>
+
               <div className={styles.settingGroup}>
                 <label className={styles.settingLabel}>データリセット</label>
                 <button
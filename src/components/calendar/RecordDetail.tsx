@@ -4,6 +4,7 @@
  */
 
 import React, { useState, useEffect } from 'react';
+import Image from 'next/image';
 import type {
   CalendarRecord,
   CreateCalendarRecordInput,
@@ -12,6 +13,11 @@ import type {
   PainLevel,
   MotivationLevel,
 } from '@/lib/data-manager/models/calendar-record';
+import {
+  db as measurementDb,
+  MeasurementResult,
+} from '@/lib/database/measurement-db';
+import AngleTrajectoryChart from '@/components/measurement/AngleTrajectoryChart';
 import styles from './RecordDetail.module.scss';
 
 /**
@@ -88,6 +94,45 @@ export const RecordDetail: React.FC<RecordDetailProps> = ({
 
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [measurementResults, setMeasurementResults] = useState<
+    MeasurementResult[]
+  >([]);
+
+  /**
+   * 選択日の測定結果を取得（角度の推移の表示用）
+   */
+  useEffect(() => {
+    let isCancelled = false;
+
+    const fetchMeasurementResults = async () => {
+      try {
+        const results = await measurementDb.getResultsByDate(selectedDate);
+        if (!isCancelled) setMeasurementResults(results);
+      } catch (error) {
+        console.error('測定結果の取得に失敗しました:', error);
+      }
+    };
+
+    fetchMeasurementResults();
+    return () => {
+      isCancelled = true;
+    };
+  }, [selectedDate]);
+
+  // 角度の推移を記録した測定結果（左右の手ごとにステップ名を区別）
+  const trajectorySteps = measurementResults
+    .filter((result) => result.angleSeries)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((result) => ({
+      stepId: `${result.id ?? result.timestamp}`,
+      stepName: `${result.hand === 'left' ? '左' : '右'} ${result.stepName}`,
+      ...(result.angleSeries ? { angleSeries: result.angleSeries } : {}),
+    }));
+
+  // 最大角度の根拠画像を記録した測定結果（測定順）
+  const evidenceResults = measurementResults
+    .filter((result) => result.evidenceImage)
+    .sort((a, b) => a.timestamp - b.timestamp);
 
   /**
    * レコードデータでフォームを初期化
@@ -357,6 +402,42 @@ export const RecordDetail: React.FC<RecordDetailProps> = ({
         </div>
       </div>
 
+      {/* 角度の推移 */}
+      {trajectorySteps.length > 0 && (
+        <div className={styles.section}>
+          <h3>測定の角度推移</h3>
+          <AngleTrajectoryChart steps={trajectorySteps} height={200} />
+        </div>
+      )}
+
+      {/* 最大角度の根拠画像 */}
+      {evidenceResults.length > 0 && (
+        <div className={styles.section}>
+          <h3>最大角度の根拠画像</h3>
+          <div className={styles.evidenceGrid}>
+            {evidenceResults.map((result) => (
+              <figure
+                key={result.id ?? result.timestamp}
+                className={styles.evidenceItem}
+              >
+                <Image
+                  className={styles.evidenceImage}
+                  src={result.evidenceImage ?? ''}
+                  alt={`${result.stepName}の最大角度`}
+                  width={480}
+                  height={360}
+                  unoptimized
+                />
+                <figcaption className={styles.evidenceCaption}>
+                  {result.hand === 'left' ? '左' : '右'} {result.stepName}{' '}
+                  {Math.round(result.angle)}°
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* メモ */}
       <div className={styles.section}>
         <h3>メモ・感想</h3>
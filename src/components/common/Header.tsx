@@ -2,9 +2,12 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { databaseEncryption } from '@/lib/database/database-encryption';
+import { useDatabaseEncryption } from '@/hooks/useDatabaseEncryption';
 import styles from './Header.module.scss';
 export default function Header() {
   const pathname = usePathname();
+  const encryptionStatus = useDatabaseEncryption();
   return (
     <header className={styles.header}>
       <div className={styles.simpleHeaderContainer}>
@@ -50,6 +53,16 @@ export default function Header() {
           >
             記録管理
           </Link>
+          {/* 暗号化している場合はすぐにロックできるようにする */}
+          {encryptionStatus === 'unlocked' && (
+            <button
+              onClick={() => databaseEncryption.lock()}
+              className={styles.lockButton}
+              title="データをロック"
+            >
+              🔒 ロック
+            </button>
+          )}
         </nav>
       </div>
     </header>
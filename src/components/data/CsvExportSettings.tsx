@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * CSVエクスポートの設定コンポーネント
+ * 測定データ・カレンダー記録を、選択した列と期間でCSVファイルとしてダウンロードする
+ */
+
+import React, { useState } from 'react';
+import {
+  exportCalendarCsv,
+  exportMeasurementCsv,
+} from '@/lib/data-manager/database';
+import { CSV_BOM } from '@/lib/data-manager/csv';
+import {
+  CALENDAR_CSV_COLUMNS,
+  CalendarCsvColumnId,
+  MEASUREMENT_CSV_COLUMNS,
+  MeasurementCsvColumnId,
+} from '@/lib/data-manager/csv-export';
+import styles from './CsvSettings.module.scss';
+
+/**
+ * エクスポートするデータの種類
+ */
+type CsvExportTarget = 'measurements' | 'calendar';
+
+/**
+ * データの種類ごとの表示名
+ */
+const TARGET_LABELS: Record<CsvExportTarget, string> = {
+  measurements: '測定データ',
+  calendar: 'カレンダー記録',
+};
+
+/**
+ * 日付入力の値（YYYY-MM-DD）をローカル時刻の日付に変換
+ */
+const parseDateInput = (value: string): Date | undefined => {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year ?? 0, (month ?? 1) - 1, day ?? 1);
+};
+
+/**
+ * CSVファイルのダウンロード
+ * Excelで文字化けしないようBOMを付ける
+ */
+const downloadCsv = (csv: string, fileName: string) => {
+  const blob = new Blob([CSV_BOM + csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export default function CsvExportSettings() {
+  const [target, setTarget] = useState<CsvExportTarget>('measurements');
+  const [measurementColumns, setMeasurementColumns] = useState<
+    MeasurementCsvColumnId[]
+  >(MEASUREMENT_CSV_COLUMNS.map((column) => column.id));
+  const [calendarColumns, setCalendarColumns] = useState<CalendarCsvColumnId[]>(
+    CALENDAR_CSV_COLUMNS.map((column) => column.id)
+  );
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const columns =
+    target === 'measurements' ? MEASUREMENT_CSV_COLUMNS : CALENDAR_CSV_COLUMNS;
+  const selectedColumns: string[] =
+    target === 'measurements' ? measurementColumns : calendarColumns;
+
+  /**
+   * 列の選択の切り替え（列の順序はCSVの列順に揃える）
+   */
+  const toggleColumn = (id: string) => {
+    const toggle = <TId extends string>(
+      allIds: readonly TId[],
+      current: TId[]
+    ): TId[] =>
+      allIds.filter((columnId) =>
+        columnId === id
+          ? !current.includes(columnId)
+          : current.includes(columnId)
+      );
+
+    if (target === 'measurements') {
+      setMeasurementColumns(
+        toggle(
+          MEASUREMENT_CSV_COLUMNS.map((column) => column.id),
+          measurementColumns
+        )
+      );
+    } else {
+      setCalendarColumns(
+        toggle(
+          CALENDAR_CSV_COLUMNS.map((column) => column.id),
+          calendarColumns
+        )
+      );
+    }
+  };
+
+  const handleExport = async () => {
+    const start = parseDateInput(startDate);
+    const end = parseDateInput(endDate);
+    if (start && end && start > end) {
+      setError('終了日は開始日以降の日付を指定してください');
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const range = {
+        ...(start ? { startDate: start } : {}),
+        ...(end ? { endDate: end } : {}),
+      };
+      const csv =
+        target === 'measurements'
+          ? await exportMeasurementCsv({
+              columns: measurementColumns,
+              ...range,
+            })
+          : await exportCalendarCsv({ columns: calendarColumns, ...range });
+
+      const fileName =
+        target === 'measurements'
+          ? 'rehabilitation-measurements'
+          : 'rehabilitation-calendar';
+      downloadCsv(
+        csv,
+        `${fileName}-${new Date().toISOString().split('T')[0]}.csv`
+      );
+    } catch (exportError) {
+      console.error('CSVエクスポートエラー:', exportError);
+      setError('CSVのエクスポートに失敗しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.csvSettings}>
+      <div className={styles.targets}>
+        {(Object.keys(TARGET_LABELS) as CsvExportTarget[]).map((value) => (
+          <label key={value} className={styles.radioLabel}>
+            <input
+              type="radio"
+              name="csvExportTarget"
+              value={value}
+              checked={target === value}
+              onChange={() => setTarget(value)}
+            />
+            {TARGET_LABELS[value]}
+          </label>
+        ))}
+      </div>
+
+      <fieldset className={styles.fieldset}>
+        <legend>出力する列</legend>
+        <div className={styles.columns}>
+          {columns.map((column) => (
+            <label key={column.id} className={styles.checkboxLabel}>
+              <input
+                type="checkbox"
+                checked={selectedColumns.includes(column.id)}
+                onChange={() => toggleColumn(column.id)}
+              />
+              {column.label}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className={styles.dateRange}>
+        <label className={styles.fieldLabel}>
+          開始日
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className={styles.input}
+          />
+        </label>
+        <span>〜</span>
+        <label className={styles.fieldLabel}>
+          終了日
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className={styles.input}
+          />
+        </label>
+      </div>
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting || selectedColumns.length === 0}
+        className={styles.primaryButton}
+      >
+        {isExporting ? 'エクスポート中...' : '📊 CSVでエクスポート'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+/**
+ * ゴニオメーター測定値のCSV取り込みコンポーネント
+ * CSVの列と測定項目の対応を選択し、検証結果を確認してから測定データとして保存する
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { db, importMeasurements } from '@/lib/data-manager/database';
+import { CsvRow, parseCsvRows } from '@/lib/data-manager/csv';
+import {
+  CsvColumnMapping,
+  MEASUREMENT_IMPORT_FIELDS,
+  MEASUREMENT_IMPORT_FIELD_LABELS,
+  MeasurementImportField,
+  guessColumnMapping,
+  importGoniometerMeasurements,
+  validateColumnMapping,
+} from '@/lib/data-manager/csv-import';
+import type { HandType } from '@/lib/data-manager/models/motion-measurement';
+import styles from './CsvSettings.module.scss';
+
+/**
+ * 読み込んだCSVファイル
+ */
+interface LoadedCsv {
+  fileName: string;
+  rows: CsvRow[];
+}
+
+/**
+ * 表示するエラー行の上限
+ */
+const MAX_VISIBLE_ERRORS = 20;
+
+export default function CsvImportSettings() {
+  const [csv, setCsv] = useState<LoadedCsv | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [userId, setUserId] = useState('');
+  const [defaultHand, setDefaultHand] = useState<HandType | ''>('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // 取り込み先のユーザーIDは、最新の測定データまたは登録済みのユーザーから補完する
+  useEffect(() => {
+    const loadUserId = async () => {
+      try {
+        const latest = await db.measurements.orderBy('measurementDate').last();
+        const user = latest ? undefined : await db.users.toCollection().first();
+        const id = latest?.userId ?? user?.id;
+        if (id) setUserId((current) => current || id);
+      } catch (loadError) {
+        console.error('取り込み先ユーザーの取得エラー:', loadError);
+      }
+    };
+    loadUserId();
+  }, []);
+
+  const headers = csv?.rows[0]?.values ?? [];
+  const hand = defaultHand || undefined;
+
+  // 列の対応に問題がなければ、各行を検証した結果をプレビューする
+  const { mappingErrors, result } = useMemo(() => {
+    if (!csv) return { mappingErrors: [], result: null };
+
+    const errors = validateColumnMapping(mapping, hand);
+    if (!userId.trim()) {
+      errors.push('取り込み先のユーザーIDを入力してください');
+    }
+    if (errors.length > 0) return { mappingErrors: errors, result: null };
+
+    return {
+      mappingErrors: errors,
+      result: importGoniometerMeasurements(csv.rows, mapping, {
+        userId: userId.trim(),
+        ...(hand ? { defaultHand: hand } : {}),
+        fileName: csv.fileName,
+      }),
+    };
+  }, [csv, mapping, userId, hand]);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+    try {
+      const rows = parseCsvRows(await file.text());
+      if (rows.length < 2) {
+        setCsv(null);
+        setError('CSVにヘッダーとデータの行が必要です');
+        return;
+      }
+      setCsv({ fileName: file.name, rows });
+      setMapping(guessColumnMapping(rows[0]?.values ?? []));
+    } catch (readError) {
+      console.error('CSV読み込みエラー:', readError);
+      setError('CSVファイルの読み込みに失敗しました');
+    }
+  };
+
+  const handleMappingChange = (
+    field: MeasurementImportField,
+    value: string
+  ) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (!result || result.measurements.length === 0) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      await importMeasurements(result.measurements);
+      setMessage(
+        `${result.measurements.length}件の測定データを取り込みました` +
+          (result.errors.length > 0
+            ? `（${result.errors.length}行はエラーのため取り込んでいません）`
+            : '')
+      );
+      setCsv(null);
+      setMapping({});
+    } catch (importError) {
+      console.error('測定データの取り込みエラー:', importError);
+      setError('測定データの取り込みに失敗しました');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className={styles.csvSettings}>
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileChange}
+        className={styles.fileInput}
+      />
+
+      {csv && (
+        <>
+          <p className={styles.summary}>
+            {csv.fileName}（{csv.rows.length - 1}行）
+          </p>
+
+          <div className={styles.options}>
+            <label className={styles.fieldLabel}>
+              取り込み先のユーザーID
+              <input
+                type="text"
+                value={userId}
+                onChange={(e) => setUserId(e.target.value)}
+                className={styles.input}
+              />
+            </label>
+            <label className={styles.fieldLabel}>
+              測定手が空欄の場合
+              <select
+                value={defaultHand}
+                onChange={(e) =>
+                  setDefaultHand(e.target.value as HandType | '')
+                }
+                className={styles.input}
+              >
+                <option value="">エラーにする</option>
+                <option value="left">左手</option>
+                <option value="right">右手</option>
+              </select>
+            </label>
+          </div>
+
+          <fieldset className={styles.fieldset}>
+            <legend>列の対応</legend>
+            <div className={styles.mapping}>
+              {MEASUREMENT_IMPORT_FIELDS.map((field) => (
+                <label key={field} className={styles.fieldLabel}>
+                  {MEASUREMENT_IMPORT_FIELD_LABELS[field]}
+                  <select
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className={styles.input}
+                  >
+                    <option value="">（取り込まない）</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `${index + 1}列目`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {mappingErrors.map((mappingError) => (
+            <p key={mappingError} className={styles.error}>
+              {mappingError}
+            </p>
+          ))}
+
+          {result && (
+            <>
+              <p className={styles.summary}>
+                取り込める行: {result.measurements.length}件 / エラー:{' '}
+                {result.errors.length}件
+              </p>
+              {result.errors.length > 0 && (
+                <ul className={styles.errorList}>
+                  {result.errors
+                    .slice(0, MAX_VISIBLE_ERRORS)
+                    .map((rowError) => (
+                      <li key={rowError.line}>
+                        {rowError.line}行目: {rowError.messages.join('、')}
+                      </li>
+                    ))}
+                  {result.errors.length > MAX_VISIBLE_ERRORS && (
+                    <li>ほか{result.errors.length - MAX_VISIBLE_ERRORS}行</li>
+                  )}
+                </ul>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={isImporting || result.measurements.length === 0}
+                className={styles.primaryButton}
+              >
+                {isImporting
+                  ? '取り込み中...'
+                  : `${result.measurements.length}件を取り込む`}
+              </button>
+            </>
+          )}
+        </>
+      )}
+
+      {error && <p className={styles.error}>{error}</p>}
+      {message && <p className={styles.message}>{message}</p>}
+    </div>
+  );
+}
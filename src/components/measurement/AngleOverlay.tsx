@@ -10,7 +10,10 @@ import React, {
   useRef,
   useCallback,
 } from 'react';
-import { Hands, Results } from '@mediapipe/hands';
+import type {
+  HandDetectionResult,
+  HandTrackingBackend,
+} from '@/lib/mediapipe/hand-tracking-backend';
 import { angleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
 
 // 互換性のためのラッパー関数
@@ -28,24 +31,199 @@ const calculateWristAngles = (landmarks: any) => {
 };
 
 const calculateThumbAngles = (landmarks: any) => {
-  // 母指角度は現在未実装のため、ダミーデータを返す
+  const convertedLandmarks = landmarks.map((lm: any, index: number) => ({ ...lm, id: index }));
+  const domainAngles = angleCalculator.calculateThumbAngles(convertedLandmarks);
+
+  // ThumbAngles (domain) から AngleData.thumb (store) に変換
   return {
-    flexion: 0,
-    extension: 0,
-    abduction: 0,
-    adduction: 0,
+    flexion: domainAngles.flexion,
+    extension: domainAngles.extension,
+    abduction: domainAngles.abduction,
+    adduction: domainAngles.adduction,
   };
 };
 import type { HandType } from '@/lib/data-manager/models/motion-measurement';
 import type { AngleData } from '@/stores/measurement-atoms';
 import styles from './AngleOverlay.module.scss';
 
+/**
+ * 手の骨格線の接続
+ */
+const HAND_CONNECTIONS: Array<[number, number]> = [
+  // 手首から各指の根元
+  [0, 1],
+  [0, 5],
+  [0, 9],
+  [0, 13],
+  [0, 17],
+  // 親指
+  [1, 2],
+  [2, 3],
+  [3, 4],
+  // 人差し指
+  [5, 6],
+  [6, 7],
+  [7, 8],
+  // 中指
+  [9, 10],
+  [10, 11],
+  [11, 12],
+  // 薬指
+  [13, 14],
+  [14, 15],
+  [15, 16],
+  // 小指
+  [17, 18],
+  [18, 19],
+  [19, 20],
+  // 手のひら
+  [5, 9],
+  [9, 13],
+  [13, 17],
+];
+
+/**
+ * 手のランドマークを描画
+ * 録画の再生画面でも同じ表示にするため、コンポーネント外に定義する
+ */
+export const drawHandLandmarks = (
+  ctx: CanvasRenderingContext2D,
+  landmarks: Array<{ x: number; y: number; z?: number }>,
+  canvasWidth: number,
+  canvasHeight: number,
+  showIndices: boolean = false
+): void => {
+  // 関節点の描画
+  landmarks.forEach((landmark, index) => {
+    const x = landmark.x * canvasWidth;
+    const y = landmark.y * canvasHeight;
+
+    ctx.beginPath();
+    ctx.arc(x, y, 4, 0, 2 * Math.PI);
+    ctx.fillStyle =
+      index < 5
+        ? '#ff6b6b' // 親指
+        : index < 9
+          ? '#4ecdc4' // 人差し指
+          : index < 13
+            ? '#45b7d1' // 中指
+            : index < 17
+              ? '#96ceb4' // 薬指
+              : '#ffeaa7'; // 小指
+    ctx.fill();
+
+    // 関節番号の表示（デバッグ用）
+    if (showIndices) {
+      ctx.fillStyle = '#fff';
+      ctx.font = '10px Arial';
+      ctx.fillText(index.toString(), x + 5, y - 5);
+    }
+  });
+
+  // 手の骨格線の描画
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+  ctx.lineWidth = 2;
+
+  HAND_CONNECTIONS.forEach(([start, end]) => {
+    const startPoint = landmarks[start];
+    const endPoint = landmarks[end];
+
+    if (startPoint && endPoint) {
+      ctx.beginPath();
+      ctx.moveTo(startPoint.x * canvasWidth, startPoint.y * canvasHeight);
+      ctx.lineTo(endPoint.x * canvasWidth, endPoint.y * canvasHeight);
+      ctx.stroke();
+    }
+  });
+};
+
+/**
+ * 角度ゲージを描画
+ * 目標角度を満点とした半円のゲージで現在の角度を表示する
+ *
+ * @param ctx 描画先
+ * @param angle 現在の角度（度、未測定の場合はnull）
+ * @param targetAngle 目標角度（度）
+ * @param label ゲージの見出し（ステップ名）
+ * @param canvasWidth キャンバスの幅
+ * @param canvasHeight キャンバスの高さ
+ */
+export const drawAngleGauge = (
+  ctx: CanvasRenderingContext2D,
+  angle: number | null,
+  targetAngle: number,
+  label: string,
+  canvasWidth: number,
+  canvasHeight: number
+): void => {
+  const radius = Math.min(canvasWidth, canvasHeight) * 0.12;
+  const centerX = canvasWidth - radius - 24;
+  const centerY = canvasHeight - 36;
+  const maxAngle = Math.max(targetAngle, angle ?? 0, 1);
+  const toArc = (value: number): number =>
+    Math.PI + (Math.min(value, maxAngle) / maxAngle) * Math.PI;
+
+  // 背景
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(
+    centerX - radius - 16,
+    centerY - radius - 40,
+    radius * 2 + 32,
+    radius + 64
+  );
+
+  // ゲージの目盛り
+  ctx.lineWidth = radius * 0.2;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, Math.PI, 2 * Math.PI);
+  ctx.stroke();
+
+  // 現在の角度
+  if (angle !== null && angle > 0) {
+    ctx.strokeStyle = angle >= targetAngle ? '#4ecdc4' : '#45b7d1';
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, Math.PI, toArc(angle));
+    ctx.stroke();
+  }
+
+  // 目標角度の位置
+  const targetArc = toArc(targetAngle);
+  ctx.strokeStyle = '#ffeaa7';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(
+    centerX + Math.cos(targetArc) * radius * 0.75,
+    centerY + Math.sin(targetArc) * radius * 0.75
+  );
+  ctx.lineTo(
+    centerX + Math.cos(targetArc) * radius * 1.25,
+    centerY + Math.sin(targetArc) * radius * 1.25
+  );
+  ctx.stroke();
+
+  // 角度のテキスト
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.font = '12px Arial';
+  ctx.fillText(label, centerX, centerY - radius - 20);
+  ctx.font = 'bold 20px Arial';
+  ctx.fillText(
+    angle !== null ? `${Math.round(angle)}°` : '--°',
+    centerX,
+    centerY - 4
+  );
+  ctx.font = '11px Arial';
+  ctx.fillText(`目標 ${targetAngle}°`, centerX, centerY + 18);
+  ctx.textAlign = 'left';
+};
+
 /**
  * 角度オーバーレイコンポーネントのProps
  */
 interface AngleOverlayProps {
   videoElement: HTMLVideoElement | null;
-  handsDetector: Hands | null;
+  handTracker: HandTrackingBackend | null;
   isCapturing: boolean;
   selectedHand: HandType;
   onAnglesUpdate?: (angles: AngleData | null) => void;
@@ -59,7 +237,7 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
   (
     {
       videoElement,
-      handsDetector,
+      handTracker,
       isCapturing,
       selectedHand,
       onAnglesUpdate,
@@ -69,6 +247,7 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
   ) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const animationFrameRef = useRef<number>();
+    const isDetectingRef = useRef(false);
 
     // 外部参照をCanvas要素に設定
     useImperativeHandle(ref, () => canvasRef.current!, []);
@@ -88,97 +267,6 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
       canvas.style.height = `${video.clientHeight}px`;
     }, [videoElement]);
 
-    /**
-     * 手のランドマークを描画
-     */
-    const drawHandLandmarks = useCallback(
-      (
-        ctx: CanvasRenderingContext2D,
-        landmarks: Array<{ x: number; y: number; z?: number }>,
-        canvasWidth: number,
-        canvasHeight: number
-      ): void => {
-        // 関節点の描画
-        landmarks.forEach((landmark, index) => {
-          const x = landmark.x * canvasWidth;
-          const y = landmark.y * canvasHeight;
-
-          ctx.beginPath();
-          ctx.arc(x, y, 4, 0, 2 * Math.PI);
-          ctx.fillStyle =
-            index < 5
-              ? '#ff6b6b' // 親指
-              : index < 9
-                ? '#4ecdc4' // 人差し指
-                : index < 13
-                  ? '#45b7d1' // 中指
-                  : index < 17
-                    ? '#96ceb4' // 薬指
-                    : '#ffeaa7'; // 小指
-          ctx.fill();
-
-          // 関節番号の表示（デバッグ用）
-          if (isCapturing) {
-            ctx.fillStyle = '#fff';
-            ctx.font = '10px Arial';
-            ctx.fillText(index.toString(), x + 5, y - 5);
-          }
-        });
-
-        // 手の骨格線の描画
-        const connections = [
-          // 手首から各指の根元
-          [0, 1],
-          [0, 5],
-          [0, 9],
-          [0, 13],
-          [0, 17],
-          // 親指
-          [1, 2],
-          [2, 3],
-          [3, 4],
-          // 人差し指
-          [5, 6],
-          [6, 7],
-          [7, 8],
-          // 中指
-          [9, 10],
-          [10, 11],
-          [11, 12],
-          // 薬指
-          [13, 14],
-          [14, 15],
-          [15, 16],
-          // 小指
-          [17, 18],
-          [18, 19],
-          [19, 20],
-          // 手のひら
-          [5, 9],
-          [9, 13],
-          [13, 17],
-        ];
-
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
-        ctx.lineWidth = 2;
-
-        connections.forEach(([start, end]) => {
-          if (start !== undefined && end !== undefined) {
-            const startPoint = landmarks[start];
-            const endPoint = landmarks[end];
-
-            if (startPoint && endPoint) {
-              ctx.beginPath();
-              ctx.moveTo(startPoint.x * canvasWidth, startPoint.y * canvasHeight);
-              ctx.lineTo(endPoint.x * canvasWidth, endPoint.y * canvasHeight);
-              ctx.stroke();
-            }
-          }
-        });
-      },
-      [isCapturing]
-    );
-
     /**
      * 角度情報の描画
      */
@@ -274,37 +362,10 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
     );
 
     /**
-     * Canvas描画の更新
+     * 検出結果の処理
      */
-    const updateCanvas = useCallback(async (): Promise<void> => {
-      const canvas = canvasRef.current;
-      const video = videoElement;
-
-      if (!canvas || !video || !handsDetector || !isCapturing) {
-        return;
-      }
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-
-      // Canvasをクリア
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      try {
-        // MediaPipeで手の検出を実行
-        await handsDetector.send({ image: video });
-      } catch (error) {
-        console.error('手の検出エラー:', error);
-      }
-    }, [videoElement, handsDetector, isCapturing]);
-
-    /**
-     * MediaPipeの結果処理
-     */
-    useEffect(() => {
-      if (!handsDetector) return;
-
-      const handleResults = (results: Results): void => {
+    const handleResults = useCallback(
+      (result: HandDetectionResult): void => {
         const canvas = canvasRef.current;
         if (!canvas) return;
 
@@ -314,11 +375,8 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
         // Canvasをクリア
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-        if (
-          results.multiHandLandmarks &&
-          results.multiHandLandmarks.length > 0
-        ) {
-          const landmarks = results.multiHandLandmarks[0];
+        if (result.detected) {
+          const landmarks = result.hands[0]?.landmarks;
 
           // null チェック
           if (!landmarks) {
@@ -329,7 +387,13 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
           }
 
           // 手のランドマークを描画
-          drawHandLandmarks(ctx, landmarks, canvas.width, canvas.height);
+          drawHandLandmarks(
+            ctx,
+            landmarks,
+            canvas.width,
+            canvas.height,
+            isCapturing
+          );
 
           // 角度計算
           try {
@@ -374,16 +438,37 @@ export const AngleOverlay = forwardRef<HTMLCanvasElement, AngleOverlayProps>(
           );
           ctx.textAlign = 'left';
         }
-      };
+      },
+      [isCapturing, drawAngleInfo, onAnglesUpdate, selectedHand]
+    );
 
-      handsDetector.onResults(handleResults);
-    }, [
-      handsDetector,
-      drawHandLandmarks,
-      drawAngleInfo,
-      onAnglesUpdate,
-      selectedHand,
-    ]);
+    /**
+     * Canvas描画の更新
+     */
+    const updateCanvas = useCallback(async (): Promise<void> => {
+      const canvas = canvasRef.current;
+      const video = videoElement;
+
+      if (
+        !canvas ||
+        !video ||
+        !handTracker ||
+        !isCapturing ||
+        isDetectingRef.current
+      ) {
+        return;
+      }
+
+      isDetectingRef.current = true;
+      try {
+        // 手の検出を実行
+        handleResults(await handTracker.processFrame(video, performance.now()));
+      } catch (error) {
+        console.error('手の検出エラー:', error);
+      } finally {
+        isDetectingRef.current = false;
+      }
+    }, [videoElement, handTracker, isCapturing, handleResults]);
 
     /**
      * 測定が開始された時のアニメーションループ
@@ -0,0 +1,167 @@
+/**
+ * 角度の推移チャートコンポーネント
+ * ステップごとの角度の時系列を表示し、0度基準・最大角度・保持区間を示す
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { AngleSeries } from '@/core/domain/types/measurement';
+import styles from './AngleTrajectoryChart.module.scss';
+
+/**
+ * 表示するステップの時系列
+ */
+export interface StepAngleSeries {
+  stepId: string;
+  stepName: string;
+  angleSeries?: AngleSeries;
+}
+
+/**
+ * AngleTrajectoryChartコンポーネントのProps型定義
+ */
+export interface AngleTrajectoryChartProps {
+  /** ステップごとの時系列（時系列の無いステップは表示しない） */
+  steps: StepAngleSeries[];
+
+  /** チャートの高さ */
+  height?: number;
+
+  className?: string;
+}
+
+/**
+ * 時刻の表示（秒、小数1桁）
+ */
+const formatSeconds = (timeMs: number): string =>
+  `${(timeMs / 1000).toFixed(1)}秒`;
+
+/**
+ * AngleTrajectoryChartコンポーネント
+ */
+const AngleTrajectoryChart: React.FC<AngleTrajectoryChartProps> = ({
+  steps,
+  height = 220,
+  className = '',
+}) => {
+  const stepsWithSeries = steps.filter(
+    (step): step is StepAngleSeries & { angleSeries: AngleSeries } =>
+      !!step.angleSeries && step.angleSeries.samples.length > 0
+  );
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+
+  if (stepsWithSeries.length === 0) {
+    return null;
+  }
+
+  const selected =
+    stepsWithSeries.find((step) => step.stepId === selectedStepId) ??
+    stepsWithSeries[0];
+  if (!selected) return null;
+
+  const { samples, calibratedAtMs, peakAtMs, holdWindow } =
+    selected.angleSeries;
+  const lastSample = samples[samples.length - 1];
+  const durationMs = lastSample?.timeMs ?? 0;
+
+  return (
+    <div className={`${styles.angleTrajectoryChart} ${className}`}>
+      <div className={styles.stepTabs}>
+        {stepsWithSeries.map((step) => (
+          <button
+            key={step.stepId}
+            type="button"
+            className={`${styles.stepTab} ${step.stepId === selected.stepId ? styles.active : ''}`}
+            onClick={() => setSelectedStepId(step.stepId)}
+          >
+            {step.stepName}
+          </button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={height}>
+        <LineChart
+          data={samples}
+          margin={{ top: 16, right: 10, bottom: 0, left: -10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis
+            dataKey="timeMs"
+            type="number"
+            domain={[0, durationMs]}
+            tickFormatter={formatSeconds}
+            fontSize={12}
+          />
+          <YAxis unit="°" fontSize={12} />
+          <Tooltip
+            labelFormatter={(label) => formatSeconds(Number(label))}
+            formatter={(value) => [`${Number(value).toFixed(1)}°`, '角度']}
+          />
+          {holdWindow && (
+            <ReferenceArea
+              x1={holdWindow.startMs}
+              x2={holdWindow.endMs}
+              fill="#fde68a"
+              fillOpacity={0.5}
+              ifOverflow="extendDomain"
+            />
+          )}
+          <ReferenceLine
+            y={0}
+            stroke="#64748b"
+            label={{
+              value: '0°基準',
+              position: 'insideBottomRight',
+              fontSize: 11,
+            }}
+          />
+          {calibratedAtMs !== null && (
+            <ReferenceLine
+              x={calibratedAtMs}
+              stroke="#64748b"
+              strokeDasharray="4 4"
+              label={{ value: '基準確定', position: 'top', fontSize: 11 }}
+            />
+          )}
+          {peakAtMs !== null && (
+            <ReferenceLine
+              x={peakAtMs}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              label={{ value: '最大', position: 'top', fontSize: 11 }}
+            />
+          )}
+          <Line
+            type="monotone"
+            dataKey="angle"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            dot={false}
+            connectNulls={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className={styles.legend}>
+        <span className={styles.legendHold}>保持区間</span>
+        <span className={styles.legendPeak}>最大角度の確定</span>
+        <span className={styles.legendCalibration}>0°基準の確定</span>
+      </div>
+    </div>
+  );
+};
+
+export default AngleTrajectoryChart;
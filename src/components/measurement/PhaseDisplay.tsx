@@ -4,6 +4,8 @@
  */
 
 import React from 'react';
+import type { QualityMetrics } from '@/core/domain/types/hand-landmark';
+import QualityBadge from './QualityBadge';
 import styles from './PhaseDisplay.module.scss';
 
 /**
@@ -39,7 +41,13 @@ export interface PhaseDisplayProps {
   isComplete: boolean;
   onNext?: () => void;
   onComplete?: () => void;
-  status?: 'measuring' | 'complete' | 'invalid';
+  status?: 'measuring' | 'holding' | 'complete' | 'invalid';
+  /** 保持の進捗（0-1、status が holding の場合に表示） */
+  holdProgress?: number;
+  /** 保持により確定した最大角度 */
+  peakAngle?: number | null;
+  /** 最大角度の確定までのフレームの品質指標 */
+  qualityMetrics?: QualityMetrics | null;
 }
 
 /**
@@ -56,6 +64,9 @@ const PhaseDisplay: React.FC<PhaseDisplayProps> = ({
   onNext,
   onComplete,
   status = 'measuring',
+  holdProgress = 0,
+  peakAngle = null,
+  qualityMetrics = null,
 }) => {
   // 角度の正常範囲内かチェック
   const isAngleValid =
@@ -98,6 +109,12 @@ const PhaseDisplay: React.FC<PhaseDisplayProps> = ({
             {Math.round(currentAngle)}°
           </span>
         </div>
+        {peakAngle !== null && (
+          <div className={styles.peakAngle}>
+            確定した最大角度: {Math.round(peakAngle)}°
+            {qualityMetrics && <QualityBadge metrics={qualityMetrics} />}
+          </div>
+        )}
       </div>
 
       {/* 角度情報 */}
@@ -138,6 +155,17 @@ const PhaseDisplay: React.FC<PhaseDisplayProps> = ({
             測定完了
           </div>
         )}
+        {status === 'holding' && (
+          <div className={`${styles.statusIndicator} ${styles.holding}`}>
+            保持…
+            <div className={styles.holdBar}>
+              <div
+                className={styles.holdFill}
+                style={{ width: `${Math.round(holdProgress * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
         {status === 'invalid' && (
           <div className={`${styles.statusIndicator} ${styles.warning}`}>
             手をカメラに向けてください
@@ -0,0 +1,68 @@
+/**
+ * 測定品質バッジコンポーネント
+ * 品質指標の総合スコアを3段階で表示
+ */
+
+import React from 'react';
+import type { QualityMetrics } from '@/core/domain/types/hand-landmark';
+import {
+  calculateQualityScore,
+  getQualityLevel,
+  QualityLevel,
+} from '@/core/infrastructure/mediapipe/quality-analyzer';
+import styles from './QualityBadge.module.scss';
+
+/**
+ * 品質レベルの表示ラベル
+ */
+const QUALITY_LABELS: Record<QualityLevel, string> = {
+  high: '品質: 良好',
+  medium: '品質: 注意',
+  low: '品質: 要再測定',
+};
+
+/**
+ * QualityBadgeコンポーネントのProps型定義
+ */
+export interface QualityBadgeProps {
+  metrics: QualityMetrics;
+  className?: string;
+}
+
+/**
+ * 品質指標の内訳（ツールチップ用）
+ */
+const formatQualityDetail = (metrics: QualityMetrics): string => {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return [
+    `手の可視性 ${percent(metrics.handVisibility)}`,
+    `安定性 ${percent(metrics.landmarkStability)}`,
+    `ノイズ ${percent(metrics.cameraNoise)}`,
+    ...(metrics.lightingCondition !== undefined
+      ? [`照明 ${percent(metrics.lightingCondition)}`]
+      : []),
+    ...(metrics.motionBlur !== undefined
+      ? [`ブレ ${percent(metrics.motionBlur)}`]
+      : []),
+  ].join(' / ');
+};
+
+/**
+ * QualityBadgeコンポーネント
+ */
+const QualityBadge: React.FC<QualityBadgeProps> = ({ metrics, className }) => {
+  const score = calculateQualityScore(metrics);
+  const level = getQualityLevel(score);
+
+  return (
+    <span
+      className={`${styles.qualityBadge} ${styles[level]} ${className || ''}`}
+      title={formatQualityDetail(metrics)}
+    >
+      {QUALITY_LABELS[level]}
+      <span className={styles.score}>{Math.round(score * 100)}</span>
+    </span>
+  );
+};
+
+export default QualityBadge;
@@ -0,0 +1,293 @@
+/**
+ * 測定セッションの録画再生コンポーネント
+ * 録画した動画に、記録したランドマークと角度ゲージを再生位置に合わせて重ねて表示する
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { SessionRecording } from '@/lib/database/measurement-db';
+import { findRecordedFrame } from '@/lib/mediapipe/session-recorder';
+import { drawAngleGauge, drawHandLandmarks } from './AngleOverlay';
+import styles from './SessionPlaybackViewer.module.scss';
+
+/**
+ * SessionPlaybackViewerコンポーネントのProps
+ */
+interface SessionPlaybackViewerProps {
+  /** 再生する録画 */
+  recording: SessionRecording;
+  className?: string;
+}
+
+/**
+ * 再生速度の選択肢
+ */
+const PLAYBACK_RATES = [0.25, 0.5, 1] as const;
+
+/**
+ * 経過時間の表示（分:秒.1/10秒）
+ */
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+/**
+ * 測定セッションの録画再生コンポーネント
+ */
+const SessionPlaybackViewer: React.FC<SessionPlaybackViewerProps> = ({
+  recording,
+  className,
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const animationFrameRef = useRef<number>();
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState<number>(1);
+
+  const { frames, steps } = recording;
+
+  // 録画のオブジェクトURL
+  useEffect(() => {
+    const url = URL.createObjectURL(recording.video);
+    setVideoUrl(url);
+    setCurrentMs(0);
+    setIsPlaying(false);
+    return () => URL.revokeObjectURL(url);
+  }, [recording]);
+
+  /**
+   * 再生位置のフレームを描画
+   */
+  const drawFrame = useCallback(
+    (timeMs: number) => {
+      const canvas = canvasRef.current;
+      const video = videoRef.current;
+      if (!canvas || !video) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      canvas.width = video.videoWidth || 640;
+      canvas.height = video.videoHeight || 480;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const frame = findRecordedFrame(frames, timeMs);
+      if (!frame) return;
+
+      // 動画の鏡像表示に合わせてランドマークのみ左右反転する
+      if (frame.landmarks) {
+        ctx.save();
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+        drawHandLandmarks(ctx, frame.landmarks, canvas.width, canvas.height);
+        ctx.restore();
+      }
+
+      const step = [...steps].reverse().find((s) => s.startMs <= timeMs);
+      if (step) {
+        drawAngleGauge(
+          ctx,
+          frame.stepId === step.stepId ? frame.angle : null,
+          step.targetAngle,
+          step.stepName,
+          canvas.width,
+          canvas.height
+        );
+      }
+    },
+    [frames, steps]
+  );
+
+  /**
+   * 再生位置の移動
+   */
+  const seekTo = useCallback(
+    (timeMs: number) => {
+      const video = videoRef.current;
+      if (!video) return;
+      const clamped = Math.min(Math.max(0, timeMs), recording.durationMs);
+      video.currentTime = clamped / 1000;
+      setCurrentMs(clamped);
+      drawFrame(clamped);
+    },
+    [drawFrame, recording.durationMs]
+  );
+
+  // 再生中は毎フレーム描画
+  useEffect(() => {
+    if (!isPlaying) return undefined;
+
+    const render = () => {
+      const video = videoRef.current;
+      if (video) {
+        const timeMs = video.currentTime * 1000;
+        setCurrentMs(timeMs);
+        drawFrame(timeMs);
+      }
+      animationFrameRef.current = requestAnimationFrame(render);
+    };
+    render();
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [isPlaying, drawFrame]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = playbackRate;
+  }, [playbackRate]);
+
+  /**
+   * 再生・一時停止の切り替え
+   */
+  const togglePlayback = async () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (isPlaying) {
+      video.pause();
+      setIsPlaying(false);
+      return;
+    }
+    try {
+      await video.play();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error('録画の再生エラー:', error);
+    }
+  };
+
+  /**
+   * 記録したフレーム単位で前後に移動（一時停止して移動）
+   */
+  const stepFrame = (direction: -1 | 1) => {
+    videoRef.current?.pause();
+    setIsPlaying(false);
+
+    const target =
+      direction > 0
+        ? frames.find((frame) => frame.timeMs > currentMs + 0.5)
+        : [...frames].reverse().find((frame) => frame.timeMs < currentMs - 0.5);
+    if (target) seekTo(target.timeMs);
+  };
+
+  const currentFrame = findRecordedFrame(frames, currentMs);
+
+  return (
+    <div className={`${styles.sessionPlaybackViewer} ${className || ''}`}>
+      <div className={styles.sessionPlaybackViewer__stage}>
+        {videoUrl && (
+          <video
+            ref={videoRef}
+            className={styles.sessionPlaybackViewer__video}
+            src={videoUrl}
+            muted
+            playsInline
+            onLoadedData={() => drawFrame(0)}
+            onSeeked={(e) => drawFrame(e.currentTarget.currentTime * 1000)}
+            onEnded={() => setIsPlaying(false)}
+          />
+        )}
+        <canvas
+          ref={canvasRef}
+          className={styles.sessionPlaybackViewer__overlay}
+        />
+      </div>
+
+      <div className={styles.sessionPlaybackViewer__controls}>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => stepFrame(-1)}
+          aria-label="前のフレーム"
+        >
+          ◀︎
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={togglePlayback}
+        >
+          {isPlaying ? '一時停止' : '再生'}
+        </button>
+        <button
+          type="button"
+          className={styles.controlButton}
+          onClick={() => stepFrame(1)}
+          aria-label="次のフレーム"
+        >
+          ▶︎
+        </button>
+        <input
+          type="range"
+          className={styles.sessionPlaybackViewer__slider}
+          min={0}
+          max={recording.durationMs}
+          step={1}
+          value={Math.min(currentMs, recording.durationMs)}
+          onChange={(e) => seekTo(Number(e.target.value))}
+        />
+        <span className={styles.sessionPlaybackViewer__time}>
+          {formatTime(currentMs)} / {formatTime(recording.durationMs)}
+        </span>
+        <select
+          className={styles.sessionPlaybackViewer__select}
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(Number(e.target.value))}
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <option key={rate} value={rate}>
+              {rate}倍速
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <p className={styles.sessionPlaybackViewer__frameInfo}>
+        {currentFrame
+          ? `記録時刻 ${formatTime(currentFrame.timeMs)}・${
+              currentFrame.landmarks ? '手を検出' : '手を検出できず'
+            }・角度 ${
+              currentFrame.angle !== null
+                ? `${Math.round(currentFrame.angle)}°`
+                : '--'
+            }`
+          : '測定中のフレームではありません'}
+      </p>
+
+      {/* ステップごとの頭出し */}
+      {steps.length > 0 && (
+        <div className={styles.sessionPlaybackViewer__steps}>
+          {steps.map((step, index) => (
+            <button
+              key={`${step.stepId}-${step.startMs}`}
+              type="button"
+              className={`${styles.stepButton} ${
+                currentMs >= step.startMs &&
+                currentMs < (steps[index + 1]?.startMs ?? Infinity)
+                  ? styles['stepButton--active']
+                  : ''
+              }`}
+              onClick={() => seekTo(step.startMs)}
+            >
+              {step.stepName}
+              <span className={styles.stepButton__time}>
+                {formatTime(step.startMs)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionPlaybackViewer;
@@ -0,0 +1,86 @@
+/**
+ * 振戦のパワースペクトルチャートコンポーネント
+ * 周波数ごとのパワーを表示し、振戦帯域と主周波数を示す
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { TremorAnalysis } from '@/core/domain/types/measurement';
+import { TREMOR_BAND_HZ } from '@/core/infrastructure/mediapipe/tremor-analyzer';
+
+/**
+ * TremorSpectrumChartコンポーネントのProps型定義
+ */
+export interface TremorSpectrumChartProps {
+  analysis: TremorAnalysis;
+  height?: number;
+}
+
+/**
+ * TremorSpectrumChartコンポーネント
+ */
+const TremorSpectrumChart: React.FC<TremorSpectrumChartProps> = ({
+  analysis,
+  height = 220,
+}) => {
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <AreaChart
+        data={analysis.spectrum}
+        margin={{ top: 16, right: 10, bottom: 0, left: -10 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+        <XAxis
+          dataKey="frequencyHz"
+          type="number"
+          domain={[0, 'dataMax']}
+          unit="Hz"
+          tickFormatter={(value) => Number(value).toFixed(0)}
+          fontSize={12}
+        />
+        <YAxis tick={false} fontSize={12} />
+        <Tooltip
+          labelFormatter={(label) => `${Number(label).toFixed(2)}Hz`}
+          formatter={(value) => [Number(value).toExponential(2), 'パワー']}
+        />
+        <ReferenceArea
+          x1={TREMOR_BAND_HZ.min}
+          x2={TREMOR_BAND_HZ.max}
+          fill="#fde68a"
+          fillOpacity={0.3}
+        />
+        <ReferenceLine
+          x={analysis.dominantFrequencyHz}
+          stroke="#ef4444"
+          strokeDasharray="4 4"
+          label={{
+            value: `${analysis.dominantFrequencyHz.toFixed(1)}Hz`,
+            position: 'top',
+            fontSize: 11,
+          }}
+        />
+        <Area
+          type="monotone"
+          dataKey="power"
+          stroke="#3b82f6"
+          fill="#bfdbfe"
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default TremorSpectrumChart;
@@ -0,0 +1,122 @@
+/**
+ * 動画解析の角度タイムラインコンポーネント
+ * フレームごとの角度を時系列グラフで表示し、スライダーで動画の位置を選択する
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import type { VideoAngleSample } from '@/core/infrastructure/mediapipe/video-step-analyzer';
+import styles from './VideoAngleTimeline.module.scss';
+
+/**
+ * VideoAngleTimelineコンポーネントのProps型定義
+ */
+export interface VideoAngleTimelineProps {
+  /** フレームごとの角度 */
+  samples: VideoAngleSample[];
+
+  /** 動画の長さ（ミリ秒） */
+  durationMs: number;
+
+  /** 選択中の時刻（ミリ秒） */
+  currentTimeMs: number;
+
+  /** 最大角度のフレームの時刻（ミリ秒） */
+  peakTimeMs: number | null;
+
+  /** 時刻の選択 */
+  onSeek: (timeMs: number) => void;
+}
+
+/**
+ * 時刻の表示（秒、小数1桁）
+ */
+const formatSeconds = (timeMs: number): string =>
+  `${(timeMs / 1000).toFixed(1)}秒`;
+
+/**
+ * VideoAngleTimelineコンポーネント
+ */
+const VideoAngleTimeline: React.FC<VideoAngleTimelineProps> = ({
+  samples,
+  durationMs,
+  currentTimeMs,
+  peakTimeMs,
+  onSeek,
+}) => {
+  const chartData = samples.map((sample) => ({
+    time: sample.timestampMs,
+    angle: sample.angle,
+  }));
+
+  return (
+    <div className={styles.videoAngleTimeline}>
+      <ResponsiveContainer width="100%" height={220}>
+        <LineChart
+          data={chartData}
+          margin={{ top: 10, right: 10, bottom: 0, left: -10 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, durationMs]}
+            tickFormatter={formatSeconds}
+            fontSize={12}
+          />
+          <YAxis unit="°" fontSize={12} />
+          <Tooltip
+            labelFormatter={(label) => formatSeconds(Number(label))}
+            formatter={(value) => [`${Number(value).toFixed(1)}°`, '角度']}
+          />
+          <Line
+            type="monotone"
+            dataKey="angle"
+            stroke="#3b82f6"
+            strokeWidth={2}
+            dot={false}
+            connectNulls={false}
+            isAnimationActive={false}
+          />
+          {peakTimeMs !== null && (
+            <ReferenceLine
+              x={peakTimeMs}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              label={{ value: '最大', position: 'top', fontSize: 12 }}
+            />
+          )}
+          <ReferenceLine x={currentTimeMs} stroke="#334155" />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <input
+        type="range"
+        className={styles.scrubber}
+        min={0}
+        max={durationMs}
+        step={1}
+        value={currentTimeMs}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        aria-label="動画の位置"
+      />
+      <div className={styles.timeLabels}>
+        <span>{formatSeconds(currentTimeMs)}</span>
+        <span>{formatSeconds(durationMs)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default VideoAngleTimeline;
@@ -0,0 +1,82 @@
+/**
+ * ゴニオメーター比較レポートコンポーネント
+ * 運動ごとにAI測定値とゴニオメーター測定値の一致度を表示
+ */
+
+'use client';
+
+import React from 'react';
+import { BlandAltmanChart } from './BlandAltmanChart';
+import type { PairedReading, StepId } from '@/core/domain/types/measurement';
+import styles from './AgreementReport.module.scss';
+
+/**
+ * AgreementReportコンポーネントのProps
+ */
+interface AgreementReportProps {
+  readings: PairedReading[];
+  className?: string;
+}
+
+/**
+ * 運動ごとの測定値の組
+ */
+interface MotionReadings {
+  stepId: StepId;
+  stepName: string;
+  readings: PairedReading[];
+}
+
+/**
+ * 測定値の組を運動ごとにまとめる（初出順）
+ */
+const groupReadingsByStep = (readings: PairedReading[]): MotionReadings[] => {
+  const groups = new Map<StepId, MotionReadings>();
+  for (const reading of readings) {
+    const group = groups.get(reading.stepId);
+    if (group) {
+      group.readings.push(reading);
+    } else {
+      groups.set(reading.stepId, {
+        stepId: reading.stepId,
+        stepName: reading.stepName,
+        readings: [reading],
+      });
+    }
+  }
+  return Array.from(groups.values());
+};
+
+/**
+ * ゴニオメーター比較レポートコンポーネント
+ */
+export const AgreementReport: React.FC<AgreementReportProps> = ({
+  readings,
+  className,
+}) => {
+  const motions = React.useMemo(
+    () => groupReadingsByStep(readings),
+    [readings]
+  );
+
+  return (
+    <div className={`${styles.report} ${className || ''}`}>
+      <div className={styles.report__header}>
+        <h2 className={styles.report__title}>ゴニオメーター比較</h2>
+        <p className={styles.report__description}>
+          AI測定値とゴニオメーター測定値の一致度（Bland–Altman分析・ICC）
+        </p>
+      </div>
+
+      <div className={styles.report__charts}>
+        {motions.map((motion) => (
+          <BlandAltmanChart
+            key={motion.stepId}
+            title={motion.stepName}
+            readings={motion.readings}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,206 @@
+/**
+ * Bland–Altmanプロットコンポーネント
+ * AI測定値とゴニオメーター測定値の差を平均に対してプロットし、一致限界を表示
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import type { PairedReading } from '@/core/domain/types/measurement';
+import {
+  calculateAgreementStatistics,
+  calculateBlandAltmanPoints,
+} from '@/lib/analysis/agreement-statistics';
+import styles from './BlandAltmanChart.module.scss';
+
+/**
+ * BlandAltmanChartコンポーネントのProps
+ */
+interface BlandAltmanChartProps {
+  title: string;
+  readings: PairedReading[];
+  className?: string;
+}
+
+/**
+ * プロットの色設定
+ */
+const CHART_COLORS = {
+  point: '#3B82F6',
+  bias: '#1F2937',
+  limit: '#EF4444',
+} as const;
+
+/**
+ * 角度の表示（符号付き）
+ */
+const formatSignedAngle = (value: number): string =>
+  `${value > 0 ? '+' : ''}${value.toFixed(1)}°`;
+
+/**
+ * カスタムツールチップコンポーネント
+ */
+const CustomTooltip: React.FC<any> = ({ active, payload }) => {
+  if (active && payload && payload.length) {
+    const point = payload[0].payload;
+    return (
+      <div className={styles.tooltip}>
+        <p className={styles.tooltip__value}>
+          平均 {point.mean.toFixed(1)}° / 差{' '}
+          {formatSignedAngle(point.difference)}
+        </p>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * Bland–Altmanプロットコンポーネント
+ */
+export const BlandAltmanChart: React.FC<BlandAltmanChartProps> = ({
+  title,
+  readings,
+  className,
+}) => {
+  const points = React.useMemo(
+    () => calculateBlandAltmanPoints(readings),
+    [readings]
+  );
+  const statistics = React.useMemo(
+    () => calculateAgreementStatistics(readings),
+    [readings]
+  );
+
+  if (!statistics) {
+    return (
+      <div className={`${styles.blandAltmanChart} ${className || ''}`}>
+        <h3 className={styles.blandAltmanChart__title}>{title}</h3>
+        <div className={styles.blandAltmanChart__empty}>
+          <p>比較には2件以上の測定値が必要です（現在 {readings.length}件）</p>
+        </div>
+      </div>
+    );
+  }
+
+  // 一致限界が収まるように縦軸の範囲を決定
+  const differenceExtent = Math.ceil(
+    Math.max(
+      ...points.map((p) => Math.abs(p.difference)),
+      Math.abs(statistics.lowerLimit),
+      Math.abs(statistics.upperLimit)
+    ) + 2
+  );
+
+  return (
+    <div className={`${styles.blandAltmanChart} ${className || ''}`}>
+      <h3 className={styles.blandAltmanChart__title}>{title}</h3>
+
+      {/* 統計情報 */}
+      <div className={styles.blandAltmanChart__stats}>
+        <div className={styles.stat}>
+          <span className={styles.stat__label}>件数</span>
+          <span className={styles.stat__value}>{statistics.count}</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.stat__label}>平均バイアス</span>
+          <span className={styles.stat__value}>
+            {formatSignedAngle(statistics.meanBias)}
+          </span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.stat__label}>95%一致限界</span>
+          <span className={styles.stat__value}>
+            {formatSignedAngle(statistics.lowerLimit)} 〜{' '}
+            {formatSignedAngle(statistics.upperLimit)}
+          </span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.stat__label}>ICC(2,1)</span>
+          <span className={styles.stat__value}>
+            {statistics.icc !== null ? statistics.icc.toFixed(2) : '—'}
+          </span>
+        </div>
+      </div>
+
+      {/* プロット */}
+      <div className={styles.blandAltmanChart__chartContainer}>
+        <ResponsiveContainer width="100%" height={260}>
+          <ScatterChart margin={{ top: 10, right: 60, left: 5, bottom: 20 }}>
+            <CartesianGrid
+              strokeDasharray="2 4"
+              stroke="#E5E7EB"
+              opacity={0.6}
+            />
+            <XAxis
+              type="number"
+              dataKey="mean"
+              name="平均"
+              domain={['dataMin - 5', 'dataMax + 5']}
+              tickFormatter={(value) => `${Math.round(value)}°`}
+              stroke="#6B7280"
+              fontSize={11}
+              label={{
+                value: '(AI + ゴニオメーター) / 2',
+                position: 'insideBottom',
+                offset: -10,
+                fontSize: 12,
+                fill: '#374151',
+              }}
+            />
+            <YAxis
+              type="number"
+              dataKey="difference"
+              name="差"
+              domain={[-differenceExtent, differenceExtent]}
+              tickFormatter={(value) => `${Math.round(value)}°`}
+              stroke="#6B7280"
+              fontSize={11}
+              label={{
+                value: 'AI − ゴニオメーター',
+                angle: -90,
+                position: 'insideLeft',
+                fontSize: 12,
+                fill: '#374151',
+                style: { textAnchor: 'middle' },
+              }}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <ReferenceLine
+              y={statistics.meanBias}
+              stroke={CHART_COLORS.bias}
+              label={{
+                value: 'バイアス',
+                position: 'right',
+                fontSize: 11,
+              }}
+            />
+            <ReferenceLine
+              y={statistics.upperLimit}
+              stroke={CHART_COLORS.limit}
+              strokeDasharray="4 4"
+              label={{ value: '+1.96SD', position: 'right', fontSize: 11 }}
+            />
+            <ReferenceLine
+              y={statistics.lowerLimit}
+              stroke={CHART_COLORS.limit}
+              strokeDasharray="4 4"
+              label={{ value: '−1.96SD', position: 'right', fontSize: 11 }}
+            />
+            <Scatter data={points} fill={CHART_COLORS.point} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
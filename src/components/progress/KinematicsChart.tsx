@@ -0,0 +1,216 @@
+/**
+ * 動作の質チャートコンポーネント
+ * 運動ごとの最大角速度・最大角度到達時間・速度ピーク数・滑らかさの推移を表示
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { MovementKinematics } from '@/core/domain/types/measurement';
+import type { MeasurementResult } from '@/lib/database/measurement-db';
+import styles from './KinematicsChart.module.scss';
+
+/**
+ * KinematicsChartコンポーネントのProps
+ */
+interface KinematicsChartProps {
+  /** 動作の質の指標を記録した測定結果 */
+  results: MeasurementResult[];
+  className?: string;
+}
+
+/**
+ * 表示する指標
+ */
+type KinematicMetric = keyof MovementKinematics;
+
+/**
+ * 指標の表示設定
+ */
+const METRICS: Array<{
+  key: KinematicMetric;
+  label: string;
+  unit: string;
+  description: string;
+  toValue: (kinematics: MovementKinematics) => number | null;
+}> = [
+  {
+    key: 'peakAngularVelocity',
+    label: '最大角速度',
+    unit: '°/秒',
+    description: '動作中の最も速い角速度',
+    toValue: (k) => k.peakAngularVelocity,
+  },
+  {
+    key: 'timeToPeakMs',
+    label: '最大角度到達時間',
+    unit: '秒',
+    description: '動き始めてから最大角度に到達するまでの時間',
+    toValue: (k) => k.timeToPeakMs / 1000,
+  },
+  {
+    key: 'velocityPeakCount',
+    label: '速度ピーク数',
+    unit: '回',
+    description: '動作中の加速・減速の回数（1回が最も滑らか）',
+    toValue: (k) => k.velocityPeakCount,
+  },
+  {
+    key: 'spectralArcLength',
+    label: '滑らかさ（SPARC）',
+    unit: '',
+    description: 'スペクトル弧長（0に近いほど滑らか）',
+    toValue: (k) => k.spectralArcLength,
+  },
+  {
+    key: 'normalizedJerk',
+    label: '無次元化ジャーク',
+    unit: '',
+    description: '加速度の変化の大きさ（小さいほど滑らか）',
+    toValue: (k) => k.normalizedJerk,
+  },
+];
+
+/**
+ * チャートの線の色
+ */
+const LINE_COLOR = '#0542FC';
+
+/**
+ * 動作の質チャートコンポーネント
+ */
+export const KinematicsChart: React.FC<KinematicsChartProps> = ({
+  results,
+  className,
+}) => {
+  const [metricKey, setMetricKey] = useState<KinematicMetric>(
+    'peakAngularVelocity'
+  );
+  const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+
+  // 指標を記録した運動の一覧（記録順）
+  const steps = Array.from(
+    new Map(
+      results
+        .filter((result) => result.kinematics)
+        .map((result) => [result.stepId, result.stepName])
+    )
+  );
+  const stepId = selectedStepId ?? steps[0]?.[0] ?? null;
+  const metric = METRICS.find((m) => m.key === metricKey) ?? METRICS[0];
+
+  const chartData = results
+    .filter((result) => result.stepId === stepId && result.kinematics)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .flatMap((result) => {
+      const value =
+        result.kinematics && metric ? metric.toValue(result.kinematics) : null;
+      return value === null
+        ? []
+        : [
+            {
+              date: new Date(result.timestamp).toLocaleDateString('ja-JP', {
+                month: 'numeric',
+                day: 'numeric',
+              }),
+              value,
+            },
+          ];
+    });
+
+  return (
+    <div className={`${styles.kinematicsChart} ${className || ''}`}>
+      <div className={styles.kinematicsChart__header}>
+        <h2 className={styles.kinematicsChart__title}>動作の質</h2>
+        <p className={styles.kinematicsChart__description}>
+          {metric?.description}
+        </p>
+      </div>
+
+      <div className={styles.kinematicsChart__controls}>
+        <select
+          className={styles.kinematicsChart__select}
+          value={stepId ?? ''}
+          onChange={(e) => setSelectedStepId(e.target.value)}
+        >
+          {steps.map(([id, name]) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <div className={styles.kinematicsChart__metrics}>
+          {METRICS.map((m) => (
+            <button
+              key={m.key}
+              type="button"
+              className={`${styles.metricButton} ${
+                m.key === metricKey ? styles['metricButton--active'] : ''
+              }`}
+              onClick={() => setMetricKey(m.key)}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {chartData.length === 0 ? (
+        <div className={styles.kinematicsChart__empty}>
+          <p>動作の質の記録がありません</p>
+        </div>
+      ) : (
+        <div className={styles.kinematicsChart__chartContainer}>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart
+              data={chartData}
+              margin={{ top: 10, right: 10, left: 5, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="2 4"
+                stroke="#E5E7EB"
+                opacity={0.6}
+                vertical={false}
+              />
+              <XAxis
+                dataKey="date"
+                stroke="#6B7280"
+                fontSize={11}
+                tickLine={false}
+              />
+              <YAxis
+                stroke="#6B7280"
+                fontSize={11}
+                tickFormatter={(value) =>
+                  `${Number(value).toFixed(metricKey === 'velocityPeakCount' ? 0 : 1)}`
+                }
+              />
+              <Tooltip
+                formatter={(value) => [
+                  `${Number(value).toFixed(2)}${metric?.unit ?? ''}`,
+                  metric?.label ?? '',
+                ]}
+              />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={LINE_COLOR}
+                strokeWidth={2}
+                dot={{ r: 3, fill: LINE_COLOR }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
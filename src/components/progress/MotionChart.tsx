@@ -16,7 +16,10 @@ import {
   ResponsiveContainer,
   Legend,
 } from 'recharts';
-import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import {
+  MotionMeasurement,
+  isMeasuredField,
+} from '@/lib/data-manager/models/motion-measurement';
 import styles from './MotionChart.module.scss';
 
 /**
@@ -46,6 +49,8 @@ interface MotionChartProps {
   measurements: MotionMeasurement[];
   motionType: MotionType;
   period?: 'week' | 'month' | '3months' | '6months' | 'year';
+  /** 正常可動域の代わりに目標とする角度（健側の可動域） */
+  targetAngle?: number;
   className?: string;
 }
 
@@ -54,6 +59,7 @@ interface MotionChartProps {
  */
 const MOTION_CONFIG = {
   flexion: {
+    field: 'wristFlexion',
     label: '掌屈',
     color: '#3B82F6',
     unit: '°',
@@ -62,6 +68,7 @@ const MOTION_CONFIG = {
     getValueFromMeasurement: (m: MotionMeasurement) => m.wristFlexion,
   },
   extension: {
+    field: 'wristExtension',
     label: '背屈',
     color: '#10B981',
     unit: '°',
@@ -70,6 +77,7 @@ const MOTION_CONFIG = {
     getValueFromMeasurement: (m: MotionMeasurement) => m.wristExtension,
   },
   radial: {
+    field: 'wristRadialDeviation',
     label: '橈屈',
     color: '#F59E0B',
     unit: '°',
@@ -78,6 +86,7 @@ const MOTION_CONFIG = {
     getValueFromMeasurement: (m: MotionMeasurement) => m.wristRadialDeviation,
   },
   ulnar: {
+    field: 'wristUlnarDeviation',
     label: '尺屈',
     color: '#EF4444',
     unit: '°',
@@ -86,6 +95,7 @@ const MOTION_CONFIG = {
     getValueFromMeasurement: (m: MotionMeasurement) => m.wristUlnarDeviation,
   },
   pronation: {
+    field: 'wristPronation',
     label: '回内',
     color: '#8B5CF6',
     unit: '°',
@@ -94,6 +104,7 @@ const MOTION_CONFIG = {
     getValueFromMeasurement: (m: MotionMeasurement) => m.wristPronation ?? 0,
   },
   supination: {
+    field: 'wristSupination',
     label: '回外',
     color: '#EC4899',
     unit: '°',
@@ -164,17 +175,21 @@ export const MotionChart: React.FC<MotionChartProps> = ({
   measurements,
   motionType,
   period = 'month',
+  targetAngle,
   className,
 }) => {
   const config = MOTION_CONFIG[motionType];
+  const target = targetAngle ?? config.normalRange.max;
 
-  // データを日付でソートし、チャート用に変換
+  // 測定した項目のデータを日付でソートし、チャート用に変換
   const chartData: ChartDataPoint[] = React.useMemo(() => {
-    const sortedMeasurements = [...measurements].sort(
-      (a, b) =>
-        new Date(a.measurementDate).getTime() -
-        new Date(b.measurementDate).getTime()
-    );
+    const sortedMeasurements = measurements
+      .filter((measurement) => isMeasuredField(measurement, config.field))
+      .sort(
+        (a, b) =>
+          new Date(a.measurementDate).getTime() -
+          new Date(b.measurementDate).getTime()
+      );
 
     return sortedMeasurements.map((measurement) => {
       const date = new Date(measurement.measurementDate);
@@ -230,10 +245,10 @@ export const MotionChart: React.FC<MotionChartProps> = ({
       </div>
 
       <div className={styles.normalRange__info}>
-        <span className={styles.normalRange__label}>正常可動域</span>
-        <span className={styles.normalRange__value}>
-          {config.normalRange.max}°
+        <span className={styles.normalRange__label}>
+          {targetAngle !== undefined ? '目標（健側）' : '正常可動域'}
         </span>
+        <span className={styles.normalRange__value}>{Math.round(target)}°</span>
       </div>
 
       {/* 統計情報 */}
@@ -321,7 +336,7 @@ export const MotionChart: React.FC<MotionChartProps> = ({
               domain={[
                 Math.max(0, Math.min(...chartData.map((d) => d.value)) - 5),
                 Math.min(
-                  config.normalRange.max + 10,
+                  target + 10,
                   Math.max(...chartData.map((d) => d.value)) + 5
                 ),
               ]}
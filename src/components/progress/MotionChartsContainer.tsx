@@ -17,6 +17,8 @@ interface MotionChartsContainerProps {
   measurements: MotionMeasurement[];
   className?: string;
   selectedPeriod?: 'week' | 'month' | '3months' | '6months' | 'year';
+  /** 正常可動域の代わりに目標とする角度（健側の可動域） */
+  targetAngles?: Partial<Record<MotionType, number>>;
 }
 
 /**
@@ -94,8 +96,10 @@ export const MotionChartsContainer: React.FC<MotionChartsContainerProps> = ({
   measurements,
   className,
   selectedPeriod = 'month',
+  targetAngles,
 }) => {
   const [activeTab, setActiveTab] = useState<MotionType>('flexion');
+  const targetAngle = targetAngles?.[activeTab];
 
   // 期間でフィルタリングされた測定データ
   const filteredMeasurements = React.useMemo(
@@ -144,6 +148,7 @@ export const MotionChartsContainer: React.FC<MotionChartsContainerProps> = ({
               measurements={filteredMeasurements}
               motionType={activeTab}
               period={selectedPeriod}
+              {...(targetAngle !== undefined ? { targetAngle } : {})}
               {...(styles.tabsContainer__chart && {
                 className: styles.tabsContainer__chart,
               })}
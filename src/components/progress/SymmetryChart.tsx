@@ -0,0 +1,162 @@
+/**
+ * 左右対称性チャートコンポーネント
+ * 左右比較測定の健側・患側の角度を運動ごとに並べ、可動域不足を表示
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import type { BilateralDeficit } from '@/lib/analysis/bilateral-deficit';
+import styles from './SymmetryChart.module.scss';
+
+/**
+ * SymmetryChartコンポーネントのProps
+ */
+interface SymmetryChartProps {
+  deficits: BilateralDeficit[];
+  affectedHand: 'left' | 'right';
+  measuredAt: Date;
+  className?: string;
+}
+
+/**
+ * チャートの色設定
+ */
+const CHART_COLORS = {
+  unaffected: '#9CA3AF',
+  affected: '#0542FC',
+} as const;
+
+/**
+ * 可動域不足の表示（度と健側に対する割合）
+ */
+const formatDeficit = (deficit: BilateralDeficit): string =>
+  `${Math.round(deficit.deficitDegrees)}°` +
+  (deficit.deficitPercent !== null
+    ? `（${Math.round(deficit.deficitPercent)}%）`
+    : '');
+
+/**
+ * カスタムツールチップコンポーネント
+ */
+const CustomTooltip: React.FC<any> = ({ active, payload }) => {
+  if (active && payload && payload.length) {
+    const deficit: BilateralDeficit = payload[0].payload;
+    return (
+      <div className={styles.tooltip}>
+        <p className={styles.tooltip__label}>{deficit.stepName}</p>
+        <p className={styles.tooltip__value}>
+          健側 {deficit.unaffectedAngle.toFixed(1)}° / 患側{' '}
+          {deficit.affectedAngle.toFixed(1)}°
+        </p>
+        <p className={styles.tooltip__value}>不足 {formatDeficit(deficit)}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+/**
+ * 左右対称性チャートコンポーネント
+ */
+export const SymmetryChart: React.FC<SymmetryChartProps> = ({
+  deficits,
+  affectedHand,
+  measuredAt,
+  className,
+}) => {
+  const affectedLabel = `患側（${affectedHand === 'left' ? '左' : '右'}）`;
+  const unaffectedLabel = `健側（${affectedHand === 'left' ? '右' : '左'}）`;
+
+  return (
+    <div className={`${styles.symmetryChart} ${className || ''}`}>
+      <div className={styles.symmetryChart__header}>
+        <h2 className={styles.symmetryChart__title}>左右比較</h2>
+        <p className={styles.symmetryChart__description}>
+          {measuredAt.toLocaleDateString('ja-JP')}
+          の左右比較測定。健側の可動域に対する患側の不足を表示します
+        </p>
+      </div>
+
+      {deficits.length === 0 ? (
+        <div className={styles.symmetryChart__empty}>
+          <p>両手で測定した運動がありません</p>
+        </div>
+      ) : (
+        <>
+          {/* チャート */}
+          <div className={styles.symmetryChart__chartContainer}>
+            <ResponsiveContainer width="100%" height={280}>
+              <BarChart
+                data={deficits}
+                margin={{ top: 10, right: 10, left: 5, bottom: 5 }}
+              >
+                <CartesianGrid
+                  strokeDasharray="2 4"
+                  stroke="#E5E7EB"
+                  opacity={0.6}
+                  vertical={false}
+                />
+                <XAxis
+                  dataKey="stepName"
+                  stroke="#6B7280"
+                  fontSize={11}
+                  tickLine={false}
+                />
+                <YAxis
+                  stroke="#6B7280"
+                  fontSize={11}
+                  tickFormatter={(value) => `${Math.round(value)}°`}
+                />
+                <Tooltip content={<CustomTooltip />} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Bar
+                  dataKey="unaffectedAngle"
+                  name={unaffectedLabel}
+                  fill={CHART_COLORS.unaffected}
+                  radius={[4, 4, 0, 0]}
+                />
+                <Bar
+                  dataKey="affectedAngle"
+                  name={affectedLabel}
+                  fill={CHART_COLORS.affected}
+                  radius={[4, 4, 0, 0]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* 運動ごとの可動域不足 */}
+          <div className={styles.symmetryChart__deficits}>
+            {deficits.map((deficit) => (
+              <div key={deficit.stepId} className={styles.deficit}>
+                <span className={styles.deficit__label}>
+                  {deficit.stepName}
+                </span>
+                <span
+                  className={`${styles.deficit__value} ${
+                    deficit.deficitDegrees > 0
+                      ? styles['deficit__value--short']
+                      : ''
+                  }`}
+                >
+                  {formatDeficit(deficit)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
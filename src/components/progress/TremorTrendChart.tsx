@@ -0,0 +1,160 @@
+/**
+ * 振戦の推移チャートコンポーネント
+ * 振戦検査ごとの振幅（手の大きさ比）と主周波数の推移を表示
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import type { TremorTestType } from '@/core/domain/types/measurement';
+import type { TremorRecord } from '@/lib/database/measurement-db';
+import styles from './TremorTrendChart.module.scss';
+
+/**
+ * TremorTrendChartコンポーネントのProps
+ */
+interface TremorTrendChartProps {
+  /** 振戦検査の記録（記録順） */
+  records: TremorRecord[];
+  className?: string;
+}
+
+/**
+ * 検査の種類の表示名
+ */
+const TEST_TYPE_LABELS: Record<TremorTestType, string> = {
+  resting: '安静時',
+  postural: '姿勢時',
+};
+
+/**
+ * チャートの線の色
+ */
+const AMPLITUDE_COLOR = '#0542FC';
+const FREQUENCY_COLOR = '#F59E0B';
+
+/**
+ * 振戦の推移チャートコンポーネント
+ */
+export const TremorTrendChart: React.FC<TremorTrendChartProps> = ({
+  records,
+  className,
+}) => {
+  const [testType, setTestType] = useState<TremorTestType>('resting');
+
+  const chartData = records
+    .filter((record) => record.testType === testType)
+    .map((record) => ({
+      date: new Date(record.recordedAt).toLocaleDateString('ja-JP', {
+        month: 'numeric',
+        day: 'numeric',
+      }),
+      amplitude: record.analysis.amplitude * 100,
+      frequency: record.analysis.dominantFrequencyHz,
+    }));
+
+  return (
+    <div className={`${styles.tremorTrendChart} ${className || ''}`}>
+      <div className={styles.tremorTrendChart__header}>
+        <h2 className={styles.tremorTrendChart__title}>振戦の推移</h2>
+        <p className={styles.tremorTrendChart__description}>
+          振幅は手の大きさ（手首〜中指付け根）に対する割合です
+        </p>
+      </div>
+
+      <div className={styles.tremorTrendChart__controls}>
+        {(Object.keys(TEST_TYPE_LABELS) as TremorTestType[]).map((type) => (
+          <button
+            key={type}
+            type="button"
+            className={`${styles.testTypeButton} ${
+              type === testType ? styles['testTypeButton--active'] : ''
+            }`}
+            onClick={() => setTestType(type)}
+          >
+            {TEST_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {chartData.length === 0 ? (
+        <div className={styles.tremorTrendChart__empty}>
+          <p>{TEST_TYPE_LABELS[testType]}振戦の記録がありません</p>
+        </div>
+      ) : (
+        <div className={styles.tremorTrendChart__chartContainer}>
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart
+              data={chartData}
+              margin={{ top: 10, right: 10, left: 5, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="2 4"
+                stroke="#E5E7EB"
+                opacity={0.6}
+                vertical={false}
+              />
+              <XAxis
+                dataKey="date"
+                stroke="#6B7280"
+                fontSize={11}
+                tickLine={false}
+              />
+              <YAxis
+                yAxisId="amplitude"
+                stroke={AMPLITUDE_COLOR}
+                fontSize={11}
+                tickFormatter={(value) => `${Number(value).toFixed(1)}%`}
+              />
+              <YAxis
+                yAxisId="frequency"
+                orientation="right"
+                stroke={FREQUENCY_COLOR}
+                fontSize={11}
+                domain={[0, 15]}
+                tickFormatter={(value) => `${value}Hz`}
+              />
+              <Tooltip
+                formatter={(value, name) =>
+                  name === '振幅'
+                    ? [`${Number(value).toFixed(2)}%`, name]
+                    : [`${Number(value).toFixed(1)}Hz`, name]
+                }
+              />
+              <Legend />
+              <Line
+                yAxisId="amplitude"
+                type="monotone"
+                dataKey="amplitude"
+                name="振幅"
+                stroke={AMPLITUDE_COLOR}
+                strokeWidth={2}
+                dot={{ r: 3, fill: AMPLITUDE_COLOR }}
+              />
+              <Line
+                yAxisId="frequency"
+                type="monotone"
+                dataKey="frequency"
+                name="主周波数"
+                stroke={FREQUENCY_COLOR}
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                dot={{ r: 3, fill: FREQUENCY_COLOR }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * 暗号化したデータベースのロック画面コンポーネント
+ * ロック中は子要素の代わりにパスフレーズの入力画面を表示し、
+ * ロック解除中は操作がないまま自動ロックの時間が経過するとロックする（測定の実行中は保留する）
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAtomValue } from 'jotai';
+import { databaseEncryption } from '@/lib/database/database-encryption';
+import { useDatabaseEncryption } from '@/hooks/useDatabaseEncryption';
+import { activeCaptureCountAtom } from '@/shared/state/measurement-atoms';
+import { autoLockMinutesAtom } from '@/shared/state/settings-atoms';
+import styles from './EncryptionLockGate.module.scss';
+
+/**
+ * 自動ロックの時間をリセットする操作
+ */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const;
+
+/**
+ * EncryptionLockGateコンポーネントのProps型定義
+ */
+export interface EncryptionLockGateProps {
+  children: React.ReactNode;
+}
+
+export default function EncryptionLockGate({
+  children,
+}: EncryptionLockGateProps) {
+  const status = useDatabaseEncryption();
+  const autoLockMinutes = useAtomValue(autoLockMinutesAtom);
+  const activeCaptureCount = useAtomValue(activeCaptureCountAtom);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [initializeFailed, setInitializeFailed] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  // 子要素がデータベースを読み書きする前に暗号化の状態を読み込む
+  const initialize = useCallback(async () => {
+    try {
+      await databaseEncryption.initialize();
+      setInitializeFailed(false);
+    } catch (initializeError) {
+      // 読み込めない場合は子要素を表示せず、再読み込みを促す
+      console.error('暗号化の状態の読み込みエラー:', initializeError);
+      setInitializeFailed(true);
+    } finally {
+      setIsInitialized(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    initialize();
+  }, [initialize]);
+
+  // 操作がないまま自動ロックの時間が経過したらロック
+  // 測定の実行中は保留し、終了してから改めて時間を数える
+  useEffect(() => {
+    if (
+      status !== 'unlocked' ||
+      autoLockMinutes <= 0 ||
+      activeCaptureCount > 0
+    ) {
+      return;
+    }
+
+    let timer = window.setTimeout(
+      () => databaseEncryption.lock(),
+      autoLockMinutes * 60 * 1000
+    );
+    const resetTimer = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(
+        () => databaseEncryption.lock(),
+        autoLockMinutes * 60 * 1000
+      );
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, resetTimer)
+    );
+
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, resetTimer)
+      );
+    };
+  }, [status, autoLockMinutes, activeCaptureCount]);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const unlocked = await databaseEncryption.unlock(passphrase);
+      if (unlocked) {
+        setPassphrase('');
+      } else {
+        setError('パスフレーズが正しくありません');
+      }
+    } catch (unlockError) {
+      console.error('ロック解除エラー:', unlockError);
+      setError('ロックを解除できませんでした');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  if (!isInitialized) {
+    return <div className={styles.checking}>データを確認中...</div>;
+  }
+
+  if (initializeFailed) {
+    return (
+      <div className={styles.lockScreen}>
+        <div className={styles.unlockForm}>
+          <h2 className={styles.title}>🔒 データを開けません</h2>
+          <p className={styles.description}>
+            暗号化の設定を読み込めませんでした。再読み込みしてください
+          </p>
+          <button
+            type="button"
+            onClick={() => {
+              setIsInitialized(false);
+              initialize();
+            }}
+            className={styles.unlockButton}
+          >
+            再読み込み
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (status !== 'locked') {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className={styles.lockScreen}>
+      <form className={styles.unlockForm} onSubmit={handleUnlock}>
+        <h2 className={styles.title}>🔒 データはロックされています</h2>
+        <p className={styles.description}>
+          測定データを表示するには、暗号化のパスフレーズを入力してください
+        </p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="パスフレーズ"
+          autoComplete="current-password"
+          autoFocus
+          className={styles.passphraseInput}
+        />
+        {error && <p className={styles.error}>{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className={styles.unlockButton}
+        >
+          {isUnlocking ? '確認中...' : 'ロック解除'}
+        </button>
+      </form>
+    </div>
+  );
+}
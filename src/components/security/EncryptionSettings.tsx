@@ -0,0 +1,241 @@
+'use client';
+
+/**
+ * 保存時の暗号化の設定コンポーネント
+ * 暗号化の有効化・無効化、パスフレーズの変更、自動ロックの時間を設定する
+ */
+
+import React, { useState } from 'react';
+import { useAtom } from 'jotai';
+import { databaseEncryption } from '@/lib/database/database-encryption';
+import { useDatabaseEncryption } from '@/hooks/useDatabaseEncryption';
+import { autoLockMinutesAtom } from '@/shared/state/settings-atoms';
+import styles from './EncryptionSettings.module.scss';
+
+/**
+ * パスフレーズの最小文字数
+ */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * 自動ロックの時間の選択肢（分）
+ */
+const AUTO_LOCK_OPTIONS = [
+  { value: 1, label: '1分' },
+  { value: 5, label: '5分' },
+  { value: 15, label: '15分' },
+  { value: 30, label: '30分' },
+  { value: 0, label: '自動ロックしない' },
+];
+
+/**
+ * 設定の操作
+ */
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+export default function EncryptionSettings() {
+  const status = useDatabaseEncryption();
+  const [autoLockMinutes, setAutoLockMinutes] = useAtom(autoLockMinutesAtom);
+  const [action, setAction] = useState<EncryptionAction | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const resetForm = (nextAction: EncryptionAction | null) => {
+    setAction(nextAction);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  /**
+   * 新しいパスフレーズの入力エラー
+   */
+  const validateNewPassphrase = (): string | null => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      return 'パスフレーズが一致しません';
+    }
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (action !== 'disable') {
+      const validationError = validateNewPassphrase();
+      if (validationError) {
+        setError(validationError);
+        return;
+      }
+    }
+
+    setIsProcessing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      switch (action) {
+        case 'enable':
+          await databaseEncryption.enable(newPassphrase);
+          setMessage('暗号化を有効にしました');
+          break;
+        case 'change':
+          if (
+            !(await databaseEncryption.changePassphrase(
+              currentPassphrase,
+              newPassphrase
+            ))
+          ) {
+            setError('現在のパスフレーズが正しくありません');
+            return;
+          }
+          setMessage('パスフレーズを変更しました');
+          break;
+        case 'disable':
+          if (!(await databaseEncryption.disable(currentPassphrase))) {
+            setError('パスフレーズが正しくありません');
+            return;
+          }
+          setMessage('暗号化を無効にしました');
+          break;
+      }
+      resetForm(null);
+    } catch (encryptionError) {
+      console.error('暗号化の設定エラー:', encryptionError);
+      setError('データの暗号化に失敗しました。データは変更されていません');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className={styles.encryptionSettings}>
+      <p className={styles.status}>
+        {status === 'disabled'
+          ? '🔓 暗号化していません'
+          : '🔒 パスフレーズで暗号化しています'}
+      </p>
+
+      {action === null && (
+        <div className={styles.actions}>
+          {status === 'disabled' ? (
+            <button
+              onClick={() => resetForm('enable')}
+              className={styles.primaryButton}
+            >
+              暗号化を有効にする
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => resetForm('change')}
+                className={styles.primaryButton}
+              >
+                パスフレーズを変更
+              </button>
+              <button
+                onClick={() => databaseEncryption.lock()}
+                className={styles.secondaryButton}
+              >
+                今すぐロック
+              </button>
+              <button
+                onClick={() => resetForm('disable')}
+                className={styles.dangerButton}
+              >
+                暗号化を無効にする
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {action !== null && (
+        <form className={styles.form} onSubmit={handleSubmit}>
+          {action !== 'enable' && (
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder="現在のパスフレーズ"
+              autoComplete="current-password"
+              className={styles.input}
+            />
+          )}
+          {action !== 'disable' && (
+            <>
+              <input
+                type="password"
+                value={newPassphrase}
+                onChange={(e) => setNewPassphrase(e.target.value)}
+                placeholder="新しいパスフレーズ"
+                autoComplete="new-password"
+                className={styles.input}
+              />
+              <input
+                type="password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder="新しいパスフレーズ（確認）"
+                autoComplete="new-password"
+                className={styles.input}
+              />
+            </>
+          )}
+          {error && <p className={styles.error}>{error}</p>}
+          <div className={styles.actions}>
+            <button
+              type="submit"
+              disabled={isProcessing}
+              className={
+                action === 'disable'
+                  ? styles.dangerButton
+                  : styles.primaryButton
+              }
+            >
+              {isProcessing
+                ? '処理中...'
+                : action === 'enable'
+                  ? '暗号化する'
+                  : action === 'change'
+                    ? '変更する'
+                    : '無効にする'}
+            </button>
+            <button
+              type="button"
+              disabled={isProcessing}
+              onClick={() => resetForm(null)}
+              className={styles.secondaryButton}
+            >
+              キャンセル
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && <p className={styles.message}>{message}</p>}
+
+      {status !== 'disabled' && (
+        <label className={styles.autoLock}>
+          自動ロック
+          <select
+            value={autoLockMinutes}
+            onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+            className={styles.input}
+          >
+            {AUTO_LOCK_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
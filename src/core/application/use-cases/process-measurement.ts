@@ -5,7 +5,7 @@
 
 import { MeasurementResultRepository } from '@/core/domain/repositories/measurement-repository';
 import { MeasurementResult, StepId } from '@/core/domain/types/measurement';
-import { Point3D } from '@/core/domain/types/hand-landmark';
+import { ForearmLandmarks, Point3D } from '@/core/domain/types/hand-landmark';
 import { angleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
 
 /**
@@ -15,6 +15,10 @@ export interface ProcessMeasurementInput {
   sessionId: string;
   stepId: StepId;
   landmarks: Point3D[];
+  /** 測定対象の手（指関節の屈曲・過伸展の判定に使用） */
+  hand?: 'left' | 'right';
+  /** MediaPipe Poseの前腕ランドマーク（利用可能な場合） */
+  forearm?: ForearmLandmarks | null;
 }
 
 /**
@@ -47,10 +51,14 @@ export class ProcessMeasurementUseCase {
       throw new Error('無効なランドマークデータ');
     }
 
-    // ステップに応じた角度を計算
-    const angleValue = angleCalculator.calculateAngleForStep(
+    // ステップに応じた角度を計算（前腕ランドマークがあれば実際の前腕軸を使用）
+    const { angle: angleValue, method } = angleCalculator.calculateStepAngle(
       input.landmarks,
-      input.stepId
+      input.stepId,
+      {
+        ...(input.hand ? { hand: input.hand } : {}),
+        forearm: input.forearm ?? null,
+      }
     );
 
     // 角度計算結果を取得（信頼度付き）
@@ -85,6 +93,7 @@ export class ProcessMeasurementUseCase {
       targetAngle,
       achievement,
       accuracy: angleResult.accuracy,
+      forearmAxisMethod: method,
       timestamp: new Date(),
       isCompleted: true,
     };
@@ -110,6 +119,12 @@ export class ProcessMeasurementUseCase {
       'radial-deviation': '橈屈',
       pronation: '回内',
       supination: '回外',
+      'thumb-flexion': '母指屈曲',
+      'thumb-extension': '母指伸展',
+      'thumb-abduction': '母指外転',
+      'thumb-adduction': '母指内転',
+      'finger-flexion': '指屈曲',
+      'finger-extension': '指伸展',
     };
     return stepNames[stepId];
   }
@@ -125,6 +140,12 @@ export class ProcessMeasurementUseCase {
       'radial-deviation': 25,
       pronation: 90,
       supination: 90,
+      'thumb-flexion': 60,
+      'thumb-extension': 10,
+      'thumb-abduction': 60,
+      'thumb-adduction': 0,
+      'finger-flexion': 270, // MCP 90 + PIP 100 + DIP 80
+      'finger-extension': 0, // 伸展不足なし
     };
     return targetAngles[stepId];
   }
@@ -136,6 +157,9 @@ export class ProcessMeasurementUseCase {
     angleValue: number,
     targetAngle: number
   ): number {
+    // 基準位置（0度）が目標のステップは常に達成扱い
+    if (targetAngle <= 0) return 100;
+
     const achievement = (angleValue / targetAngle) * 100;
     return Math.min(Math.round(achievement * 10) / 10, 100); // 小数点1桁、最大100%
   }
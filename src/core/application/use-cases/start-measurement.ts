@@ -4,7 +4,11 @@
  */
 
 import { MeasurementRepository } from '@/core/domain/repositories/measurement-repository';
-import { MeasurementSession } from '@/core/domain/types/measurement';
+import {
+  MeasurementMode,
+  MeasurementSession,
+  STEP_IDS_BY_MODE,
+} from '@/core/domain/types/measurement';
 
 /**
  * 測定開始の入力パラメータ
@@ -12,6 +16,8 @@ import { MeasurementSession } from '@/core/domain/types/measurement';
 export interface StartMeasurementInput {
   userId: string;
   hand: 'left' | 'right';
+  /** 測定モード（省略時は手首・母指モード） */
+  mode?: MeasurementMode;
 }
 
 /**
@@ -23,21 +29,24 @@ export class StartMeasurementUseCase {
 
   /**
    * 測定セッションを開始
-   * @param input ユーザーID、測定する手
+   * @param input ユーザーID、測定する手、測定モード
    * @returns 作成された測定セッション
    */
   async execute(input: StartMeasurementInput): Promise<MeasurementSession> {
     // セッションIDを生成（ULIDまたはUUID）
     const sessionId = this.generateSessionId();
 
+    const mode = input.mode ?? 'wrist';
+
     // 測定セッションを作成
     const session: MeasurementSession = {
       sessionId,
       userId: input.userId,
       hand: input.hand,
+      mode,
       startTime: new Date(),
       status: 'active',
-      totalSteps: 6, // 掌屈、背屈、尺屈、橈屈、回内、回外
+      totalSteps: STEP_IDS_BY_MODE[mode].length,
       completedSteps: 0,
     };
 
@@ -3,7 +3,7 @@
  * クリーンアーキテクチャ: ドメイン層
  */
 
-import { Point3D } from './hand-landmark';
+import { ForearmLandmarks, Point3D } from './hand-landmark';
 
 /**
  * 角度計算結果
@@ -45,6 +45,104 @@ export interface AngleCalculationConfig {
   accuracyThreshold: number;
 }
 
+/**
+ * 平滑化フィルターの種類
+ * - none: 平滑化しない
+ * - one-euro: 速度に応じてカットオフ周波数を変える1€フィルター
+ * - kalman: 等速度モデルのカルマンフィルター
+ */
+export type SmoothingFilterType = 'none' | 'one-euro' | 'kalman';
+
+/**
+ * 平滑化の適用対象
+ * - landmark: ランドマーク座標ごとに適用してから角度を計算
+ * - angle: 計算した角度に適用
+ */
+export type SmoothingTarget = 'landmark' | 'angle';
+
+/**
+ * 1€フィルターのパラメータ
+ */
+export interface OneEuroFilterParams {
+  /** 静止時のカットオフ周波数（Hz）- 小さいほど静止時の揺れが減り遅延が増える */
+  minCutoff: number;
+
+  /** 速度係数 - 大きいほど素早い動作への追従が速くなる */
+  beta: number;
+
+  /** 速度推定のカットオフ周波数（Hz） */
+  derivativeCutoff: number;
+}
+
+/**
+ * カルマンフィルターのパラメータ
+ */
+export interface KalmanFilterParams {
+  /** プロセスノイズ（加速度の分散）- 大きいほど追従が速くなる */
+  processNoise: number;
+
+  /** 観測ノイズ（測定値の分散）- 大きいほど平滑化が強くなる */
+  measurementNoise: number;
+}
+
+/**
+ * 角度平滑化設定
+ */
+export interface SmoothingSettings {
+  /** フィルターの種類 */
+  filterType: SmoothingFilterType;
+
+  /** 適用対象 */
+  target: SmoothingTarget;
+
+  /** 1€フィルターのパラメータ */
+  oneEuro: OneEuroFilterParams;
+
+  /** カルマンフィルターのパラメータ */
+  kalman: KalmanFilterParams;
+}
+
+/**
+ * 前腕軸の推定方法
+ * - pose: MediaPipe Poseの肘→手首ベクトルを前腕軸として使用
+ * - hand-only: 手のランドマークのみから前腕軸を推定
+ */
+export type ForearmAxisMethod = 'pose' | 'hand-only';
+
+/**
+ * 角度計算時の付加情報
+ */
+export interface AngleCalculationContext {
+  /** 測定対象の手 */
+  hand?: 'left' | 'right';
+
+  /** MediaPipe Poseから取得した前腕ランドマーク */
+  forearm?: ForearmLandmarks | null;
+}
+
+/**
+ * 手の向きの判定に使用する、手の各方向とカメラ方向の余弦
+ * （1: その面がカメラの正面、0: 側面、-1: 反対側の面がカメラの正面）
+ */
+export interface HandViewAlignment {
+  /** 掌側方向（手のひら平面の法線） */
+  palmar: number;
+
+  /** 橈側方向（小指MCP→示指MCP） */
+  radial: number;
+}
+
+/**
+ * 測定ステップの角度計算結果
+ */
+export interface StepAngleResult {
+  /** 計算された角度（度） */
+  angle: number;
+
+  /** 使用した前腕軸の推定方法 */
+  method: ForearmAxisMethod;
+}
+
 /**
  * 手首角度データ
  */
@@ -68,6 +166,82 @@ export interface WristAngles {
   supination?: number;
 }
 
+/**
+ * 母指角度データ
+ * 示指中手骨（手首→示指MCP）と手掌平面を基準に算出
+ */
+export interface ThumbAngles {
+  /** 屈曲角度（MCP関節、0-60度） */
+  flexion: number;
+
+  /** 伸展角度（MCP関節の過伸展、0-10度） */
+  extension: number;
+
+  /** 橈側外転角度（0-60度）- 手掌平面内で示指から離れる動作 */
+  abduction: number;
+
+  /** 尺側内転角度（基準0度）- 示指中手骨を越えて尺側へ寄せる動作 */
+  adduction: number;
+
+  /** 掌側外転角度（CMC関節、0-90度）- 手掌平面から掌側へ離れる動作 */
+  palmarAbduction: number;
+
+  /** IP関節屈曲角度（0-80度） */
+  ipFlexion: number;
+}
+
+/**
+ * 指関節角度（1指分）
+ * 直線状態を0度とし、屈曲を正、過伸展を負とする
+ */
+export interface FingerJointAngles {
+  /** MCP関節屈曲角度（0-90度） */
+  mcp: number;
+
+  /** PIP関節屈曲角度（0-100度） */
+  pip: number;
+
+  /** DIP関節屈曲角度（0-80度） */
+  dip: number;
+}
+
+/**
+ * 指角度データ（示指〜小指）
+ */
+export interface FingerAngles {
+  /** 示指 */
+  index: FingerJointAngles;
+
+  /** 中指 */
+  middle: FingerJointAngles;
+
+  /** 環指 */
+  ring: FingerJointAngles;
+
+  /** 小指 */
+  pinky: FingerJointAngles;
+}
+
+/**
+ * 指の名称
+ */
+export type FingerName = keyof FingerAngles;
+
+/**
+ * 指の可動域（TAM: Total Active Motion）
+ * 屈筋腱修復後の評価に用いる標準指標
+ */
+export interface FingerRangeOfMotion {
+  /** 握り込み時の関節角度 */
+  flexion: FingerAngles;
+
+  /** 伸展時の関節角度（正の値は伸展不足） */
+  extension: FingerAngles;
+
+  /** 指ごとのTAM（屈曲角度の総和 - 伸展不足の総和、正常約260度） */
+  totalActiveMotion: Record<FingerName, number>;
+}
+
 /**
  * 角度検証ルール
  */
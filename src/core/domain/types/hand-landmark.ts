@@ -65,6 +65,21 @@ export interface HandLandmarks {
   confidence: number;
 }
 
+/**
+ * 前腕ランドマーク
+ * MediaPipe Poseの肘・手首キーポイント（正規化座標）
+ */
+export interface ForearmLandmarks {
+  /** 肘 */
+  elbow: Point3D;
+  
+  /** 手首 */
+  wrist: Point3D;
+  
+  /** 可視性スコア（肘・手首の低い方、0-1） */
+  visibility: number;
+}
+
 /**
  * MediaPipe設定
  */
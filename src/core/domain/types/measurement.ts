@@ -3,6 +3,9 @@
  * クリーンアーキテクチャ: ドメイン層
  */
 
+import type { ForearmAxisMethod } from './angle';
+import type { ForearmLandmarks } from './hand-landmark';
+
 /**
  * 測定ステップID
  */
@@ -12,7 +15,275 @@ export type StepId =
   | 'ulnar-deviation' // 尺屈
   | 'radial-deviation' // 橈屈
   | 'pronation' // 回内
-  | 'supination'; // 回外
+  | 'supination' // 回外
+  | 'thumb-flexion' // 母指屈曲
+  | 'thumb-extension' // 母指伸展
+  | 'thumb-abduction' // 母指外転
+  | 'thumb-adduction' // 母指内転
+  | 'finger-flexion' // 指屈曲（握り込み）
+  | 'finger-extension'; // 指伸展
+
+/**
+ * 測定モード
+ * - wrist: 手首・母指の可動域測定
+ * - finger: 示指〜小指のMCP・PIP・DIP関節可動域測定
+ */
+export type MeasurementMode = 'wrist' | 'finger';
+
+/**
+ * 測定モードごとのステップ構成
+ */
+export const STEP_IDS_BY_MODE: Record<MeasurementMode, readonly StepId[]> = {
+  wrist: [
+    'palmar-flexion',
+    'dorsal-flexion',
+    'ulnar-deviation',
+    'radial-deviation',
+    'pronation',
+    'supination',
+    'thumb-flexion',
+    'thumb-extension',
+    'thumb-abduction',
+    'thumb-adduction',
+  ],
+  finger: ['finger-flexion', 'finger-extension'],
+};
+
+/**
+ * カメラから見た手の向き
+ * - palm: 手のひらをカメラに向ける
+ * - side: 小指側（母指側）をカメラに向ける
+ * - dorsal: 手の甲をカメラに向ける
+ */
+export type HandOrientation = 'palm' | 'side' | 'dorsal';
+
+/**
+ * カメラから見た手の面（側面の小指側・母指側を区別する）
+ * - palm-facing: 手のひらがカメラを向いている
+ * - dorsum-facing: 手の甲がカメラを向いている
+ * - ulnar-side: 小指側がカメラを向いている
+ * - radial-side: 母指側がカメラを向いている
+ */
+export type HandView =
+  | 'palm-facing'
+  | 'dorsum-facing'
+  | 'ulnar-side'
+  | 'radial-side';
+
+/**
+ * 手の面と手の向きの対応
+ */
+export const HAND_VIEW_ORIENTATION: Record<HandView, HandOrientation> = {
+  'palm-facing': 'palm',
+  'dorsum-facing': 'dorsal',
+  'ulnar-side': 'side',
+  'radial-side': 'side',
+};
+
+/**
+ * 各ステップの開始姿勢でカメラに向ける手の面
+ */
+export const STEP_REQUIRED_VIEW: Record<StepId, HandView> = {
+  'palmar-flexion': 'ulnar-side',
+  'dorsal-flexion': 'ulnar-side',
+  'ulnar-deviation': 'palm-facing',
+  'radial-deviation': 'palm-facing',
+  pronation: 'ulnar-side',
+  supination: 'ulnar-side',
+  'thumb-flexion': 'palm-facing',
+  'thumb-extension': 'palm-facing',
+  'thumb-abduction': 'palm-facing',
+  'thumb-adduction': 'palm-facing',
+  'finger-flexion': 'palm-facing',
+  'finger-extension': 'palm-facing',
+};
+
+/**
+ * 各ステップの開始姿勢で必要な手の向き
+ */
+export const STEP_REQUIRED_ORIENTATION: Record<StepId, HandOrientation> = {
+  'palmar-flexion': 'side',
+  'dorsal-flexion': 'side',
+  'ulnar-deviation': 'palm',
+  'radial-deviation': 'palm',
+  pronation: 'side',
+  supination: 'side',
+  'thumb-flexion': 'palm',
+  'thumb-extension': 'palm',
+  'thumb-abduction': 'palm',
+  'thumb-adduction': 'palm',
+  'finger-flexion': 'palm',
+  'finger-extension': 'palm',
+};
+
+/**
+ * 中間位キャリブレーション結果
+ * 各ステップの測定前に開始姿勢を保持して取得した0度基準
+ */
+export interface NeutralCalibration {
+  /** ステップID */
+  stepId: StepId;
+
+  /** 基準角度（度）- 測定値はこの角度からの変化量 */
+  referenceAngle: number;
+
+  /** 安定判定に使用したフレームの角度の幅（度） */
+  angleRange: number;
+
+  /** 安定判定に使用したフレーム数 */
+  frameCount: number;
+
+  /** 検出した手の向き */
+  orientation: HandOrientation;
+
+  /** 検出した手の面（小指側・母指側を区別して判定した場合のみ） */
+  view?: HandView;
+
+  /** 手のひらがカメラに向いている度合い（1: 正面、0: 側面、-1: 手の甲） */
+  palmCameraAlignment: number;
+
+  /** キャリブレーション時刻（ミリ秒） */
+  calibratedAt: number;
+
+  /** 確定時のランドマーク（角度の再計算に使用） */
+  landmarks?: Array<{ x: number; y: number; z: number }>;
+
+  /** 確定時の前腕ランドマーク（角度の再計算に使用） */
+  forearm?: ForearmLandmarks;
+}
+
+/**
+ * ステップ中の角度の時系列の1点
+ */
+export interface AngleSeriesSample {
+  /** ステップ開始からの経過時間（ミリ秒） */
+  timeMs: number;
+
+  /** 0度基準からの変化量（度、手を検出できなかった場合はnull） */
+  angle: number | null;
+}
+
+/**
+ * ステップ中の角度の時系列
+ * 最大角度だけでなく、ためらいや代償動作を確認するために1ステップ分の角度の推移を記録する
+ */
+export interface AngleSeries {
+  /** サンプリング間隔（ミリ秒） */
+  sampleIntervalMs: number;
+
+  /** 角度の推移 */
+  samples: AngleSeriesSample[];
+
+  /** 0度基準が確定した時刻（ステップ開始からの経過時間、ミリ秒） */
+  calibratedAtMs: number | null;
+
+  /** 最大角度が確定した時刻（ステップ開始からの経過時間、ミリ秒） */
+  peakAtMs: number | null;
+
+  /** 最大角度の保持区間（ステップ開始からの経過時間、ミリ秒） */
+  holdWindow: { startMs: number; endMs: number } | null;
+}
+
+/**
+ * 動作の質の運動学的指標
+ * 0度基準の確定から最大角度に到達するまでの動作を対象とする
+ */
+export interface MovementKinematics {
+  /** 最大角速度（度/秒） */
+  peakAngularVelocity: number;
+
+  /** 動作開始から最大角度に到達するまでの時間（ミリ秒） */
+  timeToPeakMs: number;
+
+  /** 速度ピークの数（1が最も滑らか） */
+  velocityPeakCount: number;
+
+  /** 無次元化ジャーク（小さいほど滑らか、算出できない場合はnull） */
+  normalizedJerk: number | null;
+
+  /** スペクトル弧長（SPARC、0に近いほど滑らか、算出できない場合はnull） */
+  spectralArcLength: number | null;
+}
+
+/**
+ * 振戦検査の種類
+ * - resting: 安静時振戦（手を膝の上などで脱力させる）
+ * - postural: 姿勢時振戦（腕を前方に伸ばして保持する）
+ */
+export type TremorTestType = 'resting' | 'postural';
+
+/**
+ * 振戦のスペクトル解析結果
+ */
+export interface TremorAnalysis {
+  /** 振戦帯域で最もパワーが大きい周波数（Hz） */
+  dominantFrequencyHz: number;
+
+  /** 振戦帯域の振幅（手の大きさに対する比、正弦波振幅に換算） */
+  amplitude: number;
+
+  /** 全パワー（直流成分を除く）に対する振戦帯域のパワーの割合（0-1） */
+  tremorBandRatio: number;
+
+  /** 解析に使用したサンプリング周波数（Hz） */
+  sampleRateHz: number;
+
+  /**
+   * フレームレートが振戦帯域の上限の2倍に満たず、上限（ナイキスト周波数）より高い周波数を解析できていない
+   */
+  isBandLimited: boolean;
+
+  /** 記録時間（ミリ秒） */
+  durationMs: number;
+
+  /** 手を検出したフレーム数 */
+  frameCount: number;
+
+  /** パワースペクトル（表示用） */
+  spectrum: Array<{ frequencyHz: number; power: number }>;
+}
+
+/**
+ * 左右比較測定の情報
+ * 健側・患側の順に両手を測定し、2つのセッションを同じbilateralIdで関連付ける
+ */
+export interface BilateralSessionLink {
+  /** 左右比較測定のID（両手のセッションで共通） */
+  bilateralId: string;
+
+  /** 患側の手 */
+  affectedHand: 'left' | 'right';
+}
+
+/**
+ * ゴニオメーターとの比較測定値
+ * 同じステップのAI測定値とセラピストが入力したゴニオメーター測定値の組
+ */
+export interface PairedReading {
+  /** レコードID */
+  id?: number;
+
+  /** 所属セッションID */
+  sessionId: string;
+
+  /** ステップID */
+  stepId: StepId;
+
+  /** ステップ名（日本語） */
+  stepName: string;
+
+  /** 測定対象の手 */
+  hand: 'left' | 'right';
+
+  /** AIによる測定値（度） */
+  aiAngle: number;
+
+  /** ゴニオメーターによる測定値（度） */
+  goniometerAngle: number;
+
+  /** 記録時刻（ミリ秒） */
+  recordedAt: number;
+}
 
 /**
  * 測定セッション
@@ -28,6 +299,9 @@ export interface MeasurementSession {
   /** 測定対象の手 */
   hand: 'left' | 'right';
 
+  /** 測定モード（未指定は手首・母指モード） */
+  mode?: MeasurementMode;
+
   /** 開始時刻 */
   startTime: Date;
 
@@ -37,8 +311,8 @@ export interface MeasurementSession {
   /** セッション状態 */
   status: 'active' | 'completed' | 'cancelled';
 
-  /** 総ステップ数（常に6） */
-  totalSteps: 6;
+  /** 総ステップ数（手首・母指モード: 10、指モード: 2） */
+  totalSteps: number;
 
   /** 完了したステップ数 */
   completedSteps: number;
@@ -73,6 +347,9 @@ export interface MeasurementResult {
   /** 測定精度（0-1） */
   accuracy: number;
 
+  /** 前腕軸の推定方法 */
+  forearmAxisMethod?: ForearmAxisMethod;
+
   /** 測定時刻 */
   timestamp: Date;
 
@@ -8,13 +8,38 @@
  * - utils/angle-calculator.ts: シンプルな計算、実用的な実装
  */
 
-import { Point3D, HAND_LANDMARKS } from '@/core/domain/types/hand-landmark';
 import {
+  ForearmLandmarks,
+  Point3D,
+  HAND_LANDMARKS,
+} from '@/core/domain/types/hand-landmark';
+import {
+  AngleCalculationContext,
   AngleCalculationResult,
+  FingerAngles,
+  FingerJointAngles,
+  FingerName,
+  FingerRangeOfMotion,
+  HandViewAlignment,
+  StepAngleResult,
+  ThumbAngles,
   Vector3D,
   WristAngles,
 } from '@/core/domain/types/angle';
 
+/**
+ * 角度計算アルゴリズムのバージョン
+ * 保存する測定結果に記録し、計算方法を変更した場合は値を上げて過去の測定結果を再計算する
+ * - 1: バージョン記録前の測定結果
+ * - 2: 前腕軸（MediaPipe Pose）・中間位キャリブレーション・保持による最大角度の確定
+ */
+export const ANGLE_ALGORITHM_VERSION = 2;
+
+/**
+ * バージョンが記録されていない測定結果のアルゴリズムバージョン
+ */
+export const LEGACY_ANGLE_ALGORITHM_VERSION = 1;
+
 /**
  * 角度計算の信頼度閾値
  */
@@ -25,6 +50,53 @@ export const ANGLE_CONFIDENCE_THRESHOLDS = {
   MIN_ACCEPTABLE: 0.3, // 最低許容信頼度
 } as const;
 
+/**
+ * 各指のランドマーク（MCP・PIP・DIP・TIP）
+ */
+const FINGER_LANDMARKS: Record<
+  FingerName,
+  readonly [number, number, number, number]
+> = {
+  index: [
+    HAND_LANDMARKS.INDEX_FINGER_MCP,
+    HAND_LANDMARKS.INDEX_FINGER_PIP,
+    HAND_LANDMARKS.INDEX_FINGER_DIP,
+    HAND_LANDMARKS.INDEX_FINGER_TIP,
+  ],
+  middle: [
+    HAND_LANDMARKS.MIDDLE_FINGER_MCP,
+    HAND_LANDMARKS.MIDDLE_FINGER_PIP,
+    HAND_LANDMARKS.MIDDLE_FINGER_DIP,
+    HAND_LANDMARKS.MIDDLE_FINGER_TIP,
+  ],
+  ring: [
+    HAND_LANDMARKS.RING_FINGER_MCP,
+    HAND_LANDMARKS.RING_FINGER_PIP,
+    HAND_LANDMARKS.RING_FINGER_DIP,
+    HAND_LANDMARKS.RING_FINGER_TIP,
+  ],
+  pinky: [
+    HAND_LANDMARKS.PINKY_MCP,
+    HAND_LANDMARKS.PINKY_PIP,
+    HAND_LANDMARKS.PINKY_DIP,
+    HAND_LANDMARKS.PINKY_TIP,
+  ],
+};
+
+const FINGER_NAMES = Object.keys(FINGER_LANDMARKS) as FingerName[];
+
+/**
+ * 前腕軸を使用する測定ステップ（MediaPipe Poseの前腕ランドマークが有効）
+ */
+export const FOREARM_AXIS_STEP_IDS: readonly string[] = [
+  'palmar-flexion',
+  'dorsal-flexion',
+  'ulnar-deviation',
+  'radial-deviation',
+  'pronation',
+  'supination',
+];
+
 /**
  * 角度計算クラス
  * 全ての角度計算ロジックを統一的に提供
@@ -629,14 +701,824 @@ export class AngleCalculator {
     return Math.max(angleDeg, 0);
   }
 
+  /**
+   * 示指中手骨を基準とした手掌平面の座標系を計算
+   * 母指角度計算の共通基準として使用
+   *
+   * - axis: 示指中手骨軸（手首 → 示指MCP）
+   * - radial: 手掌平面内で示指中手骨軸に垂直な橈側方向（小指 → 示指側）
+   * - normal: 手掌平面の法線
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 単位ベクトルによる座標系（計算不能な場合はnull）
+   */
+  private calculateIndexMetacarpalFrame(
+    landmarks: Point3D[]
+  ): { axis: Vector3D; radial: Vector3D; normal: Vector3D } | null {
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+    const pinkyMcp = landmarks[HAND_LANDMARKS.PINKY_MCP];
+
+    if (!wrist || !indexMcp || !pinkyMcp) return null;
+
+    const wristToIndex = this.calculateVector(wrist, indexMcp);
+    const wristToPinky = this.calculateVector(wrist, pinkyMcp);
+
+    const axis = this.normalizeVector(wristToIndex);
+    const normal = this.normalizeVector(
+      this.crossProduct(wristToIndex, wristToPinky)
+    );
+
+    // 小指MCP → 示指MCPのベクトルから軸方向成分を除去して橈側方向とする
+    const pinkyToIndex = this.calculateVector(pinkyMcp, indexMcp);
+    const axialComponent = this.dotProduct(pinkyToIndex, axis);
+    const radial = this.normalizeVector({
+      x: pinkyToIndex.x - axis.x * axialComponent,
+      y: pinkyToIndex.y - axis.y * axialComponent,
+      z: pinkyToIndex.z - axis.z * axialComponent,
+    });
+
+    if (
+      this.vectorMagnitude(axis) === 0 ||
+      this.vectorMagnitude(normal) === 0 ||
+      this.vectorMagnitude(radial) === 0
+    ) {
+      return null;
+    }
+
+    return { axis, radial, normal };
+  }
+
+  /**
+   * 母指中手骨（CMC → MCP）の手掌平面内での角度を計算
+   * 示指中手骨軸を0度とし、橈側を正、尺側を負とする
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 手掌平面内の角度（度、計算不能な場合はnull）
+   */
+  private calculateThumbInPlaneAngle(landmarks: Point3D[]): number | null {
+    const cmc = landmarks[HAND_LANDMARKS.THUMB_CMC];
+    const mcp = landmarks[HAND_LANDMARKS.THUMB_MCP];
+    const frame = this.calculateIndexMetacarpalFrame(landmarks);
+
+    if (!cmc || !mcp || !frame) return null;
+
+    const metacarpal = this.calculateVector(cmc, mcp);
+
+    // 手掌平面へ投影（法線成分を除去）
+    const normalComponent = this.dotProduct(metacarpal, frame.normal);
+    const projected: Vector3D = {
+      x: metacarpal.x - frame.normal.x * normalComponent,
+      y: metacarpal.y - frame.normal.y * normalComponent,
+      z: metacarpal.z - frame.normal.z * normalComponent,
+    };
+
+    if (this.vectorMagnitude(projected) < 1e-10) return null;
+
+    const angleRad = Math.atan2(
+      this.dotProduct(projected, frame.radial),
+      this.dotProduct(projected, frame.axis)
+    );
+
+    return angleRad * (180 / Math.PI);
+  }
+
+  /**
+   * 母指関節（MCP・IP）の屈曲角度を計算
+   * 直線状態を0度とし、手掌中央側への曲がりを正（屈曲）、
+   * 反対側への曲がりを負（過伸展）とする
+   *
+   * @param proximal 近位ランドマーク
+   * @param joint 関節ランドマーク
+   * @param distal 遠位ランドマーク
+   * @param palmCenter 手掌中央点
+   * @returns 符号付き屈曲角度（度）
+   */
+  private calculateThumbJointFlexion(
+    proximal: Point3D,
+    joint: Point3D,
+    distal: Point3D,
+    palmCenter: Point3D
+  ): number {
+    const result = this.calculateAngle3Points(joint, proximal, distal);
+    if (result.accuracy === 0) return 0;
+
+    const bend = 180 - result.angle;
+
+    // 曲がる方向: 遠位節の向き - 近位節の向き
+    const proximalDirection = this.normalizeVector(
+      this.calculateVector(proximal, joint)
+    );
+    const distalDirection = this.normalizeVector(
+      this.calculateVector(joint, distal)
+    );
+    const bendDirection: Vector3D = {
+      x: distalDirection.x - proximalDirection.x,
+      y: distalDirection.y - proximalDirection.y,
+      z: distalDirection.z - proximalDirection.z,
+    };
+
+    const towardPalm = this.calculateVector(joint, palmCenter);
+
+    return this.dotProduct(bendDirection, towardPalm) >= 0 ? bend : -bend;
+  }
+
+  /**
+   * 母指の全角度を計算
+   * ランドマーク1〜4（CMC・MCP・IP・TIP）を示指中手骨平面に対して評価
+   *
+   * - 屈曲・伸展: MCP関節の屈曲／過伸展
+   * - 橈側外転・尺側内転: 手掌平面内での母指中手骨と示指中手骨のなす角
+   * - 掌側外転: 母指中手骨が手掌平面から離れる角度
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 母指の角度
+   */
+  public calculateThumbAngles(landmarks: Point3D[]): ThumbAngles {
+    const emptyAngles: ThumbAngles = {
+      flexion: 0,
+      extension: 0,
+      abduction: 0,
+      adduction: 0,
+      palmarAbduction: 0,
+      ipFlexion: 0,
+    };
+
+    if (landmarks.length < 21) return emptyAngles;
+
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const cmc = landmarks[HAND_LANDMARKS.THUMB_CMC];
+    const mcp = landmarks[HAND_LANDMARKS.THUMB_MCP];
+    const ip = landmarks[HAND_LANDMARKS.THUMB_IP];
+    const tip = landmarks[HAND_LANDMARKS.THUMB_TIP];
+    const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+    const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+    const ringMcp = landmarks[HAND_LANDMARKS.RING_FINGER_MCP];
+    const pinkyMcp = landmarks[HAND_LANDMARKS.PINKY_MCP];
+
+    if (
+      !wrist ||
+      !cmc ||
+      !mcp ||
+      !ip ||
+      !tip ||
+      !indexMcp ||
+      !middleMcp ||
+      !ringMcp ||
+      !pinkyMcp
+    ) {
+      return emptyAngles;
+    }
+
+    const frame = this.calculateIndexMetacarpalFrame(landmarks);
+    if (!frame) return emptyAngles;
+
+    // 手掌中央（手首と4指MCPの平均）
+    const palmCenter: Point3D = {
+      id: -1,
+      x: (wrist.x + indexMcp.x + middleMcp.x + ringMcp.x + pinkyMcp.x) / 5,
+      y: (wrist.y + indexMcp.y + middleMcp.y + ringMcp.y + pinkyMcp.y) / 5,
+      z: (wrist.z + indexMcp.z + middleMcp.z + ringMcp.z + pinkyMcp.z) / 5,
+    };
+
+    // MCP・IP関節の屈曲（符号付き）
+    const mcpFlexion = this.calculateThumbJointFlexion(
+      cmc,
+      mcp,
+      ip,
+      palmCenter
+    );
+    const ipFlexion = this.calculateThumbJointFlexion(mcp, ip, tip, palmCenter);
+
+    // 手掌平面内の外転・内転
+    const inPlaneAngle = this.calculateThumbInPlaneAngle(landmarks) ?? 0;
+
+    // 掌側外転: 母指中手骨と手掌平面のなす角
+    const metacarpal = this.normalizeVector(this.calculateVector(cmc, mcp));
+    const palmarAbduction =
+      Math.asin(
+        Math.min(Math.abs(this.dotProduct(metacarpal, frame.normal)), 1)
+      ) *
+      (180 / Math.PI);
+
+    return {
+      flexion: Math.max(mcpFlexion, 0),
+      extension: Math.max(-mcpFlexion, 0),
+      abduction: Math.max(inPlaneAngle, 0),
+      adduction: Math.max(-inPlaneAngle, 0),
+      palmarAbduction,
+      ipFlexion: Math.max(ipFlexion, 0),
+    };
+  }
+
+  /**
+   * 母指の屈曲角度を計算（MCP関節）
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 屈曲角度（0度以上）
+   */
+  public calculateThumbFlexion(landmarks: Point3D[]): number {
+    return this.calculateThumbAngles(landmarks).flexion;
+  }
+
+  /**
+   * 母指の伸展角度を計算（MCP関節の過伸展）
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 伸展角度（0度以上）
+   */
+  public calculateThumbExtension(landmarks: Point3D[]): number {
+    return this.calculateThumbAngles(landmarks).extension;
+  }
+
+  /**
+   * 母指の橈側外転角度を計算
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 外転角度（0度以上）
+   */
+  public calculateThumbAbduction(landmarks: Point3D[]): number {
+    return this.calculateThumbAngles(landmarks).abduction;
+  }
+
+  /**
+   * 母指の尺側内転角度を計算
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @returns 内転角度（0度以上）
+   */
+  public calculateThumbAdduction(landmarks: Point3D[]): number {
+    return this.calculateThumbAngles(landmarks).adduction;
+  }
+
+  /**
+   * 手掌の掌側方向を計算
+   * 手掌平面の法線（手首→示指MCP × 手首→小指MCP）は右手では背側、
+   * 左手では掌側を向くため、測定対象の手に応じて向きを揃える
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 掌側方向の単位ベクトル（計算不能な場合はnull）
+   */
+  private calculatePalmarDirection(
+    landmarks: Point3D[],
+    hand: 'left' | 'right'
+  ): Vector3D | null {
+    const frame = this.calculateIndexMetacarpalFrame(landmarks);
+    if (!frame) return null;
+
+    const sign = hand === 'right' ? -1 : 1;
+    return {
+      x: frame.normal.x * sign,
+      y: frame.normal.y * sign,
+      z: frame.normal.z * sign,
+    };
+  }
+
+  /**
+   * 手のひらがカメラに向いている度合いを計算
+   * 掌側方向とカメラ方向の内積（1: 手のひらが正面、0: 側面、-1: 手の甲が正面）
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 掌側方向とカメラ方向のなす角の余弦（計算不能な場合はnull）
+   */
+  public calculatePalmCameraAlignment(
+    landmarks: Point3D[],
+    hand: 'left' | 'right'
+  ): number | null {
+    const palmar = this.calculatePalmarDirection(landmarks, hand);
+    if (!palmar) return null;
+
+    // MediaPipeの座標系: Z値が小さい = カメラに近い
+    return -palmar.z;
+  }
+
+  /**
+   * 手の向きの判定に使用する、掌側・橈側方向とカメラ方向の余弦を計算
+   * 掌側方向はcalculateFlexionExtensionと同じ手のひら平面の法線（示指MCP→小指MCP × 手首→手掌中央）で、
+   * 右手では掌側、左手では背側を向くため測定対象の手に応じて向きを揃える
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 掌側・橈側方向とカメラ方向の余弦（計算不能な場合はnull）
+   */
+  public calculateHandViewAlignment(
+    landmarks: Point3D[],
+    hand: 'left' | 'right'
+  ): HandViewAlignment | null {
+    if (landmarks.length < 21) return null;
+
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+    const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+    const ringMcp = landmarks[HAND_LANDMARKS.RING_FINGER_MCP];
+    const pinkyMcp = landmarks[HAND_LANDMARKS.PINKY_MCP];
+
+    if (!wrist || !indexMcp || !middleMcp || !ringMcp || !pinkyMcp) {
+      return null;
+    }
+
+    const palmCenter: Point3D = {
+      id: -1,
+      x: (indexMcp.x + middleMcp.x + ringMcp.x + pinkyMcp.x) / 4,
+      y: (indexMcp.y + middleMcp.y + ringMcp.y + pinkyMcp.y) / 4,
+      z: (indexMcp.z + middleMcp.z + ringMcp.z + pinkyMcp.z) / 4,
+    };
+    const lateralVector = this.calculateVector(indexMcp, pinkyMcp);
+    const longitudinalVector = this.calculateVector(wrist, palmCenter);
+    const palmNormal = this.normalizeVector(
+      this.crossProduct(lateralVector, longitudinalVector)
+    );
+    const radial = this.normalizeVector(
+      this.calculateVector(pinkyMcp, indexMcp)
+    );
+    if (
+      this.vectorMagnitude(palmNormal) === 0 ||
+      this.vectorMagnitude(radial) === 0
+    ) {
+      return null;
+    }
+
+    // MediaPipeの座標系: Z値が小さい = カメラに近い
+    const sign = hand === 'right' ? 1 : -1;
+    return {
+      palmar: -palmNormal.z * sign,
+      radial: -radial.z,
+    };
+  }
+
+  /**
+   * 指の屈曲回転軸を計算
+   * 中手骨軸から掌側へ向かう回転の軸（示指中手骨軸 × 掌側方向）
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 屈曲回転軸の単位ベクトル（計算不能な場合はnull）
+   */
+  private calculateFingerFlexionAxis(
+    landmarks: Point3D[],
+    hand: 'left' | 'right'
+  ): Vector3D | null {
+    const frame = this.calculateIndexMetacarpalFrame(landmarks);
+    const palmar = this.calculatePalmarDirection(landmarks, hand);
+    if (!frame || !palmar) return null;
+
+    return this.normalizeVector(this.crossProduct(frame.axis, palmar));
+  }
+
+  /**
+   * 指関節（MCP・PIP・DIP）の屈曲角度を計算
+   * 直線状態を0度とし、掌側への曲がりを正（屈曲）、背側への曲がりを負（過伸展）とする
+   * 屈曲回転軸が不明な場合は曲がりの大きさのみを返す
+   *
+   * @param proximal 近位ランドマーク
+   * @param joint 関節ランドマーク
+   * @param distal 遠位ランドマーク
+   * @param flexionAxis 屈曲回転軸
+   * @returns 屈曲角度（度）
+   */
+  private calculateFingerJointFlexion(
+    proximal: Point3D,
+    joint: Point3D,
+    distal: Point3D,
+    flexionAxis: Vector3D | null
+  ): number {
+    const result = this.calculateAngle3Points(joint, proximal, distal);
+    if (result.accuracy === 0) return 0;
+
+    const bend = 180 - result.angle;
+    if (!flexionAxis) return bend;
+
+    // 近位節 → 遠位節の回転軸が屈曲回転軸と同じ向きなら屈曲
+    const rotation = this.crossProduct(
+      this.calculateVector(proximal, joint),
+      this.calculateVector(joint, distal)
+    );
+    return this.dotProduct(rotation, flexionAxis) >= 0 ? bend : -bend;
+  }
+
+  /**
+   * 示指〜小指のMCP・PIP・DIP関節角度を計算
+   * MCP関節は手首→MCPを中手骨軸として評価する
+   *
+   * 測定対象の手を指定しない場合は屈曲と過伸展を区別できないため、
+   * 全ての角度を曲がりの大きさ（0度以上）として返す
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 指ごとの関節角度
+   */
+  public calculateFingerAngles(
+    landmarks: Point3D[],
+    hand?: 'left' | 'right'
+  ): FingerAngles {
+    const emptyJoint = (): FingerJointAngles => ({ mcp: 0, pip: 0, dip: 0 });
+    const angles: FingerAngles = {
+      index: emptyJoint(),
+      middle: emptyJoint(),
+      ring: emptyJoint(),
+      pinky: emptyJoint(),
+    };
+
+    if (landmarks.length < 21) return angles;
+
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    if (!wrist) return angles;
+
+    const flexionAxis = hand
+      ? this.calculateFingerFlexionAxis(landmarks, hand)
+      : null;
+
+    for (const finger of FINGER_NAMES) {
+      const [mcpId, pipId, dipId, tipId] = FINGER_LANDMARKS[finger];
+      const mcp = landmarks[mcpId];
+      const pip = landmarks[pipId];
+      const dip = landmarks[dipId];
+      const tip = landmarks[tipId];
+
+      if (!mcp || !pip || !dip || !tip) continue;
+
+      angles[finger] = {
+        mcp: this.calculateFingerJointFlexion(wrist, mcp, pip, flexionAxis),
+        pip: this.calculateFingerJointFlexion(mcp, pip, dip, flexionAxis),
+        dip: this.calculateFingerJointFlexion(pip, dip, tip, flexionAxis),
+      };
+    }
+
+    return angles;
+  }
+
+  /**
+   * 4指の複合屈曲角度（MCP + PIP + DIP）の平均を計算
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 複合屈曲角度（度）
+   */
+  public calculateCompositeFingerFlexion(
+    landmarks: Point3D[],
+    hand?: 'left' | 'right'
+  ): number {
+    const angles = this.calculateFingerAngles(landmarks, hand);
+    const total = FINGER_NAMES.reduce(
+      (sum, finger) =>
+        sum + angles[finger].mcp + angles[finger].pip + angles[finger].dip,
+      0
+    );
+
+    return total / FINGER_NAMES.length;
+  }
+
+  /**
+   * 4指の伸展不足（伸展時に残る屈曲角度の総和）の平均を計算
+   * 過伸展は伸展不足0度として扱う
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param hand 測定対象の手
+   * @returns 伸展不足角度（度）
+   */
+  public calculateFingerExtensionDeficit(
+    landmarks: Point3D[],
+    hand?: 'left' | 'right'
+  ): number {
+    const angles = this.calculateFingerAngles(landmarks, hand);
+    const total = FINGER_NAMES.reduce(
+      (sum, finger) => sum + this.sumExtensionDeficit(angles[finger]),
+      0
+    );
+
+    return total / FINGER_NAMES.length;
+  }
+
+  /**
+   * 1指分の伸展不足の総和（過伸展は0度）
+   */
+  private sumExtensionDeficit(joint: FingerJointAngles): number {
+    return (
+      Math.max(joint.mcp, 0) + Math.max(joint.pip, 0) + Math.max(joint.dip, 0)
+    );
+  }
+
+  /**
+   * 握り込み時と伸展時の関節角度から指ごとのTAMを計算
+   * TAM = (MCP + PIP + DIP の屈曲角度) - (MCP + PIP + DIP の伸展不足)
+   *
+   * @param flexion 握り込み時の関節角度
+   * @param extension 伸展時の関節角度
+   * @returns 指の可動域（TAM）
+   */
+  public calculateTotalActiveMotion(
+    flexion: FingerAngles,
+    extension: FingerAngles
+  ): FingerRangeOfMotion {
+    const totalActiveMotion = {} as Record<FingerName, number>;
+
+    for (const finger of FINGER_NAMES) {
+      const flexed = flexion[finger];
+      const totalFlexion =
+        Math.max(flexed.mcp, 0) +
+        Math.max(flexed.pip, 0) +
+        Math.max(flexed.dip, 0);
+
+      totalActiveMotion[finger] = Math.max(
+        totalFlexion - this.sumExtensionDeficit(extension[finger]),
+        0
+      );
+    }
+
+    return { flexion, extension, totalActiveMotion };
+  }
+
+  /**
+   * 前腕ランドマークから前腕軸（肘 → 手首）を取得
+   * 可視性が中信頼度未満の場合は使用しない
+   *
+   * @param forearm MediaPipe Poseの前腕ランドマーク
+   * @returns 前腕軸の単位ベクトル（使用不能な場合はnull）
+   */
+  private getForearmAxis(
+    forearm: ForearmLandmarks | null | undefined
+  ): Vector3D | null {
+    if (!forearm || forearm.visibility < ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM) {
+      return null;
+    }
+
+    const axis = this.calculateVector(forearm.elbow, forearm.wrist);
+    if (this.vectorMagnitude(axis) < 1e-10) return null;
+
+    return this.normalizeVector(axis);
+  }
+
+  /**
+   * ベクトルから基準軸方向の成分を除去して正規化
+   *
+   * @returns 正規化したベクトル（基準軸と平行な場合はnull）
+   */
+  private rejectFromAxis(vector: Vector3D, axis: Vector3D): Vector3D | null {
+    const component = this.dotProduct(vector, axis);
+    const rejected: Vector3D = {
+      x: vector.x - axis.x * component,
+      y: vector.y - axis.y * component,
+      z: vector.z - axis.z * component,
+    };
+
+    if (this.vectorMagnitude(rejected) < 1e-10) return null;
+    return this.normalizeVector(rejected);
+  }
+
+  /**
+   * 前腕軸を基準とした手の座標系を計算
+   *
+   * - longitudinal: 手の長軸（手首 → 4指MCPの中央）
+   * - radial: 前腕軸に垂直な橈側方向（小指MCP → 示指MCP）
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param forearmAxis 前腕軸（肘 → 手首）
+   * @returns 手の座標系（計算不能な場合はnull）
+   */
+  private calculateForearmHandFrame(
+    landmarks: Point3D[],
+    forearmAxis: Vector3D
+  ): { longitudinal: Vector3D; radial: Vector3D } | null {
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+    const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+    const ringMcp = landmarks[HAND_LANDMARKS.RING_FINGER_MCP];
+    const pinkyMcp = landmarks[HAND_LANDMARKS.PINKY_MCP];
+
+    if (!wrist || !indexMcp || !middleMcp || !ringMcp || !pinkyMcp) {
+      return null;
+    }
+
+    const palmCenter: Point3D = {
+      id: -1,
+      x: (indexMcp.x + middleMcp.x + ringMcp.x + pinkyMcp.x) / 4,
+      y: (indexMcp.y + middleMcp.y + ringMcp.y + pinkyMcp.y) / 4,
+      z: (indexMcp.z + middleMcp.z + ringMcp.z + pinkyMcp.z) / 4,
+    };
+
+    const longitudinal = this.calculateVector(wrist, palmCenter);
+    if (this.vectorMagnitude(longitudinal) < 1e-10) return null;
+
+    // 橈尺方向は掌屈・背屈では不変、橈屈・尺屈でも前腕軸成分を除けば不変
+    const radial = this.rejectFromAxis(
+      this.calculateVector(pinkyMcp, indexMcp),
+      forearmAxis
+    );
+    if (!radial) return null;
+
+    return { longitudinal: this.normalizeVector(longitudinal), radial };
+  }
+
+  /**
+   * 前腕軸を基準に手首の掌屈・背屈角度を計算
+   * 橈尺方向を回転軸として、前腕軸から手の長軸までの角度を求める
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param forearmAxis 前腕軸（肘 → 手首）
+   * @param hand 測定対象の手
+   * @returns 掌屈を正、背屈を負とする角度（計算不能な場合はnull）
+   */
+  private calculateForearmFlexion(
+    landmarks: Point3D[],
+    forearmAxis: Vector3D,
+    hand: 'left' | 'right'
+  ): number | null {
+    const frame = this.calculateForearmHandFrame(landmarks, forearmAxis);
+    if (!frame) return null;
+
+    // 前腕に固定した掌側方向（橈側 × 前腕軸は右手で背側、左手で掌側）
+    const sign = hand === 'right' ? -1 : 1;
+    const dorsalOrPalmar = this.crossProduct(frame.radial, forearmAxis);
+    const palmar: Vector3D = {
+      x: dorsalOrPalmar.x * sign,
+      y: dorsalOrPalmar.y * sign,
+      z: dorsalOrPalmar.z * sign,
+    };
+
+    const angleRad = Math.atan2(
+      this.dotProduct(frame.longitudinal, palmar),
+      this.dotProduct(frame.longitudinal, forearmAxis)
+    );
+
+    return angleRad * (180 / Math.PI);
+  }
+
+  /**
+   * 前腕軸を基準に手首の橈屈・尺屈角度を計算
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param forearmAxis 前腕軸（肘 → 手首）
+   * @returns 橈屈を正、尺屈を負とする角度（計算不能な場合はnull）
+   */
+  private calculateForearmDeviation(
+    landmarks: Point3D[],
+    forearmAxis: Vector3D
+  ): number | null {
+    const frame = this.calculateForearmHandFrame(landmarks, forearmAxis);
+    if (!frame) return null;
+
+    const angleRad = Math.atan2(
+      this.dotProduct(frame.longitudinal, frame.radial),
+      this.dotProduct(frame.longitudinal, forearmAxis)
+    );
+
+    return angleRad * (180 / Math.PI);
+  }
+
+  /**
+   * 前腕軸まわりの回内・回外角度を計算
+   * 手のひらがカメラに垂直な状態（小指側がカメラを向く）を0度とし、
+   * 手のひらがカメラ側を向く回転を回内（正）、反対側を回外（負）とする
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param forearmAxis 前腕軸（肘 → 手首）
+   * @param hand 測定対象の手
+   * @returns 回内を正、回外を負とする角度（計算不能な場合はnull）
+   */
+  private calculateForearmRotation(
+    landmarks: Point3D[],
+    forearmAxis: Vector3D,
+    hand: 'left' | 'right'
+  ): number | null {
+    const palmar = this.calculatePalmarDirection(landmarks, hand);
+    if (!palmar) return null;
+
+    // MediaPipeの座標系: Z値が小さい = カメラに近い
+    const towardCamera: Vector3D = { x: 0, y: 0, z: -1 };
+
+    const palmarPerpendicular = this.rejectFromAxis(palmar, forearmAxis);
+    const cameraPerpendicular = this.rejectFromAxis(towardCamera, forearmAxis);
+    if (!palmarPerpendicular || !cameraPerpendicular) return null;
+
+    const sinAngle = this.dotProduct(palmarPerpendicular, cameraPerpendicular);
+    return Math.asin(Math.max(-1, Math.min(1, sinAngle))) * (180 / Math.PI);
+  }
+
+  /**
+   * MediaPipe Poseの前腕軸を用いて測定ステップの角度を計算
+   *
+   * @returns 計算された角度（前腕軸を使用できない場合はnull）
+   */
+  private calculateForearmAngleForStep(
+    landmarks: Point3D[],
+    stepId: string,
+    context: AngleCalculationContext
+  ): number | null {
+    const forearmAxis = this.getForearmAxis(context.forearm);
+    if (!forearmAxis || landmarks.length < 21) return null;
+
+    const { hand } = context;
+
+    switch (stepId) {
+      case 'palmar-flexion':
+      case 'dorsal-flexion': {
+        if (!hand) return null;
+        const flexion = this.calculateForearmFlexion(
+          landmarks,
+          forearmAxis,
+          hand
+        );
+        if (flexion === null) return null;
+        return stepId === 'palmar-flexion'
+          ? Math.max(flexion, 0)
+          : Math.max(-flexion, 0);
+      }
+      case 'radial-deviation':
+      case 'ulnar-deviation': {
+        const deviation = this.calculateForearmDeviation(
+          landmarks,
+          forearmAxis
+        );
+        if (deviation === null) return null;
+        return stepId === 'radial-deviation'
+          ? Math.max(deviation, 0)
+          : Math.max(-deviation, 0);
+      }
+      case 'pronation':
+      case 'supination': {
+        if (!hand) return null;
+        const rotation = this.calculateForearmRotation(
+          landmarks,
+          forearmAxis,
+          hand
+        );
+        if (rotation === null) return null;
+        return stepId === 'pronation'
+          ? Math.max(rotation, 0)
+          : Math.max(-rotation, 0);
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 測定ステップに応じた角度を計算（前腕軸の推定方法付き）
+   * MediaPipe Poseの前腕ランドマークが利用可能な手首ステップでは実際の前腕軸を使用し、
+   * それ以外は手のランドマークのみによる推定にフォールバックする
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param stepId 測定ステップID
+   * @param context 測定対象の手、前腕ランドマーク
+   * @returns 角度と使用した推定方法
+   */
+  public calculateStepAngle(
+    landmarks: Point3D[],
+    stepId: string,
+    context: AngleCalculationContext = {}
+  ): StepAngleResult {
+    const forearmAngle = this.calculateForearmAngleForStep(
+      landmarks,
+      stepId,
+      context
+    );
+    if (forearmAngle !== null) {
+      return { angle: forearmAngle, method: 'pose' };
+    }
+
+    return {
+      angle: this.calculateHandOnlyAngleForStep(
+        landmarks,
+        stepId,
+        context.hand
+      ),
+      method: 'hand-only',
+    };
+  }
+
   /**
    * 測定ステップに応じた角度を計算（改良版）
    *
    * @param landmarks MediaPipe Handsランドマーク配列（21点）
    * @param stepId 測定ステップID
+   * @param hand 測定対象の手（指関節の屈曲・過伸展の判定に使用）
+   * @returns 計算された角度
+   */
+  public calculateAngleForStep(
+    landmarks: Point3D[],
+    stepId: string,
+    hand?: 'left' | 'right'
+  ): number {
+    return this.calculateStepAngle(landmarks, stepId, hand ? { hand } : {})
+      .angle;
+  }
+
+  /**
+   * 手のランドマークのみから測定ステップの角度を計算
+   * 前腕軸は手のランドマークから仮想的に推定する
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列（21点）
+   * @param stepId 測定ステップID
+   * @param hand 測定対象の手（指関節の屈曲・過伸展の判定に使用）
    * @returns 計算された角度
    */
-  public calculateAngleForStep(landmarks: Point3D[], stepId: string): number {
+  private calculateHandOnlyAngleForStep(
+    landmarks: Point3D[],
+    stepId: string,
+    hand?: 'left' | 'right'
+  ): number {
     switch (stepId) {
       case 'palmar-flexion':
         // 掌屈専用の計算メソッドを使用
@@ -653,11 +1535,46 @@ export class AngleCalculator {
       case 'supination':
         // 回外専用の計算メソッドを使用
         return this.calculateSupination(landmarks);
+      case 'thumb-flexion':
+        return this.calculateThumbFlexion(landmarks);
+      case 'thumb-extension':
+        return this.calculateThumbExtension(landmarks);
+      case 'thumb-abduction':
+        return this.calculateThumbAbduction(landmarks);
+      case 'thumb-adduction':
+        return this.calculateThumbAdduction(landmarks);
+      case 'finger-flexion':
+        return this.calculateCompositeFingerFlexion(landmarks, hand);
+      case 'finger-extension':
+        return this.calculateFingerExtensionDeficit(landmarks, hand);
       default:
         return 0;
     }
   }
 
+  /**
+   * ランドマークの検出精度を計算
+   * 手首→示指MCP・中指MCPの長さに基づく精度と、MediaPipeの検出信頼度の小さい方を返す
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列
+   * @param detectionConfidence MediaPipeの検出信頼度（handednessのスコア）
+   * @returns 検出精度（0-1）
+   */
+  public calculateLandmarkAccuracy(
+    landmarks: Point3D[],
+    detectionConfidence?: number
+  ): number {
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const indexMcp = landmarks[HAND_LANDMARKS.INDEX_FINGER_MCP];
+    const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+    if (!wrist || !indexMcp || !middleMcp) return 0;
+
+    const { accuracy } = this.calculateAngle3Points(wrist, indexMcp, middleMcp);
+    return detectionConfidence !== undefined
+      ? Math.min(accuracy, detectionConfidence)
+      : accuracy;
+  }
+
   /**
    * ランドマークデータの有効性をチェック
    *
@@ -0,0 +1,104 @@
+/**
+ * ステップ中の角度の時系列の記録
+ * フレームごとの角度を一定間隔で間引いて記録し、0度基準・最大角度・保持区間の時刻とともに返す
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type {
+  AngleSeries,
+  AngleSeriesSample,
+} from '@/core/domain/types/measurement';
+
+/**
+ * デフォルトのサンプリング間隔（ミリ秒）
+ */
+export const DEFAULT_ANGLE_SERIES_INTERVAL_MS = 100;
+
+/**
+ * 角度の時系列の記録クラス
+ * 0度基準が確定する前のフレームも記録し、基準確定後にさかのぼって変化量に換算する
+ */
+export class AngleSeriesRecorder {
+  private readonly startMs: number;
+  private readonly intervalMs: number;
+  private rawSamples: AngleSeriesSample[] = [];
+  private lastBucket = -1;
+  private referenceAngle: number | null = null;
+  private calibratedAtMs: number | null = null;
+  private peakAtMs: number | null = null;
+  private holdWindow: AngleSeries['holdWindow'] = null;
+
+  /**
+   * @param startMs ステップの開始時刻（ミリ秒）
+   * @param intervalMs サンプリング間隔（ミリ秒）
+   */
+  constructor(
+    startMs: number,
+    intervalMs: number = DEFAULT_ANGLE_SERIES_INTERVAL_MS
+  ) {
+    this.startMs = startMs;
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * フレームの角度を追加
+   * サンプリング間隔ごとに最初のフレームのみを記録する
+   *
+   * @param timestampMs フレームの時刻（ミリ秒）
+   * @param angle 基準角度を引く前の角度（度、手を検出できなかった場合はnull）
+   */
+  public addSample(timestampMs: number, angle: number | null): void {
+    const timeMs = timestampMs - this.startMs;
+    const bucket = Math.floor(timeMs / this.intervalMs);
+    if (timeMs < 0 || bucket <= this.lastBucket) return;
+
+    this.lastBucket = bucket;
+    this.rawSamples.push({ timeMs, angle });
+  }
+
+  /**
+   * 0度基準の確定を記録
+   *
+   * @param timestampMs 確定した時刻（ミリ秒）
+   * @param referenceAngle 基準角度（度）
+   */
+  public setReference(timestampMs: number, referenceAngle: number): void {
+    this.calibratedAtMs = timestampMs - this.startMs;
+    this.referenceAngle = referenceAngle;
+  }
+
+  /**
+   * 最大角度の確定を記録
+   *
+   * @param timestampMs 確定した時刻（ミリ秒）
+   * @param holdStartMs 保持の開始時刻（ミリ秒）
+   */
+  public markPeak(timestampMs: number, holdStartMs: number | null): void {
+    this.peakAtMs = timestampMs - this.startMs;
+    this.holdWindow = {
+      startMs: (holdStartMs ?? timestampMs) - this.startMs,
+      endMs: this.peakAtMs,
+    };
+  }
+
+  /**
+   * 記録した時系列を取得
+   * 0度基準が確定していない場合、角度はすべてnull
+   */
+  public getSeries(): AngleSeries {
+    const referenceAngle = this.referenceAngle;
+    return {
+      sampleIntervalMs: this.intervalMs,
+      samples: this.rawSamples.map(({ timeMs, angle }) => ({
+        timeMs,
+        angle:
+          angle === null || referenceAngle === null
+            ? null
+            : Math.abs(angle - referenceAngle),
+      })),
+      calibratedAtMs: this.calibratedAtMs,
+      peakAtMs: this.peakAtMs,
+      holdWindow: this.holdWindow,
+    };
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * 手の検出結果のフレーム処理
+ * 検出した手から測定対象の手を選び、平滑化と角度計算までを行う
+ * メインスレッドとWeb Workerの両方で同じ処理を使用する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type {
+  ForearmLandmarks,
+  Point3D,
+} from '@/core/domain/types/hand-landmark';
+import type {
+  ForearmAxisMethod,
+  SmoothingSettings,
+} from '@/core/domain/types/angle';
+import type { HandView, StepId } from '@/core/domain/types/measurement';
+import { AngleCalculator, angleCalculator } from './angle-calculator';
+import { classifyHandView } from './hand-view-classifier';
+import {
+  createSignalFilter,
+  DEFAULT_SMOOTHING_SETTINGS,
+  LandmarkFilter,
+  PassThroughFilter,
+  SignalFilter,
+} from './signal-filter';
+
+/**
+ * 検出した手
+ */
+export interface DetectedHand {
+  /** ランドマーク配列（21点） */
+  landmarks: Array<{ x: number; y: number; z: number }>;
+
+  /**
+   * 世界座標のランドマーク配列（メートル単位、バックエンドが対応している場合のみ）
+   * 角度は保存して再計算できる画像座標のランドマークで計算するため、角度計算には使わない
+   */
+  worldLandmarks?: Array<{ x: number; y: number; z: number }>;
+
+  /** MediaPipeの左右判定（カメラ視点の鏡像） */
+  handedness: 'Left' | 'Right';
+
+  /** 検出信頼度（0-1） */
+  score?: number;
+}
+
+/**
+ * 処理するフレーム
+ */
+export interface HandFrameInput {
+  /** フレームの時刻（ミリ秒） */
+  timestampMs: number;
+
+  /** 検出した手（検出できなかった場合は空） */
+  hands: DetectedHand[];
+
+  stepId: StepId;
+
+  /** 測定対象の手 */
+  hand: 'left' | 'right';
+
+  /** MediaPipe Poseから取得した前腕ランドマーク */
+  forearm: ForearmLandmarks | null;
+}
+
+/**
+ * フレームの処理状態
+ * - missing: 手を検出できない
+ * - other-hand: 測定対象ではない手のみを検出
+ * - invalid: 対象の手のランドマークが不正
+ * - tracked: 角度を算出
+ */
+export type HandFrameStatus = 'missing' | 'other-hand' | 'invalid' | 'tracked';
+
+/**
+ * フレームの処理結果
+ */
+export interface ProcessedHandFrame {
+  /** フレームの時刻（ミリ秒） */
+  timestampMs: number;
+
+  stepId: StepId;
+
+  status: HandFrameStatus;
+
+  /** 対象の手のランドマーク（平滑化前） */
+  landmarks: Point3D[] | null;
+
+  /** 対象の手のランドマーク（平滑化後） */
+  smoothedLandmarks: Point3D[] | null;
+
+  /** 対象の手の検出信頼度 */
+  detectionConfidence: number | null;
+
+  /** 平滑化後の角度（度、0度基準を引く前） */
+  angle: number | null;
+
+  /** 使用した前腕軸の推定方法 */
+  method: ForearmAxisMethod | null;
+
+  /** 手のひらがカメラに向いている度合い（1: 正面、0: 側面、-1: 手の甲） */
+  palmCameraAlignment: number | null;
+
+  /** カメラに向いている手の面（判定不能な場合はnull） */
+  view: HandView | null;
+
+  /** ランドマークの精度（0-1） */
+  accuracy: number | null;
+
+  /** 角度計算に使用した前腕ランドマーク */
+  forearm: ForearmLandmarks | null;
+}
+
+/**
+ * ランドマークにIDを付けてPoint3Dに変換
+ */
+const toPoints = (
+  landmarks: Array<{ x: number; y: number; z: number }>
+): Point3D[] => landmarks.map(({ x, y, z }, id) => ({ id, x, y, z }));
+
+/**
+ * 検出した手から測定対象の手を選択
+ * MediaPipeのhandednessは鏡像を前提とするため、「Right」は実際には左手、「Left」は実際には右手
+ *
+ * @param hands 検出した手
+ * @param hand 測定対象の手
+ * @returns 対象の手（見つからない場合はnull）
+ */
+export const findTargetHand = (
+  hands: DetectedHand[],
+  hand: 'left' | 'right'
+): DetectedHand | null =>
+  hands.find(
+    (detected) => (detected.handedness === 'Right' ? 'left' : 'right') === hand
+  ) ?? null;
+
+/**
+ * 手の検出結果のフレーム処理クラス
+ * 平滑化フィルターの履歴を保持するため、ステップの切り替え時にはresetを呼び出す
+ */
+export class HandFrameProcessor {
+  private readonly calculator: AngleCalculator;
+  private angleFilter: SignalFilter = new PassThroughFilter();
+  private landmarkFilter: LandmarkFilter | null = null;
+
+  constructor(
+    smoothing: SmoothingSettings = DEFAULT_SMOOTHING_SETTINGS,
+    calculator: AngleCalculator = angleCalculator
+  ) {
+    this.calculator = calculator;
+    this.setSmoothing(smoothing);
+  }
+
+  /**
+   * 平滑化設定を変更（フィルターを作り直す）
+   */
+  public setSmoothing(smoothing: SmoothingSettings): void {
+    this.angleFilter =
+      smoothing.target === 'angle'
+        ? createSignalFilter(smoothing)
+        : new PassThroughFilter();
+    this.landmarkFilter =
+      smoothing.target === 'landmark' ? new LandmarkFilter(smoothing) : null;
+  }
+
+  /**
+   * 平滑化フィルターの履歴をリセット
+   */
+  public reset(): void {
+    this.angleFilter.reset();
+    this.landmarkFilter?.reset();
+  }
+
+  /**
+   * フレームを処理
+   *
+   * @param input 処理するフレーム
+   * @returns 処理結果
+   */
+  public process(input: HandFrameInput): ProcessedHandFrame {
+    const { timestampMs, hands, stepId, hand, forearm } = input;
+    const empty: ProcessedHandFrame = {
+      timestampMs,
+      stepId,
+      status: 'missing',
+      landmarks: null,
+      smoothedLandmarks: null,
+      detectionConfidence: null,
+      angle: null,
+      method: null,
+      palmCameraAlignment: null,
+      view: null,
+      accuracy: null,
+      forearm,
+    };
+
+    if (hands.length === 0) return empty;
+
+    const target = findTargetHand(hands, hand);
+    if (!target) return { ...empty, status: 'other-hand' };
+
+    const landmarks = toPoints(target.landmarks);
+    const detectionConfidence = target.score ?? null;
+    if (!this.calculator.validateLandmarks(landmarks)) {
+      return { ...empty, status: 'invalid', landmarks, detectionConfidence };
+    }
+
+    // 平滑化はフレームごとに行い、間引きによる最大角度の取りこぼしを防ぐ
+    const smoothedLandmarks = this.landmarkFilter
+      ? this.landmarkFilter.filter(landmarks, timestampMs)
+      : landmarks;
+    const { angle: rawAngle, method } = this.calculator.calculateStepAngle(
+      smoothedLandmarks,
+      stepId,
+      { hand, forearm }
+    );
+
+    return {
+      ...empty,
+      status: 'tracked',
+      landmarks,
+      smoothedLandmarks,
+      detectionConfidence,
+      angle: this.angleFilter.filter(rawAngle, timestampMs),
+      method,
+      palmCameraAlignment: this.calculator.calculatePalmCameraAlignment(
+        smoothedLandmarks,
+        hand
+      ),
+      view: classifyHandView(
+        this.calculator.calculateHandViewAlignment(smoothedLandmarks, hand)
+      ),
+      accuracy: this.calculator.calculateLandmarkAccuracy(
+        landmarks,
+        detectionConfidence ?? undefined
+      ),
+    };
+  }
+}
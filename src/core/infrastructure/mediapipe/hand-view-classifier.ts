@@ -0,0 +1,60 @@
+/**
+ * 手の面の判定
+ * 手のひら平面の法線と橈側方向がカメラを向いている度合いから、
+ * カメラに向いている手の面（手のひら・手の甲・小指側・母指側）を判定する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type { HandViewAlignment } from '@/core/domain/types/angle';
+import type { HandView } from '@/core/domain/types/measurement';
+
+/**
+ * 判定設定
+ */
+export interface HandViewClassifierConfig {
+  /** 手のひら（手の甲）が正面と判定する閾値（掌側方向とカメラ方向の余弦） */
+  palmThreshold: number;
+
+  /** 小指側（母指側）が正面と判定する閾値（橈側方向とカメラ方向の余弦） */
+  sideThreshold: number;
+}
+
+/**
+ * デフォルト設定
+ */
+export const DEFAULT_HAND_VIEW_CONFIG: HandViewClassifierConfig = {
+  palmThreshold: 0.5, // 60度以内で手のひら（手の甲）が正面
+  sideThreshold: 0.5, // 60度以内で小指側（母指側）が正面
+};
+
+/**
+ * カメラに向いている手の面を判定
+ * 手のひら・手の甲の判定を優先し、側面の場合は橈側方向の向きで小指側・母指側を区別する
+ *
+ * @param alignment 掌側・橈側方向とカメラ方向の余弦
+ * @param config 判定設定
+ * @returns 手の面（指先がカメラを向いているなど判定不能な場合はnull）
+ */
+export const classifyHandView = (
+  alignment: HandViewAlignment | null,
+  config: HandViewClassifierConfig = DEFAULT_HAND_VIEW_CONFIG
+): HandView | null => {
+  if (!alignment || isNaN(alignment.palmar) || isNaN(alignment.radial)) {
+    return null;
+  }
+
+  if (alignment.palmar >= config.palmThreshold) return 'palm-facing';
+  if (alignment.palmar <= -config.palmThreshold) return 'dorsum-facing';
+  if (alignment.radial >= config.sideThreshold) return 'radial-side';
+  if (alignment.radial <= -config.sideThreshold) return 'ulnar-side';
+  return null;
+};
+
+/**
+ * 2つの手の面が反対側かどうか（180度回す必要があるか）
+ */
+export const isOppositeHandView = (a: HandView, b: HandView): boolean =>
+  (a === 'palm-facing' && b === 'dorsum-facing') ||
+  (a === 'dorsum-facing' && b === 'palm-facing') ||
+  (a === 'ulnar-side' && b === 'radial-side') ||
+  (a === 'radial-side' && b === 'ulnar-side');
@@ -0,0 +1,215 @@
+/**
+ * 動作の質の運動学的指標
+ * ステップ中の角度の時系列から、最大角速度・最大角度到達時間・速度ピーク数・滑らかさの指標を算出する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type {
+  AngleSeries,
+  MovementKinematics,
+} from '@/core/domain/types/measurement';
+
+/**
+ * 動作開始とみなす角速度（最大角速度に対する比）
+ * 速度ピークの数もこの比以上のピークのみを数える
+ */
+const ONSET_VELOCITY_RATIO = 0.1;
+
+/**
+ * 指標の算出に必要な最小サンプル数
+ */
+const MIN_MOVEMENT_SAMPLES = 5;
+
+/**
+ * SPARCの設定（Balasubramanian et al., 2015）
+ */
+const SPARC_CONFIG = {
+  /** 周波数の上限（Hz） */
+  maxCutoffHz: 10,
+  /** 有効とみなす正規化振幅の閾値 */
+  amplitudeThreshold: 0.05,
+  /** ゼロ埋めの倍率（2の累乗の指数に加算） */
+  paddingLevel: 4,
+} as const;
+
+/**
+ * 等間隔に再標本化した動作区間
+ */
+interface MovementSegment {
+  /** サンプリング間隔（秒） */
+  dt: number;
+
+  /** 角度（度） */
+  angles: number[];
+}
+
+/**
+ * 動作区間（0度基準の確定から最大角度の到達まで）を等間隔に再標本化
+ * 手を検出できなかったサンプルは前後のサンプルから線形補間する
+ */
+const extractMovementSegment = (
+  series: AngleSeries
+): MovementSegment | null => {
+  const measured = series.samples.filter(
+    (sample): sample is { timeMs: number; angle: number } =>
+      sample.angle !== null &&
+      (series.calibratedAtMs === null || sample.timeMs >= series.calibratedAtMs)
+  );
+  if (measured.length < MIN_MOVEMENT_SAMPLES) return null;
+
+  // 保持区間の開始を最大角度の到達とし、保持区間が無い場合は最大角度のサンプルとする
+  const peakSample = measured.reduce((max, sample) =>
+    sample.angle > max.angle ? sample : max
+  );
+  const endMs = series.holdWindow?.startMs ?? peakSample.timeMs;
+  const inSegment = measured.filter((sample) => sample.timeMs <= endMs);
+  const first = inSegment[0];
+  const last = inSegment[inSegment.length - 1];
+  if (!first || !last || inSegment.length < MIN_MOVEMENT_SAMPLES) return null;
+
+  const intervalMs = series.sampleIntervalMs;
+  const angles: number[] = [];
+  let index = 0;
+  for (let timeMs = first.timeMs; timeMs <= last.timeMs; timeMs += intervalMs) {
+    while ((inSegment[index + 1]?.timeMs ?? Infinity) < timeMs) index++;
+    const before = inSegment[index] ?? first;
+    const after = inSegment[index + 1] ?? before;
+    const span = after.timeMs - before.timeMs;
+    const ratio = span > 0 ? (timeMs - before.timeMs) / span : 0;
+    angles.push(before.angle + (after.angle - before.angle) * ratio);
+  }
+
+  return { dt: intervalMs / 1000, angles };
+};
+
+/**
+ * 数値微分（内部は中心差分、両端は片側差分）
+ */
+const differentiate = (values: number[], dt: number): number[] =>
+  values.map((value, i) => {
+    const prev = values[i - 1];
+    const next = values[i + 1];
+    if (prev !== undefined && next !== undefined) {
+      return (next - prev) / (2 * dt);
+    }
+    if (next !== undefined) return (next - value) / dt;
+    if (prev !== undefined) return (value - prev) / dt;
+    return 0;
+  });
+
+/**
+ * 無次元化ジャーク
+ * sqrt(0.5 × ∫jerk² dt × D⁵ / A²)（D: 動作時間、A: 振幅）
+ */
+const calculateNormalizedJerk = (
+  angles: number[],
+  dt: number
+): number | null => {
+  if (angles.length < 4) return null;
+
+  const amplitude = Math.max(...angles) - Math.min(...angles);
+  const duration = (angles.length - 1) * dt;
+  if (amplitude <= 0 || duration <= 0) return null;
+
+  const jerk = differentiate(differentiate(differentiate(angles, dt), dt), dt);
+  const squaredJerkIntegral = jerk.reduce((sum, j) => sum + j * j * dt, 0);
+
+  return Math.sqrt(
+    (0.5 * squaredJerkIntegral * Math.pow(duration, 5)) /
+      (amplitude * amplitude)
+  );
+};
+
+/**
+ * スペクトル弧長（SPARC）
+ * 速度プロファイルの正規化フーリエ振幅スペクトルの弧長の負値
+ */
+const calculateSpectralArcLength = (
+  speeds: number[],
+  dt: number
+): number | null => {
+  if (speeds.length < 2) return null;
+
+  const sampleRate = 1 / dt;
+  const fftLength = Math.pow(
+    2,
+    Math.ceil(Math.log2(speeds.length)) + SPARC_CONFIG.paddingLevel
+  );
+  const frequencyStep = sampleRate / fftLength;
+  const maxCutoffHz = Math.min(SPARC_CONFIG.maxCutoffHz, sampleRate / 2);
+  const binCount = Math.floor(maxCutoffHz / frequencyStep) + 1;
+
+  // ゼロ埋めした速度の離散フーリエ変換の振幅（上限周波数まで）
+  const magnitudes: number[] = [];
+  for (let k = 0; k < binCount; k++) {
+    let re = 0;
+    let im = 0;
+    speeds.forEach((speed, n) => {
+      const phase = (-2 * Math.PI * k * n) / fftLength;
+      re += speed * Math.cos(phase);
+      im += speed * Math.sin(phase);
+    });
+    magnitudes.push(Math.hypot(re, im));
+  }
+
+  const dc = magnitudes[0] ?? 0;
+  if (dc <= 0) return null;
+  const normalized = magnitudes.map((magnitude) => magnitude / dc);
+
+  // 閾値以上の振幅が続く最後の周波数までを対象とする
+  let cutoffIndex = 0;
+  normalized.forEach((magnitude, k) => {
+    if (magnitude >= SPARC_CONFIG.amplitudeThreshold) cutoffIndex = k;
+  });
+  if (cutoffIndex === 0) return 0;
+
+  const cutoffHz = cutoffIndex * frequencyStep;
+  let arcLength = 0;
+  for (let k = 1; k <= cutoffIndex; k++) {
+    const dm = (normalized[k] ?? 0) - (normalized[k - 1] ?? 0);
+    arcLength += Math.sqrt(Math.pow(frequencyStep / cutoffHz, 2) + dm * dm);
+  }
+  return -arcLength;
+};
+
+/**
+ * 角度の時系列から動作の質の指標を算出
+ *
+ * @param series ステップ中の角度の時系列
+ * @returns 運動学的指標（動作区間のサンプルが不足する場合はnull）
+ */
+export const calculateMovementKinematics = (
+  series: AngleSeries
+): MovementKinematics | null => {
+  const segment = extractMovementSegment(series);
+  if (!segment) return null;
+
+  const { dt, angles } = segment;
+  const speeds = differentiate(angles, dt).map(Math.abs);
+  const peakAngularVelocity = Math.max(...speeds);
+  if (peakAngularVelocity <= 0) return null;
+
+  // 角速度が閾値を超えた時点を動作開始とする
+  const threshold = peakAngularVelocity * ONSET_VELOCITY_RATIO;
+  const onsetIndex = Math.max(
+    0,
+    speeds.findIndex((speed) => speed >= threshold)
+  );
+  const movementAngles = angles.slice(onsetIndex);
+  const movementSpeeds = speeds.slice(onsetIndex);
+
+  // 閾値以上の極大値を速度ピークとして数える
+  const velocityPeakCount = movementSpeeds.filter((speed, i) => {
+    const prev = movementSpeeds[i - 1] ?? -Infinity;
+    const next = movementSpeeds[i + 1] ?? -Infinity;
+    return speed >= threshold && speed > prev && speed >= next;
+  }).length;
+
+  return {
+    peakAngularVelocity,
+    timeToPeakMs: (angles.length - 1 - onsetIndex) * dt * 1000,
+    velocityPeakCount: Math.max(1, velocityPeakCount),
+    normalizedJerk: calculateNormalizedJerk(movementAngles, dt),
+    spectralArcLength: calculateSpectralArcLength(movementSpeeds, dt),
+  };
+};
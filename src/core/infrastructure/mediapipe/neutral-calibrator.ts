@@ -0,0 +1,268 @@
+/**
+ * 中間位キャリブレーション
+ * 測定前に開始姿勢を一定フレーム保持させ、各ステップの0度基準を取得する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import {
+  HAND_VIEW_ORIENTATION,
+  HandOrientation,
+  HandView,
+  NeutralCalibration,
+  STEP_REQUIRED_ORIENTATION,
+  STEP_REQUIRED_VIEW,
+  StepId,
+} from '@/core/domain/types/measurement';
+
+/**
+ * キャリブレーション設定
+ */
+export interface NeutralCalibratorConfig {
+  /** 安定と判定するのに必要な連続フレーム数 */
+  requiredStableFrames: number;
+
+  /** 安定と判定する角度の幅（度） */
+  maxAngleRange: number;
+
+  /** 手の向きの判定閾値（手のひらとカメラ方向の余弦） */
+  orientationThreshold: number;
+
+  /** 連続フレームとみなす最大間隔（ミリ秒） */
+  maxFrameGapMs: number;
+}
+
+/**
+ * デフォルト設定
+ */
+export const DEFAULT_CALIBRATOR_CONFIG: NeutralCalibratorConfig = {
+  requiredStableFrames: 20, // 30fpsで約0.7秒
+  maxAngleRange: 3, // ±1.5度以内の揺れを静止とみなす
+  orientationThreshold: 0.5, // 60度以内で手のひら（手の甲）が正面
+  maxFrameGapMs: 300, // 手を見失った場合はやり直し
+};
+
+/**
+ * キャリブレーション状態
+ * - collecting: 安定フレームを収集中
+ * - unstable: 角度が揺れているため収集をやり直し
+ * - wrong-orientation: 手の向き（手の面）がステップの開始姿勢と一致しない
+ * - complete: 基準角度を取得済み
+ */
+export type CalibrationStatus =
+  | 'collecting'
+  | 'unstable'
+  | 'wrong-orientation'
+  | 'complete';
+
+/**
+ * キャリブレーション進捗
+ */
+export interface CalibrationProgress {
+  status: CalibrationStatus;
+
+  /** 安定しているフレーム数 */
+  stableFrames: number;
+
+  /** 必要なフレーム数 */
+  requiredFrames: number;
+
+  /** 必要な手の向き */
+  requiredOrientation: HandOrientation;
+
+  /** 検出した手の向き（判定不能な場合はnull） */
+  detectedOrientation: HandOrientation | null;
+
+  /** カメラに向ける手の面 */
+  requiredView: HandView;
+
+  /** 検出した手の面（判定不能・未判定の場合はnull） */
+  detectedView: HandView | null;
+}
+
+/**
+ * キャリブレーション入力フレーム
+ */
+export interface CalibrationSample {
+  /** 平滑化後のステップ角度（度） */
+  angle: number;
+
+  /** 手のひらがカメラに向いている度合い（計算不能な場合はnull） */
+  palmCameraAlignment: number | null;
+
+  /**
+   * カメラに向いている手の面（判定不能な場合はnull）
+   * 省略した場合は手のひらの向きのみで判定し、小指側・母指側を区別しない
+   */
+  view?: HandView | null;
+
+  /** 測定時刻（ミリ秒） */
+  timestampMs: number;
+}
+
+/**
+ * 手のひらとカメラ方向の余弦から手の向きを判定
+ *
+ * @param palmCameraAlignment 手のひらがカメラに向いている度合い
+ * @param threshold 判定閾値
+ * @returns 手の向き（判定不能な場合はnull）
+ */
+export const classifyHandOrientation = (
+  palmCameraAlignment: number | null,
+  threshold: number = DEFAULT_CALIBRATOR_CONFIG.orientationThreshold
+): HandOrientation | null => {
+  if (palmCameraAlignment === null || isNaN(palmCameraAlignment)) return null;
+  if (palmCameraAlignment >= threshold) return 'palm';
+  if (palmCameraAlignment <= -threshold) return 'dorsal';
+  return 'side';
+};
+
+/**
+ * 中間位キャリブレーションクラス
+ * 直近のフレームの角度幅が閾値以内で必要フレーム数に達したら、平均角度を基準とする
+ */
+export class NeutralCalibrator {
+  private readonly stepId: StepId;
+  private readonly config: NeutralCalibratorConfig;
+  private samples: CalibrationSample[] = [];
+  private calibration: NeutralCalibration | null = null;
+
+  constructor(stepId: StepId, config: Partial<NeutralCalibratorConfig> = {}) {
+    this.stepId = stepId;
+    this.config = { ...DEFAULT_CALIBRATOR_CONFIG, ...config };
+  }
+
+  /**
+   * フレームを追加して進捗を返す
+   */
+  public addSample(sample: CalibrationSample): CalibrationProgress {
+    const requiredOrientation = STEP_REQUIRED_ORIENTATION[this.stepId];
+    const hasView = sample.view !== undefined;
+    const detectedView = sample.view ?? null;
+    const detectedOrientation = hasView
+      ? detectedView
+        ? HAND_VIEW_ORIENTATION[detectedView]
+        : null
+      : classifyHandOrientation(
+          sample.palmCameraAlignment,
+          this.config.orientationThreshold
+        );
+
+    if (this.calibration) {
+      return this.createProgress('complete', detectedOrientation, detectedView);
+    }
+
+    // 手の向きが開始姿勢と一致しない場合は収集をやり直す
+    const isRequiredView = hasView
+      ? detectedView === STEP_REQUIRED_VIEW[this.stepId]
+      : detectedOrientation === requiredOrientation;
+    if (!isRequiredView) {
+      this.samples = [];
+      return this.createProgress(
+        'wrong-orientation',
+        detectedOrientation,
+        detectedView
+      );
+    }
+
+    // フレームが途切れた場合は収集をやり直す
+    const lastSample = this.samples[this.samples.length - 1];
+    if (
+      lastSample &&
+      sample.timestampMs - lastSample.timestampMs > this.config.maxFrameGapMs
+    ) {
+      this.samples = [];
+    }
+
+    this.samples.push(sample);
+
+    // 角度幅が閾値を超える古いフレームを破棄
+    let isUnstable = false;
+    while (
+      this.samples.length > 1 &&
+      this.calculateAngleRange(this.samples) > this.config.maxAngleRange
+    ) {
+      this.samples.shift();
+      isUnstable = true;
+    }
+
+    if (this.samples.length >= this.config.requiredStableFrames) {
+      const window = this.samples.slice(-this.config.requiredStableFrames);
+      this.calibration = this.createCalibration(
+        window,
+        requiredOrientation,
+        hasView ? STEP_REQUIRED_VIEW[this.stepId] : null
+      );
+      return this.createProgress('complete', detectedOrientation, detectedView);
+    }
+
+    return this.createProgress(
+      isUnstable ? 'unstable' : 'collecting',
+      detectedOrientation,
+      detectedView
+    );
+  }
+
+  /**
+   * 取得したキャリブレーション結果（未完了の場合はnull）
+   */
+  public getCalibration(): NeutralCalibration | null {
+    return this.calibration;
+  }
+
+  /**
+   * 状態をリセット
+   */
+  public reset(): void {
+    this.samples = [];
+    this.calibration = null;
+  }
+
+  private createCalibration(
+    window: CalibrationSample[],
+    orientation: HandOrientation,
+    view: HandView | null
+  ): NeutralCalibration {
+    const referenceAngle =
+      window.reduce((sum, sample) => sum + sample.angle, 0) / window.length;
+    const palmCameraAlignment =
+      window.reduce(
+        (sum, sample) => sum + (sample.palmCameraAlignment ?? 0),
+        0
+      ) / window.length;
+
+    return {
+      stepId: this.stepId,
+      referenceAngle,
+      angleRange: this.calculateAngleRange(window),
+      frameCount: window.length,
+      orientation,
+      ...(view ? { view } : {}),
+      palmCameraAlignment,
+      calibratedAt: Date.now(),
+    };
+  }
+
+  private createProgress(
+    status: CalibrationStatus,
+    detectedOrientation: HandOrientation | null,
+    detectedView: HandView | null
+  ): CalibrationProgress {
+    return {
+      status,
+      stableFrames:
+        status === 'complete'
+          ? this.config.requiredStableFrames
+          : this.samples.length,
+      requiredFrames: this.config.requiredStableFrames,
+      requiredOrientation: STEP_REQUIRED_ORIENTATION[this.stepId],
+      detectedOrientation,
+      requiredView: STEP_REQUIRED_VIEW[this.stepId],
+      detectedView,
+    };
+  }
+
+  private calculateAngleRange(samples: CalibrationSample[]): number {
+    const angles = samples.map((sample) => sample.angle);
+    return Math.max(...angles) - Math.min(...angles);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * 最大角度の保持確認
+ * 一定時間保持された角度のみを最大角度として採用し、誤検出フレームによる外れ値を除外する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import { ANGLE_CONFIDENCE_THRESHOLDS } from '@/core/infrastructure/mediapipe/angle-calculator';
+
+/**
+ * 最大角度検出の設定
+ */
+export interface PeakDetectorConfig {
+  /** 保持とみなす角度の許容幅（保持中の最大角度と最小角度の差、度） */
+  toleranceDegrees: number;
+
+  /** 最大角度として確定するまでの保持時間（ミリ秒） */
+  dwellTimeMs: number;
+
+  /** 採用するフレームの最低検出精度（0-1） */
+  minAccuracy: number;
+
+  /** 連続フレームとみなす最大間隔（ミリ秒） */
+  maxFrameGapMs: number;
+}
+
+/**
+ * デフォルト設定
+ */
+export const DEFAULT_PEAK_DETECTOR_CONFIG: PeakDetectorConfig = {
+  toleranceDegrees: 3, // 3度以内の揺れを保持とみなす
+  dwellTimeMs: 500, // 0.5秒保持で確定
+  minAccuracy: ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM, // 中信頼度未満のフレームは除外
+  maxFrameGapMs: 300, // 手を見失った場合は保持をやり直し
+};
+
+/**
+ * 最大角度検出の状態
+ * - tracking: 確定済みの最大角度を超える保持がない
+ * - holding: 確定済みの最大角度を超える角度を保持中
+ * - confirmed: 保持時間に達し最大角度を確定
+ * - rejected: 検出精度が低いフレームのため除外
+ */
+export type PeakDetectorStatus =
+  | 'tracking'
+  | 'holding'
+  | 'confirmed'
+  | 'rejected';
+
+/**
+ * 最大角度検出の入力フレーム
+ */
+export interface PeakSample {
+  /** 角度（度） */
+  angle: number;
+
+  /** ランドマークの検出精度（0-1） */
+  accuracy: number;
+
+  /** 測定時刻（ミリ秒） */
+  timestampMs: number;
+}
+
+/**
+ * 最大角度検出の結果
+ */
+export interface PeakDetectorState {
+  status: PeakDetectorStatus;
+
+  /** 確定済みの最大角度（未確定の場合はnull） */
+  confirmedPeak: number | null;
+
+  /** 保持の進捗（0-1） */
+  holdProgress: number;
+
+  /** このフレームで最大角度が更新されたか */
+  isNewPeak: boolean;
+
+  /** 保持の開始時刻（保持中・確定時のみ、ミリ秒） */
+  holdStartMs: number | null;
+
+  /** このフレームで保持をやり直したか（それまでの保持中のフレームを破棄した） */
+  isHoldRestarted: boolean;
+}
+
+/**
+ * 最大角度検出クラス
+ * 保持中の最大角度と最小角度の差が許容幅以内のまま保持時間以上経過した場合に、
+ * その平均角度を最大角度候補とする
+ * （平均角度との差で判定すると、ゆっくり動き続ける角度に平均が追従して保持とみなしてしまう）
+ */
+export class PeakDetector {
+  private readonly config: PeakDetectorConfig;
+  private holdSamples: PeakSample[] = [];
+  private confirmedPeak: number | null = null;
+
+  constructor(config: Partial<PeakDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_PEAK_DETECTOR_CONFIG, ...config };
+  }
+
+  /**
+   * フレームを追加して状態を返す
+   */
+  public addSample(sample: PeakSample): PeakDetectorState {
+    // 検出精度が低いフレームは保持判定に含めない
+    if (sample.accuracy < this.config.minAccuracy) {
+      return this.createState('rejected', 0, false, false);
+    }
+
+    // フレームが途切れた場合、または保持中の角度の範囲が許容幅を超える場合は保持をやり直す
+    const lastSample = this.holdSamples[this.holdSamples.length - 1];
+    const isHoldRestarted =
+      !lastSample ||
+      sample.timestampMs - lastSample.timestampMs > this.config.maxFrameGapMs ||
+      !this.isWithinHoldRange(sample.angle);
+    if (isHoldRestarted) {
+      this.holdSamples = [];
+    }
+    this.holdSamples.push(sample);
+
+    const holdAngle = this.getHoldAngle();
+    const firstSample = this.holdSamples[0] ?? sample;
+    const holdDuration = sample.timestampMs - firstSample.timestampMs;
+    const holdProgress = Math.min(1, holdDuration / this.config.dwellTimeMs);
+
+    // 確定済みの最大角度を超えない保持は無視
+    const exceedsPeak =
+      this.confirmedPeak === null || holdAngle > this.confirmedPeak;
+    if (!exceedsPeak) {
+      return this.createState('tracking', 0, false, isHoldRestarted);
+    }
+
+    if (holdProgress < 1) {
+      return this.createState('holding', holdProgress, false, isHoldRestarted);
+    }
+
+    this.confirmedPeak = holdAngle;
+    return this.createState('confirmed', 1, true, isHoldRestarted);
+  }
+
+  /**
+   * 確定済みの最大角度（未確定の場合はnull）
+   */
+  public getConfirmedPeak(): number | null {
+    return this.confirmedPeak;
+  }
+
+  /**
+   * 状態をリセット
+   */
+  public reset(): void {
+    this.holdSamples = [];
+    this.confirmedPeak = null;
+  }
+
+  /**
+   * 角度を加えても保持中の角度の範囲（最大 - 最小）が許容幅以内か
+   */
+  private isWithinHoldRange(angle: number): boolean {
+    const angles = this.holdSamples.map((sample) => sample.angle);
+    const min = Math.min(angle, ...angles);
+    const max = Math.max(angle, ...angles);
+    return max - min <= this.config.toleranceDegrees;
+  }
+
+  /**
+   * 保持中のフレームの平均角度
+   */
+  private getHoldAngle(): number {
+    if (this.holdSamples.length === 0) return 0;
+    return (
+      this.holdSamples.reduce((sum, sample) => sum + sample.angle, 0) /
+      this.holdSamples.length
+    );
+  }
+
+  private createState(
+    status: PeakDetectorStatus,
+    holdProgress: number,
+    isNewPeak: boolean,
+    isHoldRestarted: boolean
+  ): PeakDetectorState {
+    const isHolding = status === 'holding' || status === 'confirmed';
+    return {
+      status,
+      confirmedPeak: this.confirmedPeak,
+      holdProgress,
+      isNewPeak,
+      holdStartMs: isHolding
+        ? (this.holdSamples[0]?.timestampMs ?? null)
+        : null,
+      isHoldRestarted,
+    };
+  }
+}
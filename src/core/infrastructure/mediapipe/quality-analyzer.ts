@@ -0,0 +1,459 @@
+/**
+ * 測定品質の評価
+ * ランドマークとカメラ画像からフレームごとの品質指標を算出し、ステップ単位で集計する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import {
+  HAND_LANDMARKS,
+  Point3D,
+  QualityMetrics,
+} from '@/core/domain/types/hand-landmark';
+import { ANGLE_CONFIDENCE_THRESHOLDS } from '@/core/infrastructure/mediapipe/angle-calculator';
+
+/**
+ * 品質評価の設定
+ */
+export interface QualityAnalyzerConfig {
+  /** 安定性が0となるフレーム間の揺れ（手の大きさに対する比） */
+  maxJitter: number;
+
+  /** モーションブラーが1となる手の移動速度（手の大きさ/秒） */
+  maxHandSpeed: number;
+
+  /** カメラノイズが1となる輝度ノイズの標準偏差（0-255） */
+  maxNoiseSigma: number;
+
+  /** 画像解析時のサンプリング間隔（ピクセル） */
+  pixelStride: number;
+
+  /** 連続フレームとみなす最大間隔（ミリ秒） */
+  maxFrameGapMs: number;
+}
+
+/**
+ * デフォルト設定
+ */
+export const DEFAULT_QUALITY_ANALYZER_CONFIG: QualityAnalyzerConfig = {
+  maxJitter: 0.05, // 手の大きさの5%の揺れで不安定
+  maxHandSpeed: 3, // 1秒に手の大きさ3つ分の移動でブレが顕著
+  maxNoiseSigma: 10, // 輝度で±10程度のノイズは低照度の画像
+  pixelStride: 4, // 640x480で約2万点をサンプリング
+  maxFrameGapMs: 300, // 手を見失った場合は履歴をやり直し
+};
+
+/**
+ * 適正とみなす手の領域の平均輝度（0-1）
+ */
+const LIGHTING_RANGE = { min: 0.3, max: 0.75 } as const;
+
+/**
+ * 白飛び・黒つぶれとみなす輝度（0-255）
+ */
+const CLIPPING_LEVELS = { dark: 5, bright: 250 } as const;
+
+/**
+ * 総合スコアの重み
+ */
+const QUALITY_WEIGHTS = {
+  handVisibility: 0.3,
+  landmarkStability: 0.3,
+  cameraNoise: 0.15,
+  lightingCondition: 0.15,
+  motionBlur: 0.1,
+} as const;
+
+/**
+ * 品質レベル
+ */
+export type QualityLevel = 'high' | 'medium' | 'low';
+
+/**
+ * 解析対象の画像（ImageData互換）
+ */
+export type QualityImage = Pick<ImageData, 'data' | 'width' | 'height'>;
+
+/**
+ * 品質評価の入力フレーム
+ */
+export interface QualityFrame {
+  /** 手のランドマーク（正規化座標） */
+  landmarks: Point3D[];
+
+  /** カメラ画像（取得しないフレームは直近の画像の評価を引き継ぐ） */
+  image?: QualityImage | null;
+
+  /** 手の検出信頼度（0-1） */
+  detectionConfidence?: number;
+
+  /** 測定時刻（ミリ秒） */
+  timestampMs: number;
+}
+
+/**
+ * 画像の矩形領域（ピクセル）
+ */
+interface ImageRegion {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * RGBA画素の輝度（0-255）
+ */
+const getLuminance = (data: ImageData['data'], index: number): number =>
+  0.299 * (data[index] ?? 0) +
+  0.587 * (data[index + 1] ?? 0) +
+  0.114 * (data[index + 2] ?? 0);
+
+/**
+ * 画像の輝度ノイズの標準偏差を推定（Immerkærの方法）
+ * ラプラシアン差分マスクの絶対値の平均からガウスノイズの標準偏差を求める
+ *
+ * @param image 解析対象の画像
+ * @param stride サンプリング間隔（ピクセル）
+ * @returns ノイズの標準偏差（0-255）
+ */
+export const estimateImageNoise = (
+  image: QualityImage,
+  stride: number = DEFAULT_QUALITY_ANALYZER_CONFIG.pixelStride
+): number => {
+  const { data, width, height } = image;
+  if (width < 3 || height < 3) return 0;
+
+  const luminanceAt = (x: number, y: number) =>
+    getLuminance(data, (y * width + x) * 4);
+
+  let sum = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y += stride) {
+    for (let x = 1; x < width - 1; x += stride) {
+      const response =
+        luminanceAt(x - 1, y - 1) +
+        luminanceAt(x + 1, y - 1) +
+        luminanceAt(x - 1, y + 1) +
+        luminanceAt(x + 1, y + 1) -
+        2 *
+          (luminanceAt(x, y - 1) +
+            luminanceAt(x - 1, y) +
+            luminanceAt(x + 1, y) +
+            luminanceAt(x, y + 1)) +
+        4 * luminanceAt(x, y);
+      sum += Math.abs(response);
+      count++;
+    }
+  }
+
+  return count > 0 ? (Math.sqrt(Math.PI / 2) * (sum / count)) / 6 : 0;
+};
+
+/**
+ * 画像領域の照明条件を評価
+ * 平均輝度が適正範囲から外れるほど、白飛び・黒つぶれが多いほど低くなる
+ *
+ * @param image 解析対象の画像
+ * @param region 評価する領域（未指定の場合は画像全体）
+ * @param stride サンプリング間隔（ピクセル）
+ * @returns 照明条件（0-1）
+ */
+export const estimateLightingCondition = (
+  image: QualityImage,
+  region?: ImageRegion,
+  stride: number = DEFAULT_QUALITY_ANALYZER_CONFIG.pixelStride
+): number => {
+  const { data, width, height } = image;
+  const { left, top, right, bottom } = region ?? {
+    left: 0,
+    top: 0,
+    right: width,
+    bottom: height,
+  };
+
+  let sum = 0;
+  let clipped = 0;
+  let count = 0;
+  for (let y = top; y < bottom; y += stride) {
+    for (let x = left; x < right; x += stride) {
+      const luminance = getLuminance(data, (y * width + x) * 4);
+      sum += luminance;
+      if (
+        luminance <= CLIPPING_LEVELS.dark ||
+        luminance >= CLIPPING_LEVELS.bright
+      ) {
+        clipped++;
+      }
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+
+  const mean = sum / count / 255;
+  const exposure =
+    mean < LIGHTING_RANGE.min
+      ? mean / LIGHTING_RANGE.min
+      : mean > LIGHTING_RANGE.max
+        ? (1 - mean) / (1 - LIGHTING_RANGE.max)
+        : 1;
+
+  return clamp01(exposure * (1 - clipped / count));
+};
+
+/**
+ * フレームごとの品質指標を平均してステップの品質指標とする
+ *
+ * @param frames フレームごとの品質指標
+ * @returns 集計した品質指標（フレームがない場合はnull）
+ */
+export const aggregateQualityMetrics = (
+  frames: QualityMetrics[]
+): QualityMetrics | null => {
+  if (frames.length === 0) return null;
+
+  const average = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / values.length;
+  const lighting = frames.flatMap((f) =>
+    f.lightingCondition !== undefined ? [f.lightingCondition] : []
+  );
+  const blur = frames.flatMap((f) =>
+    f.motionBlur !== undefined ? [f.motionBlur] : []
+  );
+
+  return {
+    handVisibility: average(frames.map((f) => f.handVisibility)),
+    landmarkStability: average(frames.map((f) => f.landmarkStability)),
+    cameraNoise: average(frames.map((f) => f.cameraNoise)),
+    ...(lighting.length > 0 ? { lightingCondition: average(lighting) } : {}),
+    ...(blur.length > 0 ? { motionBlur: average(blur) } : {}),
+  };
+};
+
+/**
+ * 品質指標の総合スコアを計算
+ * ノイズ・ブラーは低いほど良いため反転して重み付け平均する
+ *
+ * @param metrics 品質指標
+ * @returns 総合スコア（0-1）
+ */
+export const calculateQualityScore = (metrics: QualityMetrics): number => {
+  const terms: Array<[number, number]> = [
+    [QUALITY_WEIGHTS.handVisibility, metrics.handVisibility],
+    [QUALITY_WEIGHTS.landmarkStability, metrics.landmarkStability],
+    [QUALITY_WEIGHTS.cameraNoise, 1 - metrics.cameraNoise],
+  ];
+  if (metrics.lightingCondition !== undefined) {
+    terms.push([QUALITY_WEIGHTS.lightingCondition, metrics.lightingCondition]);
+  }
+  if (metrics.motionBlur !== undefined) {
+    terms.push([QUALITY_WEIGHTS.motionBlur, 1 - metrics.motionBlur]);
+  }
+
+  const totalWeight = terms.reduce((sum, [weight]) => sum + weight, 0);
+  return clamp01(
+    terms.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+      totalWeight
+  );
+};
+
+/**
+ * 総合スコアから品質レベルを判定
+ */
+export const getQualityLevel = (score: number): QualityLevel => {
+  if (score >= ANGLE_CONFIDENCE_THRESHOLDS.HIGH) return 'high';
+  if (score >= ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM) return 'medium';
+  return 'low';
+};
+
+/**
+ * 測定品質評価クラス
+ * ランドマークの揺れ・移動速度は連続フレームから、ノイズ・照明はカメラ画像から評価する
+ */
+export class QualityAnalyzer {
+  private readonly config: QualityAnalyzerConfig;
+  private history: Array<{ landmarks: Point3D[]; timestampMs: number }> = [];
+  private imageMetrics: Pick<
+    QualityMetrics,
+    'cameraNoise' | 'lightingCondition'
+  > | null = null;
+
+  constructor(config: Partial<QualityAnalyzerConfig> = {}) {
+    this.config = { ...DEFAULT_QUALITY_ANALYZER_CONFIG, ...config };
+  }
+
+  /**
+   * フレームの品質指標を計算
+   * 画像を取得していない場合、ノイズは直近の画像の評価（未評価の場合は0）を使用する
+   */
+  public analyzeFrame(frame: QualityFrame): QualityMetrics {
+    const { landmarks, timestampMs } = frame;
+
+    // フレームが途切れた場合は揺れ・速度の履歴をやり直す
+    const lastFrame = this.history[this.history.length - 1];
+    if (
+      lastFrame &&
+      timestampMs - lastFrame.timestampMs > this.config.maxFrameGapMs
+    ) {
+      this.history = [];
+    }
+    this.history.push({ landmarks, timestampMs });
+    if (this.history.length > 3) {
+      this.history.shift();
+    }
+
+    if (frame.image) {
+      this.imageMetrics = {
+        cameraNoise: clamp01(
+          estimateImageNoise(frame.image, this.config.pixelStride) /
+            this.config.maxNoiseSigma
+        ),
+        lightingCondition: estimateLightingCondition(
+          frame.image,
+          this.getHandRegion(landmarks, frame.image),
+          this.config.pixelStride
+        ),
+      };
+    }
+
+    const motionBlur = this.calculateMotionBlur();
+
+    return {
+      handVisibility: this.calculateHandVisibility(
+        landmarks,
+        frame.detectionConfidence
+      ),
+      landmarkStability: this.calculateLandmarkStability(),
+      cameraNoise: this.imageMetrics?.cameraNoise ?? 0,
+      ...(this.imageMetrics?.lightingCondition !== undefined
+        ? { lightingCondition: this.imageMetrics.lightingCondition }
+        : {}),
+      ...(motionBlur !== null ? { motionBlur } : {}),
+    };
+  }
+
+  /**
+   * 状態をリセット
+   */
+  public reset(): void {
+    this.history = [];
+    this.imageMetrics = null;
+  }
+
+  /**
+   * 画面内に映っているランドマークの割合（検出信頼度で重み付け）
+   */
+  private calculateHandVisibility(
+    landmarks: Point3D[],
+    detectionConfidence?: number
+  ): number {
+    if (landmarks.length === 0) return 0;
+
+    const visibleCount = landmarks.filter(
+      (landmark) =>
+        landmark.x >= 0 && landmark.x <= 1 && landmark.y >= 0 && landmark.y <= 1
+    ).length;
+
+    return clamp01(
+      (visibleCount / landmarks.length) * (detectionConfidence ?? 1)
+    );
+  }
+
+  /**
+   * ランドマークの揺れ（2階差分）から安定性を計算
+   * 等速の動きは揺れとみなさないため、意図的な関節運動では安定性が下がらない
+   */
+  private calculateLandmarkStability(): number {
+    const [first, second, third] = this.history;
+    if (!first || !second || !third) return 1;
+
+    const handSize = this.getHandSize(third.landmarks);
+    if (handSize === 0) return 0;
+
+    let jitter = 0;
+    let count = 0;
+    third.landmarks.forEach((landmark, index) => {
+      const previous = second.landmarks[index];
+      const beforePrevious = first.landmarks[index];
+      if (!previous || !beforePrevious) return;
+      jitter += Math.hypot(
+        landmark.x - 2 * previous.x + beforePrevious.x,
+        landmark.y - 2 * previous.y + beforePrevious.y
+      );
+      count++;
+    });
+    if (count === 0) return 1;
+
+    return clamp01(1 - jitter / count / handSize / this.config.maxJitter);
+  }
+
+  /**
+   * 手の移動速度からモーションブラーの程度を推定
+   */
+  private calculateMotionBlur(): number | null {
+    const current = this.history[this.history.length - 1];
+    const previous = this.history[this.history.length - 2];
+    if (!current || !previous) return null;
+
+    const elapsedSeconds = (current.timestampMs - previous.timestampMs) / 1000;
+    const handSize = this.getHandSize(current.landmarks);
+    if (elapsedSeconds <= 0 || handSize === 0) return null;
+
+    let displacement = 0;
+    let count = 0;
+    current.landmarks.forEach((landmark, index) => {
+      const last = previous.landmarks[index];
+      if (!last) return;
+      displacement += Math.hypot(landmark.x - last.x, landmark.y - last.y);
+      count++;
+    });
+    if (count === 0) return null;
+
+    const speed = displacement / count / handSize / elapsedSeconds;
+    return clamp01(speed / this.config.maxHandSpeed);
+  }
+
+  /**
+   * 手の大きさ（手首から中指MCPまでの距離、正規化座標）
+   */
+  private getHandSize(landmarks: Point3D[]): number {
+    const wrist = landmarks[HAND_LANDMARKS.WRIST];
+    const middleMcp = landmarks[HAND_LANDMARKS.MIDDLE_FINGER_MCP];
+    if (!wrist || !middleMcp) return 0;
+    return Math.hypot(middleMcp.x - wrist.x, middleMcp.y - wrist.y);
+  }
+
+  /**
+   * ランドマークを囲む画像領域（周囲に手の大きさの20%の余白）
+   */
+  private getHandRegion(
+    landmarks: Point3D[],
+    image: QualityImage
+  ): ImageRegion | undefined {
+    if (landmarks.length === 0) return undefined;
+
+    const xs = landmarks.map((landmark) => landmark.x);
+    const ys = landmarks.map((landmark) => landmark.y);
+    const padding = 0.2;
+    const paddingX = (Math.max(...xs) - Math.min(...xs)) * padding;
+    const paddingY = (Math.max(...ys) - Math.min(...ys)) * padding;
+
+    const region = {
+      left: Math.max(0, Math.floor((Math.min(...xs) - paddingX) * image.width)),
+      top: Math.max(0, Math.floor((Math.min(...ys) - paddingY) * image.height)),
+      right: Math.min(
+        image.width,
+        Math.ceil((Math.max(...xs) + paddingX) * image.width)
+      ),
+      bottom: Math.min(
+        image.height,
+        Math.ceil((Math.max(...ys) + paddingY) * image.height)
+      ),
+    };
+
+    return region.right > region.left && region.bottom > region.top
+      ? region
+      : undefined;
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * 信号平滑化フィルター
+ * 角度・ランドマーク座標のリアルタイム平滑化を実装
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import { Point3D } from '@/core/domain/types/hand-landmark';
+import {
+  KalmanFilterParams,
+  OneEuroFilterParams,
+  SmoothingSettings,
+} from '@/core/domain/types/angle';
+
+/**
+ * デフォルトの平滑化設定
+ * パラメータは角度（度）単位で調整している
+ */
+export const DEFAULT_SMOOTHING_SETTINGS: SmoothingSettings = {
+  filterType: 'one-euro',
+  target: 'angle',
+  oneEuro: {
+    minCutoff: 1.0, // 静止時のカットオフ周波数（Hz）
+    beta: 0.05, // 速度係数
+    derivativeCutoff: 1.0, // 速度推定のカットオフ周波数（Hz）
+  },
+  kalman: {
+    processNoise: 500, // 加速度の分散（度²/s⁴）
+    measurementNoise: 4, // 観測値の分散（度²）
+  },
+};
+
+/**
+ * 平滑化パラメータの下限
+ * カットオフ周波数・観測ノイズが0以下では平滑化係数・カルマンゲインが計算できないため、正の下限を設ける
+ */
+export const SMOOTHING_PARAM_MIN: {
+  oneEuro: OneEuroFilterParams;
+  kalman: KalmanFilterParams;
+} = {
+  oneEuro: {
+    minCutoff: 0.01,
+    beta: 0,
+    derivativeCutoff: 0.01,
+  },
+  kalman: {
+    processNoise: 0,
+    measurementNoise: 0.01,
+  },
+};
+
+/**
+ * パラメータを下限以上に丸める（数値でない場合は下限とする）
+ */
+const clampParam = (value: number, min: number): number =>
+  Number.isFinite(value) ? Math.max(value, min) : min;
+
+/**
+ * タイムスタンプが使えない場合のサンプリング間隔（秒）
+ */
+const DEFAULT_SAMPLING_INTERVAL = 1 / 30;
+
+/**
+ * ランドマーク座標の換算係数
+ * 正規化座標（0-1）を画面幅の%単位に換算し、角度と同じパラメータで扱う
+ */
+const LANDMARK_COORDINATE_SCALE = 100;
+
+/**
+ * 平滑化フィルターのインターフェース
+ */
+export interface SignalFilter {
+  /**
+   * 新しい測定値を入力し、平滑化された値を返す
+   *
+   * @param value 測定値
+   * @param timestampMs 測定時刻（ミリ秒）
+   */
+  filter(value: number, timestampMs: number): number;
+
+  /**
+   * 内部状態をリセット
+   */
+  reset(): void;
+}
+
+/**
+ * 経過時間（秒）を計算
+ */
+const elapsedSeconds = (
+  timestampMs: number,
+  lastTimestampMs: number | null
+): number => {
+  if (lastTimestampMs === null) return DEFAULT_SAMPLING_INTERVAL;
+  const dt = (timestampMs - lastTimestampMs) / 1000;
+  return dt > 0 ? dt : DEFAULT_SAMPLING_INTERVAL;
+};
+
+/**
+ * 平滑化しないフィルター
+ */
+export class PassThroughFilter implements SignalFilter {
+  public filter(value: number): number {
+    return value;
+  }
+
+  public reset(): void {}
+}
+
+/**
+ * 1€フィルター（Casiez et al., 2012）
+ * 静止時は強く平滑化し、速く動くほどカットオフ周波数を上げて遅延を抑える
+ */
+export class OneEuroFilter implements SignalFilter {
+  private readonly params: OneEuroFilterParams;
+  private lastValue: number | null = null;
+  private lastDerivative = 0;
+  private lastTimestampMs: number | null = null;
+
+  constructor(params: OneEuroFilterParams) {
+    const min = SMOOTHING_PARAM_MIN.oneEuro;
+    this.params = {
+      minCutoff: clampParam(params.minCutoff, min.minCutoff),
+      beta: clampParam(params.beta, min.beta),
+      derivativeCutoff: clampParam(
+        params.derivativeCutoff,
+        min.derivativeCutoff
+      ),
+    };
+  }
+
+  public filter(value: number, timestampMs: number): number {
+    if (this.lastValue === null) {
+      this.lastValue = value;
+      this.lastTimestampMs = timestampMs;
+      return value;
+    }
+
+    const dt = elapsedSeconds(timestampMs, this.lastTimestampMs);
+
+    // 速度を推定して平滑化
+    const derivative = (value - this.lastValue) / dt;
+    const derivativeAlpha = this.smoothingFactor(
+      this.params.derivativeCutoff,
+      dt
+    );
+    this.lastDerivative =
+      derivativeAlpha * derivative +
+      (1 - derivativeAlpha) * this.lastDerivative;
+
+    // 速度に応じてカットオフ周波数を調整
+    const cutoff =
+      this.params.minCutoff + this.params.beta * Math.abs(this.lastDerivative);
+    const alpha = this.smoothingFactor(cutoff, dt);
+    this.lastValue = alpha * value + (1 - alpha) * this.lastValue;
+    this.lastTimestampMs = timestampMs;
+
+    return this.lastValue;
+  }
+
+  public reset(): void {
+    this.lastValue = null;
+    this.lastDerivative = 0;
+    this.lastTimestampMs = null;
+  }
+
+  /**
+   * カットオフ周波数から指数平滑化の係数を計算
+   */
+  private smoothingFactor(cutoff: number, dt: number): number {
+    const tau = 1 / (2 * Math.PI * Math.max(cutoff, 1e-6));
+    return 1 / (1 + tau / dt);
+  }
+}
+
+/**
+ * 等速度モデルのカルマンフィルター
+ * 状態は [値, 速度]、加速度を白色雑音としてモデル化する
+ */
+export class KalmanFilter implements SignalFilter {
+  private readonly params: KalmanFilterParams;
+  private value: number | null = null;
+  private velocity = 0;
+  /** 誤差共分散行列 [[p00, p01], [p01, p11]] */
+  private p00 = 0;
+  private p01 = 0;
+  private p11 = 0;
+  private lastTimestampMs: number | null = null;
+
+  constructor(params: KalmanFilterParams) {
+    const min = SMOOTHING_PARAM_MIN.kalman;
+    this.params = {
+      processNoise: clampParam(params.processNoise, min.processNoise),
+      measurementNoise: clampParam(
+        params.measurementNoise,
+        min.measurementNoise
+      ),
+    };
+  }
+
+  public filter(value: number, timestampMs: number): number {
+    if (this.value === null) {
+      this.value = value;
+      this.velocity = 0;
+      this.p00 = this.params.measurementNoise;
+      this.p01 = 0;
+      this.p11 = this.params.processNoise;
+      this.lastTimestampMs = timestampMs;
+      return value;
+    }
+
+    const dt = elapsedSeconds(timestampMs, this.lastTimestampMs);
+    const q = this.params.processNoise;
+
+    // 予測
+    const predictedValue = this.value + this.velocity * dt;
+    const p00 =
+      this.p00 + 2 * dt * this.p01 + dt * dt * this.p11 + (q * dt ** 4) / 4;
+    const p01 = this.p01 + dt * this.p11 + (q * dt ** 3) / 2;
+    const p11 = this.p11 + q * dt * dt;
+
+    // 更新
+    const innovation = value - predictedValue;
+    const innovationVariance = p00 + this.params.measurementNoise;
+    const k0 = p00 / innovationVariance;
+    const k1 = p01 / innovationVariance;
+
+    this.value = predictedValue + k0 * innovation;
+    this.velocity += k1 * innovation;
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 = p11 - k1 * p01;
+    this.lastTimestampMs = timestampMs;
+
+    return this.value;
+  }
+
+  public reset(): void {
+    this.value = null;
+    this.velocity = 0;
+    this.p00 = 0;
+    this.p01 = 0;
+    this.p11 = 0;
+    this.lastTimestampMs = null;
+  }
+}
+
+/**
+ * 設定に応じたフィルターを生成
+ *
+ * @param settings 平滑化設定
+ * @returns 平滑化フィルター
+ */
+export const createSignalFilter = (
+  settings: SmoothingSettings
+): SignalFilter => {
+  switch (settings.filterType) {
+    case 'one-euro':
+      return new OneEuroFilter(settings.oneEuro);
+    case 'kalman':
+      return new KalmanFilter(settings.kalman);
+    default:
+      return new PassThroughFilter();
+  }
+};
+
+/**
+ * ランドマーク平滑化クラス
+ * 各ランドマークのx・y・z座標に個別のフィルターを適用する
+ */
+export class LandmarkFilter {
+  private readonly createFilter: () => SignalFilter;
+  private filters: SignalFilter[][] = [];
+
+  constructor(settings: SmoothingSettings) {
+    this.createFilter = () => createSignalFilter(settings);
+  }
+
+  /**
+   * ランドマーク配列を平滑化
+   *
+   * @param landmarks MediaPipe Handsランドマーク配列
+   * @param timestampMs 測定時刻（ミリ秒）
+   * @returns 平滑化されたランドマーク配列
+   */
+  public filter(landmarks: Point3D[], timestampMs: number): Point3D[] {
+    return landmarks.map((landmark, index) => {
+      const filters = this.getFilters(index);
+      const [fx, fy, fz] = filters;
+      if (!fx || !fy || !fz) return landmark;
+
+      return {
+        ...landmark,
+        x: this.filterCoordinate(fx, landmark.x, timestampMs),
+        y: this.filterCoordinate(fy, landmark.y, timestampMs),
+        z: this.filterCoordinate(fz, landmark.z, timestampMs),
+      };
+    });
+  }
+
+  /**
+   * 履歴をリセット
+   */
+  public reset(): void {
+    this.filters = [];
+  }
+
+  private getFilters(index: number): SignalFilter[] {
+    let filters = this.filters[index];
+    if (!filters) {
+      filters = [this.createFilter(), this.createFilter(), this.createFilter()];
+      this.filters[index] = filters;
+    }
+    return filters;
+  }
+
+  private filterCoordinate(
+    filter: SignalFilter,
+    value: number,
+    timestampMs: number
+  ): number {
+    return (
+      filter.filter(value * LANDMARK_COORDINATE_SCALE, timestampMs) /
+      LANDMARK_COORDINATE_SCALE
+    );
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * 合成手ランドマーク生成
+ * 手首・前腕・母指・指の関節角度とカメラ姿勢を指定して、MediaPipe Hands互換の21点ランドマークを生成する
+ * 真値が既知の姿勢で角度計算の誤差を評価するための運動学モデル
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type {
+  ForearmLandmarks,
+  Point3D,
+} from '@/core/domain/types/hand-landmark';
+import type { Vector3D } from '@/core/domain/types/angle';
+
+/**
+ * 合成する手の姿勢
+ * 角度はすべて度。0度の姿勢は「中指が天井を向き、小指側がカメラを向く」（回内・回外の開始姿勢）
+ */
+export interface SyntheticHandPose {
+  /** 手（左手は右手の姿勢を左右反転して生成） */
+  hand: 'left' | 'right';
+
+  /** 掌屈・背屈（掌屈を正、背屈を負） */
+  flexion: number;
+
+  /** 橈屈・尺屈（橈屈を正、尺屈を負） */
+  deviation: number;
+
+  /** 前腕の回内・回外（手のひらがカメラに向く回内を正、回外を負） */
+  pronation: number;
+
+  /** 4指のMCP・PIP・DIP関節の屈曲（各関節に同じ角度、掌側への屈曲を正、過伸展を負） */
+  fingerFlexion: number;
+
+  /** 母指MCP関節の屈曲（手掌中央側への屈曲を正、過伸展を負、MCP関節が伸びた状態を0度とする） */
+  thumbFlexion: number;
+
+  /** 母指中手骨と示指中手骨の手掌平面内のなす角（橈側外転を正、尺側内転を負） */
+  thumbAbduction: number;
+
+  /** カメラのヨー（画像の縦軸まわりの回転） */
+  cameraYaw: number;
+
+  /** カメラのピッチ（画像の横軸まわりの回転） */
+  cameraPitch: number;
+
+  /** カメラのロール（画像面内の回転） */
+  cameraRoll: number;
+
+  /** ランドマーク座標に加える正規分布ノイズの標準偏差（正規化座標） */
+  noiseSigma: number;
+
+  /** ノイズの乱数シード */
+  seed: number;
+
+  /** 手首の位置（正規化座標） */
+  wristPosition: { x: number; y: number };
+
+  /** 手の大きさ（手首から中指先端までの長さ、正規化座標） */
+  handLength: number;
+}
+
+/**
+ * 合成されたランドマーク
+ */
+export interface SyntheticHandFrame {
+  /** MediaPipe Hands互換のランドマーク（21点） */
+  landmarks: Point3D[];
+
+  /** MediaPipe Pose互換の前腕ランドマーク */
+  forearm: ForearmLandmarks;
+}
+
+/**
+ * 手の座標系での右手ランドマーク（手の大きさ1に対する比）
+ * r: 橈側、l: 指先方向（長軸）、p: 掌側
+ * 4指MCPの中央は長軸上にある
+ */
+const HAND_TEMPLATE: readonly { r: number; l: number; p: number }[] = [
+  { r: 0, l: 0, p: 0 }, // 手首
+  { r: 0.12, l: 0.15, p: 0.05 }, // 母指CMC
+  { r: 0.22, l: 0.3, p: 0.08 }, // 母指MCP
+  { r: 0.3, l: 0.45, p: 0.1 }, // 母指IP
+  { r: 0.35, l: 0.57, p: 0.11 }, // 母指先端
+  { r: 0.15, l: 0.5, p: 0 }, // 示指MCP
+  { r: 0.16, l: 0.7, p: 0 },
+  { r: 0.17, l: 0.82, p: 0 },
+  { r: 0.18, l: 0.92, p: 0 },
+  { r: 0.05, l: 0.52, p: 0 }, // 中指MCP
+  { r: 0.05, l: 0.75, p: 0 },
+  { r: 0.05, l: 0.89, p: 0 },
+  { r: 0.05, l: 1, p: 0 },
+  { r: -0.05, l: 0.5, p: 0 }, // 環指MCP
+  { r: -0.06, l: 0.71, p: 0 },
+  { r: -0.07, l: 0.84, p: 0 },
+  { r: -0.08, l: 0.94, p: 0 },
+  { r: -0.15, l: 0.46, p: 0 }, // 小指MCP
+  { r: -0.17, l: 0.62, p: 0 },
+  { r: -0.18, l: 0.72, p: 0 },
+  { r: -0.19, l: 0.8, p: 0 },
+];
+
+/**
+ * テンプレートの2点を結ぶ向きの手掌平面内の角度（長軸を0、橈側を正、ラジアン）
+ */
+const templateInPlaneAngle = (from: number, to: number): number => {
+  const a = HAND_TEMPLATE[from];
+  const b = HAND_TEMPLATE[to];
+  return a && b ? Math.atan2(b.r - a.r, b.l - a.l) : 0;
+};
+
+/**
+ * テンプレートの母指中手骨（CMC → MCP）と示指中手骨（手首 → 示指MCP）の手掌平面内のなす角（度）
+ */
+export const SYNTHETIC_THUMB_REST_ABDUCTION =
+  ((templateInPlaneAngle(1, 2) - templateInPlaneAngle(0, 5)) * 180) / Math.PI;
+
+/**
+ * デフォルトの姿勢
+ */
+export const DEFAULT_SYNTHETIC_HAND_POSE: SyntheticHandPose = {
+  hand: 'right',
+  flexion: 0,
+  deviation: 0,
+  pronation: 0,
+  fingerFlexion: 0,
+  thumbFlexion: 0,
+  thumbAbduction: SYNTHETIC_THUMB_REST_ABDUCTION,
+  cameraYaw: 0,
+  cameraPitch: 0,
+  cameraRoll: 0,
+  noiseSigma: 0,
+  seed: 1,
+  wristPosition: { x: 0.5, y: 0.6 },
+  handLength: 0.2,
+};
+
+/**
+ * 手首ステップの開始姿勢（アプリの測定手順に合わせたカメラ配置）
+ * - 掌屈・背屈: 手のひらを下に向け、前腕を水平にして小指側をカメラに向ける
+ * - 橈屈・尺屈: 指を上に伸ばし、手のひらをカメラに向ける
+ * - 回内・回外: 指を上に伸ばし、小指側をカメラに向ける
+ * - 母指・指: 指を上に伸ばし、手のひらをカメラに向ける
+ */
+export const SYNTHETIC_STEP_BASE_POSES = {
+  'palmar-flexion': { cameraRoll: -90 },
+  'dorsal-flexion': { cameraRoll: -90 },
+  'ulnar-deviation': { pronation: 90 },
+  'radial-deviation': { pronation: 90 },
+  pronation: {},
+  supination: {},
+  'thumb-flexion': { pronation: 90 },
+  'thumb-extension': { pronation: 90 },
+  'thumb-abduction': { pronation: 90 },
+  'thumb-adduction': { pronation: 90 },
+  'finger-flexion': { pronation: 90 },
+  'finger-extension': { pronation: 90 },
+} as const satisfies Record<string, Partial<SyntheticHandPose>>;
+
+/**
+ * 前腕の長さ（手の大きさに対する比）
+ */
+const FOREARM_LENGTH_RATIO = 1.3;
+
+/**
+ * 前腕ランドマークの可視性
+ */
+const FOREARM_VISIBILITY = 0.95;
+
+/**
+ * MediaPipe Poseの肘・手首のランドマークID
+ */
+const POSE_LANDMARK_IDS = {
+  left: { elbow: 13, wrist: 15 },
+  right: { elbow: 14, wrist: 16 },
+} as const;
+
+/**
+ * 4指のランドマークID（MCP・PIP・DIP・先端）
+ */
+const FINGER_CHAINS: readonly (readonly number[])[] = [
+  [5, 6, 7, 8],
+  [9, 10, 11, 12],
+  [13, 14, 15, 16],
+  [17, 18, 19, 20],
+];
+
+/**
+ * 手掌中央の計算に使うランドマークID（手首と4指MCP）
+ */
+const PALM_CENTER_IDS = [0, 5, 9, 13, 17] as const;
+
+/**
+ * 手の座標系の軸（x: 橈側、y: 指先方向、z: 掌側）
+ */
+const LOCAL_AXES = {
+  radial: { x: 1, y: 0, z: 0 },
+  palmar: { x: 0, y: 0, z: 1 },
+} as const;
+
+/**
+ * 0度の姿勢での右手の座標軸（MediaPipeの座標系: x右、y下、z奥）
+ * 指先は上（-y）、橈側は奥（+z）、掌側は左（-x）
+ */
+const NEUTRAL_AXES = {
+  radial: { x: 0, y: 0, z: 1 },
+  longitudinal: { x: 0, y: -1, z: 0 },
+  palmar: { x: -1, y: 0, z: 0 },
+} as const;
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+const scale = (v: Vector3D, s: number): Vector3D => ({
+  x: v.x * s,
+  y: v.y * s,
+  z: v.z * s,
+});
+
+const add = (...vectors: Vector3D[]): Vector3D =>
+  vectors.reduce(
+    (sum, v) => ({ x: sum.x + v.x, y: sum.y + v.y, z: sum.z + v.z }),
+    {
+      x: 0,
+      y: 0,
+      z: 0,
+    }
+  );
+
+const dot = (a: Vector3D, b: Vector3D): number =>
+  a.x * b.x + a.y * b.y + a.z * b.z;
+
+const cross = (a: Vector3D, b: Vector3D): Vector3D => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+
+/**
+ * 単位ベクトルの軸まわりにベクトルを回転（ロドリゲスの回転公式）
+ */
+const rotate = (v: Vector3D, axis: Vector3D, deg: number): Vector3D => {
+  const cos = Math.cos(toRadians(deg));
+  const sin = Math.sin(toRadians(deg));
+  return add(
+    scale(v, cos),
+    scale(cross(axis, v), sin),
+    scale(axis, dot(axis, v) * (1 - cos))
+  );
+};
+
+const normalize = (v: Vector3D): Vector3D => {
+  const length = Math.hypot(v.x, v.y, v.z);
+  return length === 0 ? v : scale(v, 1 / length);
+};
+
+/**
+ * 母指・指の関節を動かしたテンプレート（手の座標系）
+ * 4指はMCP・PIP・DIPを橈側軸まわりに掌側へ、母指は中手骨をCMCを中心に手掌平面内で、
+ * MCP関節より遠位を手掌中央側へ回転する
+ */
+const createPosedTemplate = (config: SyntheticHandPose): Vector3D[] => {
+  const points: Vector3D[] = HAND_TEMPLATE.map(({ r, l, p }) => ({
+    x: r,
+    y: l,
+    z: p,
+  }));
+  const rotateAbout = (
+    ids: readonly number[],
+    center: Vector3D,
+    axis: Vector3D,
+    deg: number
+  ) => {
+    ids.forEach((id) => {
+      const point = points[id];
+      if (!point) return;
+      points[id] = add(
+        center,
+        rotate(add(point, scale(center, -1)), axis, deg)
+      );
+    });
+  };
+
+  FINGER_CHAINS.forEach((chain) => {
+    chain.slice(0, 3).forEach((jointId, index) => {
+      const joint = points[jointId];
+      if (joint) {
+        rotateAbout(
+          chain.slice(index + 1),
+          joint,
+          LOCAL_AXES.radial,
+          config.fingerFlexion
+        );
+      }
+    });
+  });
+
+  // 橈側外転は掌側軸の逆まわり（長軸を橈側へ倒す回転）
+  const cmc = points[1];
+  if (cmc) {
+    rotateAbout(
+      [2, 3, 4],
+      cmc,
+      scale(LOCAL_AXES.palmar, -1),
+      config.thumbAbduction - SYNTHETIC_THUMB_REST_ABDUCTION
+    );
+  }
+
+  // 母指MCP関節は、基節骨を中手骨の延長上に伸ばしてから、
+  // 中手骨に垂直な手掌中央方向へ遠位を倒す
+  const mcp = points[2];
+  const ip = points[3];
+  if (cmc && mcp && ip) {
+    const palmCenter = scale(
+      add(...PALM_CENTER_IDS.map((id) => points[id] ?? mcp)),
+      1 / PALM_CENTER_IDS.length
+    );
+    const metacarpal = normalize(add(mcp, scale(cmc, -1)));
+    const proximalPhalanx = normalize(add(ip, scale(mcp, -1)));
+    const restBend =
+      (Math.acos(Math.min(dot(proximalPhalanx, metacarpal), 1)) * 180) /
+      Math.PI;
+    rotateAbout(
+      [3, 4],
+      mcp,
+      normalize(cross(proximalPhalanx, metacarpal)),
+      restBend
+    );
+    const towardPalm = add(palmCenter, scale(mcp, -1));
+    const perpendicular = normalize(
+      add(towardPalm, scale(metacarpal, -dot(towardPalm, metacarpal)))
+    );
+    rotateAbout(
+      [3, 4],
+      mcp,
+      cross(metacarpal, perpendicular),
+      config.thumbFlexion
+    );
+  }
+
+  return points;
+};
+
+/**
+ * シード付き疑似乱数から正規分布の乱数を生成（Box-Muller法）
+ */
+const createGaussian = (seed: number): (() => number) => {
+  let state = seed >>> 0 || 1;
+  const random = () => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) + 1) / 4294967297;
+  };
+  return () =>
+    Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+};
+
+/**
+ * 合成ランドマークを生成
+ *
+ * 母指・指の関節を動かしたテンプレートを、
+ * 前腕の回内・回外 → 橈屈・尺屈 → 掌屈・背屈の順に回転した手の座標軸に配置し、
+ * カメラのロール・ピッチ・ヨーを手首中心に適用して弱透視投影する
+ *
+ * @param pose 手の姿勢（省略した項目はデフォルト値）
+ * @returns ランドマークと前腕ランドマーク
+ */
+export const generateSyntheticHand = (
+  pose: Partial<SyntheticHandPose> = {}
+): SyntheticHandFrame => {
+  const config = { ...DEFAULT_SYNTHETIC_HAND_POSE, ...pose };
+
+  // 前腕の回内・回外は前腕軸（指先方向）まわりの回転
+  const forearmAxis = NEUTRAL_AXES.longitudinal;
+  let radial = rotate(NEUTRAL_AXES.radial, forearmAxis, config.pronation);
+  let longitudinal: Vector3D = forearmAxis;
+  let palmar = rotate(NEUTRAL_AXES.palmar, forearmAxis, config.pronation);
+
+  // 橈屈・尺屈は掌側軸まわりに長軸を橈側へ倒す回転
+  const deviationAxis = cross(longitudinal, radial);
+  radial = rotate(radial, deviationAxis, config.deviation);
+  longitudinal = rotate(longitudinal, deviationAxis, config.deviation);
+
+  // 掌屈・背屈は橈側軸まわりに長軸を掌側へ倒す回転
+  const flexionAxis = cross(longitudinal, palmar);
+  longitudinal = rotate(longitudinal, flexionAxis, config.flexion);
+  palmar = rotate(palmar, flexionAxis, config.flexion);
+
+  // カメラ姿勢（ロール → ピッチ → ヨー）
+  const toCamera = (v: Vector3D): Vector3D => {
+    const rolled = rotate(v, { x: 0, y: 0, z: 1 }, config.cameraRoll);
+    const pitched = rotate(rolled, { x: 1, y: 0, z: 0 }, config.cameraPitch);
+    const yawed = rotate(pitched, { x: 0, y: 1, z: 0 }, config.cameraYaw);
+    // 左手は右手の鏡像
+    return config.hand === 'left' ? { ...yawed, x: -yawed.x } : yawed;
+  };
+
+  const gaussian = createGaussian(config.seed);
+  const project = (id: number, offset: Vector3D): Point3D => {
+    const v = toCamera(offset);
+    return {
+      id,
+      x:
+        config.wristPosition.x +
+        v.x * config.handLength +
+        gaussian() * config.noiseSigma,
+      y:
+        config.wristPosition.y +
+        v.y * config.handLength +
+        gaussian() * config.noiseSigma,
+      // MediaPipe Handsのzは手首を0とした相対深度（x・yと同程度のスケール）
+      z: v.z * config.handLength + gaussian() * config.noiseSigma,
+    };
+  };
+
+  const landmarks = createPosedTemplate(config).map(({ x, y, z }, id) =>
+    project(id, add(scale(radial, x), scale(longitudinal, y), scale(palmar, z)))
+  );
+
+  const poseIds = POSE_LANDMARK_IDS[config.hand];
+  const wrist = landmarks[0] ?? project(0, { x: 0, y: 0, z: 0 });
+  const elbow = project(
+    poseIds.elbow,
+    scale(forearmAxis, -FOREARM_LENGTH_RATIO)
+  );
+
+  return {
+    landmarks,
+    forearm: {
+      elbow,
+      wrist: { ...wrist, id: poseIds.wrist },
+      visibility: FOREARM_VISIBILITY,
+    },
+  };
+};
@@ -0,0 +1,299 @@
+/**
+ * 振戦の周波数解析
+ * 一定時間記録した指先ランドマークの変位をトレンド除去し、スペクトル解析で
+ * 振戦の主周波数と振幅（手の大きさで正規化）を求める
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type { TremorAnalysis } from '@/core/domain/types/measurement';
+
+/**
+ * 記録したフレーム
+ */
+export interface TremorFrame {
+  /** 記録時刻（ミリ秒） */
+  timestampMs: number;
+
+  /** 対象の手のランドマーク（検出できなかった場合はnull） */
+  landmarks: Point3D[] | null;
+}
+
+/**
+ * 記録した映像の大きさ（ピクセル）
+ * ランドマークのx・yはそれぞれ幅・高さで正規化されているため、距離の計算前に揃える
+ */
+export interface TremorFrameSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * 振戦とみなす周波数帯域（Hz）
+ * パーキンソン病の安静時振戦（4〜6Hz）から本態性振戦（4〜12Hz）までを含む
+ */
+export const TREMOR_BAND_HZ = { min: 3, max: 12 } as const;
+
+/**
+ * 解析に必要な最小の記録時間（ミリ秒）
+ */
+export const MIN_TREMOR_DURATION_MS = 5000;
+
+/**
+ * 表示用スペクトルの上限周波数（Hz）
+ */
+const SPECTRUM_MAX_HZ = 15;
+
+/**
+ * 変位を解析する指先のランドマークID（母指〜小指）
+ */
+const FINGERTIP_IDS = [4, 8, 12, 16, 20] as const;
+
+/**
+ * 手の大きさの基準とするランドマークID（手首〜中指MCP）
+ */
+const HAND_SIZE_IDS = { wrist: 0, middleMcp: 9 } as const;
+
+/**
+ * 最小のフレーム数
+ */
+const MIN_FRAMES = 32;
+
+/**
+ * 中央値
+ */
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+    : (sorted[middle] ?? 0);
+};
+
+/**
+ * 不等間隔のサンプルを等間隔に線形補間
+ */
+const resample = (
+  times: number[],
+  values: number[],
+  startMs: number,
+  stepMs: number,
+  count: number
+): number[] => {
+  const result: number[] = [];
+  let index = 0;
+  for (let i = 0; i < count; i++) {
+    const time = startMs + i * stepMs;
+    while ((times[index + 1] ?? Infinity) < time) index++;
+    const t0 = times[index] ?? time;
+    const t1 = times[index + 1] ?? t0;
+    const v0 = values[index] ?? 0;
+    const v1 = values[index + 1] ?? v0;
+    const ratio = t1 > t0 ? (time - t0) / (t1 - t0) : 0;
+    result.push(v0 + (v1 - v0) * ratio);
+  }
+  return result;
+};
+
+/**
+ * 最小二乗法による直線トレンドの除去
+ * 手全体のゆっくりした移動を振戦の解析から除く
+ */
+export const detrend = (values: number[]): number[] => {
+  const n = values.length;
+  if (n < 2) return values.map(() => 0);
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((v, i) => {
+    covariance += (i - meanX) * (v - meanY);
+    variance += (i - meanX) * (i - meanX);
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+
+  return values.map((v, i) => v - (meanY + slope * (i - meanX)));
+};
+
+/**
+ * 基数2の高速フーリエ変換（インプレース）
+ * 配列の長さは2の累乗であること
+ */
+const fft = (re: Float64Array, im: Float64Array): void => {
+  const n = re.length;
+
+  // ビット反転による並べ替え
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j] ?? 0, re[i] ?? 0];
+      [im[i], im[j]] = [im[j] ?? 0, im[i] ?? 0];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const reB = (re[b] ?? 0) * cos - (im[b] ?? 0) * sin;
+        const imB = (re[b] ?? 0) * sin + (im[b] ?? 0) * cos;
+        re[b] = (re[a] ?? 0) - reB;
+        im[b] = (im[a] ?? 0) - imB;
+        re[a] = (re[a] ?? 0) + reB;
+        im[a] = (im[a] ?? 0) + imB;
+      }
+    }
+  }
+};
+
+/**
+ * 片側パワースペクトル（ハン窓、ゼロ埋め）
+ * 全周波数のパワーの和が信号の平均二乗値になるよう正規化する
+ *
+ * @param values 等間隔の信号
+ * @param fftLength FFTの長さ（2の累乗、信号長以上）
+ * @returns 周波数ビンごとのパワー（0〜ナイキスト周波数）
+ */
+const powerSpectrum = (values: number[], fftLength: number): number[] => {
+  const n = values.length;
+  const re = new Float64Array(fftLength);
+  const im = new Float64Array(fftLength);
+  let windowPower = 0;
+  values.forEach((v, i) => {
+    const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    re[i] = v * w;
+    windowPower += w * w;
+  });
+
+  fft(re, im);
+
+  const half = fftLength / 2;
+  const power: number[] = [];
+  for (let k = 0; k <= half; k++) {
+    const magnitude2 = (re[k] ?? 0) ** 2 + (im[k] ?? 0) ** 2;
+    const oneSided = k === 0 || k === half ? 1 : 2;
+    power.push((oneSided * magnitude2) / (fftLength * windowPower));
+  }
+  return power;
+};
+
+/**
+ * 記録したフレームから振戦を解析
+ *
+ * 指先5点のx・y座標の変位をそれぞれトレンド除去してパワースペクトルを求め、
+ * 2次元の変位として点ごとに合計したスペクトルを5点で平均する
+ * x・yは映像の幅・高さを掛けてピクセル単位に揃えてから扱う
+ *
+ * @param frames 記録したフレーム（時刻順）
+ * @param frameSize 記録した映像の大きさ
+ * @returns 解析結果（記録時間・フレーム数が不足する場合はnull。フレームレートが低い場合は isBandLimited を立てる）
+ */
+export const analyzeTremor = (
+  frames: TremorFrame[],
+  frameSize: TremorFrameSize
+): TremorAnalysis | null => {
+  if (frameSize.width <= 0 || frameSize.height <= 0) return null;
+  const axisScale = { x: frameSize.width, y: frameSize.height } as const;
+
+  const detected = frames.filter(
+    (frame): frame is { timestampMs: number; landmarks: Point3D[] } =>
+      !!frame.landmarks && frame.landmarks.length >= 21
+  );
+  const first = detected[0];
+  const last = detected[detected.length - 1];
+  if (!first || !last || detected.length < MIN_FRAMES) return null;
+
+  const durationMs = last.timestampMs - first.timestampMs;
+  if (durationMs < MIN_TREMOR_DURATION_MS) return null;
+
+  // 手の大きさ（手首〜中指MCPの画像上の距離の中央値、ピクセル）
+  const handSize = median(
+    detected.map(({ landmarks }) => {
+      const wrist = landmarks[HAND_SIZE_IDS.wrist];
+      const mcp = landmarks[HAND_SIZE_IDS.middleMcp];
+      return wrist && mcp
+        ? Math.hypot(
+            (mcp.x - wrist.x) * axisScale.x,
+            (mcp.y - wrist.y) * axisScale.y
+          )
+        : 0;
+    })
+  );
+  if (handSize <= 0) return null;
+
+  // 検出フレームの平均間隔で等間隔に再標本化
+  const count = detected.length;
+  const stepMs = durationMs / (count - 1);
+  const sampleRateHz = 1000 / stepMs;
+  const times = detected.map((frame) => frame.timestampMs);
+  const fftLength = Math.pow(2, Math.ceil(Math.log2(count)) + 1);
+
+  const spectra = FINGERTIP_IDS.flatMap((id) =>
+    (['x', 'y'] as const).map((axis) =>
+      powerSpectrum(
+        detrend(
+          resample(
+            times,
+            detected.map(
+              ({ landmarks }) => (landmarks[id]?.[axis] ?? 0) * axisScale[axis]
+            ),
+            first.timestampMs,
+            stepMs,
+            count
+          )
+        ),
+        fftLength
+      )
+    )
+  );
+
+  // 各点のx・yのパワーを合計し、指先の点数で平均（手の大きさの2乗で割って正規化する）
+  const power = Array.from(
+    { length: fftLength / 2 + 1 },
+    (_, k) =>
+      spectra.reduce((sum, spectrum) => sum + (spectrum[k] ?? 0), 0) /
+      FINGERTIP_IDS.length /
+      (handSize * handSize)
+  );
+  const frequencyStep = sampleRateHz / fftLength;
+  // フレームレートが低い場合はナイキスト周波数までしか解析できないため、結果に記録する
+  const bandMaxHz = Math.min(TREMOR_BAND_HZ.max, sampleRateHz / 2);
+
+  let bandPower = 0;
+  let totalPower = 0;
+  let dominantIndex = -1;
+  power.forEach((p, k) => {
+    if (k === 0) return;
+    const frequencyHz = k * frequencyStep;
+    totalPower += p;
+    if (frequencyHz >= TREMOR_BAND_HZ.min && frequencyHz <= bandMaxHz) {
+      bandPower += p;
+      if (dominantIndex < 0 || p > (power[dominantIndex] ?? 0)) {
+        dominantIndex = k;
+      }
+    }
+  });
+  if (dominantIndex < 0) return null;
+
+  return {
+    dominantFrequencyHz: dominantIndex * frequencyStep,
+    amplitude: Math.sqrt(2 * bandPower),
+    tremorBandRatio: totalPower > 0 ? bandPower / totalPower : 0,
+    sampleRateHz,
+    isBandLimited: bandMaxHz < TREMOR_BAND_HZ.max,
+    durationMs,
+    frameCount: count,
+    spectrum: power
+      .map((p, k) => ({ frequencyHz: k * frequencyStep, power: p }))
+      .filter(
+        ({ frequencyHz }) => frequencyHz > 0 && frequencyHz <= SPECTRUM_MAX_HZ
+      ),
+  };
+};
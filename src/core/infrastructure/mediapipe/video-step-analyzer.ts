@@ -0,0 +1,289 @@
+/**
+ * 動画ファイルのステップ解析
+ * 動画から一定間隔で取り出したフレームを、ライブ測定と同じ手順
+ * （平滑化 → 中間位キャリブレーション → 保持確認による最大角度 → 品質評価）で処理する
+ * クリーンアーキテクチャ: インフラストラクチャ層
+ */
+
+import type {
+  ForearmLandmarks,
+  Point3D,
+  QualityMetrics,
+} from '@/core/domain/types/hand-landmark';
+import type {
+  ForearmAxisMethod,
+  SmoothingSettings,
+} from '@/core/domain/types/angle';
+import type {
+  AngleSeries,
+  NeutralCalibration,
+  StepId,
+} from '@/core/domain/types/measurement';
+import {
+  AngleCalculator,
+  angleCalculator,
+} from '@/core/infrastructure/mediapipe/angle-calculator';
+import { AngleSeriesRecorder } from '@/core/infrastructure/mediapipe/angle-series-recorder';
+import { NeutralCalibrator } from '@/core/infrastructure/mediapipe/neutral-calibrator';
+import { classifyHandView } from '@/core/infrastructure/mediapipe/hand-view-classifier';
+import { PeakDetector } from '@/core/infrastructure/mediapipe/peak-detector';
+import {
+  aggregateQualityMetrics,
+  QualityAnalyzer,
+  QualityImage,
+} from '@/core/infrastructure/mediapipe/quality-analyzer';
+import {
+  createSignalFilter,
+  DEFAULT_SMOOTHING_SETTINGS,
+  LandmarkFilter,
+  PassThroughFilter,
+  SignalFilter,
+} from '@/core/infrastructure/mediapipe/signal-filter';
+
+/**
+ * 解析する動画フレーム
+ */
+export interface VideoFrameInput {
+  /** 動画内の時刻（ミリ秒） */
+  timestampMs: number;
+
+  /** 対象の手のランドマーク（検出できなかった場合はnull） */
+  landmarks: Point3D[] | null;
+
+  /** 手の検出信頼度（0-1） */
+  detectionConfidence?: number;
+
+  /** 前腕ランドマーク（MediaPipe Pose使用時のみ） */
+  forearm?: ForearmLandmarks | null;
+
+  /** 品質評価に使用するフレーム画像 */
+  image?: QualityImage | null;
+}
+
+/**
+ * フレームの解析状態
+ * - missing: 対象の手を検出できない
+ * - calibrating: 開始姿勢の0度基準を取得中
+ * - measuring: 基準角度からの変化量を測定中
+ */
+export type VideoFramePhase = 'missing' | 'calibrating' | 'measuring';
+
+/**
+ * フレームごとの角度
+ */
+export interface VideoAngleSample {
+  /** 動画内の時刻（ミリ秒） */
+  timestampMs: number;
+
+  /** 解析状態 */
+  phase: VideoFramePhase;
+
+  /** 基準角度からの変化量（度、測定中以外はnull） */
+  angle: number | null;
+}
+
+/**
+ * 保持により確定した最大角度のフレーム
+ */
+export interface VideoPeakFrame {
+  /** 最大角度（度） */
+  angle: number;
+
+  /** 確定したフレームの動画内の時刻（ミリ秒） */
+  timestampMs: number;
+
+  /** 確定したフレームのランドマーク（平滑化前） */
+  landmarks: Point3D[];
+
+  /** 前腕軸の推定方法 */
+  method: ForearmAxisMethod;
+
+  /** 前腕軸に使用した前腕ランドマーク */
+  forearm: ForearmLandmarks | null;
+}
+
+/**
+ * 動画のステップ解析結果
+ */
+export interface VideoStepAnalysis {
+  /** ステップID */
+  stepId: StepId;
+
+  /** 測定対象の手 */
+  hand: 'left' | 'right';
+
+  /** フレームごとの角度 */
+  samples: VideoAngleSample[];
+
+  /** ライブ測定と同じ間隔で記録した角度の時系列（保存用） */
+  angleSeries: AngleSeries;
+
+  /** 中間位キャリブレーション結果（開始姿勢が見つからない場合はnull） */
+  calibration: NeutralCalibration | null;
+
+  /** 最大角度のフレーム（確定できない場合はnull） */
+  peak: VideoPeakFrame | null;
+
+  /** 測定中のフレームを集計した品質指標 */
+  qualityMetrics: QualityMetrics | null;
+}
+
+/**
+ * 動画のステップ解析の設定
+ */
+export interface VideoStepAnalyzerOptions {
+  /** 平滑化設定 */
+  smoothing: SmoothingSettings;
+
+  /** 角度計算に使用するインスタンス */
+  calculator: AngleCalculator;
+}
+
+/**
+ * 動画のステップ解析クラス
+ * フレームを時刻順に追加し、最後にgetResultで解析結果を取得する
+ */
+export class VideoStepAnalyzer {
+  private readonly stepId: StepId;
+  private readonly hand: 'left' | 'right';
+  private readonly calculator: AngleCalculator;
+  private readonly angleFilter: SignalFilter;
+  private readonly landmarkFilter: LandmarkFilter | null;
+  private readonly calibrator: NeutralCalibrator;
+  private readonly peakDetector = new PeakDetector();
+  private readonly qualityAnalyzer = new QualityAnalyzer();
+  private readonly angleSeries = new AngleSeriesRecorder(0);
+  private qualityFrames: QualityMetrics[] = [];
+  private samples: VideoAngleSample[] = [];
+  private calibration: NeutralCalibration | null = null;
+  private peak: VideoPeakFrame | null = null;
+
+  constructor(
+    stepId: StepId,
+    hand: 'left' | 'right',
+    options: Partial<VideoStepAnalyzerOptions> = {}
+  ) {
+    const smoothing = options.smoothing ?? DEFAULT_SMOOTHING_SETTINGS;
+    this.stepId = stepId;
+    this.hand = hand;
+    this.calculator = options.calculator ?? angleCalculator;
+    this.angleFilter =
+      smoothing.target === 'angle'
+        ? createSignalFilter(smoothing)
+        : new PassThroughFilter();
+    this.landmarkFilter =
+      smoothing.target === 'landmark' ? new LandmarkFilter(smoothing) : null;
+    this.calibrator = new NeutralCalibrator(stepId);
+  }
+
+  /**
+   * フレームを追加して角度を返す
+   */
+  public addFrame(frame: VideoFrameInput): VideoAngleSample {
+    const { timestampMs, landmarks } = frame;
+
+    if (!landmarks || !this.calculator.validateLandmarks(landmarks)) {
+      this.angleSeries.addSample(timestampMs, null);
+      return this.record({ timestampMs, phase: 'missing', angle: null });
+    }
+
+    const forearm = frame.forearm ?? null;
+    const smoothedLandmarks = this.landmarkFilter
+      ? this.landmarkFilter.filter(landmarks, timestampMs)
+      : landmarks;
+    const { angle: rawAngle, method } = this.calculator.calculateStepAngle(
+      smoothedLandmarks,
+      this.stepId,
+      { hand: this.hand, forearm }
+    );
+    const angle = this.angleFilter.filter(rawAngle, timestampMs);
+    this.angleSeries.addSample(timestampMs, angle);
+
+    // 開始姿勢を一定フレーム保持したら、その角度を0度基準とする
+    if (!this.calibration) {
+      this.calibrator.addSample({
+        angle,
+        palmCameraAlignment: this.calculator.calculatePalmCameraAlignment(
+          smoothedLandmarks,
+          this.hand
+        ),
+        view: classifyHandView(
+          this.calculator.calculateHandViewAlignment(
+            smoothedLandmarks,
+            this.hand
+          )
+        ),
+        timestampMs,
+      });
+      const calibration = this.calibrator.getCalibration();
+      if (calibration) {
+        this.calibration = {
+          ...calibration,
+          landmarks: smoothedLandmarks.map(({ x, y, z }) => ({ x, y, z })),
+          ...(forearm && method === 'pose' ? { forearm } : {}),
+        };
+        this.angleSeries.setReference(timestampMs, calibration.referenceAngle);
+      }
+      return this.record({ timestampMs, phase: 'calibrating', angle: null });
+    }
+
+    const relativeAngle = Math.abs(angle - this.calibration.referenceAngle);
+
+    // 検出精度が中信頼度以上で一定時間保持された角度のみを最大角度とする
+    const peak = this.peakDetector.addSample({
+      angle: relativeAngle,
+      accuracy: this.calculator.calculateLandmarkAccuracy(
+        landmarks,
+        frame.detectionConfidence
+      ),
+      timestampMs,
+    });
+    if (peak.isNewPeak && peak.confirmedPeak !== null) {
+      this.angleSeries.markPeak(timestampMs, peak.holdStartMs);
+      this.peak = {
+        angle: peak.confirmedPeak,
+        timestampMs,
+        landmarks,
+        method,
+        forearm: method === 'pose' ? forearm : null,
+      };
+    }
+
+    this.qualityFrames.push(
+      this.qualityAnalyzer.analyzeFrame({
+        landmarks,
+        image: frame.image ?? null,
+        ...(frame.detectionConfidence !== undefined
+          ? { detectionConfidence: frame.detectionConfidence }
+          : {}),
+        timestampMs,
+      })
+    );
+
+    return this.record({
+      timestampMs,
+      phase: 'measuring',
+      angle: relativeAngle,
+    });
+  }
+
+  /**
+   * 解析結果を取得
+   */
+  public getResult(): VideoStepAnalysis {
+    return {
+      stepId: this.stepId,
+      hand: this.hand,
+      samples: [...this.samples],
+      angleSeries: this.angleSeries.getSeries(),
+      calibration: this.calibration,
+      peak: this.peak,
+      qualityMetrics: aggregateQualityMetrics(this.qualityFrames),
+    };
+  }
+
+  private record(sample: VideoAngleSample): VideoAngleSample {
+    this.samples.push(sample);
+    return sample;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 保存時の暗号化の状態を参照するカスタムフック
+ * 測定の実行中に自動ロックを保留するフックも提供する
+ */
+
+import { useEffect, useState } from 'react';
+import { useSetAtom } from 'jotai';
+import {
+  databaseEncryption,
+  DatabaseEncryptionStatus,
+} from '@/lib/database/database-encryption';
+import { activeCaptureCountAtom } from '@/shared/state/measurement-atoms';
+
+/**
+ * 保存時の暗号化の状態を購読
+ * 状態が変わると（ロック・ロック解除・有効化・無効化）再描画する
+ */
+export function useDatabaseEncryption(): DatabaseEncryptionStatus {
+  const [status, setStatus] = useState<DatabaseEncryptionStatus>(() =>
+    databaseEncryption.getStatus()
+  );
+
+  useEffect(() => {
+    setStatus(databaseEncryption.getStatus());
+    return databaseEncryption.subscribe(setStatus);
+  }, []);
+
+  return status;
+}
+
+/**
+ * 測定の実行中は自動ロックを保留
+ * 実行中に自動ロックの時間が経過した場合は、終了してから改めて自動ロックの時間を数える
+ *
+ * @param isActive 測定・検査・解析を実行中か
+ */
+export function usePauseAutoLock(isActive: boolean): void {
+  const setActiveCaptureCount = useSetAtom(activeCaptureCountAtom);
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    setActiveCaptureCount((count) => count + 1);
+    return () => setActiveCaptureCount((count) => count - 1);
+  }, [isActive, setActiveCaptureCount]);
+}
@@ -1,45 +1,57 @@
 /**
  * MediaPipe Hands用カスタムフック
+ * 設定で選択した手の検出バックエンドを生成する
  */
 
 import { useEffect, useState, useCallback, useRef } from 'react';
-import { Hands, Results } from '@mediapipe/hands';
+import { useAtomValue } from 'jotai';
+import {
+  createHandTrackingBackend,
+  HandDetectionResult,
+  HandTrackingBackend,
+  HandTrackingOptions,
+} from '@/lib/mediapipe/hand-tracking-backend';
+import { handTrackingBackendAtom } from '@/shared/state/settings-atoms';
 
 /**
  * MediaPipe Handsフックの戻り値型
  */
 interface UseMediaPipeHandsReturn {
-  handsDetector: Hands | null;
+  handTracker: HandTrackingBackend | null;
   isLoaded: boolean;
   isLoading: boolean;
   error: string | null;
-  detectHands: (videoElement: HTMLVideoElement) => Promise<Results | null>;
-  lastResults: Results | null;
+  detectHands: (
+    videoElement: HTMLVideoElement
+  ) => Promise<HandDetectionResult | null>;
+  lastResults: HandDetectionResult | null;
 }
 
 /**
  * MediaPipe Hands設定
  */
-const MEDIAPIPE_CONFIG = {
-  locateFile: (file: string) =>
-    `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-  options: {
-    maxNumHands: 1,
-    modelComplexity: 1 as 0 | 1,
-    minDetectionConfidence: 0.5,
-    minTrackingConfidence: 0.5,
-  },
+const MEDIAPIPE_OPTIONS: HandTrackingOptions = {
+  maxNumHands: 1,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+  staticImageMode: false,
 };
 
 /**
  * MediaPipe Hands用カスタムフック
  */
 export function useMediaPipeHands(): UseMediaPipeHandsReturn {
-  const [handsDetector, setHandsDetector] = useState<Hands | null>(null);
+  const backendId = useAtomValue(handTrackingBackendAtom);
+  const [handTracker, setHandTracker] = useState<HandTrackingBackend | null>(
+    null
+  );
   const [isLoaded, setIsLoaded] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastResults, setLastResults] = useState<Results | null>(null);
+  const [lastResults, setLastResults] = useState<HandDetectionResult | null>(
+    null
+  );
 
   // MediaPipeの初期化状態を追跡
   const initializationRef = useRef<boolean>(false);
@@ -47,51 +59,50 @@ export function useMediaPipeHands(): UseMediaPipeHandsReturn {
   /**
    * MediaPipe Handsの初期化
    */
-  const initializeHands = useCallback(async (): Promise<Hands | null> => {
-    if (initializationRef.current) {
-      return handsDetector;
-    }
+  const initializeHands =
+    useCallback(async (): Promise<HandTrackingBackend | null> => {
+      if (initializationRef.current) {
+        return handTracker;
+      }
 
-    setIsLoading(true);
-    setError(null);
+      setIsLoading(true);
+      setError(null);
 
-    try {
-      // MediaPipe Handsインスタンスの作成
-      const hands = new Hands(MEDIAPIPE_CONFIG);
-
-      // オプションの設定
-      hands.setOptions(MEDIAPIPE_CONFIG.options);
-
-      // 結果ハンドラーの設定
-      hands.onResults((results: Results) => {
-        setLastResults(results);
-      });
-
-      // 初期化完了
-      setHandsDetector(hands);
-      setIsLoaded(true);
-      initializationRef.current = true;
-
-      return hands;
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error
-          ? err.message
-          : 'MediaPipe Handsの初期化に失敗しました';
-      setError(errorMessage);
-      console.error('MediaPipe Hands初期化エラー:', err);
-      return null;
-    } finally {
-      setIsLoading(false);
-    }
-  }, [handsDetector]);
+      try {
+        // 設定で選択したバックエンドの作成
+        const tracker = await createHandTrackingBackend(
+          backendId,
+          MEDIAPIPE_OPTIONS
+        );
+        await tracker.initialize();
+
+        // 初期化完了
+        setHandTracker(tracker);
+        setIsLoaded(true);
+        initializationRef.current = true;
+
+        return tracker;
+      } catch (err) {
+        const errorMessage =
+          err instanceof Error
+            ? err.message
+            : 'MediaPipe Handsの初期化に失敗しました';
+        setError(errorMessage);
+        console.error('MediaPipe Hands初期化エラー:', err);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    }, [backendId, handTracker]);
 
   /**
    * 手の検出実行
    */
   const detectHands = useCallback(
-    async (videoElement: HTMLVideoElement): Promise<Results | null> => {
-      if (!handsDetector) {
+    async (
+      videoElement: HTMLVideoElement
+    ): Promise<HandDetectionResult | null> => {
+      if (!handTracker) {
         setError('MediaPipe Handsが初期化されていません');
         return null;
       }
@@ -102,8 +113,12 @@ export function useMediaPipeHands(): UseMediaPipeHandsReturn {
       }
 
       try {
-        await handsDetector.send({ image: videoElement });
-        return lastResults;
+        const result = await handTracker.processFrame(
+          videoElement,
+          performance.now()
+        );
+        setLastResults(result);
+        return result;
       } catch (err) {
         const errorMessage =
           err instanceof Error ? err.message : '手の検出に失敗しました';
@@ -112,7 +127,7 @@ export function useMediaPipeHands(): UseMediaPipeHandsReturn {
         return null;
       }
     },
-    [handsDetector, lastResults]
+    [handTracker]
   );
 
   /**
@@ -129,12 +144,12 @@ export function useMediaPipeHands(): UseMediaPipeHandsReturn {
    */
   useEffect(() => {
     return () => {
-      if (handsDetector) {
-        handsDetector.close();
+      if (handTracker) {
+        handTracker.dispose();
       }
       initializationRef.current = false;
     };
-  }, [handsDetector]);
+  }, [handTracker]);
 
   /**
    * エラーのリセット
@@ -144,7 +159,7 @@ export function useMediaPipeHands(): UseMediaPipeHandsReturn {
   }, []);
 
   return {
-    handsDetector,
+    handTracker,
     isLoaded,
     isLoading,
     error,
@@ -0,0 +1,142 @@
+/**
+ * 測定方法間の一致度の統計
+ * AI測定値とゴニオメーター測定値のBland–Altman分析と級内相関係数（ICC）
+ */
+
+/**
+ * 比較する測定値の組
+ */
+export interface MeasurementPair {
+  /** AIによる測定値（度） */
+  aiAngle: number;
+
+  /** ゴニオメーターによる測定値（度） */
+  goniometerAngle: number;
+}
+
+/**
+ * Bland–Altmanプロットの点
+ */
+export interface BlandAltmanPoint {
+  /** 2つの測定値の平均（度） */
+  mean: number;
+
+  /** 測定値の差（AI − ゴニオメーター、度） */
+  difference: number;
+}
+
+/**
+ * 一致度の統計
+ */
+export interface AgreementStatistics {
+  /** 測定値の組の数 */
+  count: number;
+
+  /** 平均バイアス（差の平均、度） */
+  meanBias: number;
+
+  /** 差の標準偏差（度） */
+  sdDifference: number;
+
+  /** 95%一致限界の下限（度） */
+  lowerLimit: number;
+
+  /** 95%一致限界の上限（度） */
+  upperLimit: number;
+
+  /** ICC(2,1)：二元配置変量モデル・絶対一致・単一測定（算出できない場合はnull） */
+  icc: number | null;
+}
+
+/**
+ * 95%一致限界の係数
+ */
+const LIMITS_OF_AGREEMENT_Z = 1.96;
+
+/**
+ * Bland–Altmanプロットの点を計算
+ */
+export const calculateBlandAltmanPoints = (
+  pairs: MeasurementPair[]
+): BlandAltmanPoint[] =>
+  pairs.map(({ aiAngle, goniometerAngle }) => ({
+    mean: (aiAngle + goniometerAngle) / 2,
+    difference: aiAngle - goniometerAngle,
+  }));
+
+/**
+ * ICC(2,1)を計算（Shrout & Fleiss）
+ * 2つの測定方法を評価者とみなし、系統誤差も不一致として扱う
+ *
+ * @param pairs 測定値の組
+ * @returns ICC（組が2未満または分散がない場合はnull）
+ */
+export const calculateIcc = (pairs: MeasurementPair[]): number | null => {
+  const n = pairs.length;
+  const k = 2;
+  if (n < 2) return null;
+
+  const rows = pairs.map((p) => [p.aiAngle, p.goniometerAngle] as const);
+  const grandMean = rows.reduce((sum, [a, b]) => sum + a + b, 0) / (n * k);
+  const rowMeans = rows.map(([a, b]) => (a + b) / 2);
+  const columnMeans = [
+    rows.reduce((sum, [a]) => sum + a, 0) / n,
+    rows.reduce((sum, [, b]) => sum + b, 0) / n,
+  ];
+
+  const ssRows = k * rowMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+  const ssColumns =
+    n * columnMeans.reduce((sum, m) => sum + (m - grandMean) ** 2, 0);
+  const ssError = rows.reduce(
+    (sum, row, i) =>
+      sum +
+      row.reduce(
+        (rowSum, value, j) =>
+          rowSum +
+          (value - (rowMeans[i] ?? 0) - (columnMeans[j] ?? 0) + grandMean) ** 2,
+        0
+      ),
+    0
+  );
+
+  const msRows = ssRows / (n - 1);
+  const msColumns = ssColumns / (k - 1);
+  const msError = ssError / ((n - 1) * (k - 1));
+
+  const denominator =
+    msRows + (k - 1) * msError + (k * (msColumns - msError)) / n;
+  if (denominator === 0) return null;
+
+  return (msRows - msError) / denominator;
+};
+
+/**
+ * 一致度の統計を計算
+ *
+ * @param pairs 測定値の組
+ * @returns 一致度の統計（組が2未満の場合はnull）
+ */
+export const calculateAgreementStatistics = (
+  pairs: MeasurementPair[]
+): AgreementStatistics | null => {
+  if (pairs.length < 2) return null;
+
+  const differences = calculateBlandAltmanPoints(pairs).map(
+    (p) => p.difference
+  );
+  const meanBias =
+    differences.reduce((sum, d) => sum + d, 0) / differences.length;
+  const sdDifference = Math.sqrt(
+    differences.reduce((sum, d) => sum + (d - meanBias) ** 2, 0) /
+      (differences.length - 1)
+  );
+
+  return {
+    count: pairs.length,
+    meanBias,
+    sdDifference,
+    lowerLimit: meanBias - LIMITS_OF_AGREEMENT_Z * sdDifference,
+    upperLimit: meanBias + LIMITS_OF_AGREEMENT_Z * sdDifference,
+    icc: calculateIcc(pairs),
+  };
+};
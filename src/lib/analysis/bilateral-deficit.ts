@@ -0,0 +1,131 @@
+/**
+ * 左右比較（患側・健側）の可動域不足
+ * 健側の可動域をその患者の正常値とみなし、患側の不足を角度と割合で求める
+ */
+
+/**
+ * 左右比較に使用する測定値
+ */
+export interface SideAngle {
+  /** 測定した手 */
+  hand: 'left' | 'right';
+
+  /** ステップID */
+  stepId: string;
+
+  /** ステップ名（日本語） */
+  stepName: string;
+
+  /** 測定角度（度） */
+  angle: number;
+}
+
+/**
+ * 運動ごとの左右差
+ */
+export interface BilateralDeficit {
+  /** ステップID */
+  stepId: string;
+
+  /** ステップ名（日本語） */
+  stepName: string;
+
+  /** 患側の角度（度） */
+  affectedAngle: number;
+
+  /** 健側の角度（度） */
+  unaffectedAngle: number;
+
+  /** 可動域不足（健側 − 患側、度）。患側が上回る場合は負 */
+  deficitDegrees: number;
+
+  /** 健側に対する可動域不足の割合（%、健側が0度の場合はnull） */
+  deficitPercent: number | null;
+}
+
+/**
+ * 健側に対する可動域不足を計算
+ *
+ * @param affectedAngle 患側の角度（度）
+ * @param unaffectedAngle 健側の角度（度）
+ * @returns 可動域不足（度）と健側に対する割合（%）
+ */
+export const calculateDeficit = (
+  affectedAngle: number,
+  unaffectedAngle: number
+): Pick<BilateralDeficit, 'deficitDegrees' | 'deficitPercent'> => {
+  const deficitDegrees = unaffectedAngle - affectedAngle;
+  return {
+    deficitDegrees,
+    deficitPercent:
+      unaffectedAngle > 0 ? (deficitDegrees / unaffectedAngle) * 100 : null,
+  };
+};
+
+/**
+ * 手ごとに各ステップの最大角度を取得
+ */
+const collectMaxAngles = (
+  angles: SideAngle[],
+  hand: 'left' | 'right'
+): Map<string, SideAngle> => {
+  const maxAngles = new Map<string, SideAngle>();
+  angles
+    .filter((angle) => angle.hand === hand)
+    .forEach((angle) => {
+      const current = maxAngles.get(angle.stepId);
+      if (!current || angle.angle > current.angle) {
+        maxAngles.set(angle.stepId, angle);
+      }
+    });
+  return maxAngles;
+};
+
+/**
+ * 運動ごとの左右差を計算
+ * 各ステップの左右それぞれの最大角度を比較し、両側を測定したステップのみ返す
+ *
+ * @param angles 両手の測定値
+ * @param affectedHand 患側の手
+ * @returns 運動ごとの左右差（患側の測定順）
+ */
+export const calculateBilateralDeficits = (
+  angles: SideAngle[],
+  affectedHand: 'left' | 'right'
+): BilateralDeficit[] => {
+  const affected = collectMaxAngles(angles, affectedHand);
+  const unaffected = collectMaxAngles(
+    angles,
+    affectedHand === 'left' ? 'right' : 'left'
+  );
+
+  return Array.from(affected.values()).flatMap((affectedAngle) => {
+    const unaffectedAngle = unaffected.get(affectedAngle.stepId);
+    if (!unaffectedAngle) return [];
+    return [
+      {
+        stepId: affectedAngle.stepId,
+        stepName: affectedAngle.stepName,
+        affectedAngle: affectedAngle.angle,
+        unaffectedAngle: unaffectedAngle.angle,
+        ...calculateDeficit(affectedAngle.angle, unaffectedAngle.angle),
+      },
+    ];
+  });
+};
+
+/**
+ * 健側の角度を患側の目標角度として取得
+ *
+ * @param angles 健側の測定値
+ * @returns ステップIDごとの目標角度（度）
+ */
+export const getContralateralTargets = (
+  angles: SideAngle[]
+): Record<string, number> => {
+  const targets: Record<string, number> = {};
+  angles.forEach((angle) => {
+    targets[angle.stepId] = Math.max(targets[angle.stepId] ?? 0, angle.angle);
+  });
+  return targets;
+};
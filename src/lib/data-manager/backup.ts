@@ -0,0 +1,88 @@
+/**
+ * バックアップのレコード変換
+ * JSONに書き出せないBlob（セッションの録画など）をBase64の文字列に変換し、読み込み時にBlobに戻す
+ */
+
+/**
+ * Base64に変換したBlob
+ */
+export interface EncodedBlob {
+  $blob: {
+    type: string;
+    base64: string;
+  };
+}
+
+/**
+ * String.fromCharCodeに一度に渡すバイト数（引数の上限を超えないようにする）
+ */
+const BASE64_CHUNK_SIZE = 0x8000;
+
+/**
+ * Base64に変換したBlobか
+ */
+const isEncodedBlob = (value: unknown): value is EncodedBlob =>
+  typeof value === 'object' &&
+  value !== null &&
+  '$blob' in value &&
+  typeof (value as EncodedBlob).$blob?.base64 === 'string';
+
+/**
+ * BlobをBase64に変換
+ */
+const encodeBlob = async (blob: Blob): Promise<EncodedBlob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(
+      ...Array.from(bytes.subarray(offset, offset + BASE64_CHUNK_SIZE))
+    );
+  }
+  return { $blob: { type: blob.type, base64: btoa(binary) } };
+};
+
+/**
+ * Base64からBlobに戻す
+ */
+const decodeBlob = ({ $blob }: EncodedBlob): Blob => {
+  const binary = atob($blob.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: $blob.type });
+};
+
+/**
+ * レコードをJSONに書き出せる形式に変換（Blobのフィールドを Base64 に変換）
+ *
+ * @param record テーブルのレコード
+ * @returns 変換したレコード
+ */
+export const encodeBackupRecord = async (
+  record: Record<string, unknown>
+): Promise<Record<string, unknown>> =>
+  Object.fromEntries(
+    await Promise.all(
+      Object.keys(record).map(async (key) => {
+        const value = record[key];
+        return [key, value instanceof Blob ? await encodeBlob(value) : value];
+      })
+    )
+  );
+
+/**
+ * バックアップから読み込んだレコードを保存できる形式に戻す（Base64のフィールドをBlobに戻す）
+ *
+ * @param record バックアップのレコード
+ * @returns 変換したレコード
+ */
+export const decodeBackupRecord = (
+  record: Record<string, unknown>
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.keys(record).map((key) => {
+      const value = record[key];
+      return [key, isEncodedBlob(value) ? decodeBlob(value) : value];
+    })
+  );
@@ -0,0 +1,305 @@
+/**
+ * 測定データ・カレンダー記録のCSVエクスポート
+ * 表計算ソフトでの分析用に、出力する列と期間を選んでCSVを作成する
+ */
+
+import { formatCsv } from './csv';
+import { getDateKey } from './models/daily-aggregation';
+import {
+  ComparisonStatus,
+  MEASUREMENT_SOURCE_LABELS,
+  MOTION_ANGLE_FIELD_LABELS,
+  MotionAngleField,
+  MotionMeasurement,
+  TIME_OF_DAY_LABELS,
+  getTimeOfDay,
+  isMeasuredField,
+} from './models/motion-measurement';
+import type { CalendarRecord } from './models/calendar-record';
+
+/**
+ * CSVの列
+ */
+export interface CsvColumn<TRow, TId extends string = string> {
+  id: TId;
+  /** ヘッダーの表示名 */
+  label: string;
+  value: (row: TRow) => string;
+}
+
+/**
+ * エクスポートの条件
+ */
+export interface CsvExportOptions<TId extends string> {
+  /** 出力する列（省略時はすべての列） */
+  columns?: TId[];
+  /** 期間の開始日（この日を含む） */
+  startDate?: Date;
+  /** 期間の終了日（この日を含む） */
+  endDate?: Date;
+}
+
+/**
+ * 測定項目の一覧（出力順）
+ */
+const MOTION_FIELDS = Object.keys(
+  MOTION_ANGLE_FIELD_LABELS
+) as MotionAngleField[];
+
+/**
+ * 測定データのCSVの1行（1回の測定の1つの測定項目）
+ */
+export interface MeasurementCsvRow {
+  measurement: MotionMeasurement;
+  field: MotionAngleField;
+  angle: number;
+}
+
+/**
+ * 正常範囲との比較結果の表示
+ */
+const formatComparisonStatus = (status: ComparisonStatus | undefined) => {
+  if (!status) return '';
+  switch (status.status) {
+    case 'normal':
+      return '正常範囲';
+    case 'below_normal':
+      return `不足（${status.deficit_degrees}度）`;
+    case 'above_normal':
+      return `超過（${status.excess_degrees}度）`;
+  }
+};
+
+/**
+ * 測定項目の正常範囲との比較結果（回内・回外は比較しない）
+ */
+const getComparisonStatus = (
+  measurement: MotionMeasurement,
+  field: MotionAngleField
+): ComparisonStatus | undefined =>
+  field === 'wristPronation' || field === 'wristSupination'
+    ? undefined
+    : measurement.comparisonResult?.[field];
+
+/**
+ * 時刻（HH:mm）
+ */
+const formatTime = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(
+    date.getMinutes()
+  ).padStart(2, '0')}`;
+
+/**
+ * 真偽値の表示
+ */
+const formatBoolean = (value: boolean) => (value ? 'はい' : 'いいえ');
+
+/**
+ * 未記録の場合は空欄にする
+ */
+const formatOptional = (value: number | string | undefined) =>
+  value === undefined ? '' : String(value);
+
+/**
+ * 測定データのCSVの列
+ */
+export const MEASUREMENT_CSV_COLUMNS = [
+  {
+    id: 'date',
+    label: '測定日',
+    value: ({ measurement }) =>
+      getDateKey(new Date(measurement.measurementDate)),
+  },
+  {
+    id: 'time',
+    label: '測定時刻',
+    value: ({ measurement }) =>
+      formatTime(new Date(measurement.measurementDate)),
+  },
+  {
+    id: 'timeOfDay',
+    label: '時間帯',
+    value: ({ measurement }) =>
+      TIME_OF_DAY_LABELS[
+        measurement.timeOfDay ??
+          getTimeOfDay(new Date(measurement.measurementDate))
+      ],
+  },
+  {
+    id: 'sessionId',
+    label: 'セッションID',
+    value: ({ measurement }) => measurement.sessionId ?? '',
+  },
+  {
+    id: 'hand',
+    label: '測定手',
+    value: ({ measurement }) =>
+      measurement.handUsed === 'left' ? '左手' : '右手',
+  },
+  {
+    id: 'motion',
+    label: '測定項目',
+    value: ({ field }) => MOTION_ANGLE_FIELD_LABELS[field],
+  },
+  {
+    id: 'angle',
+    label: '角度（度）',
+    value: ({ angle }) => String(angle),
+  },
+  {
+    id: 'accuracy',
+    label: '測定精度',
+    value: ({ measurement }) => String(measurement.accuracyScore),
+  },
+  {
+    id: 'comparison',
+    label: '正常範囲との比較',
+    value: ({ measurement, field }) =>
+      formatComparisonStatus(getComparisonStatus(measurement, field)),
+  },
+  {
+    id: 'source',
+    label: '取得元',
+    value: ({ measurement }) =>
+      MEASUREMENT_SOURCE_LABELS[measurement.source?.type ?? 'camera'],
+  },
+] as const satisfies readonly CsvColumn<MeasurementCsvRow>[];
+
+export type MeasurementCsvColumnId =
+  (typeof MEASUREMENT_CSV_COLUMNS)[number]['id'];
+
+/**
+ * カレンダー記録のCSVの列
+ */
+export const CALENDAR_CSV_COLUMNS = [
+  {
+    id: 'date',
+    label: '記録日',
+    value: (record) => getDateKey(new Date(record.recordDate)),
+  },
+  {
+    id: 'rehabCompleted',
+    label: 'リハビリ実施',
+    value: (record) => formatBoolean(record.rehabCompleted),
+  },
+  {
+    id: 'measurementCompleted',
+    label: '測定実施',
+    value: (record) => formatBoolean(record.measurementCompleted),
+  },
+  {
+    id: 'painLevel',
+    label: '痛みレベル',
+    value: (record) => formatOptional(record.painLevel),
+  },
+  {
+    id: 'motivationLevel',
+    label: 'モチベーション',
+    value: (record) => formatOptional(record.motivationLevel),
+  },
+  {
+    id: 'performanceLevel',
+    label: '動作レベル',
+    value: (record) => formatOptional(record.performanceLevel),
+  },
+  {
+    id: 'notes',
+    label: 'メモ',
+    value: (record) => record.notes ?? '',
+  },
+] as const satisfies readonly CsvColumn<CalendarRecord>[];
+
+export type CalendarCsvColumnId = (typeof CALENDAR_CSV_COLUMNS)[number]['id'];
+
+/**
+ * 日付が期間内かどうか（日単位で比較）
+ */
+export const isWithinDateRange = (
+  date: Date,
+  startDate?: Date,
+  endDate?: Date
+): boolean => {
+  const key = getDateKey(date);
+  if (startDate && key < getDateKey(startDate)) return false;
+  if (endDate && key > getDateKey(endDate)) return false;
+  return true;
+};
+
+/**
+ * 選択した列の行を作成
+ */
+const createCsv = <TRow, TId extends string>(
+  allColumns: readonly CsvColumn<TRow, TId>[],
+  rows: TRow[],
+  selectedColumns?: TId[]
+): string => {
+  const columns = selectedColumns
+    ? allColumns.filter((column) => selectedColumns.includes(column.id))
+    : allColumns;
+  return formatCsv([
+    columns.map((column) => column.label),
+    ...rows.map((row) => columns.map((column) => column.value(row))),
+  ]);
+};
+
+/**
+ * 測定データのCSVを作成
+ * 1回の測定の測定項目ごとに1行とし、未測定の項目は出力しない
+ *
+ * @param measurements 測定データ
+ * @param options 出力する列と期間
+ */
+export const createMeasurementCsv = (
+  measurements: MotionMeasurement[],
+  options: CsvExportOptions<MeasurementCsvColumnId> = {}
+): string => {
+  const rows = measurements
+    .filter((measurement) =>
+      isWithinDateRange(
+        new Date(measurement.measurementDate),
+        options.startDate,
+        options.endDate
+      )
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.measurementDate).getTime() -
+        new Date(b.measurementDate).getTime()
+    )
+    .flatMap((measurement) =>
+      MOTION_FIELDS.flatMap((field) => {
+        const angle = measurement[field];
+        return angle === undefined || !isMeasuredField(measurement, field)
+          ? []
+          : [{ measurement, field, angle }];
+      })
+    );
+
+  return createCsv(MEASUREMENT_CSV_COLUMNS, rows, options.columns);
+};
+
+/**
+ * カレンダー記録のCSVを作成
+ *
+ * @param records カレンダー記録
+ * @param options 出力する列と期間
+ */
+export const createCalendarCsv = (
+  records: CalendarRecord[],
+  options: CsvExportOptions<CalendarCsvColumnId> = {}
+): string => {
+  const rows = records
+    .filter((record) =>
+      isWithinDateRange(
+        new Date(record.recordDate),
+        options.startDate,
+        options.endDate
+      )
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.recordDate).getTime() - new Date(b.recordDate).getTime()
+    );
+
+  return createCsv(CALENDAR_CSV_COLUMNS, rows, options.columns);
+};
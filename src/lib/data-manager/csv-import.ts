@@ -0,0 +1,332 @@
+/**
+ * 医療機関のゴニオメーター測定値のCSV取り込み
+ * CSVの列と測定項目の対応を指定し、validateMeasurementで検証したうえで測定データに変換する
+ */
+
+import type { CsvRow } from './csv';
+import {
+  CreateMeasurementInput,
+  HandType,
+  MOTION_ANGLE_FIELD_LABELS,
+  MotionAngleField,
+  MotionMeasurement,
+  createMeasurement,
+  validateMeasurement,
+} from './models/motion-measurement';
+
+/**
+ * 取り込む項目（測定日・測定手・各測定項目の角度）
+ */
+export type MeasurementImportField =
+  | 'measurementDate'
+  | 'handUsed'
+  | MotionAngleField;
+
+/**
+ * 取り込む項目の表示名（選択肢の表示順）
+ */
+export const MEASUREMENT_IMPORT_FIELD_LABELS: Record<
+  MeasurementImportField,
+  string
+> = {
+  measurementDate: '測定日',
+  handUsed: '測定手',
+  ...MOTION_ANGLE_FIELD_LABELS,
+};
+
+/**
+ * 取り込む項目の一覧
+ */
+export const MEASUREMENT_IMPORT_FIELDS = Object.keys(
+  MEASUREMENT_IMPORT_FIELD_LABELS
+) as MeasurementImportField[];
+
+/**
+ * 測定項目の一覧
+ */
+const MOTION_FIELDS = Object.keys(
+  MOTION_ANGLE_FIELD_LABELS
+) as MotionAngleField[];
+
+/**
+ * 取り込む項目とCSVの列番号の対応（対応する列がない項目は省略）
+ */
+export type CsvColumnMapping = Partial<Record<MeasurementImportField, number>>;
+
+/**
+ * 取り込みの条件
+ */
+export interface MeasurementImportOptions {
+  userId: string;
+  /** 測定手の列がない場合・空欄の場合の測定手 */
+  defaultHand?: HandType;
+  /** 取り込むファイル名（取得元として記録する） */
+  fileName: string;
+  /** 取り込み日時 */
+  importedAt?: Date;
+}
+
+/**
+ * 取り込めなかった行
+ */
+export interface MeasurementImportError {
+  /** CSVファイル上の行番号（空行・値の中の改行も数える） */
+  line: number;
+  messages: string[];
+}
+
+/**
+ * 取り込みの結果
+ */
+export interface MeasurementImportResult {
+  measurements: MotionMeasurement[];
+  errors: MeasurementImportError[];
+}
+
+/**
+ * ヘッダー名から対応を推測するための別名
+ */
+const FIELD_ALIASES: Record<MeasurementImportField, string[]> = {
+  measurementDate: ['測定日', '日付', '測定日時', 'date'],
+  handUsed: ['測定手', '左右', '患側', 'hand', 'side'],
+  wristFlexion: ['手関節掌屈', '掌屈', '手首掌屈'],
+  wristExtension: ['手関節背屈', '背屈', '手首背屈'],
+  wristUlnarDeviation: ['手関節尺屈', '尺屈', '手首尺屈'],
+  wristRadialDeviation: ['手関節橈屈', '橈屈', '手首橈屈'],
+  wristPronation: ['前腕回内', '回内'],
+  wristSupination: ['前腕回外', '回外'],
+  thumbFlexion: ['母指屈曲'],
+  thumbExtension: ['母指伸展'],
+  thumbAdduction: ['母指尺側内転', '母指内転'],
+  thumbAbduction: ['母指橈側外転', '母指外転'],
+};
+
+/**
+ * ヘッダー名の比較用の正規化（空白・括弧内の単位を除き、小文字にする）
+ */
+const normalizeHeader = (header: string) =>
+  header
+    .replace(/[（(][^）)]*[）)]/g, '')
+    .replace(/\s/g, '')
+    .toLowerCase();
+
+/**
+ * ヘッダー名から取り込む項目との対応を推測
+ * 項目名（英語）・表示名・よく使われる別名と一致する列を対応させる
+ *
+ * @param headers CSVのヘッダー
+ */
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+
+  MEASUREMENT_IMPORT_FIELDS.forEach((field) => {
+    const candidates = [field, ...FIELD_ALIASES[field]].map(normalizeHeader);
+    const index = normalized.findIndex((header) => candidates.includes(header));
+    if (index >= 0) mapping[field] = index;
+  });
+
+  return mapping;
+};
+
+/**
+ * 列の対応の検証
+ *
+ * @param mapping 取り込む項目とCSVの列番号の対応
+ * @param defaultHand 測定手の列がない場合の測定手
+ * @returns エラーメッセージ（問題がなければ空配列）
+ */
+export const validateColumnMapping = (
+  mapping: CsvColumnMapping,
+  defaultHand?: HandType
+): string[] => {
+  const errors: string[] = [];
+
+  if (mapping.measurementDate === undefined) {
+    errors.push('測定日の列を選択してください');
+  }
+  if (mapping.handUsed === undefined && !defaultHand) {
+    errors.push('測定手の列を選択するか、測定手を指定してください');
+  }
+  if (MOTION_FIELDS.every((field) => mapping[field] === undefined)) {
+    errors.push('角度の列を1つ以上選択してください');
+  }
+
+  return errors;
+};
+
+/**
+ * 測定日の読み込み（YYYY-MM-DD・YYYY/MM/DD、時刻 HH:mm は省略可）
+ * 時刻の指定がない場合は0時（ローカル時刻）とする
+ *
+ * @returns 測定日（読み込めない場合はnull）
+ */
+export const parseImportDate = (value: string): Date | null => {
+  const match = value
+    .trim()
+    .match(
+      /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/
+    );
+  if (!match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1)
+    .map((part) => (part === undefined ? 0 : Number(part)));
+  const date = new Date(
+    year ?? 0,
+    (month ?? 1) - 1,
+    day ?? 1,
+    hours,
+    minutes,
+    seconds
+  );
+
+  // 2月30日などの存在しない日付は繰り上がるため除く
+  return date.getMonth() === (month ?? 1) - 1 ? date : null;
+};
+
+/**
+ * 測定手の読み込み（左/右・L/R・left/right）
+ *
+ * @returns 測定手（読み込めない場合はnull）
+ */
+export const parseImportHand = (value: string): HandType | null => {
+  const hand = value.trim().toLowerCase();
+  if (['左', '左手', 'l', 'left'].includes(hand)) return 'left';
+  if (['右', '右手', 'r', 'right'].includes(hand)) return 'right';
+  return null;
+};
+
+/**
+ * 角度の読み込み（「°」「度」の単位は除く）
+ *
+ * @returns 角度（空欄の場合はundefined、数値でない場合はNaN）
+ */
+export const parseImportAngle = (value: string): number | undefined => {
+  const angle = value.trim().replace(/(°|度)$/, '');
+  return angle === '' ? undefined : Number(angle);
+};
+
+/**
+ * CSVの1行を測定データの入力に変換
+ *
+ * @returns 測定データの入力とエラーメッセージ
+ */
+const toMeasurementInput = (
+  row: string[],
+  mapping: CsvColumnMapping,
+  options: MeasurementImportOptions,
+  importedAt: Date
+): { input: CreateMeasurementInput | null; errors: string[] } => {
+  const errors: string[] = [];
+  const cell = (field: MeasurementImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '');
+  };
+
+  const measurementDate = parseImportDate(cell('measurementDate'));
+  if (!measurementDate) {
+    errors.push(`測定日を読み込めません（${cell('measurementDate')}）`);
+  }
+
+  const handValue = cell('handUsed');
+  const handUsed =
+    handValue.trim() === '' ? options.defaultHand : parseImportHand(handValue);
+  if (!handUsed) {
+    errors.push(
+      handValue.trim() === ''
+        ? '測定手が空欄です'
+        : `測定手を読み込めません（${handValue}）`
+    );
+  }
+
+  const angles: Partial<Record<MotionAngleField, number>> = {};
+  MOTION_FIELDS.forEach((field) => {
+    const angle = parseImportAngle(cell(field));
+    if (angle === undefined) return;
+    if (Number.isNaN(angle)) {
+      errors.push(
+        `${MOTION_ANGLE_FIELD_LABELS[field]}の角度を読み込めません（${cell(field)}）`
+      );
+      return;
+    }
+    angles[field] = angle;
+  });
+  if (Object.keys(angles).length === 0) {
+    errors.push('角度が1つも入力されていません');
+  }
+
+  if (!measurementDate || !handUsed || errors.length > 0) {
+    return { input: null, errors };
+  }
+
+  return {
+    input: {
+      userId: options.userId,
+      measurementDate,
+      // 空欄の項目は0度で記録し、測定した項目に含めない
+      wristFlexion: angles.wristFlexion ?? 0,
+      wristExtension: angles.wristExtension ?? 0,
+      wristUlnarDeviation: angles.wristUlnarDeviation ?? 0,
+      wristRadialDeviation: angles.wristRadialDeviation ?? 0,
+      ...(angles.wristPronation !== undefined
+        ? { wristPronation: angles.wristPronation }
+        : {}),
+      ...(angles.wristSupination !== undefined
+        ? { wristSupination: angles.wristSupination }
+        : {}),
+      thumbFlexion: angles.thumbFlexion ?? 0,
+      thumbExtension: angles.thumbExtension ?? 0,
+      thumbAdduction: angles.thumbAdduction ?? 0,
+      thumbAbduction: angles.thumbAbduction ?? 0,
+      // ゴニオメーターによる測定は基準となる値のため、精度は最大とする
+      accuracyScore: 1,
+      handUsed,
+      measuredFields: MOTION_FIELDS.filter(
+        (field) => angles[field] !== undefined
+      ),
+      source: {
+        type: 'goniometer-import',
+        fileName: options.fileName,
+        importedAt,
+      },
+    },
+    errors: [],
+  };
+};
+
+/**
+ * CSVの行をゴニオメーター測定値の測定データに変換
+ * 行ごとにvalidateMeasurementで検証し、エラーのある行は取り込まずに行番号とエラーを返す
+ *
+ * @param rows CSVの行番号付きの行（1行目はヘッダー）
+ * @param mapping 取り込む項目とCSVの列番号の対応
+ * @param options 取り込みの条件
+ */
+export const importGoniometerMeasurements = (
+  rows: CsvRow[],
+  mapping: CsvColumnMapping,
+  options: MeasurementImportOptions
+): MeasurementImportResult => {
+  const importedAt = options.importedAt ?? new Date();
+  const measurements: MotionMeasurement[] = [];
+  const errors: MeasurementImportError[] = [];
+
+  rows.slice(1).forEach(({ line, values }) => {
+    const { input, errors: rowErrors } = toMeasurementInput(
+      values,
+      mapping,
+      options,
+      importedAt
+    );
+    const validationErrors = input ? validateMeasurement(input) : rowErrors;
+
+    if (!input || validationErrors.length > 0) {
+      errors.push({ line, messages: validationErrors });
+      return;
+    }
+    measurements.push(createMeasurement(input));
+  });
+
+  return { measurements, errors };
+};
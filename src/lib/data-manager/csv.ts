@@ -0,0 +1,123 @@
+/**
+ * CSVの作成・読み込み（RFC 4180）
+ * 表計算ソフトで開けるよう、カンマ・改行・ダブルクォートを含む値はダブルクォートで囲む
+ */
+
+/**
+ * CSVの1行と、ファイル上の行番号
+ */
+export interface CsvRow {
+  /** ファイル上の行番号（1始まり、複数行の値を含む行は開始行） */
+  line: number;
+  values: string[];
+}
+
+/**
+ * Excelで文字化けせずに開けるよう、CSVファイルの先頭に付けるBOM
+ */
+export const CSV_BOM = '\uFEFF';
+
+/**
+ * 表計算ソフトで数式として扱われる値の先頭文字
+ */
+const FORMULA_PREFIX_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * 数値（負の数を含む）
+ */
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+/**
+ * 数式として扱われる値の先頭に「'」を付け、文字列として開かれるようにする（数値はそのまま）
+ */
+const neutralizeFormula = (value: string): string =>
+  FORMULA_PREFIX_PATTERN.test(value) && !NUMBER_PATTERN.test(value)
+    ? `'${value}`
+    : value;
+
+/**
+ * CSVの値をエスケープ
+ */
+const escapeCsvValue = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * 行の配列からCSVを作成
+ * メモなどの自由入力が表計算ソフトで数式として実行されないよう、数式となる値は無効化する
+ *
+ * @param rows 1行目をヘッダーとする行の配列
+ * @returns CSV（改行はCRLF）
+ */
+export const formatCsv = (rows: string[][]): string =>
+  rows
+    .map((row) =>
+      row.map((value) => escapeCsvValue(neutralizeFormula(value))).join(',')
+    )
+    .join('\r\n') + '\r\n';
+
+/**
+ * CSVを行番号付きの行の配列に変換
+ * ダブルクォートで囲んだ値の中のカンマ・改行・エスケープしたダブルクォートに対応し、
+ * 先頭のBOMと空行は除く
+ *
+ * @param text CSV
+ * @returns 行の配列（1行目はヘッダー）
+ */
+export const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some((cell) => cell.trim() !== '')) {
+      rows.push({ line: rowLine, values: row });
+    }
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // 値の中の改行も行番号に数える（CRLFは1行）
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+/**
+ * CSVを行の配列に変換（行番号が不要な場合）
+ *
+ * @param text CSV
+ * @returns 行の配列（1行目はヘッダー）
+ */
+export const parseCsv = (text: string): string[][] =>
+  parseCsvRows(text).map(({ values }) => values);
@@ -1,54 +1,22 @@
 /**
- * IndexedDB スキーマ定義とDexie設定
+ * IndexedDB 接続管理とDexie設定
  * クライアントサイドデータベース管理
  */
 
-import Dexie, { Table } from 'dexie';
-import { User } from './models/user';
-import { MotionMeasurement } from './models/motion-measurement';
-import { CalendarRecord } from './models/calendar-record';
-import { ProgressData } from './models/progress-data';
+import { db, RehabDatabase } from '@/lib/database/measurement-db';
+import { decodeBackupRecord, encodeBackupRecord } from './backup';
+import { createFhirBundle, FhirBundle } from './fhir-export';
+import {
+  CalendarCsvColumnId,
+  CsvExportOptions,
+  MeasurementCsvColumnId,
+  createCalendarCsv,
+  createMeasurementCsv,
+} from './csv-export';
+import type { MotionMeasurement } from './models/motion-measurement';
 
-/**
- * リハビリテーションアプリケーション用データベース
- */
-export class RehabDatabase extends Dexie {
-  // テーブル定義
-  users!: Table<User>;
-  measurements!: Table<MotionMeasurement>;
-  records!: Table<CalendarRecord>;
-  progress!: Table<ProgressData>;
-
-  constructor() {
-    super('RehabDatabase');
-
-    // データベーススキーマ定義
-    this.version(1).stores({
-      // ユーザーテーブル
-      users: 'id, name, createdAt',
-
-      // 測定データテーブル
-      measurements:
-        'id, userId, measurementDate, handUsed, createdAt, [userId+measurementDate]',
-
-      // カレンダー記録テーブル
-      records:
-        'id, userId, recordDate, createdAt, updatedAt, [userId+recordDate]',
-
-      // 進捗データテーブル
-      progress:
-        'id, userId, analysisDate, analysisPeriod, createdAt, [userId+analysisPeriod]',
-    });
-
-    // スキーマアップグレード時のマイグレーション
-    this.version(1).upgrade(async (transaction) => {
-      console.log('RehabDatabase: 初期スキーマを作成しました');
-    });
-  }
-}
-
-// データベースインスタンス
-export const db = new RehabDatabase();
+// スキーマは測定セッション・ステップごとの測定結果と統合したデータベースで定義
+export { db, RehabDatabase };
 
 /**
  * データベース接続状態ハンドリング
@@ -81,28 +49,30 @@ export const initializeDatabase = async (): Promise<void> => {
 export const getDatabaseStatus = async () => {
   try {
     const isOpen = db.isOpen();
-    const userCount = isOpen ? await db.users.count() : 0;
-    const measurementCount = isOpen ? await db.measurements.count() : 0;
-    const recordCount = isOpen ? await db.records.count() : 0;
-    const progressCount = isOpen ? await db.progress.count() : 0;
+    const tables = Object.fromEntries(
+      await Promise.all(
+        db.tables.map(
+          async (table) =>
+            [table.name, isOpen ? await table.count() : 0] as const
+        )
+      )
+    );
 
     return {
       isOpen,
       version: db.verno,
-      tables: {
-        users: userCount,
-        measurements: measurementCount,
-        records: recordCount,
-        progress: progressCount,
-      },
-      totalRecords: userCount + measurementCount + recordCount + progressCount,
+      tables,
+      totalRecords: Object.values(tables).reduce(
+        (total, count) => total + count,
+        0
+      ),
     };
   } catch (error) {
     console.error('RehabDatabase: ステータス取得エラー:', error);
     return {
       isOpen: false,
       version: 0,
-      tables: { users: 0, measurements: 0, records: 0, progress: 0 },
+      tables: {},
       totalRecords: 0,
       error: error instanceof Error ? error.message : 'Unknown error',
     };
@@ -128,25 +98,33 @@ export const resetDatabase = async (): Promise<void> => {
   }
 };
 
+/**
+ * エクスポート・インポートするテーブル
+ * 鍵の導出情報はこの端末の暗号化の設定のため含めない
+ */
+const getBackupTables = () =>
+  db.tables.filter((table) => table.name !== db.keyring.name);
+
 /**
  * データベースエクスポート（バックアップ用）
+ * 暗号化している場合は復号したデータを書き出す
+ * 録画などのBlobはJSONに書き出せるようBase64に変換する
  */
 export const exportDatabase = async () => {
   try {
-    const users = await db.users.toArray();
-    const measurements = await db.measurements.toArray();
-    const records = await db.records.toArray();
-    const progress = await db.progress.toArray();
+    const data = Object.fromEntries(
+      await Promise.all(
+        getBackupTables().map(async (table) => [
+          table.name,
+          await Promise.all((await table.toArray()).map(encodeBackupRecord)),
+        ])
+      )
+    );
 
     return {
       version: db.verno,
       exportDate: new Date().toISOString(),
-      data: {
-        users,
-        measurements,
-        records,
-        progress,
-      },
+      data,
     };
   } catch (error) {
     console.error('RehabDatabase: エクスポートエラー:', error);
@@ -156,34 +134,25 @@ export const exportDatabase = async () => {
 
 /**
  * データベースインポート（リストア用）
+ * 統合前（v1）のエクスポートデータに含まれないテーブルは空になる
+ * 暗号化している場合はこの端末のパスフレーズで暗号化して保存する
+ * Base64に変換したBlobはBlobに戻して保存する
  */
 export const importDatabase = async (exportData: any): Promise<void> => {
   try {
-    await db.transaction(
-      'rw',
-      [db.users, db.measurements, db.records, db.progress],
-      async () => {
+    await db.transaction('rw', db.tables, async () => {
+      for (const table of getBackupTables()) {
         // 既存データをクリア
-        await db.users.clear();
-        await db.measurements.clear();
-        await db.records.clear();
-        await db.progress.clear();
+        await table.clear();
 
         // データをインポート
-        if (exportData.data.users) {
-          await db.users.bulkAdd(exportData.data.users);
-        }
-        if (exportData.data.measurements) {
-          await db.measurements.bulkAdd(exportData.data.measurements);
-        }
-        if (exportData.data.records) {
-          await db.records.bulkAdd(exportData.data.records);
-        }
-        if (exportData.data.progress) {
-          await db.progress.bulkAdd(exportData.data.progress);
+        const records: Record<string, unknown>[] | undefined =
+          exportData.data[table.name];
+        if (records) {
+          await table.bulkAdd(records.map(decodeBackupRecord));
         }
       }
-    );
+    });
 
     console.log('RehabDatabase: データベースインポートが完了しました');
   } catch (error) {
@@ -192,21 +161,115 @@ export const importDatabase = async (exportData: any): Promise<void> => {
   }
 };
 
+/**
+ * FHIR R4形式のエクスポート（電子カルテへの取り込み用）
+ *
+ * @param userId エクスポートするユーザー（省略時はすべてのユーザー）
+ * @returns transaction Bundle（指定したユーザーが存在しない場合はnull）
+ */
+export const exportFhirBundle = async (
+  userId?: string
+): Promise<FhirBundle | null> => {
+  try {
+    const users = userId
+      ? await db.users.where('id').equals(userId).toArray()
+      : await db.users.toArray();
+    if (userId && users.length === 0) return null;
+
+    const patients = await Promise.all(
+      users.map(async (user) => ({
+        user,
+        measurements: await db.measurements
+          .where('userId')
+          .equals(user.id)
+          .sortBy('measurementDate'),
+        records: await db.records
+          .where('userId')
+          .equals(user.id)
+          .sortBy('recordDate'),
+      }))
+    );
+
+    return createFhirBundle(patients);
+  } catch (error) {
+    console.error('RehabDatabase: FHIRエクスポートエラー:', error);
+    throw error;
+  }
+};
+
+/**
+ * 測定データのCSVエクスポート
+ *
+ * @param options 出力する列と期間
+ */
+export const exportMeasurementCsv = async (
+  options: CsvExportOptions<MeasurementCsvColumnId> = {}
+): Promise<string> => {
+  try {
+    return createMeasurementCsv(await db.measurements.toArray(), options);
+  } catch (error) {
+    console.error('RehabDatabase: 測定データのCSVエクスポートエラー:', error);
+    throw error;
+  }
+};
+
+/**
+ * カレンダー記録のCSVエクスポート
+ *
+ * @param options 出力する列と期間
+ */
+export const exportCalendarCsv = async (
+  options: CsvExportOptions<CalendarCsvColumnId> = {}
+): Promise<string> => {
+  try {
+    return createCalendarCsv(await db.records.toArray(), options);
+  } catch (error) {
+    console.error(
+      'RehabDatabase: カレンダー記録のCSVエクスポートエラー:',
+      error
+    );
+    throw error;
+  }
+};
+
+/**
+ * CSVから取り込んだ測定データの保存
+ *
+ * @param measurements 検証済みの測定データ
+ */
+export const importMeasurements = async (
+  measurements: MotionMeasurement[]
+): Promise<void> => {
+  try {
+    await db.measurements.bulkAdd(measurements);
+  } catch (error) {
+    console.error('RehabDatabase: 測定データの取り込みエラー:', error);
+    throw error;
+  }
+};
+
 /**
  * ユーザーデータの完全削除
  */
 export const deleteUserData = async (userId: string): Promise<void> => {
   try {
-    await db.transaction(
-      'rw',
-      [db.users, db.measurements, db.records, db.progress],
-      async () => {
-        await db.users.where('id').equals(userId).delete();
-        await db.measurements.where('userId').equals(userId).delete();
-        await db.records.where('userId').equals(userId).delete();
-        await db.progress.where('userId').equals(userId).delete();
-      }
-    );
+    await db.transaction('rw', db.tables, async () => {
+      // 測定データの集計元のセッションと、セッションを参照するデータも削除
+      const sessionIds = (
+        await db.measurements.where('userId').equals(userId).toArray()
+      ).flatMap((measurement) =>
+        measurement.sessionId ? [measurement.sessionId] : []
+      );
+      await db.results.where('sessionId').anyOf(sessionIds).delete();
+      await db.pairedReadings.where('sessionId').anyOf(sessionIds).delete();
+      await db.sessionRecordings.where('sessionId').anyOf(sessionIds).delete();
+      await db.sessions.where('sessionId').anyOf(sessionIds).delete();
+
+      await db.users.where('id').equals(userId).delete();
+      await db.measurements.where('userId').equals(userId).delete();
+      await db.records.where('userId').equals(userId).delete();
+      await db.progress.where('userId').equals(userId).delete();
+    });
 
     console.log(`RehabDatabase: ユーザー ${userId} のデータを削除しました`);
   } catch (error) {
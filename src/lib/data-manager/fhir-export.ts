@@ -0,0 +1,511 @@
+/**
+ * FHIR R4形式のエクスポート
+ * ユーザーをPatient、測定した角度と痛みレベルをObservationに変換し、
+ * 電子カルテに取り込めるtransaction Bundleを作成する
+ */
+
+import type { User } from './models/user';
+import {
+  HandType,
+  MotionAngleField,
+  MotionMeasurement,
+  isMeasuredField,
+} from './models/motion-measurement';
+import type { CalendarRecord } from './models/calendar-record';
+import { getDateKey } from './models/daily-aggregation';
+
+/**
+ * コードシステム
+ */
+const SNOMED_CT = 'http://snomed.info/sct';
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY =
+  'http://terminology.hl7.org/CodeSystem/observation-category';
+
+/**
+ * このアプリ独自の識別子・コードのシステム
+ */
+export const FHIR_USER_ID_SYSTEM = 'urn:rehabit:user-id';
+export const FHIR_OBSERVATION_ID_SYSTEM = 'urn:rehabit:observation-id';
+export const FHIR_MOTION_CODE_SYSTEM = 'urn:rehabit:motion';
+
+/**
+ * 測定部位の左右を表す拡張（mCODEのLaterality Qualifier）
+ */
+export const FHIR_LATERALITY_EXTENSION =
+  'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-laterality-qualifier';
+
+/**
+ * FHIRのコード
+ */
+export interface FhirCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+/**
+ * FHIRのコード（同じ概念を表す複数のコードと表示用テキスト）
+ */
+export interface FhirCodeableConcept {
+  extension?: FhirExtension[];
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+/**
+ * FHIRの拡張
+ */
+export interface FhirExtension {
+  url: string;
+  valueCodeableConcept: FhirCodeableConcept;
+}
+
+/**
+ * FHIRの角度などの数量
+ */
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+/**
+ * FHIRのPatientリソース
+ */
+export interface FhirPatient {
+  resourceType: 'Patient';
+  identifier: Array<{ system: string; value: string }>;
+  name: Array<{ text: string }>;
+}
+
+/**
+ * FHIRのObservationリソース
+ */
+export interface FhirObservation {
+  resourceType: 'Observation';
+  identifier: Array<{ system: string; value: string }>;
+  status: 'final';
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: { reference: string };
+  effectiveDateTime: string;
+  valueQuantity?: FhirQuantity;
+  bodySite?: FhirCodeableConcept;
+  method?: FhirCodeableConcept;
+  referenceRange?: Array<{
+    low: { value: number };
+    high: { value: number };
+    text: string;
+  }>;
+  /** 測定した動作ごとの値 */
+  component?: Array<{
+    code: FhirCodeableConcept;
+    valueQuantity: FhirQuantity;
+  }>;
+}
+
+/**
+ * FHIRのBundleのエントリー
+ */
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirPatient | FhirObservation;
+  request: {
+    method: 'POST';
+    url: 'Patient' | 'Observation';
+    /** 同じ識別子のリソースが既にある場合は作成しない（条件付き作成） */
+    ifNoneExist: string;
+  };
+}
+
+/**
+ * FHIRのtransaction Bundle
+ */
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'transaction';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+/**
+ * 1人分のエクスポートするデータ
+ */
+export interface FhirPatientData {
+  user: User;
+  measurements: MotionMeasurement[];
+  records: CalendarRecord[];
+}
+
+/**
+ * 測定部位（SNOMED CT）
+ */
+const BODY_SITES = {
+  wrist: { code: '74670003', display: 'Wrist joint structure', label: '手首' },
+  thumb: { code: '76505004', display: 'Thumb structure', label: '母指' },
+};
+
+/**
+ * 左右（SNOMED CT）
+ */
+const LATERALITY: Record<
+  HandType,
+  { code: string; display: string; label: string }
+> = {
+  left: { code: '7771000', display: 'Left', label: '左' },
+  right: { code: '24028007', display: 'Right', label: '右' },
+};
+
+/**
+ * 測定項目ごとの部位と表示名
+ */
+const MOTION_OBSERVATIONS: Record<
+  MotionAngleField,
+  { site: keyof typeof BODY_SITES; display: string; label: string }
+> = {
+  wristFlexion: {
+    site: 'wrist',
+    display: 'Wrist flexion',
+    label: '手関節掌屈',
+  },
+  wristExtension: {
+    site: 'wrist',
+    display: 'Wrist extension',
+    label: '手関節背屈',
+  },
+  wristUlnarDeviation: {
+    site: 'wrist',
+    display: 'Wrist ulnar deviation',
+    label: '手関節尺屈',
+  },
+  wristRadialDeviation: {
+    site: 'wrist',
+    display: 'Wrist radial deviation',
+    label: '手関節橈屈',
+  },
+  wristPronation: {
+    site: 'wrist',
+    display: 'Forearm pronation',
+    label: '前腕回内',
+  },
+  wristSupination: {
+    site: 'wrist',
+    display: 'Forearm supination',
+    label: '前腕回外',
+  },
+  thumbFlexion: {
+    site: 'thumb',
+    display: 'Thumb MCP flexion',
+    label: '母指屈曲（MCP）',
+  },
+  thumbExtension: {
+    site: 'thumb',
+    display: 'Thumb MCP extension',
+    label: '母指伸展（MCP）',
+  },
+  thumbAdduction: {
+    site: 'thumb',
+    display: 'Thumb adduction',
+    label: '母指尺側内転',
+  },
+  thumbAbduction: {
+    site: 'thumb',
+    display: 'Thumb abduction',
+    label: '母指橈側外転',
+  },
+};
+
+/**
+ * 関節可動域（SNOMED CT: Range of joint movement）
+ */
+const RANGE_OF_MOTION_CODING: FhirCoding = {
+  system: SNOMED_CT,
+  code: '364564000',
+  display: 'Range of joint movement',
+};
+
+/**
+ * 痛みの程度（LOINC: Pain severity - Reported）
+ */
+const PAIN_SEVERITY_CODING: FhirCoding = {
+  system: LOINC,
+  code: '38208-5',
+  display: 'Pain severity - Reported',
+};
+
+/**
+ * 測定方法（カメラ映像からの手の姿勢推定）
+ */
+const CAMERA_METHOD: FhirCodeableConcept = {
+  coding: [
+    {
+      system: FHIR_MOTION_CODE_SYSTEM,
+      code: 'camera-hand-pose-estimation',
+      display: 'Camera-based hand pose estimation',
+    },
+  ],
+  text: 'カメラ映像からの手の姿勢推定による角度測定',
+};
+
+/**
+ * 測定方法（医療機関のゴニオメーター測定値の取り込み）
+ */
+const GONIOMETER_METHOD: FhirCodeableConcept = {
+  coding: [
+    {
+      system: FHIR_MOTION_CODE_SYSTEM,
+      code: 'goniometer',
+      display: 'Goniometer measurement',
+    },
+  ],
+  text: 'ゴニオメーターによる角度測定',
+};
+
+/**
+ * 測定項目の一覧（出力順）
+ */
+const MOTION_ANGLE_FIELDS = Object.keys(
+  MOTION_OBSERVATIONS
+) as MotionAngleField[];
+
+/**
+ * 左右を含めた測定部位
+ * 部位をSNOMED CTのコードで表し、左右は拡張で修飾する
+ */
+const createBodySite = (
+  site: keyof typeof BODY_SITES,
+  hand: HandType
+): FhirCodeableConcept => ({
+  extension: [
+    {
+      url: FHIR_LATERALITY_EXTENSION,
+      valueCodeableConcept: {
+        coding: [
+          {
+            system: SNOMED_CT,
+            code: LATERALITY[hand].code,
+            display: LATERALITY[hand].display,
+          },
+        ],
+        text: LATERALITY[hand].label,
+      },
+    },
+  ],
+  coding: [
+    {
+      system: SNOMED_CT,
+      code: BODY_SITES[site].code,
+      display: BODY_SITES[site].display,
+    },
+  ],
+  text: `${LATERALITY[hand].label}${BODY_SITES[site].label}`,
+});
+
+/**
+ * Patientリソースを作成
+ */
+export const createFhirPatient = (user: User): FhirPatient => ({
+  resourceType: 'Patient',
+  identifier: [{ system: FHIR_USER_ID_SYSTEM, value: user.id }],
+  name: [{ text: user.name }],
+});
+
+/**
+ * 測定データの角度ごとにObservationリソースを作成
+ * 関節可動域をcode、測定した動作と角度をcomponentとし、未測定の項目は出力しない
+ *
+ * @param measurement 測定データ
+ * @param patientReference Patientリソースへの参照
+ */
+export const createMotionObservations = (
+  measurement: MotionMeasurement,
+  patientReference: string
+): FhirObservation[] =>
+  MOTION_ANGLE_FIELDS.flatMap((field) => {
+    const angle = measurement[field];
+    if (
+      angle === undefined ||
+      !Number.isFinite(angle) ||
+      !isMeasuredField(measurement, field)
+    ) {
+      return [];
+    }
+
+    const { site, display, label } = MOTION_OBSERVATIONS[field];
+    return [
+      {
+        resourceType: 'Observation',
+        identifier: [
+          {
+            system: FHIR_OBSERVATION_ID_SYSTEM,
+            value: `${measurement.id}-${field}`,
+          },
+        ],
+        status: 'final',
+        category: [
+          {
+            coding: [
+              { system: OBSERVATION_CATEGORY, code: 'exam', display: 'Exam' },
+            ],
+          },
+        ],
+        code: { coding: [RANGE_OF_MOTION_CODING], text: '関節可動域' },
+        subject: { reference: patientReference },
+        effectiveDateTime: new Date(measurement.measurementDate).toISOString(),
+        bodySite: createBodySite(site, measurement.handUsed),
+        method:
+          measurement.source?.type === 'goniometer-import'
+            ? GONIOMETER_METHOD
+            : CAMERA_METHOD,
+        component: [
+          {
+            code: {
+              coding: [
+                { system: FHIR_MOTION_CODE_SYSTEM, code: field, display },
+              ],
+              text: label,
+            },
+            valueQuantity: {
+              value: angle,
+              unit: '°',
+              system: UCUM,
+              code: 'deg',
+            },
+          },
+        ],
+      },
+    ];
+  });
+
+/**
+ * カレンダー記録の痛みレベルからObservationリソースを作成
+ *
+ * @param record カレンダー記録
+ * @param patientReference Patientリソースへの参照
+ * @returns Observationリソース（痛みレベルが未記録の場合はnull）
+ */
+export const createPainObservation = (
+  record: CalendarRecord,
+  patientReference: string
+): FhirObservation | null => {
+  if (record.painLevel === undefined) return null;
+
+  const recordDate = new Date(record.recordDate);
+  return {
+    resourceType: 'Observation',
+    identifier: [
+      {
+        system: FHIR_OBSERVATION_ID_SYSTEM,
+        value: `${record.userId}-${getDateKey(recordDate)}-pain`,
+      },
+    ],
+    status: 'final',
+    category: [
+      {
+        coding: [
+          { system: OBSERVATION_CATEGORY, code: 'survey', display: 'Survey' },
+        ],
+      },
+    ],
+    code: {
+      coding: [PAIN_SEVERITY_CODING],
+      text: '痛みレベル（自己評価）',
+    },
+    subject: { reference: patientReference },
+    effectiveDateTime: getDateKey(recordDate),
+    valueQuantity: {
+      value: record.painLevel,
+      unit: 'score',
+      system: UCUM,
+      code: '{score}',
+    },
+    referenceRange: [
+      {
+        low: { value: 1 },
+        high: { value: 5 },
+        text: '1=痛みなし、5=激痛',
+      },
+    ],
+  };
+};
+
+/**
+ * 識別子による条件付き作成の検索条件
+ */
+const identifierQuery = (
+  identifiers: Array<{ system: string; value: string }>
+): string =>
+  `identifier=${identifiers
+    .map(({ system, value }) => `${system}|${value}`)
+    .join(',')}`;
+
+/**
+ * Patientリソースのエントリー
+ */
+const createPatientEntry = (
+  patient: FhirPatient,
+  fullUrl: string
+): FhirBundleEntry => ({
+  fullUrl,
+  resource: patient,
+  request: {
+    method: 'POST',
+    url: 'Patient',
+    ifNoneExist: identifierQuery(patient.identifier),
+  },
+});
+
+/**
+ * Observationリソースのエントリー
+ */
+const createObservationEntry = (
+  observation: FhirObservation,
+  createId: () => string
+): FhirBundleEntry => ({
+  fullUrl: `urn:uuid:${createId()}`,
+  resource: observation,
+  request: {
+    method: 'POST',
+    url: 'Observation',
+    ifNoneExist: identifierQuery(observation.identifier),
+  },
+});
+
+/**
+ * transaction Bundleを作成
+ * Bundle内のリソースはfullUrl（urn:uuid）で参照し、取り込み時にサーバーが採番したIDに置き換えられる
+ *
+ * @param patients 患者ごとのエクスポートするデータ
+ * @param timestamp Bundleの作成日時
+ * @param createId fullUrlに使うUUIDの生成関数
+ */
+export const createFhirBundle = (
+  patients: FhirPatientData[],
+  timestamp: Date = new Date(),
+  createId: () => string = () => crypto.randomUUID()
+): FhirBundle => ({
+  resourceType: 'Bundle',
+  type: 'transaction',
+  timestamp: timestamp.toISOString(),
+  entry: patients.flatMap(({ user, measurements, records }) => {
+    const patientReference = `urn:uuid:${createId()}`;
+
+    return [
+      createPatientEntry(createFhirPatient(user), patientReference),
+      ...measurements.flatMap((measurement) =>
+        createMotionObservations(measurement, patientReference).map(
+          (observation) => createObservationEntry(observation, createId)
+        )
+      ),
+      ...records.flatMap((record) => {
+        const observation = createPainObservation(record, patientReference);
+        return observation
+          ? [createObservationEntry(observation, createId)]
+          : [];
+      }),
+    ];
+  }),
+});
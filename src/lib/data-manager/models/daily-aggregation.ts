@@ -0,0 +1,180 @@
+/**
+ * 日ごとの測定データの集計
+ * 同じ日に複数回測定した場合に、グラフやトレンド分析で使う1日の代表値を決める
+ */
+
+import {
+  MotionAngleField,
+  MotionMeasurement,
+  isMeasuredField,
+} from './motion-measurement';
+
+/**
+ * 1日の代表値の集計方法
+ * - best: その日の最大角度
+ * - mean: その日の平均角度
+ * - first: その日の最初の測定
+ * - last: その日の最後の測定
+ */
+export type DailyAggregation = 'best' | 'mean' | 'first' | 'last';
+
+/**
+ * 集計方法の一覧
+ */
+export const DAILY_AGGREGATIONS: DailyAggregation[] = [
+  'best',
+  'mean',
+  'first',
+  'last',
+];
+
+/**
+ * デフォルトの集計方法（1日1件だけ保存していた頃の表示と同じ）
+ */
+export const DEFAULT_DAILY_AGGREGATION: DailyAggregation = 'last';
+
+/**
+ * 集計方法の表示名
+ */
+export const DAILY_AGGREGATION_LABELS: Record<DailyAggregation, string> = {
+  best: '最大',
+  mean: '平均',
+  first: '最初',
+  last: '最後',
+};
+
+/**
+ * 集計する角度の測定項目
+ */
+const AGGREGATED_ANGLE_FIELDS: MotionAngleField[] = [
+  'wristFlexion',
+  'wristExtension',
+  'wristUlnarDeviation',
+  'wristRadialDeviation',
+  'wristPronation',
+  'wristSupination',
+  'thumbFlexion',
+  'thumbExtension',
+  'thumbAdduction',
+  'thumbAbduction',
+];
+
+/**
+ * 集計方法の値かどうか
+ */
+export const isDailyAggregation = (value: unknown): value is DailyAggregation =>
+  DAILY_AGGREGATIONS.includes(value as DailyAggregation);
+
+/**
+ * 測定順に並んだ1日の値を集計
+ *
+ * @param values 測定順の値
+ * @param aggregation 集計方法
+ * @returns 集計した値（値がない場合はundefined）
+ */
+export const aggregateDailyValues = (
+  values: number[],
+  aggregation: DailyAggregation
+): number | undefined => {
+  if (values.length === 0) return undefined;
+
+  switch (aggregation) {
+    case 'best':
+      return Math.max(...values);
+    case 'mean':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'first':
+      return values[0];
+    case 'last':
+      return values[values.length - 1];
+  }
+};
+
+/**
+ * 日付（ローカル時刻）のキー（YYYY-MM-DD）
+ */
+export const getDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    '0'
+  )}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 測定データを日ごとにグループ化（日付順・各日の測定順）
+ */
+export const groupMeasurementsByDay = (
+  measurements: MotionMeasurement[]
+): MotionMeasurement[][] => {
+  const days = new Map<string, MotionMeasurement[]>();
+  measurements
+    .slice()
+    .sort(
+      (a, b) =>
+        new Date(a.measurementDate).getTime() -
+        new Date(b.measurementDate).getTime()
+    )
+    .forEach((measurement) => {
+      const key = getDateKey(new Date(measurement.measurementDate));
+      days.set(key, [...(days.get(key) ?? []), measurement]);
+    });
+  return Array.from(days.values());
+};
+
+/**
+ * 1日の測定データを1件に集計
+ * first/lastはその測定データをそのまま返す。best/meanは角度を測定した項目ごとに集計し、
+ * その他の項目はその日の最後の測定から引き継ぐ（複数のセッションをまとめるため、
+ * 集計元のセッションと根拠画像は引き継がない）
+ *
+ * @param dayMeasurements 1日の測定データ（測定順）
+ * @param aggregation 集計方法
+ */
+const aggregateDay = (
+  dayMeasurements: MotionMeasurement[],
+  aggregation: DailyAggregation
+): MotionMeasurement | undefined => {
+  const first = dayMeasurements[0];
+  const last = dayMeasurements[dayMeasurements.length - 1];
+  if (!first || !last) return undefined;
+  if (aggregation === 'first') return first;
+  if (aggregation === 'last' || dayMeasurements.length === 1) return last;
+
+  const aggregated: MotionMeasurement = {
+    ...last,
+    id: `${getDateKey(new Date(last.measurementDate))}-${aggregation}`,
+  };
+  delete aggregated.sessionId;
+  const measuredFields: MotionAngleField[] = [];
+  AGGREGATED_ANGLE_FIELDS.forEach((field) => {
+    const value = aggregateDailyValues(
+      dayMeasurements.flatMap((measurement) => {
+        const angle = measurement[field];
+        return angle === undefined || !isMeasuredField(measurement, field)
+          ? []
+          : [angle];
+      }),
+      aggregation
+    );
+    if (value === undefined) return;
+    aggregated[field] = value;
+    measuredFields.push(field);
+  });
+  aggregated.measuredFields = measuredFields;
+  return aggregated;
+};
+
+/**
+ * 測定データを日ごとに集計（日付順）
+ *
+ * @param measurements 測定データ（セッションごと）
+ * @param aggregation 集計方法
+ * @returns 1日1件の測定データ
+ */
+export const aggregateMeasurementsByDay = (
+  measurements: MotionMeasurement[],
+  aggregation: DailyAggregation
+): MotionMeasurement[] =>
+  groupMeasurementsByDay(measurements).flatMap((dayMeasurements) => {
+    const aggregated = aggregateDay(dayMeasurements, aggregation);
+    return aggregated ? [aggregated] : [];
+  });
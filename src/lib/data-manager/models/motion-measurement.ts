@@ -3,6 +3,8 @@
  * 可動域測定の個別記録
  */
 
+import type { QualityMetrics } from '@/core/domain/types/hand-landmark';
+
 export type ComparisonStatus =
   | { status: 'normal'; within_range: true }
   | { status: 'below_normal'; deficit_degrees: number }
@@ -13,22 +15,120 @@ export type ComparisonStatus =
  */
 export type HandType = 'left' | 'right';
 
+/**
+ * 測定した時間帯
+ * 朝のこわばりなど、時間帯による可動域の違いを比較するために使う
+ */
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * 時間帯の表示名
+ */
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: '朝',
+  afternoon: '昼',
+  evening: '夕',
+  night: '夜',
+};
+
+/**
+ * 測定日時（ローカル時刻）の時間帯を取得
+ * 朝: 5〜11時、昼: 11〜17時、夕: 17〜21時、夜: 21〜5時
+ */
+export const getTimeOfDay = (date: Date): TimeOfDay => {
+  const hour = date.getHours();
+  if (hour >= 5 && hour < 11) return 'morning';
+  if (hour >= 11 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 21) return 'evening';
+  return 'night';
+};
+
+/**
+ * 測定データの取得元
+ * - camera: このアプリのカメラ測定
+ * - goniometer-import: 医療機関のゴニオメーター測定値をCSVから取り込んだもの
+ */
+export type MeasurementSourceType = 'camera' | 'goniometer-import';
+
+/**
+ * 測定データの取得元の詳細
+ */
+export interface MeasurementSource {
+  type: MeasurementSourceType;
+  /** 取り込んだファイル名 */
+  fileName?: string;
+  /** 取り込んだ日時 */
+  importedAt?: Date;
+}
+
+/**
+ * 取得元の表示名
+ */
+export const MEASUREMENT_SOURCE_LABELS: Record<MeasurementSourceType, string> =
+  {
+    camera: 'カメラ測定',
+    'goniometer-import': 'ゴニオメーター（CSV取り込み）',
+  };
+
+/**
+ * 角度を記録する測定項目
+ */
+export type MotionAngleField =
+  | 'wristFlexion'
+  | 'wristExtension'
+  | 'wristUlnarDeviation'
+  | 'wristRadialDeviation'
+  | 'wristPronation'
+  | 'wristSupination'
+  | 'thumbFlexion'
+  | 'thumbExtension'
+  | 'thumbAdduction'
+  | 'thumbAbduction';
+
+/**
+ * 測定項目の表示名
+ */
+export const MOTION_ANGLE_FIELD_LABELS: Record<MotionAngleField, string> = {
+  wristFlexion: '手関節掌屈',
+  wristExtension: '手関節背屈',
+  wristUlnarDeviation: '手関節尺屈',
+  wristRadialDeviation: '手関節橈屈',
+  wristPronation: '前腕回内',
+  wristSupination: '前腕回外',
+  thumbFlexion: '母指屈曲',
+  thumbExtension: '母指伸展',
+  thumbAdduction: '母指尺側内転',
+  thumbAbduction: '母指橈側外転',
+};
+
+/**
+ * 測定項目ごとの品質指標
+ */
+export type MotionQualityMetrics = Partial<
+  Record<MotionAngleField, QualityMetrics>
+>;
+
+/**
+ * 正常範囲との比較結果（未測定の項目は比較しない）
+ */
 export interface MotionComparisonResult {
-  wristFlexion: ComparisonStatus;
-  wristExtension: ComparisonStatus;
-  wristUlnarDeviation: ComparisonStatus;
-  wristRadialDeviation: ComparisonStatus;
-  thumbFlexion: ComparisonStatus;
-  thumbExtension: ComparisonStatus;
-  thumbAdduction: ComparisonStatus;
-  thumbAbduction: ComparisonStatus;
+  wristFlexion?: ComparisonStatus;
+  wristExtension?: ComparisonStatus;
+  wristUlnarDeviation?: ComparisonStatus;
+  wristRadialDeviation?: ComparisonStatus;
+  thumbFlexion?: ComparisonStatus;
+  thumbExtension?: ComparisonStatus;
+  thumbAdduction?: ComparisonStatus;
+  thumbAbduction?: ComparisonStatus;
   overallStatus: 'normal' | 'below_normal' | 'above_normal';
 }
 
 export interface MotionMeasurement {
   id: string; // UUID
   userId: string; // User.id参照
+  sessionId?: string; // 集計元のMeasurementSession.sessionId参照
   measurementDate: Date; // 測定日時
+  timeOfDay?: TimeOfDay; // 測定した時間帯（測定日時から算出）
 
   // 手首可動域 (degrees)
   wristFlexion: number; // 掌屈 0-90°
@@ -39,14 +139,17 @@ export interface MotionMeasurement {
   wristSupination?: number; // 回外 0-90°
 
   // 母指可動域 (degrees)
-  thumbFlexion: number; // 屈曲 0-90°
-  thumbExtension: number; // 伸展 0°(基準)
-  thumbAdduction: number; // 内転 0°(基準)
-  thumbAbduction: number; // 外転 0-60°
+  thumbFlexion: number; // 屈曲(MCP) 0-60°
+  thumbExtension: number; // 伸展(MCP過伸展) 0-10°
+  thumbAdduction: number; // 尺側内転 0°(基準)
+  thumbAbduction: number; // 橈側外転 0-60°
 
   // 測定メタデータ
   accuracyScore: number; // 測定精度スコア 0-1
   handUsed: HandType; // 測定対象手
+  qualityMetrics?: MotionQualityMetrics; // 測定項目ごとの品質指標
+  measuredFields?: MotionAngleField[]; // 測定した項目（未設定の場合は記録されている項目すべて）
+  source?: MeasurementSource; // 取得元（未設定の場合はカメラ測定）
 
   // 正常範囲比較結果
   comparisonResult: MotionComparisonResult;
@@ -56,6 +159,7 @@ export interface MotionMeasurement {
 
 export interface CreateMeasurementInput {
   userId: string;
+  sessionId?: string;
   measurementDate: Date;
   wristFlexion: number;
   wristExtension: number;
@@ -69,8 +173,27 @@ export interface CreateMeasurementInput {
   thumbAbduction: number;
   accuracyScore: number;
   handUsed: HandType;
+  qualityMetrics?: MotionQualityMetrics;
+  /** 測定した項目（未測定の項目は0度で記録する） */
+  measuredFields?: MotionAngleField[];
+  source?: MeasurementSource;
 }
 
+/**
+ * 測定した項目か
+ * 測定した項目の記録がないデータ（記録前の測定データ）は、記録されている項目をすべて測定したものとする
+ */
+export const isMeasuredField = (
+  measurement: Pick<
+    CreateMeasurementInput,
+    MotionAngleField | 'measuredFields'
+  >,
+  field: MotionAngleField
+): boolean =>
+  measurement.measuredFields
+    ? measurement.measuredFields.includes(field)
+    : measurement[field] !== undefined;
+
 /**
  * 正常範囲定数
  */
@@ -84,10 +207,10 @@ export const NORMAL_RANGES = {
     supination: { min: 0, max: 90 }, // 回外
   },
   thumb: {
-    flexion: { min: 0, max: 90 }, // 屈曲
-    extension: { min: 0, max: 0 }, // 伸展（基準位置）
-    adduction: { min: 0, max: 0 }, // 内転（基準位置）
-    abduction: { min: 0, max: 60 }, // 外転
+    flexion: { min: 0, max: 60 }, // 屈曲（MCP関節）
+    extension: { min: 0, max: 10 }, // 伸展（MCP関節の過伸展）
+    adduction: { min: 0, max: 5 }, // 尺側内転（基準位置、測定精度±5°を許容）
+    abduction: { min: 0, max: 60 }, // 橈側外転
   },
 } as const;
 
@@ -96,6 +219,11 @@ export const NORMAL_RANGES = {
  */
 export const MEASUREMENT_PRECISION_THRESHOLD = 5; // ±5°
 
+/**
+ * 異常値判定の下限角度
+ */
+const ABNORMAL_ANGLE_FLOOR = 90;
+
 /**
  * 角度と正常範囲の比較
  */
@@ -118,76 +246,55 @@ const compareAngleWithNormalRange = (
   }
 };
 
+/**
+ * 正常範囲と比較する測定項目と正常範囲（回内・回外は比較しない）
+ */
+const COMPARISON_NORMAL_RANGES: Record<
+  Exclude<keyof MotionComparisonResult, 'overallStatus'>,
+  { min: number; max: number }
+> = {
+  wristFlexion: NORMAL_RANGES.wrist.flexion,
+  wristExtension: NORMAL_RANGES.wrist.extension,
+  wristUlnarDeviation: NORMAL_RANGES.wrist.ulnarDeviation,
+  wristRadialDeviation: NORMAL_RANGES.wrist.radialDeviation,
+  thumbFlexion: NORMAL_RANGES.thumb.flexion,
+  thumbExtension: NORMAL_RANGES.thumb.extension,
+  thumbAdduction: NORMAL_RANGES.thumb.adduction,
+  thumbAbduction: NORMAL_RANGES.thumb.abduction,
+};
+
 /**
  * 測定データの正常範囲比較結果を計算
+ * 未測定の項目は比較せず、全体ステータスにも含めない
  */
 export const calculateComparisonResult = (
   measurement: Omit<CreateMeasurementInput, 'userId' | 'measurementDate'>
 ): MotionComparisonResult => {
-  const wristFlexion = compareAngleWithNormalRange(
-    measurement.wristFlexion,
-    NORMAL_RANGES.wrist.flexion
-  );
-  const wristExtension = compareAngleWithNormalRange(
-    measurement.wristExtension,
-    NORMAL_RANGES.wrist.extension
-  );
-  const wristUlnarDeviation = compareAngleWithNormalRange(
-    measurement.wristUlnarDeviation,
-    NORMAL_RANGES.wrist.ulnarDeviation
-  );
-  const wristRadialDeviation = compareAngleWithNormalRange(
-    measurement.wristRadialDeviation,
-    NORMAL_RANGES.wrist.radialDeviation
-  );
-  const thumbFlexion = compareAngleWithNormalRange(
-    measurement.thumbFlexion,
-    NORMAL_RANGES.thumb.flexion
-  );
-  const thumbExtension = compareAngleWithNormalRange(
-    measurement.thumbExtension,
-    NORMAL_RANGES.thumb.extension
-  );
-  const thumbAdduction = compareAngleWithNormalRange(
-    measurement.thumbAdduction,
-    NORMAL_RANGES.thumb.adduction
-  );
-  const thumbAbduction = compareAngleWithNormalRange(
-    measurement.thumbAbduction,
-    NORMAL_RANGES.thumb.abduction
-  );
+  const result: MotionComparisonResult = { overallStatus: 'normal' };
+  const allStatuses: ComparisonStatus['status'][] = [];
+
+  (
+    Object.keys(COMPARISON_NORMAL_RANGES) as Array<
+      keyof typeof COMPARISON_NORMAL_RANGES
+    >
+  ).forEach((field) => {
+    if (!isMeasuredField(measurement, field)) return;
+    const status = compareAngleWithNormalRange(
+      measurement[field],
+      COMPARISON_NORMAL_RANGES[field]
+    );
+    result[field] = status;
+    allStatuses.push(status.status);
+  });
 
   // 全体ステータスの決定
-  const allStatuses = [
-    wristFlexion.status,
-    wristExtension.status,
-    wristUlnarDeviation.status,
-    wristRadialDeviation.status,
-    thumbFlexion.status,
-    thumbExtension.status,
-    thumbAdduction.status,
-    thumbAbduction.status,
-  ];
-
-  let overallStatus: 'normal' | 'below_normal' | 'above_normal' = 'normal';
-
   if (allStatuses.includes('below_normal')) {
-    overallStatus = 'below_normal';
+    result.overallStatus = 'below_normal';
   } else if (allStatuses.includes('above_normal')) {
-    overallStatus = 'above_normal';
+    result.overallStatus = 'above_normal';
   }
 
-  return {
-    wristFlexion,
-    wristExtension,
-    wristUlnarDeviation,
-    wristRadialDeviation,
-    thumbFlexion,
-    thumbExtension,
-    thumbAdduction,
-    thumbAbduction,
-    overallStatus,
-  };
+  return result;
 };
 
 /**
@@ -206,56 +313,73 @@ export const validateMeasurement = (data: CreateMeasurementInput): string[] => {
     errors.push('測定日は未来の日付に設定できません');
   }
 
-  // 角度値の検証
-  const angleChecks = [
+  // 角度値の検証（未測定の項目は検証しない）
+  const angleChecks: Array<{
+    field: MotionAngleField;
+    name: string;
+    max: number;
+  }> = [
     {
-      value: data.wristFlexion,
+      field: 'wristFlexion',
       name: '手首掌屈',
       max: NORMAL_RANGES.wrist.flexion.max,
     },
     {
-      value: data.wristExtension,
+      field: 'wristExtension',
       name: '手首背屈',
       max: NORMAL_RANGES.wrist.extension.max,
     },
     {
-      value: data.wristUlnarDeviation,
+      field: 'wristUlnarDeviation',
       name: '手首尺屈',
       max: NORMAL_RANGES.wrist.ulnarDeviation.max,
     },
     {
-      value: data.wristRadialDeviation,
+      field: 'wristRadialDeviation',
       name: '手首橈屈',
       max: NORMAL_RANGES.wrist.radialDeviation.max,
     },
     {
-      value: data.thumbFlexion,
+      field: 'wristPronation',
+      name: '前腕回内',
+      max: NORMAL_RANGES.wrist.pronation.max,
+    },
+    {
+      field: 'wristSupination',
+      name: '前腕回外',
+      max: NORMAL_RANGES.wrist.supination.max,
+    },
+    {
+      field: 'thumbFlexion',
       name: '母指屈曲',
       max: NORMAL_RANGES.thumb.flexion.max,
     },
     {
-      value: data.thumbExtension,
+      field: 'thumbExtension',
       name: '母指伸展',
       max: NORMAL_RANGES.thumb.extension.max,
     },
     {
-      value: data.thumbAdduction,
+      field: 'thumbAdduction',
       name: '母指内転',
       max: NORMAL_RANGES.thumb.adduction.max,
     },
     {
-      value: data.thumbAbduction,
+      field: 'thumbAbduction',
       name: '母指外転',
       max: NORMAL_RANGES.thumb.abduction.max,
     },
   ];
 
-  angleChecks.forEach(({ value, name, max }) => {
+  angleChecks.forEach(({ field, name, max }) => {
+    const value = data[field];
+    if (value === undefined || !isMeasuredField(data, field)) return;
     if (value < 0) {
       errors.push(`${name}の角度は0度以上である必要があります`);
     }
     // 正常範囲を大幅に超える値も警告
-    if (value > max * 2) {
+    // 基準位置付近（上限が小さい）の動作は90°を異常値判定の下限とする
+    if (value > Math.max(max * 2, ABNORMAL_ANGLE_FLOOR)) {
       errors.push(`${name}の角度が異常に大きい値です（${value}度）`);
     }
   });
@@ -336,17 +460,28 @@ export const createMeasurement = (
   return {
     id: crypto.randomUUID(),
     userId: input.userId,
+    ...(input.sessionId ? { sessionId: input.sessionId } : {}),
     measurementDate: input.measurementDate,
+    timeOfDay: getTimeOfDay(input.measurementDate),
     wristFlexion: input.wristFlexion,
     wristExtension: input.wristExtension,
     wristUlnarDeviation: input.wristUlnarDeviation,
     wristRadialDeviation: input.wristRadialDeviation,
+    ...(input.wristPronation !== undefined
+      ? { wristPronation: input.wristPronation }
+      : {}),
+    ...(input.wristSupination !== undefined
+      ? { wristSupination: input.wristSupination }
+      : {}),
     thumbFlexion: input.thumbFlexion,
     thumbExtension: input.thumbExtension,
     thumbAdduction: input.thumbAdduction,
     thumbAbduction: input.thumbAbduction,
     accuracyScore: input.accuracyScore,
     handUsed: input.handUsed,
+    ...(input.qualityMetrics ? { qualityMetrics: input.qualityMetrics } : {}),
+    ...(input.measuredFields ? { measuredFields: input.measuredFields } : {}),
+    ...(input.source ? { source: input.source } : {}),
     comparisonResult,
     createdAt: new Date(),
   };
@@ -3,6 +3,12 @@
  * 進捗トレンド分析データ
  */
 
+import {
+  aggregateDailyValues,
+  DailyAggregation,
+  DEFAULT_DAILY_AGGREGATION,
+} from './daily-aggregation';
+
 export type TrendDirection = 'improving' | 'stable' | 'declining';
 export type AnalysisPeriod =
   | '1_week'
@@ -67,6 +73,7 @@ export interface ProgressData {
   measurementCount: number; // 分析対象測定回数
   recordCount: number; // 分析対象記録日数
   dataQuality: number; // データ品質スコア（0-1）
+  dailyAggregation?: DailyAggregation; // 1日に複数回測定した場合の集計方法
 
   createdAt: Date;
 }
@@ -79,6 +86,7 @@ export interface CreateProgressDataInput {
   measurementCount: number;
   recordCount: number;
   dataQuality: number;
+  dailyAggregation?: DailyAggregation;
 }
 
 /**
@@ -103,11 +111,24 @@ export const getAnalysisPeriodDays = (period: AnalysisPeriod): number => {
 
 /**
  * 角度トレンドの計算
+ * 1日に複数回測定した場合は、その日の値を測定順の配列で渡すと集計方法に従って集計する
+ *
+ * @param current 現在値（または現在の日の測定順の値）
+ * @param previous 前回値（または前回の日の測定順の値）
+ * @param aggregation 配列を渡した場合の集計方法
  */
 export const calculateAngleTrend = (
-  currentValue: number,
-  previousValue?: number
+  current: number | number[],
+  previous?: number | number[],
+  aggregation: DailyAggregation = DEFAULT_DAILY_AGGREGATION
 ): AngleTrend => {
+  const currentValue = Array.isArray(current)
+    ? (aggregateDailyValues(current, aggregation) ?? 0)
+    : current;
+  const previousValue = Array.isArray(previous)
+    ? aggregateDailyValues(previous, aggregation)
+    : previous;
+
   if (previousValue === undefined) {
     return {
       currentValue,
@@ -297,6 +318,9 @@ export const createProgressData = (
     measurementCount: input.measurementCount,
     recordCount: input.recordCount,
     dataQuality: input.dataQuality,
+    ...(input.dailyAggregation
+      ? { dailyAggregation: input.dailyAggregation }
+      : {}),
     createdAt: new Date(),
   };
 };
@@ -0,0 +1,202 @@
+/**
+ * 測定角度の再計算
+ * 保存済みのランドマークを現在の角度計算アルゴリズムで再計算し、記録時の角度と並べて保存する
+ */
+
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type {
+  NeutralCalibration,
+  StepId,
+} from '@/core/domain/types/measurement';
+import {
+  ANGLE_ALGORITHM_VERSION,
+  AngleCalculator,
+  angleCalculator,
+  LEGACY_ANGLE_ALGORITHM_VERSION,
+} from '@/core/infrastructure/mediapipe/angle-calculator';
+import type { db, MeasurementResult, RecomputedAngle } from './measurement-db';
+
+/**
+ * 表示する角度の選択
+ * - recorded: 記録時の角度
+ * - 数値: 指定したアルゴリズムバージョンで計算した角度
+ */
+export type AngleVersionSelection = 'recorded' | number;
+
+/**
+ * 再計算ジョブの結果
+ */
+export interface ReprocessSummary {
+  /** 再計算した測定結果の数 */
+  recomputed: number;
+
+  /** 現在のバージョンで計算済みのため省略した数 */
+  skipped: number;
+
+  /** ランドマークが無いため再計算できなかった数 */
+  unavailable: number;
+
+  /** 記録時の基準角度が無く、記録時の角度と比較できないため再計算しなかった数 */
+  noReference: number;
+}
+
+/**
+ * 保存済みランドマークをPoint3D配列に変換
+ */
+const toPoint3D = (
+  landmarks: Array<{ x: number; y: number; z: number }>
+): Point3D[] => landmarks.map(({ x, y, z }, id) => ({ id, x, y, z }));
+
+/**
+ * 測定結果の角度を計算したアルゴリズムのバージョンを取得
+ */
+export const getResultAlgorithmVersion = (result: MeasurementResult): number =>
+  result.algorithmVersion ?? LEGACY_ANGLE_ALGORITHM_VERSION;
+
+/**
+ * 指定したバージョンの角度を取得
+ *
+ * @param result 測定結果
+ * @param selection 表示する角度の選択
+ * @returns 角度（指定したバージョンで計算されていない場合はnull）
+ */
+export const resolveResultAngle = (
+  result: MeasurementResult,
+  selection: AngleVersionSelection
+): number | null => {
+  if (selection === 'recorded') return result.angle;
+  if (getResultAlgorithmVersion(result) === selection) return result.angle;
+  return result.recomputedAngles?.[selection]?.angle ?? null;
+};
+
+/**
+ * 測定結果に含まれるアルゴリズムバージョンの一覧を取得（昇順）
+ */
+export const collectAlgorithmVersions = (
+  results: MeasurementResult[]
+): number[] => {
+  const versions = new Set<number>();
+  results.forEach((result) => {
+    versions.add(getResultAlgorithmVersion(result));
+    Object.keys(result.recomputedAngles ?? {}).forEach((version) =>
+      versions.add(Number(version))
+    );
+  });
+  return Array.from(versions).sort((a, b) => a - b);
+};
+
+/**
+ * 保存済みランドマークから測定結果の角度を再計算
+ * 測定時と同じく中間位の基準角度からの変化量を求める
+ * 基準角度はキャリブレーション時のランドマークがあれば再計算し、無ければ記録時の値を使用する
+ * 記録時の角度は保持中の平均のため、保持中のランドマークがあれば各フレームの角度を平均する
+ *
+ * @param result 測定結果
+ * @param calibration 測定結果のステップの中間位キャリブレーション結果
+ * @param calculator 角度計算に使用するインスタンス
+ * @param now 再計算時刻（ミリ秒）
+ * @returns 再計算した角度（ランドマーク・基準角度が無い場合はnull）
+ */
+export const recomputeResultAngle = (
+  result: MeasurementResult,
+  calibration: NeutralCalibration | undefined,
+  calculator: AngleCalculator = angleCalculator,
+  now: number = Date.now()
+): RecomputedAngle | null => {
+  if (!result.landmarks || result.landmarks.length < 21) return null;
+  // 基準角度が無いと絶対角度になり、相対角度である記録時の角度と比較できない
+  if (!calibration) return null;
+
+  const holdFrames = (result.holdLandmarks ?? []).filter(
+    (landmarks) => landmarks.length >= 21
+  );
+  const frames = holdFrames.length > 0 ? holdFrames : [result.landmarks];
+  const frameAngles = frames.map((landmarks) =>
+    calculator.calculateStepAngle(toPoint3D(landmarks), result.stepId, {
+      hand: result.hand,
+      forearm: result.forearm ?? null,
+    })
+  );
+  const method = frameAngles[0]?.method ?? 'hand-only';
+
+  let referenceAngle = calibration.referenceAngle;
+  let referenceRecomputed = false;
+  if (calibration.landmarks && calibration.landmarks.length >= 21) {
+    referenceAngle = calculator.calculateStepAngle(
+      toPoint3D(calibration.landmarks),
+      result.stepId,
+      { hand: result.hand, forearm: calibration.forearm ?? null }
+    ).angle;
+    referenceRecomputed = true;
+  }
+
+  return {
+    angle:
+      frameAngles.reduce(
+        (sum, { angle }) => sum + Math.abs(angle - referenceAngle),
+        0
+      ) / frameAngles.length,
+    method,
+    referenceRecomputed,
+    frameCount: frameAngles.length,
+    recomputedAt: now,
+  };
+};
+
+/**
+ * 全ての測定結果を現在のアルゴリズムバージョンで再計算
+ * 現在のバージョンで記録・再計算済みの測定結果は省略する
+ *
+ * @param database 測定データベース
+ * @returns 再計算ジョブの結果
+ */
+export const reprocessMeasurementResults = async (
+  database: typeof db
+): Promise<ReprocessSummary> => {
+  const summary: ReprocessSummary = {
+    recomputed: 0,
+    skipped: 0,
+    unavailable: 0,
+    noReference: 0,
+  };
+
+  const sessions = await database.sessions.toArray();
+  const calibrationsBySession = new Map(
+    sessions.map((session) => [session.sessionId, session.calibrations])
+  );
+
+  const results = await database.getAllResults();
+  for (const result of results) {
+    if (
+      !result.id ||
+      getResultAlgorithmVersion(result) === ANGLE_ALGORITHM_VERSION ||
+      result.recomputedAngles?.[ANGLE_ALGORITHM_VERSION]
+    ) {
+      summary.skipped++;
+      continue;
+    }
+
+    const calibration = calibrationsBySession.get(result.sessionId)?.[
+      result.stepId as StepId
+    ];
+    if (!calibration) {
+      summary.noReference++;
+      continue;
+    }
+
+    const recomputed = recomputeResultAngle(result, calibration);
+    if (!recomputed) {
+      summary.unavailable++;
+      continue;
+    }
+
+    await database.saveRecomputedAngle(
+      result.id,
+      ANGLE_ALGORITHM_VERSION,
+      recomputed
+    );
+    summary.recomputed++;
+  }
+
+  return summary;
+};
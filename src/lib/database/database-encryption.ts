@@ -0,0 +1,203 @@
+/**
+ * 保存時の暗号化の管理
+ * パスフレーズによる暗号化の有効化・無効化、ロック・ロック解除、パスフレーズの変更（再暗号化）を行う
+ */
+
+import { db } from './measurement-db';
+import { createKeyring, Keyring, unlockKeyring } from './field-encryption';
+import {
+  getEncryptionState,
+  setEncryptionState,
+} from './encryption-middleware';
+
+/**
+ * 鍵の導出情報のID
+ */
+const KEYRING_ID = 'default';
+
+/**
+ * 暗号化の状態
+ * - disabled: 暗号化していない
+ * - locked: 暗号化しており、ロック中（パスフレーズの入力が必要）
+ * - unlocked: 暗号化しており、ロック解除中
+ */
+export type DatabaseEncryptionStatus = 'disabled' | 'locked' | 'unlocked';
+
+/**
+ * 保存時の暗号化の管理クラス
+ */
+export class DatabaseEncryption {
+  private keyring: Keyring | null = null;
+  private listeners = new Set<(status: DatabaseEncryptionStatus) => void>();
+
+  /**
+   * 鍵の導出情報を読み込み、暗号化の状態を初期化
+   * データベースを読み書きする前に呼び出す
+   * 読み込めない場合は暗号化しているかを判断できないため、平文で保存しないよう書き込みを拒否する状態にする
+   */
+  async initialize(): Promise<DatabaseEncryptionStatus> {
+    try {
+      this.keyring = (await db.keyring.get(KEYRING_ID)) ?? null;
+    } catch (error) {
+      this.keyring = null;
+      setEncryptionState({ enabled: true, key: null });
+      throw error;
+    }
+    setEncryptionState({
+      enabled: this.keyring !== null,
+      key: this.keyring ? getEncryptionState().key : null,
+    });
+    this.notify();
+    return this.getStatus();
+  }
+
+  /**
+   * 現在の暗号化の状態
+   */
+  getStatus(): DatabaseEncryptionStatus {
+    if (!this.keyring) return 'disabled';
+    return getEncryptionState().key ? 'unlocked' : 'locked';
+  }
+
+  /**
+   * 暗号化の状態の変更を購読
+   *
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: (status: DatabaseEncryptionStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * パスフレーズでロックを解除
+   *
+   * @returns ロックを解除できたかどうか（パスフレーズが誤っている場合はfalse）
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    if (!this.keyring) return true;
+
+    const key = await unlockKeyring(this.keyring, passphrase);
+    if (!key) return false;
+
+    setEncryptionState({ enabled: true, key });
+    this.notify();
+    return true;
+  }
+
+  /**
+   * ロック（鍵をメモリから破棄する）
+   */
+  lock(): void {
+    if (!this.keyring) return;
+
+    setEncryptionState({ enabled: true, key: null });
+    this.notify();
+  }
+
+  /**
+   * 暗号化を有効にし、保存済みのデータを暗号化
+   */
+  async enable(passphrase: string): Promise<void> {
+    if (this.keyring) {
+      throw new Error('暗号化は既に有効です');
+    }
+
+    const { keyring, key } = await createKeyring(KEYRING_ID, passphrase);
+    await this.reencrypt(keyring, key);
+  }
+
+  /**
+   * パスフレーズを変更し、保存済みのデータを新しい鍵で再暗号化
+   *
+   * @returns 変更できたかどうか（現在のパスフレーズが誤っている場合はfalse）
+   */
+  async changePassphrase(
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<boolean> {
+    if (!(await this.verify(currentPassphrase))) return false;
+
+    const { keyring, key } = await createKeyring(KEYRING_ID, newPassphrase);
+    await this.reencrypt(keyring, key);
+    return true;
+  }
+
+  /**
+   * 暗号化を無効にし、保存済みのデータを復号して保存
+   *
+   * @returns 無効にできたかどうか（パスフレーズが誤っている場合はfalse）
+   */
+  async disable(passphrase: string): Promise<boolean> {
+    if (!(await this.verify(passphrase))) return false;
+
+    await this.reencrypt(null, null);
+    return true;
+  }
+
+  /**
+   * パスフレーズを検証し、ロック中の場合はロックを解除
+   */
+  private async verify(passphrase: string): Promise<boolean> {
+    if (!this.keyring) return false;
+    return this.unlock(passphrase);
+  }
+
+  /**
+   * 全テーブルのデータを新しい鍵で保存し直す
+   * 1つのトランザクションで現在の鍵で読み込み、新しい鍵で書き込むため、
+   * 途中で失敗した場合はデータと鍵の導出情報は変更されない
+   *
+   * @param keyring 新しい鍵の導出情報（暗号化を無効にする場合はnull）
+   * @param key 新しい鍵（暗号化を無効にする場合はnull）
+   */
+  private async reencrypt(
+    keyring: Keyring | null,
+    key: CryptoKey | null
+  ): Promise<void> {
+    const previousState = getEncryptionState();
+    const dataTables = db.tables.filter(
+      (table) => table.name !== db.keyring.name
+    );
+
+    try {
+      await db.transaction('rw', db.tables, async () => {
+        const rows = new Map<string, unknown[]>();
+        for (const table of dataTables) {
+          rows.set(table.name, await table.toArray());
+        }
+
+        setEncryptionState({ enabled: keyring !== null, key });
+        for (const table of dataTables) {
+          await table.bulkPut(rows.get(table.name) ?? []);
+        }
+
+        if (keyring) {
+          await db.keyring.put(keyring);
+        } else {
+          await db.keyring.delete(KEYRING_ID);
+        }
+      });
+    } catch (error) {
+      setEncryptionState(previousState);
+      console.error('データベースの再暗号化エラー:', error);
+      throw error;
+    }
+
+    this.keyring = keyring;
+    this.notify();
+  }
+
+  /**
+   * 購読者に暗号化の状態を通知
+   */
+  private notify(): void {
+    const status = this.getStatus();
+    this.listeners.forEach((listener) => listener(status));
+  }
+}
+
+// シングルトンインスタンス
+export const databaseEncryption = new DatabaseEncryption();
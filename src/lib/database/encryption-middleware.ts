@@ -0,0 +1,275 @@
+/**
+ * 保存時の暗号化ミドルウェア（Dexie DBCore）
+ * 暗号化が有効な場合、テーブルごとに指定した機密性の高いフィールドを保存時に暗号化し、
+ * 読み込み時に復号する。暗号化していないデータは変更せずにそのまま読み書きする
+ */
+
+import type {
+  DBCore,
+  DBCoreCursor,
+  DBCoreTable,
+  DBCoreTransaction,
+  Middleware,
+} from 'dexie';
+import {
+  decryptRecord,
+  encryptRecord,
+  hasEncryptedFields,
+} from './field-encryption';
+
+/**
+ * テーブルごとの暗号化するフィールド
+ * 主キー・インデックスに使うフィールド（ユーザーID・日時・手など）は検索に必要なため暗号化しない
+ */
+export const ENCRYPTED_FIELDS: Record<string, readonly string[]> = {
+  users: ['name', 'currentSymptomLevel'],
+  measurements: [
+    'wristFlexion',
+    'wristExtension',
+    'wristUlnarDeviation',
+    'wristRadialDeviation',
+    'wristPronation',
+    'wristSupination',
+    'thumbFlexion',
+    'thumbExtension',
+    'thumbAdduction',
+    'thumbAbduction',
+    'comparisonResult',
+  ],
+  records: ['notes', 'performanceLevel', 'painLevel', 'motivationLevel'],
+  progress: ['motionProgress', 'activityProgress'],
+  sessions: ['fingerRangeOfMotion', 'calibrations'],
+  results: [
+    'angle',
+    'landmarks',
+    'holdLandmarks',
+    'fingerAngles',
+    'forearm',
+    'recomputedAngles',
+    'angleSeries',
+    'kinematics',
+    'evidenceImage',
+  ],
+  pairedReadings: ['aiAngle', 'goniometerAngle'],
+  tremorRecords: ['analysis', 'frames'],
+  sessionRecordings: ['video', 'frames'],
+};
+
+/**
+ * ロック中に暗号化したデータを読み書きしようとした場合のエラーメッセージ
+ */
+export const DATABASE_LOCKED_MESSAGE =
+  'データベースがロックされています。パスフレーズでロックを解除してください';
+
+/**
+ * 暗号化の状態
+ */
+export interface EncryptionState {
+  /** 暗号化が有効かどうか（有効な場合、ロック中は書き込みできない） */
+  enabled: boolean;
+  /** ロック解除中の鍵（ロック中・無効の場合はnull） */
+  key: CryptoKey | null;
+}
+
+let encryptionState: EncryptionState = { enabled: false, key: null };
+
+/**
+ * 暗号化の状態を取得
+ */
+export const getEncryptionState = (): EncryptionState => encryptionState;
+
+/**
+ * 暗号化の状態を設定
+ */
+export const setEncryptionState = (state: EncryptionState): void => {
+  encryptionState = state;
+};
+
+/**
+ * トランザクションを維持するための読み込みに使うキー（存在しないキー）
+ */
+const KEEP_ALIVE_KEY = -Infinity;
+
+/**
+ * 暗号化・復号の完了までトランザクションを維持する
+ * IndexedDBのトランザクションは未完了のリクエストがなくなると自動的にコミットされるため、
+ * 完了まで読み込みを繰り返し、その完了時に結果を返すことで後続のリクエストを同じトランザクションで行えるようにする
+ *
+ * @param table 読み込みに使うテーブル
+ * @param trans トランザクション
+ * @param task 暗号化・復号の処理
+ */
+const keepTransactionAlive = <T>(
+  table: DBCoreTable,
+  trans: DBCoreTransaction,
+  task: Promise<T>
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    let outcome: { value: T } | { error: unknown } | null = null;
+    task.then(
+      (value) => {
+        outcome = { value };
+      },
+      (error: unknown) => {
+        outcome = { error };
+      }
+    );
+
+    const ping = (): void => {
+      table.get({ trans, key: KEEP_ALIVE_KEY }).then(() => {
+        if (!outcome) {
+          ping();
+        } else if ('value' in outcome) {
+          resolve(outcome.value);
+        } else {
+          reject(outcome.error);
+        }
+      }, reject);
+    };
+    ping();
+  });
+
+/**
+ * ロック解除中の鍵を取得（ロック中の場合は例外を投げる）
+ */
+const requireKey = (): CryptoKey => {
+  if (!encryptionState.key) throw new Error(DATABASE_LOCKED_MESSAGE);
+  return encryptionState.key;
+};
+
+/**
+ * 読み込んだレコードを復号
+ * 暗号化したフィールドを含まない場合はそのまま返す
+ */
+const decryptValues = (
+  table: DBCoreTable,
+  trans: DBCoreTransaction,
+  values: unknown[]
+): Promise<unknown[]> => {
+  if (!values.some(hasEncryptedFields)) return Promise.resolve(values);
+
+  try {
+    const key = requireKey();
+    return keepTransactionAlive(
+      table,
+      trans,
+      Promise.all(
+        values.map((value) =>
+          hasEncryptedFields(value)
+            ? decryptRecord(key, value as object)
+            : value
+        )
+      )
+    );
+  } catch (error) {
+    return Promise.reject(error);
+  }
+};
+
+/**
+ * 復号した値を返すカーソル
+ * 各レコードの復号が完了してから呼び出し元の処理を行う
+ */
+const createDecryptingCursor = (
+  table: DBCoreTable,
+  cursor: DBCoreCursor
+): DBCoreCursor => {
+  let value: unknown;
+
+  return Object.create(cursor, {
+    // IDBCursorのプロパティはカーソル自身から読む
+    key: { get: () => cursor.key },
+    primaryKey: { get: () => cursor.primaryKey },
+    value: { get: () => value },
+    start: {
+      value: (onNext: () => void) =>
+        cursor.start(() => {
+          const raw = cursor.value;
+          if (!hasEncryptedFields(raw)) {
+            value = raw;
+            onNext();
+            return;
+          }
+          decryptValues(table, cursor.trans, [raw])
+            .then(([decrypted]) => {
+              value = decrypted;
+              onNext();
+            })
+            .catch((error: unknown) => cursor.fail(error as Error));
+        }),
+    },
+  }) as DBCoreCursor;
+};
+
+/**
+ * 暗号化・復号を行うテーブル
+ */
+const createEncryptedTable = (
+  table: DBCoreTable,
+  fields: readonly string[]
+): DBCoreTable => ({
+  ...table,
+  mutate: (req) => {
+    if (req.type !== 'add' && req.type !== 'put') return table.mutate(req);
+    if (!encryptionState.enabled) return table.mutate(req);
+
+    try {
+      const key = requireKey();
+      return keepTransactionAlive(
+        table,
+        req.trans,
+        Promise.all(
+          req.values.map((value: object) => encryptRecord(key, value, fields))
+        )
+      ).then((values) => table.mutate({ ...req, values }));
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  },
+  get: (req) =>
+    table
+      .get(req)
+      .then((value: unknown) =>
+        decryptValues(table, req.trans, [value]).then(
+          ([decrypted]) => decrypted
+        )
+      ),
+  getMany: (req) =>
+    table
+      .getMany(req)
+      .then((values: unknown[]) => decryptValues(table, req.trans, values)),
+  query: (req) =>
+    req.values
+      ? table
+          .query(req)
+          .then((response) =>
+            decryptValues(table, req.trans, response.result).then((result) => ({
+              ...response,
+              result,
+            }))
+          )
+      : table.query(req),
+  openCursor: (req) =>
+    req.values
+      ? table
+          .openCursor(req)
+          .then((cursor) => cursor && createDecryptingCursor(table, cursor))
+      : table.openCursor(req),
+});
+
+/**
+ * 保存時の暗号化ミドルウェア
+ * ENCRYPTED_FIELDSに含まれないテーブル（鍵の導出情報・移行の記録）はそのまま読み書きする
+ */
+export const encryptionMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'EncryptionMiddleware',
+  create: (down) => ({
+    ...down,
+    table: (tableName) => {
+      const table = down.table(tableName);
+      const fields = ENCRYPTED_FIELDS[tableName];
+      return fields ? createEncryptedTable(table, fields) : table;
+    },
+  }),
+};
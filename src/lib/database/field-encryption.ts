@@ -0,0 +1,213 @@
+/**
+ * フィールド単位の暗号化（WebCrypto）
+ * パスフレーズからPBKDF2で鍵を導出し、レコードの機密性の高いフィールドをAES-GCMで暗号化する
+ */
+
+/**
+ * PBKDF2の反復回数
+ */
+export const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * ソルトの長さ（バイト）
+ */
+const SALT_LENGTH = 16;
+
+/**
+ * AES-GCMの初期化ベクトルの長さ（バイト）
+ */
+const IV_LENGTH = 12;
+
+/**
+ * パスフレーズの確認に使う平文
+ */
+const VERIFIER_PLAINTEXT = 'rehab-database-keyring';
+
+/**
+ * 暗号化したフィールドの値
+ */
+export interface EncryptedField {
+  __encrypted: 1;
+  /** 平文の形式（JSON、またはBlob） */
+  format: 'json' | 'blob';
+  /** Blobの場合のMIMEタイプ */
+  mimeType?: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+/**
+ * 鍵の導出情報とパスフレーズの確認値
+ * パスフレーズと鍵そのものは保存しない
+ */
+export interface Keyring {
+  id: string;
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  /** 確認用の平文を暗号化した値（復号できればパスフレーズが正しい） */
+  verifier: EncryptedField;
+  createdAt: number;
+}
+
+/**
+ * 暗号化したフィールドの値かどうか
+ */
+export const isEncryptedField = (value: unknown): value is EncryptedField =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as EncryptedField).__encrypted === 1;
+
+/**
+ * パスフレーズからAES-GCMの鍵を導出
+ */
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * フィールドの値を暗号化
+ * Blob以外の値はJSONとして暗号化する
+ */
+export const encryptFieldValue = async (
+  key: CryptoKey,
+  value: unknown
+): Promise<EncryptedField> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const isBlob = value instanceof Blob;
+  const plaintext = isBlob
+    ? await value.arrayBuffer()
+    : new TextEncoder().encode(JSON.stringify(value));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    plaintext
+  );
+
+  return {
+    __encrypted: 1,
+    format: isBlob ? 'blob' : 'json',
+    ...(isBlob ? { mimeType: value.type } : {}),
+    iv,
+    data,
+  };
+};
+
+/**
+ * 暗号化したフィールドの値を復号
+ * 鍵が異なる・改ざんされている場合は例外を投げる
+ */
+export const decryptFieldValue = async (
+  key: CryptoKey,
+  field: EncryptedField
+): Promise<unknown> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: field.iv },
+    key,
+    field.data
+  );
+  return field.format === 'blob'
+    ? new Blob([plaintext], { type: field.mimeType ?? '' })
+    : JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+/**
+ * レコードの指定したフィールドを暗号化（元のレコードは変更しない）
+ */
+export const encryptRecord = async <T extends object>(
+  key: CryptoKey,
+  record: T,
+  fields: readonly string[]
+): Promise<T> => {
+  const encrypted = { ...record } as Record<string, unknown>;
+  for (const field of fields) {
+    const value = encrypted[field];
+    if (value === undefined || isEncryptedField(value)) continue;
+    encrypted[field] = await encryptFieldValue(key, value);
+  }
+  return encrypted as T;
+};
+
+/**
+ * レコードの暗号化したフィールドを復号（元のレコードは変更しない）
+ */
+export const decryptRecord = async <T extends object>(
+  key: CryptoKey,
+  record: T
+): Promise<T> => {
+  const decrypted = { ...record } as Record<string, unknown>;
+  for (const [field, value] of Object.entries(decrypted)) {
+    if (isEncryptedField(value)) {
+      decrypted[field] = await decryptFieldValue(key, value);
+    }
+  }
+  return decrypted as T;
+};
+
+/**
+ * レコードに暗号化したフィールドが含まれるかどうか
+ */
+export const hasEncryptedFields = (record: unknown): boolean =>
+  typeof record === 'object' &&
+  record !== null &&
+  Object.values(record).some(isEncryptedField);
+
+/**
+ * パスフレーズから新しい鍵を作成
+ *
+ * @param id 鍵の導出情報のID
+ * @param passphrase パスフレーズ
+ * @returns 鍵の導出情報と導出した鍵
+ */
+export const createKeyring = async (
+  id: string,
+  passphrase: string
+): Promise<{ keyring: Keyring; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const key = await deriveKey(passphrase, salt);
+
+  return {
+    keyring: {
+      id,
+      salt,
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptFieldValue(key, VERIFIER_PLAINTEXT),
+      createdAt: Date.now(),
+    },
+    key,
+  };
+};
+
+/**
+ * パスフレーズで鍵を導出し、確認値を復号できるか検証
+ *
+ * @returns 導出した鍵（パスフレーズが誤っている場合はnull）
+ */
+export const unlockKeyring = async (
+  keyring: Keyring,
+  passphrase: string
+): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, keyring.salt, keyring.iterations);
+  try {
+    const plaintext = await decryptFieldValue(key, keyring.verifier);
+    return plaintext === VERIFIER_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
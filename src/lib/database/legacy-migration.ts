@@ -0,0 +1,99 @@
+/**
+ * 旧データベースからのデータ移行の補助関数
+ * 統合前のMeasurementDatabase（セッション・ステップごとの測定結果など）のデータを
+ * 統合したRehabDatabaseへ移行する際の変換と、集計した測定データと集計元のセッションの関連付け
+ */
+
+import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import type { PairedReading } from '@/core/domain/types/measurement';
+import type {
+  MeasurementResult,
+  MeasurementSession,
+  SessionRecording,
+  TremorRecord,
+} from './measurement-db';
+
+/**
+ * 旧MeasurementDatabaseのデータベース名
+ */
+export const LEGACY_MEASUREMENT_DB_NAME = 'MeasurementDatabase';
+
+/**
+ * 旧MeasurementDatabaseからの移行の識別子
+ */
+export const LEGACY_MEASUREMENT_MIGRATION_ID = 'measurement-database-v4';
+
+/**
+ * 旧MeasurementDatabaseのテーブルごとのデータ
+ * 旧スキーマのバージョンによっては存在しないテーブルがあるため、その場合は空配列
+ */
+export interface LegacyMeasurementData {
+  sessions: MeasurementSession[];
+  results: MeasurementResult[];
+  pairedReadings: PairedReading[];
+  tremorRecords: TremorRecord[];
+  sessionRecordings: SessionRecording[];
+}
+
+/**
+ * 集計した測定データと集計元のセッションの関連付け
+ */
+export interface MeasurementSessionLink {
+  measurementId: string;
+  sessionId: string;
+}
+
+/**
+ * 自動採番の主キーを除去
+ * 移行先で採番し直すことで、移行前に保存されたデータと主キーが重複しないようにする
+ */
+export const withoutAutoIncrementId = <T extends { id?: number }>(
+  rows: T[]
+): T[] =>
+  rows.map((row) => {
+    const copy = { ...row };
+    delete copy.id;
+    return copy;
+  });
+
+/**
+ * 日付（ローカル時刻）が同じかどうか
+ */
+const isSameLocalDate = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * 集計元のセッションが未設定の測定データを、集計元と推定されるセッションに関連付ける
+ * 測定データは同じ日・同じ手の完了した手首・母指モードのセッションから、
+ * 測定データの作成時刻までに開始した最新のセッションを集計元とみなす
+ *
+ * @param measurements 集計した測定データ
+ * @param sessions 測定セッション
+ * @returns 関連付けできた測定データと集計元のセッション
+ */
+export const linkMeasurementsToSessions = (
+  measurements: MotionMeasurement[],
+  sessions: MeasurementSession[]
+): MeasurementSessionLink[] =>
+  measurements.flatMap((measurement) => {
+    if (measurement.sessionId) return [];
+
+    const measurementDate = new Date(measurement.measurementDate);
+    const createdAt = new Date(measurement.createdAt).getTime();
+    const source = sessions
+      .filter(
+        (session) =>
+          session.hand === measurement.handUsed &&
+          session.mode !== 'finger' &&
+          session.isCompleted &&
+          session.startTime <= createdAt &&
+          isSameLocalDate(new Date(session.startTime), measurementDate)
+      )
+      .sort((a, b) => b.startTime - a.startTime)[0];
+
+    return source
+      ? [{ measurementId: measurement.id, sessionId: source.sessionId }]
+      : [];
+  });
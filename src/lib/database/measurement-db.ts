@@ -1,8 +1,60 @@
 /**
  * 測定データベース - IndexedDB with Dexie.js
+ * ユーザー・集計した測定データ・カレンダー記録・進捗データと、
+ * 測定セッション・ステップごとの測定結果を1つのスキーマで管理する
  */
 
 import Dexie, { Table } from 'dexie';
+import type { User } from '@/lib/data-manager/models/user';
+import { getTimeOfDay, MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import type { CalendarRecord } from '@/lib/data-manager/models/calendar-record';
+import type { ProgressData } from '@/lib/data-manager/models/progress-data';
+import type {
+  FingerAngles,
+  FingerRangeOfMotion,
+  ForearmAxisMethod,
+} from '@/core/domain/types/angle';
+import type {
+  ForearmLandmarks,
+  QualityMetrics,
+} from '@/core/domain/types/hand-landmark';
+import {
+  AngleSeries,
+  BilateralSessionLink,
+  MeasurementMode,
+  MovementKinematics,
+  NeutralCalibration,
+  PairedReading,
+  STEP_IDS_BY_MODE,
+  StepId,
+  TremorAnalysis,
+  TremorTestType,
+} from '@/core/domain/types/measurement';
+import {
+  LEGACY_MEASUREMENT_DB_NAME,
+  LEGACY_MEASUREMENT_MIGRATION_ID,
+  LegacyMeasurementData,
+  linkMeasurementsToSessions,
+  withoutAutoIncrementId,
+} from './legacy-migration';
+import type { Keyring } from './field-encryption';
+import { encryptionMiddleware } from './encryption-middleware';
+
+/**
+ * 保存済みランドマークから再計算した角度
+ */
+export interface RecomputedAngle {
+  /** 再計算した角度（度） */
+  angle: number;
+  /** 再計算時の前腕軸の推定方法 */
+  method: ForearmAxisMethod;
+  /** 中間位の基準角度も再計算したか（falseの場合は記録時の基準角度を使用） */
+  referenceRecomputed: boolean;
+  /** 角度を平均したフレーム数（1の場合は最大角度のフレームのみから計算） */
+  frameCount: number;
+  /** 再計算時刻（ミリ秒） */
+  recomputedAt: number;
+}
 
 /**
  * 測定結果データ
@@ -18,6 +70,26 @@ export interface MeasurementResult {
   targetAngle: number;
   isCompleted: boolean;
   landmarks?: Array<{ x: number; y: number; z: number }>;
+  /** 前腕軸の推定方法（MediaPipe Pose使用時は'pose'） */
+  forearmAxisMethod?: ForearmAxisMethod;
+  /** 指関節角度（指モードのみ） */
+  fingerAngles?: FingerAngles;
+  /** ステップ中のフレームを集計した品質指標 */
+  qualityMetrics?: QualityMetrics;
+  /** angleを計算した角度計算アルゴリズムのバージョン（未記録はバージョン記録前） */
+  algorithmVersion?: number;
+  /** 最大角度のフレームの前腕ランドマーク（前腕軸を使用した場合のみ） */
+  forearm?: ForearmLandmarks;
+  /** 最大角度を保持していた間の各フレームのランドマーク（再計算で保持中の平均角度を求める） */
+  holdLandmarks?: Array<Array<{ x: number; y: number; z: number }>>;
+  /** アルゴリズムのバージョンごとに再計算した角度 */
+  recomputedAngles?: Record<number, RecomputedAngle>;
+  /** ステップ中の角度の時系列 */
+  angleSeries?: AngleSeries;
+  /** 角度の時系列から算出した動作の質の指標 */
+  kinematics?: MovementKinematics;
+  /** 最大角度を確定したフレームの注釈付き画像（JPEGのデータURL） */
+  evidenceImage?: string;
 }
 
 /**
@@ -29,41 +101,205 @@ export interface MeasurementSession {
   startTime: number;
   endTime?: number;
   hand: 'left' | 'right';
+  /** 測定モード（未指定は手首・母指モード） */
+  mode?: MeasurementMode;
   isCompleted: boolean;
   totalSteps: number;
   completedSteps: number;
+  /** 指ごとのTAM（指モードのみ） */
+  fingerRangeOfMotion?: FingerRangeOfMotion;
+  /** ステップごとの中間位キャリブレーション結果 */
+  calibrations?: Partial<Record<StepId, NeutralCalibration>>;
+  /** 左右比較測定の情報（左右比較測定のみ） */
+  bilateral?: BilateralSessionLink;
+}
+
+/**
+ * 左右比較測定の両手の測定結果
+ */
+export interface BilateralResults {
+  /** 左右比較測定の情報 */
+  link: BilateralSessionLink;
+  /** 測定開始時刻（健側の測定開始） */
+  startTime: number;
+  /** 両手の測定結果 */
+  results: MeasurementResult[];
+}
+
+/**
+ * 振戦検査の記録
+ */
+export interface TremorRecord {
+  id?: number;
+  hand: 'left' | 'right';
+  testType: TremorTestType;
+  recordedAt: number;
+  /** スペクトル解析結果 */
+  analysis: TremorAnalysis;
+  /** 記録した映像の大きさ（ピクセル、再解析用。旧データには無い） */
+  frameSize?: { width: number; height: number };
+  /** 記録したランドマーク（再解析用、検出できなかったフレームはnull） */
+  frames: Array<{
+    timestampMs: number;
+    landmarks: Array<{ x: number; y: number; z: number }> | null;
+  }>;
+}
+
+/**
+ * 録画中のフレームごとの測定状態
+ */
+export interface RecordedFrame {
+  /** 録画開始からの経過時間（ミリ秒） */
+  timeMs: number;
+  stepId: StepId;
+  /** 対象の手のランドマーク（検出できなかったフレームはnull） */
+  landmarks: Array<{ x: number; y: number; z: number }> | null;
+  /** 0度基準からの変化量（度、基準確定前・検出できなかったフレームはnull） */
+  angle: number | null;
+}
+
+/**
+ * 録画したステップの区間
+ */
+export interface RecordedStep {
+  stepId: StepId;
+  stepName: string;
+  targetAngle: number;
+  /** ステップの測定を開始した時刻（録画開始からの経過時間、ミリ秒） */
+  startMs: number;
 }
 
 /**
- * 測定データベースクラス
+ * 測定セッションの録画
  */
-class MeasurementDatabase extends Dexie {
+export interface SessionRecording {
+  id?: number;
+  sessionId: string;
+  hand: 'left' | 'right';
+  recordedAt: number;
+  /** 録画の長さ（ミリ秒） */
+  durationMs: number;
+  mimeType: string;
+  video: Blob;
+  steps: RecordedStep[];
+  frames: RecordedFrame[];
+}
+
+/**
+ * 実行済みのデータ移行の記録
+ */
+export interface MigrationRecord {
+  /** 移行の識別子 */
+  id: string;
+  /** 移行した時刻（ミリ秒） */
+  migratedAt: number;
+  /** テーブルごとの移行件数 */
+  counts: Record<string, number>;
+}
+
+/**
+ * セッションと、そのステップごとの測定結果・集計した測定データ
+ */
+export interface SessionWithResults {
+  session: MeasurementSession;
+  results: MeasurementResult[];
+  /** セッションを集計した測定データ（保存していない場合はundefined） */
+  measurement?: MotionMeasurement;
+}
+
+/**
+ * リハビリテーションアプリケーション用データベースクラス
+ * 旧RehabDatabase（v1）に旧MeasurementDatabaseのテーブルを統合したもの
+ *
+ * テーブル間の参照:
+ * - measurements.userId → users.id
+ * - measurements.sessionId → sessions.sessionId（集計元のセッション）
+ * - results.sessionId → sessions.sessionId
+ * - pairedReadings.sessionId / sessionRecordings.sessionId → sessions.sessionId
+ */
+export class RehabDatabase extends Dexie {
   // テーブル定義
+  users!: Table<User>;
+  measurements!: Table<MotionMeasurement>;
+  records!: Table<CalendarRecord>;
+  progress!: Table<ProgressData>;
   sessions!: Table<MeasurementSession>;
   results!: Table<MeasurementResult>;
+  pairedReadings!: Table<PairedReading>;
+  tremorRecords!: Table<TremorRecord>;
+  sessionRecordings!: Table<SessionRecording>;
+  migrations!: Table<MigrationRecord>;
+  keyring!: Table<Keyring>;
 
   constructor() {
-    super('MeasurementDatabase');
-    
+    super('RehabDatabase');
+
+    // v1: 旧RehabDatabaseのスキーマ
     this.version(1).stores({
+      users: 'id, name, createdAt',
+      measurements: 'id, userId, measurementDate, handUsed, createdAt, [userId+measurementDate]',
+      records: 'id, userId, recordDate, createdAt, updatedAt, [userId+recordDate]',
+      progress: 'id, userId, analysisDate, analysisPeriod, createdAt, [userId+analysisPeriod]'
+    });
+
+    // v2: 旧MeasurementDatabase（v4）のテーブルを統合し、集計した測定データに集計元のセッションへの参照を追加
+    // 旧MeasurementDatabaseのデータは別のデータベースのため、接続完了時（ready）に移行する
+    this.version(2).stores({
+      measurements: 'id, userId, sessionId, measurementDate, handUsed, createdAt, [userId+measurementDate]',
       sessions: '++id, sessionId, startTime, endTime, hand, isCompleted',
-      results: '++id, sessionId, timestamp, hand, stepId, stepName, angle, isCompleted'
+      results: '++id, sessionId, timestamp, hand, stepId, stepName, angle, isCompleted',
+      pairedReadings: '++id, sessionId, stepId, hand, recordedAt',
+      tremorRecords: '++id, hand, testType, recordedAt',
+      sessionRecordings: '++id, sessionId, hand, recordedAt',
+      migrations: 'id'
+    }).upgrade(async (transaction) => {
+      // 旧RehabDatabaseの測定データはそのまま引き継ぐ（集計元のセッションは移行時に関連付ける）
+      const count = await transaction.table('measurements').count();
+      console.log(`RehabDatabase: v2へ更新しました（測定データ ${count} 件を引き継ぎ）`);
+    });
+
+    // v3: 1日に複数回の測定を残すため、測定データに時間帯を追加
+    this.version(3).stores({
+      measurements: 'id, userId, sessionId, measurementDate, timeOfDay, handUsed, createdAt, [userId+measurementDate]'
+    }).upgrade(async (transaction) => {
+      await transaction.table('measurements').toCollection().modify((measurement: MotionMeasurement) => {
+        measurement.timeOfDay = getTimeOfDay(new Date(measurement.measurementDate));
+      });
     });
+
+    // v4: 保存時の暗号化のため、鍵の導出情報を追加し、暗号化する氏名・角度のインデックスを削除
+    this.version(4).stores({
+      users: 'id, createdAt',
+      results: '++id, sessionId, timestamp, hand, stepId, stepName, isCompleted',
+      keyring: 'id'
+    });
+
+    // 暗号化が有効な場合、機密性の高いフィールドを保存時に暗号化する
+    this.use(encryptionMiddleware);
   }
 
   /**
    * 新しい測定セッションを開始
+   *
+   * @param totalSteps ステップ数（省略時はモードの全ステップ数。動画解析など一部のステップのみを測定する場合に指定）
    */
-  async startSession(hand: 'left' | 'right'): Promise<string> {
+  async startSession(
+    hand: 'left' | 'right',
+    mode: MeasurementMode = 'wrist',
+    bilateral?: BilateralSessionLink,
+    totalSteps: number = STEP_IDS_BY_MODE[mode].length
+  ): Promise<string> {
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
     await this.sessions.add({
       sessionId,
       startTime: Date.now(),
       hand,
+      mode,
       isCompleted: false,
-      totalSteps: 4, // 掌屈、背屈、尺屈、橈屈
+      totalSteps,
       completedSteps: 0,
+      ...(bilateral ? { bilateral } : {}),
     });
 
     return sessionId;
@@ -119,6 +355,119 @@ class MeasurementDatabase extends Dexie {
       });
   }
 
+  /**
+   * 指モードのTAMをセッションに保存
+   */
+  async saveFingerRangeOfMotion(sessionId: string, fingerRangeOfMotion: FingerRangeOfMotion): Promise<void> {
+    await this.sessions
+      .where('sessionId')
+      .equals(sessionId)
+      .modify({ fingerRangeOfMotion });
+  }
+
+  /**
+   * ステップの中間位キャリブレーション結果をセッションに保存
+   * 同じステップで再キャリブレーションした場合は上書きする
+   */
+  async saveCalibration(sessionId: string, calibration: NeutralCalibration): Promise<void> {
+    await this.sessions
+      .where('sessionId')
+      .equals(sessionId)
+      .modify((session) => {
+        session.calibrations = {
+          ...session.calibrations,
+          [calibration.stepId]: calibration,
+        };
+      });
+  }
+
+  /**
+   * ゴニオメーターとの比較測定値を保存
+   * 同じセッション・ステップで再入力した場合は上書きする
+   */
+  async savePairedReading(reading: Omit<PairedReading, 'id' | 'recordedAt'>): Promise<void> {
+    const existingReading = await this.pairedReadings
+      .where({ sessionId: reading.sessionId, stepId: reading.stepId })
+      .first();
+
+    if (existingReading && existingReading.id) {
+      await this.pairedReadings.update(existingReading.id, {
+        ...reading,
+        recordedAt: Date.now(),
+      });
+    } else {
+      await this.pairedReadings.add({
+        ...reading,
+        recordedAt: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * ゴニオメーターとの比較測定値を取得
+   */
+  async getPairedReadings(hand?: 'left' | 'right'): Promise<PairedReading[]> {
+    const readings = hand
+      ? await this.pairedReadings.where('hand').equals(hand).toArray()
+      : await this.pairedReadings.toArray();
+    return readings.sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  /**
+   * 振戦検査の記録を保存
+   */
+  async saveTremorRecord(record: Omit<TremorRecord, 'id' | 'recordedAt'>): Promise<void> {
+    await this.tremorRecords.add({
+      ...record,
+      recordedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 振戦検査の記録を取得（記録順）
+   */
+  async getTremorRecords(hand?: 'left' | 'right'): Promise<TremorRecord[]> {
+    const records = hand
+      ? await this.tremorRecords.where('hand').equals(hand).toArray()
+      : await this.tremorRecords.toArray();
+    return records.sort((a, b) => a.recordedAt - b.recordedAt);
+  }
+
+  /**
+   * 測定セッションの録画を保存
+   */
+  async saveSessionRecording(recording: Omit<SessionRecording, 'id' | 'recordedAt'>): Promise<void> {
+    await this.sessionRecordings.add({
+      ...recording,
+      recordedAt: Date.now(),
+    });
+  }
+
+  /**
+   * 測定セッションの録画を取得（新しい順）
+   */
+  async getSessionRecordings(): Promise<SessionRecording[]> {
+    const recordings = await this.sessionRecordings.toArray();
+    return recordings.sort((a, b) => b.recordedAt - a.recordedAt);
+  }
+
+  /**
+   * 再計算した角度を測定結果に保存
+   * 同じバージョンで再計算した場合は上書きする
+   */
+  async saveRecomputedAngle(resultId: number, version: number, recomputed: RecomputedAngle): Promise<void> {
+    await this.results.update(resultId, {
+      [`recomputedAngles.${version}`]: recomputed,
+    });
+  }
+
+  /**
+   * 全ての測定結果を取得
+   */
+  async getAllResults(): Promise<MeasurementResult[]> {
+    return await this.results.toArray();
+  }
+
   /**
    * セッションの完了ステップ数を更新
    */
@@ -136,6 +485,72 @@ class MeasurementDatabase extends Dexie {
     return await this.sessions.orderBy('startTime').reverse().toArray();
   }
 
+  /**
+   * 手ごとのセッションを、ステップごとの測定結果・集計した測定データと合わせて取得（開始順）
+   */
+  async getSessionsWithResults(hand: 'left' | 'right'): Promise<SessionWithResults[]> {
+    const sessions = await this.sessions.where('hand').equals(hand).sortBy('startTime');
+    const sessionIds = sessions.map(session => session.sessionId);
+    const [results, measurements] = await Promise.all([
+      this.results.where('sessionId').anyOf(sessionIds).toArray(),
+      this.measurements.where('sessionId').anyOf(sessionIds).toArray(),
+    ]);
+
+    return sessions.map(session => {
+      const measurement = measurements.find(m => m.sessionId === session.sessionId);
+      return {
+        session,
+        results: results.filter(result => result.sessionId === session.sessionId),
+        ...(measurement ? { measurement } : {}),
+      };
+    });
+  }
+
+  /**
+   * 左右比較測定の両手の測定結果を取得
+   */
+  async getBilateralResults(bilateralId: string): Promise<MeasurementResult[]> {
+    const sessions = await this.sessions
+      .filter(session => session.bilateral?.bilateralId === bilateralId)
+      .toArray();
+    const sessionIds = sessions.map(session => session.sessionId);
+    return await this.results.where('sessionId').anyOf(sessionIds).toArray();
+  }
+
+  /**
+   * 両手の測定が完了した最新の左右比較測定を取得
+   */
+  async getLatestBilateralResults(): Promise<BilateralResults | null> {
+    const sessions = await this.sessions
+      .filter(session => session.isCompleted && !!session.bilateral)
+      .toArray();
+
+    // 左右比較測定ごとに測定済みの手を集計
+    const groups = new Map<string, { link: BilateralSessionLink; startTime: number; hands: Set<string> }>();
+    sessions.forEach(session => {
+      if (!session.bilateral) return;
+      const group = groups.get(session.bilateral.bilateralId) ?? {
+        link: session.bilateral,
+        startTime: session.startTime,
+        hands: new Set<string>(),
+      };
+      group.startTime = Math.min(group.startTime, session.startTime);
+      group.hands.add(session.hand);
+      groups.set(session.bilateral.bilateralId, group);
+    });
+
+    const latest = Array.from(groups.values())
+      .filter(group => group.hands.size === 2)
+      .sort((a, b) => b.startTime - a.startTime)[0];
+    if (!latest) return null;
+
+    return {
+      link: latest.link,
+      startTime: latest.startTime,
+      results: await this.getBilateralResults(latest.link.bilateralId),
+    };
+  }
+
   /**
    * セッションの測定結果を取得
    */
@@ -146,6 +561,21 @@ class MeasurementDatabase extends Dexie {
       .toArray();
   }
 
+  /**
+   * 指定した日の測定結果を取得
+   */
+  async getResultsByDate(date: Date): Promise<MeasurementResult[]> {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+
+    return await this.results
+      .where('timestamp')
+      .between(start.getTime(), end.getTime(), true, false)
+      .toArray();
+  }
+
   /**
    * 最新の測定結果を取得
    */
@@ -160,5 +590,98 @@ class MeasurementDatabase extends Dexie {
   }
 }
 
+/**
+ * 旧MeasurementDatabaseの全テーブルを読み込む
+ * スキーマを宣言せずに開き、既存のスキーマのまま読み込む
+ */
+const readLegacyMeasurementDatabase = async (legacy: Dexie): Promise<LegacyMeasurementData> => {
+  const readTable = async <T>(name: string): Promise<T[]> =>
+    legacy.tables.some(table => table.name === name)
+      ? ((await legacy.table(name).toArray()) as T[])
+      : [];
+
+  return {
+    sessions: await readTable<MeasurementSession>('sessions'),
+    results: await readTable<MeasurementResult>('results'),
+    pairedReadings: await readTable<PairedReading>('pairedReadings'),
+    tremorRecords: await readTable<TremorRecord>('tremorRecords'),
+    sessionRecordings: await readTable<SessionRecording>('sessionRecordings'),
+  };
+};
+
+/**
+ * 旧MeasurementDatabaseのデータを統合したデータベースへ移行
+ * 移行は1つのトランザクションで行い、完了を記録してから旧データベースを削除する
+ * 移行に失敗した場合は旧データベースを残し、次回の接続時に再度移行する
+ *
+ * @param database 統合したデータベース（接続処理中のもの）
+ */
+const migrateLegacyMeasurementDatabase = async (database: RehabDatabase): Promise<void> => {
+  try {
+    if (await database.migrations.get(LEGACY_MEASUREMENT_MIGRATION_ID)) return;
+    if (!(await Dexie.exists(LEGACY_MEASUREMENT_DB_NAME))) return;
+
+    const legacy = new Dexie(LEGACY_MEASUREMENT_DB_NAME);
+    let data: LegacyMeasurementData;
+    try {
+      await legacy.open();
+      data = await readLegacyMeasurementDatabase(legacy);
+    } finally {
+      legacy.close();
+    }
+
+    await database.transaction(
+      'rw',
+      [
+        database.sessions,
+        database.results,
+        database.pairedReadings,
+        database.tremorRecords,
+        database.sessionRecordings,
+        database.measurements,
+        database.migrations,
+      ],
+      async () => {
+        await database.sessions.bulkAdd(withoutAutoIncrementId(data.sessions));
+        await database.results.bulkAdd(withoutAutoIncrementId(data.results));
+        await database.pairedReadings.bulkAdd(withoutAutoIncrementId(data.pairedReadings));
+        await database.tremorRecords.bulkAdd(withoutAutoIncrementId(data.tremorRecords));
+        await database.sessionRecordings.bulkAdd(withoutAutoIncrementId(data.sessionRecordings));
+
+        // 旧RehabDatabaseの測定データを集計元のセッションに関連付ける
+        const links = linkMeasurementsToSessions(await database.measurements.toArray(), data.sessions);
+        for (const { measurementId, sessionId } of links) {
+          await database.measurements.update(measurementId, { sessionId });
+        }
+
+        await database.migrations.add({
+          id: LEGACY_MEASUREMENT_MIGRATION_ID,
+          migratedAt: Date.now(),
+          counts: {
+            sessions: data.sessions.length,
+            results: data.results.length,
+            pairedReadings: data.pairedReadings.length,
+            tremorRecords: data.tremorRecords.length,
+            sessionRecordings: data.sessionRecordings.length,
+            linkedMeasurements: links.length,
+          },
+        });
+      }
+    );
+    console.log('RehabDatabase: 旧MeasurementDatabaseのデータを移行しました');
+
+    // 他のタブが旧データベースを開いている場合に接続を待たせないよう、削除の完了は待たない
+    Dexie.delete(LEGACY_MEASUREMENT_DB_NAME).catch((error: unknown) => {
+      console.error('RehabDatabase: 旧MeasurementDatabaseの削除エラー:', error);
+    });
+  } catch (error) {
+    // 移行できなくても統合したデータベースは利用できるようにする
+    console.error('RehabDatabase: 旧MeasurementDatabaseの移行エラー:', error);
+  }
+};
+
 // データベースインスタンスをエクスポート
-export const db = new MeasurementDatabase();
\ No newline at end of file
+export const db = new RehabDatabase();
+
+// 旧MeasurementDatabaseのデータを移行してから接続を完了する
+db.on('ready', (vipDb) => migrateLegacyMeasurementDatabase(vipDb as RehabDatabase));
\ No newline at end of file
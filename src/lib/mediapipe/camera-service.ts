@@ -45,6 +45,37 @@ export const DEFAULT_CAMERA_CONFIG: CameraConfig = {
   aspectRatio: 4 / 3,
 };
 
+/**
+ * ビデオ要素の現在のフレームを画像データとして取得
+ * 毎フレーム取得する場合はキャンバスを使い回す
+ */
+export const captureVideoFrame = (
+  videoElement: HTMLVideoElement,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): ImageData | null => {
+  if (!videoElement.videoWidth || !videoElement.videoHeight) {
+    return null;
+  }
+
+  try {
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!context) {
+      throw new Error('Canvas context not available');
+    }
+
+    canvas.width = videoElement.videoWidth;
+    canvas.height = videoElement.videoHeight;
+
+    context.drawImage(videoElement, 0, 0);
+
+    return context.getImageData(0, 0, canvas.width, canvas.height);
+  } catch (error) {
+    console.error('CameraService: フレームキャプチャエラー:', error);
+    return null;
+  }
+};
+
 /**
  * カメラサービスクラス
  */
@@ -263,24 +294,7 @@ export class CameraService {
       return null;
     }
 
-    try {
-      const canvas = document.createElement('canvas');
-      const context = canvas.getContext('2d');
-
-      if (!context) {
-        throw new Error('Canvas context not available');
-      }
-
-      canvas.width = this.videoElement.videoWidth;
-      canvas.height = this.videoElement.videoHeight;
-
-      context.drawImage(this.videoElement, 0, 0);
-
-      return context.getImageData(0, 0, canvas.width, canvas.height);
-    } catch (error) {
-      console.error('CameraService: フレームキャプチャエラー:', error);
-      return null;
-    }
+    return captureVideoFrame(this.videoElement);
   }
 
   /**
@@ -0,0 +1,7 @@
+/**
+ * 手の検出Workerの生成
+ * バンドラーがWorkerのエントリーを検出できるよう、new URL(…, import.meta.url)の形で記述する
+ */
+
+export const createHandTrackingWorker = (): Worker =>
+  new Worker(new URL('./hand-tracking.worker.ts', import.meta.url));
@@ -0,0 +1,279 @@
+/**
+ * 最大角度の根拠画像ライブラリ
+ * 最大角度を確定したフレームにランドマーク・軸線・角度の弧を描き、圧縮した画像として保存する
+ */
+
+import type {
+  ForearmLandmarks,
+  Point3D,
+} from '@/core/domain/types/hand-landmark';
+import type { StepId } from '@/core/domain/types/measurement';
+import { drawHandLandmarks } from '@/components/measurement/AngleOverlay';
+
+/**
+ * 画像上の点（0-1に正規化した座標）
+ */
+interface ImagePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 根拠画像に描く軸線
+ */
+export interface EvidenceAxes {
+  /** 角度の頂点 */
+  pivot: ImagePoint;
+
+  /** 基準軸の方向の点（中間位の姿勢、または前腕軸） */
+  reference: ImagePoint;
+
+  /** 最大角度での可動部の軸の方向の点 */
+  moving: ImagePoint;
+
+  /** 基準軸が前腕のランドマーク（肘〜手首）によるか */
+  isForearmAxis: boolean;
+}
+
+/**
+ * 根拠画像の作成に使用する情報
+ */
+export interface EvidenceSnapshotInput {
+  /** 最大角度を確定したフレームの画像 */
+  image: ImageData;
+
+  /** 最大角度を確定したフレームのランドマーク */
+  landmarks: Point3D[];
+
+  /** 中間位キャリブレーション時のランドマーク（無い場合は前腕軸を基準とする） */
+  referenceLandmarks: Array<{ x: number; y: number }> | null;
+
+  /** 前腕ランドマーク（前腕軸を使用した場合のみ） */
+  forearm: ForearmLandmarks | null;
+
+  stepId: StepId;
+
+  /** 測定角度（度） */
+  angle: number;
+
+  /** 画像に表示する見出し（ステップ名） */
+  label: string;
+}
+
+/**
+ * 根拠画像の圧縮設定
+ */
+const EVIDENCE_IMAGE_CONFIG = {
+  /** 保存する画像の最大幅（ピクセル） */
+  maxWidth: 480,
+  /** JPEGの画質（0-1） */
+  quality: 0.7,
+} as const;
+
+/**
+ * ステップごとの可動部の軸（頂点のランドマークID、先端のランドマークID）
+ */
+const MOVING_SEGMENTS: Record<StepId, [number, number]> = {
+  'palmar-flexion': [0, 9],
+  'dorsal-flexion': [0, 9],
+  'ulnar-deviation': [0, 9],
+  'radial-deviation': [0, 9],
+  pronation: [5, 17],
+  supination: [5, 17],
+  'thumb-flexion': [2, 3],
+  'thumb-extension': [2, 3],
+  'thumb-abduction': [1, 4],
+  'thumb-adduction': [1, 4],
+  'finger-flexion': [5, 8],
+  'finger-extension': [5, 8],
+};
+
+/**
+ * 根拠画像に描く軸線を算出
+ * 中間位のランドマークがあれば同じ部位の中間位の向きを、無ければ前腕軸（肘→手首の延長）を基準軸とする
+ *
+ * @returns 軸線（基準軸を決められない場合はnull）
+ */
+export const calculateEvidenceAxes = (
+  stepId: StepId,
+  landmarks: Array<{ x: number; y: number }>,
+  referenceLandmarks: Array<{ x: number; y: number }> | null,
+  forearm: ForearmLandmarks | null
+): EvidenceAxes | null => {
+  const [pivotId, tipId] = MOVING_SEGMENTS[stepId];
+  const pivot = landmarks[pivotId];
+  const tip = landmarks[tipId];
+  if (!pivot || !tip) return null;
+
+  const length = Math.hypot(tip.x - pivot.x, tip.y - pivot.y);
+  if (length === 0) return null;
+
+  // 基準軸の向き（単位ベクトル）
+  let direction: ImagePoint | null = null;
+  let isForearmAxis = false;
+  const referencePivot = referenceLandmarks?.[pivotId];
+  const referenceTip = referenceLandmarks?.[tipId];
+  if (referencePivot && referenceTip) {
+    const dx = referenceTip.x - referencePivot.x;
+    const dy = referenceTip.y - referencePivot.y;
+    const norm = Math.hypot(dx, dy);
+    if (norm > 0) direction = { x: dx / norm, y: dy / norm };
+  }
+  if (!direction && forearm) {
+    const dx = forearm.wrist.x - forearm.elbow.x;
+    const dy = forearm.wrist.y - forearm.elbow.y;
+    const norm = Math.hypot(dx, dy);
+    if (norm > 0) {
+      direction = { x: dx / norm, y: dy / norm };
+      isForearmAxis = true;
+    }
+  }
+  if (!direction) return null;
+
+  return {
+    pivot: { x: pivot.x, y: pivot.y },
+    reference: {
+      x: pivot.x + direction.x * length,
+      y: pivot.y + direction.y * length,
+    },
+    moving: { x: tip.x, y: tip.y },
+    isForearmAxis,
+  };
+};
+
+/**
+ * 軸線と角度の弧を描画
+ */
+const drawEvidenceAxes = (
+  ctx: CanvasRenderingContext2D,
+  axes: EvidenceAxes,
+  forearm: ForearmLandmarks | null,
+  angle: number,
+  width: number,
+  height: number
+): void => {
+  const pivotX = axes.pivot.x * width;
+  const pivotY = axes.pivot.y * height;
+  const toCanvas = (point: ImagePoint) => ({
+    x: point.x * width,
+    y: point.y * height,
+  });
+  const reference = toCanvas(axes.reference);
+  const moving = toCanvas(axes.moving);
+
+  ctx.lineWidth = 3;
+
+  // 前腕軸（肘〜手首）
+  if (forearm) {
+    ctx.strokeStyle = '#f59e0b';
+    ctx.beginPath();
+    ctx.moveTo(forearm.elbow.x * width, forearm.elbow.y * height);
+    ctx.lineTo(forearm.wrist.x * width, forearm.wrist.y * height);
+    ctx.stroke();
+  }
+
+  // 基準軸（破線、前腕軸を基準とした場合は前腕軸と同じ色）
+  ctx.strokeStyle = axes.isForearmAxis ? '#f59e0b' : '#f8fafc';
+  ctx.setLineDash([8, 6]);
+  ctx.beginPath();
+  ctx.moveTo(pivotX, pivotY);
+  ctx.lineTo(reference.x, reference.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // 可動部の軸
+  ctx.strokeStyle = '#0542fc';
+  ctx.beginPath();
+  ctx.moveTo(pivotX, pivotY);
+  ctx.lineTo(moving.x, moving.y);
+  ctx.stroke();
+
+  // 角度の弧（画像上の短い方の向き）
+  const startAngle = Math.atan2(reference.y - pivotY, reference.x - pivotX);
+  const endAngle = Math.atan2(moving.y - pivotY, moving.x - pivotX);
+  let sweep = endAngle - startAngle;
+  if (sweep > Math.PI) sweep -= 2 * Math.PI;
+  if (sweep < -Math.PI) sweep += 2 * Math.PI;
+  const radius = 0.4 * Math.hypot(moving.x - pivotX, moving.y - pivotY) || 1;
+
+  ctx.strokeStyle = '#facc15';
+  ctx.beginPath();
+  ctx.arc(pivotX, pivotY, radius, startAngle, startAngle + sweep, sweep < 0);
+  ctx.stroke();
+
+  // 弧の中央に角度を表示
+  const middle = startAngle + sweep / 2;
+  const labelX = pivotX + Math.cos(middle) * (radius + 24);
+  const labelY = pivotY + Math.sin(middle) * (radius + 24);
+  ctx.font = 'bold 20px Arial';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 4;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.strokeText(`${Math.round(angle)}°`, labelX, labelY);
+  ctx.fillStyle = '#facc15';
+  ctx.fillText(`${Math.round(angle)}°`, labelX, labelY);
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+};
+
+/**
+ * 最大角度の根拠画像を作成
+ * 画像に注釈を描いてから縮小し、JPEGのデータURLとして返す
+ *
+ * @param input 根拠画像の作成に使用する情報
+ * @returns JPEGのデータURL（キャンバスを利用できない場合はnull）
+ */
+export const renderEvidenceSnapshot = (
+  input: EvidenceSnapshotInput
+): string | null => {
+  const { image, landmarks, referenceLandmarks, forearm, stepId } = input;
+
+  try {
+    const source = document.createElement('canvas');
+    source.width = image.width;
+    source.height = image.height;
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) return null;
+
+    sourceCtx.putImageData(image, 0, 0);
+    drawHandLandmarks(sourceCtx, landmarks, image.width, image.height);
+
+    const axes = calculateEvidenceAxes(
+      stepId,
+      landmarks,
+      referenceLandmarks,
+      forearm
+    );
+    if (axes) {
+      drawEvidenceAxes(
+        sourceCtx,
+        axes,
+        forearm,
+        input.angle,
+        image.width,
+        image.height
+      );
+    }
+
+    // 縮小して保存（見出しは縮小後に描いて読みやすくする）
+    const scale = Math.min(1, EVIDENCE_IMAGE_CONFIG.maxWidth / image.width);
+    const output = document.createElement('canvas');
+    output.width = Math.round(image.width * scale);
+    output.height = Math.round(image.height * scale);
+    const ctx = output.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(source, 0, 0, output.width, output.height);
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, 0, output.width, 28);
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 14px Arial';
+    ctx.fillText(`${input.label} ${Math.round(input.angle)}°`, 8, 19);
+
+    return output.toDataURL('image/jpeg', EVIDENCE_IMAGE_CONFIG.quality);
+  } catch (error) {
+    console.error('根拠画像の作成エラー:', error);
+    return null;
+  }
+};
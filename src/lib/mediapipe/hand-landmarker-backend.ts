@@ -0,0 +1,180 @@
+/**
+ * MediaPipe Tasks（HandLandmarker）による手の検出バックエンド
+ * 正規化座標に加えて、メートル単位の世界座標ランドマークを出力する
+ */
+
+import type {
+  HandLandmarker,
+  HandLandmarkerOptions,
+  HandLandmarkerResult,
+} from '@mediapipe/tasks-vision';
+import {
+  getInputSize,
+  HAND_TRACKING_BACKEND_CAPABILITIES,
+  HandDetectionResult,
+  HandLandmarks,
+  HandTrackingBackend,
+  HandTrackingCapabilities,
+  HandTrackingInput,
+  HandTrackingOptions,
+} from './hand-tracking-backend';
+
+/**
+ * WASMの配信元（package.jsonの@mediapipe/tasks-visionのバージョンと合わせる）
+ */
+const TASKS_VISION_WASM_URL =
+  'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.35/wasm';
+
+/**
+ * HandLandmarkerのモデル
+ */
+const HAND_LANDMARKER_MODEL_URL =
+  'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+/**
+ * 共通の検出設定をHandLandmarkerの設定に変換
+ */
+const toLandmarkerOptions = (
+  options: Partial<HandTrackingOptions>
+): HandLandmarkerOptions => ({
+  ...(options.maxNumHands !== undefined
+    ? { numHands: options.maxNumHands }
+    : {}),
+  ...(options.minDetectionConfidence !== undefined
+    ? {
+        minHandDetectionConfidence: options.minDetectionConfidence,
+        minHandPresenceConfidence: options.minDetectionConfidence,
+      }
+    : {}),
+  ...(options.minTrackingConfidence !== undefined
+    ? { minTrackingConfidence: options.minTrackingConfidence }
+    : {}),
+  ...(options.staticImageMode !== undefined
+    ? { runningMode: options.staticImageMode ? 'IMAGE' : 'VIDEO' }
+    : {}),
+});
+
+/**
+ * 検出結果を共通の形式に変換
+ */
+export const convertHandLandmarkerResult = (
+  result: HandLandmarkerResult,
+  frameWidth: number,
+  frameHeight: number,
+  timestampMs: number
+): HandDetectionResult => {
+  const hands: HandLandmarks[] = [];
+
+  result.landmarks.forEach((landmarks, index) => {
+    const category = result.handedness[index]?.[0];
+    if (!category) return;
+
+    const worldLandmarks = result.worldLandmarks[index];
+    hands.push({
+      landmarks: landmarks.map(({ x, y, z, visibility }) => ({
+        x,
+        y,
+        z,
+        ...(visibility !== undefined ? { visibility } : {}),
+      })),
+      ...(worldLandmarks
+        ? { worldLandmarks: worldLandmarks.map(({ x, y, z }) => ({ x, y, z })) }
+        : {}),
+      handedness: category.categoryName === 'Right' ? 'Right' : 'Left',
+      confidence: category.score,
+    });
+  });
+
+  return {
+    detected: hands.length > 0,
+    hands,
+    timestamp: timestampMs,
+    frameWidth,
+    frameHeight,
+  };
+};
+
+/**
+ * HandLandmarkerによる手の検出バックエンドクラス
+ */
+export class HandLandmarkerBackend implements HandTrackingBackend {
+  readonly id = 'tasks-vision' as const;
+  readonly capabilities: HandTrackingCapabilities =
+    HAND_TRACKING_BACKEND_CAPABILITIES['tasks-vision'];
+
+  private landmarker: HandLandmarker | null = null;
+  private options: HandTrackingOptions;
+  private lastTimestampMs = -1;
+  private isProcessing = false;
+
+  constructor(options: HandTrackingOptions) {
+    this.options = options;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.landmarker) return;
+
+    const { FilesetResolver, HandLandmarker } = await import(
+      '@mediapipe/tasks-vision'
+    );
+    const fileset = await FilesetResolver.forVisionTasks(TASKS_VISION_WASM_URL);
+    const create = (delegate: 'GPU' | 'CPU') =>
+      HandLandmarker.createFromOptions(fileset, {
+        baseOptions: { modelAssetPath: HAND_LANDMARKER_MODEL_URL, delegate },
+        ...toLandmarkerOptions(this.options),
+      });
+
+    // GPUを利用できない端末ではCPUで推論する
+    try {
+      this.landmarker = await create('GPU');
+    } catch (error) {
+      console.warn(
+        'HandLandmarker: GPUを利用できないためCPUで推論します',
+        error
+      );
+      this.landmarker = await create('CPU');
+    }
+  }
+
+  async processFrame(
+    image: HandTrackingInput,
+    timestampMs: number
+  ): Promise<HandDetectionResult> {
+    const landmarker = this.landmarker;
+    if (!landmarker) {
+      throw new Error('HandLandmarkerBackend: 初期化されていません');
+    }
+    if (this.isProcessing) {
+      throw new Error('HandLandmarkerBackend: 別のフレームを処理中です');
+    }
+
+    this.isProcessing = true;
+    try {
+      let result: HandLandmarkerResult;
+      if (this.options.staticImageMode) {
+        result = landmarker.detect(image);
+      } else {
+        // 動画モードの時刻は単調増加である必要がある
+        const timestamp = Math.max(timestampMs, this.lastTimestampMs + 1);
+        this.lastTimestampMs = timestamp;
+        result = landmarker.detectForVideo(image, timestamp);
+      }
+
+      const { width, height } = getInputSize(image);
+      return convertHandLandmarkerResult(result, width, height, timestampMs);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async setOptions(options: Partial<HandTrackingOptions>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    await this.landmarker?.setOptions(toLandmarkerOptions(options));
+  }
+
+  dispose(): void {
+    this.landmarker?.close();
+    this.landmarker = null;
+    this.lastTimestampMs = -1;
+  }
+}
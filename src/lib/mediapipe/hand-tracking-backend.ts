@@ -0,0 +1,243 @@
+/**
+ * 手の検出バックエンド
+ * MediaPipe Hands（従来のソリューション）とMediaPipe Tasks（HandLandmarker）を共通のインターフェースで扱い、
+ * 設定で選択したバックエンドをファクトリーから生成する
+ */
+
+import type { DetectedHand } from '@/core/infrastructure/mediapipe/hand-frame-processor';
+
+/**
+ * バックエンドの種類
+ * - mediapipe-hands: @mediapipe/handsのHandsソリューション
+ * - tasks-vision: @mediapipe/tasks-visionのHandLandmarker
+ */
+export type HandTrackingBackendId = 'mediapipe-hands' | 'tasks-vision';
+
+/**
+ * デフォルトのバックエンド
+ */
+export const DEFAULT_HAND_TRACKING_BACKEND: HandTrackingBackendId =
+  'mediapipe-hands';
+
+/**
+ * バックエンドの表示名
+ */
+export const HAND_TRACKING_BACKEND_LABELS: Record<
+  HandTrackingBackendId,
+  string
+> = {
+  'mediapipe-hands': 'MediaPipe Hands（従来版）',
+  'tasks-vision': 'MediaPipe Tasks HandLandmarker',
+};
+
+/**
+ * 正規化座標のランドマーク（画像の幅・高さに対する0-1）
+ */
+export interface NormalizedLandmark {
+  x: number;
+  y: number;
+  z: number;
+  visibility?: number;
+}
+
+/**
+ * 世界座標のランドマーク（メートル単位、手の幾何学的中心が原点）
+ */
+export interface WorldLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/**
+ * 検出した手のランドマーク
+ */
+export interface HandLandmarks {
+  landmarks: NormalizedLandmark[];
+  /** 世界座標のランドマーク（バックエンドが対応している場合のみ） */
+  worldLandmarks?: WorldLandmark[];
+  handedness: 'Left' | 'Right';
+  confidence: number;
+}
+
+/**
+ * 手の検出結果
+ */
+export interface HandDetectionResult {
+  detected: boolean;
+  hands: HandLandmarks[];
+  /** フレームの時刻（processFrameに渡した取得時刻、ミリ秒） */
+  timestamp: number;
+  frameWidth: number;
+  frameHeight: number;
+}
+
+/**
+ * 検出の設定
+ */
+export interface HandTrackingOptions {
+  maxNumHands: number;
+  /** モデルの複雑さ（MediaPipe Handsのみ） */
+  modelComplexity: 0 | 1;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+  /** 静止画モード（フレーム間のトラッキングを行わない） */
+  staticImageMode: boolean;
+}
+
+/**
+ * バックエンドの機能
+ */
+export interface HandTrackingCapabilities {
+  /** メートル単位の世界座標ランドマークを出力する */
+  worldLandmarks: boolean;
+
+  /** 推論にGPUを指定できる */
+  gpuDelegate: boolean;
+
+  /** Web Worker内で動作する */
+  workerSupport: boolean;
+}
+
+/**
+ * バックエンドごとの機能
+ * Workerで検出するかをバックエンドの生成前に判定できるよう、種類ごとに定義する
+ * MediaPipe Handsはスクリプトの読み込みにDOMを使用するため、Worker内では動作しない
+ */
+export const HAND_TRACKING_BACKEND_CAPABILITIES: Record<
+  HandTrackingBackendId,
+  HandTrackingCapabilities
+> = {
+  'mediapipe-hands': {
+    worldLandmarks: true,
+    gpuDelegate: false,
+    workerSupport: false,
+  },
+  'tasks-vision': {
+    worldLandmarks: true,
+    gpuDelegate: true,
+    workerSupport: true,
+  },
+};
+
+/**
+ * 選択したバックエンドがWorker内で動作しない場合に、Workerで使用するバックエンド
+ */
+const WORKER_FALLBACK_BACKEND: HandTrackingBackendId = 'tasks-vision';
+
+/**
+ * Workerで検出する場合のバックエンドを決定
+ * 選択したバックエンドがWorker内で動作しない場合（デフォルトのMediaPipe Handsを含む）は、
+ * 推論をメインスレッドで行わないようWorkerで動作するHandLandmarkerを使う
+ *
+ * @param id 設定で選択したバックエンドの種類
+ */
+export const resolveWorkerBackend = (
+  id: HandTrackingBackendId
+): HandTrackingBackendId =>
+  HAND_TRACKING_BACKEND_CAPABILITIES[id].workerSupport
+    ? id
+    : WORKER_FALLBACK_BACKEND;
+
+/**
+ * 検出に使用できる画像
+ */
+export type HandTrackingInput =
+  | HTMLVideoElement
+  | HTMLCanvasElement
+  | HTMLImageElement
+  | ImageBitmap;
+
+/**
+ * 手の検出バックエンドのインターフェース
+ */
+export interface HandTrackingBackend {
+  readonly id: HandTrackingBackendId;
+  readonly capabilities: HandTrackingCapabilities;
+
+  /**
+   * モデルを読み込む
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * 1フレームの手を検出
+   * 同時に処理できるフレームは1枚のみ
+   *
+   * @param image 検出する画像
+   * @param timestampMs フレームの時刻（ミリ秒、動画では単調増加）
+   */
+  processFrame(
+    image: HandTrackingInput,
+    timestampMs: number
+  ): Promise<HandDetectionResult>;
+
+  /**
+   * 検出の設定を変更
+   */
+  setOptions(options: Partial<HandTrackingOptions>): Promise<void>;
+
+  /**
+   * リソースを解放
+   */
+  dispose(): void;
+}
+
+/**
+ * 画像の大きさを取得
+ * Worker内ではHTMLVideoElementが定義されていないため、プロパティの有無で判定する
+ */
+export const getInputSize = (
+  image: HandTrackingInput
+): { width: number; height: number } =>
+  'videoWidth' in image
+    ? { width: image.videoWidth, height: image.videoHeight }
+    : { width: image.width, height: image.height };
+
+/**
+ * 検出結果をフレーム処理の入力に変換
+ * 世界座標のランドマークは、バックエンドが出力に対応している場合のみ引き継ぐ
+ *
+ * @param result 検出結果
+ * @param capabilities 検出したバックエンドの機能（省略時は世界座標を渡さない）
+ */
+export const toDetectedHands = (
+  result: HandDetectionResult,
+  capabilities?: HandTrackingCapabilities
+): DetectedHand[] =>
+  result.hands.map((hand) => ({
+    landmarks: hand.landmarks,
+    ...(capabilities?.worldLandmarks && hand.worldLandmarks
+      ? { worldLandmarks: hand.worldLandmarks }
+      : {}),
+    handedness: hand.handedness,
+    score: hand.confidence,
+  }));
+
+/**
+ * バックエンドを生成（初期化は呼び出し側で行う）
+ *
+ * @param id バックエンドの種類
+ * @param options 検出の設定
+ * @returns 未初期化のバックエンド
+ */
+export const createHandTrackingBackend = async (
+  id: HandTrackingBackendId,
+  options: HandTrackingOptions
+): Promise<HandTrackingBackend> => {
+  switch (id) {
+    case 'tasks-vision': {
+      const { HandLandmarkerBackend } = await import(
+        './hand-landmarker-backend'
+      );
+      return new HandLandmarkerBackend(options);
+    }
+    case 'mediapipe-hands':
+    default: {
+      const { MediaPipeHandsBackend } = await import(
+        './mediapipe-hands-backend'
+      );
+      return new MediaPipeHandsBackend(options);
+    }
+  }
+};
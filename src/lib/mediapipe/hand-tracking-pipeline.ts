@@ -0,0 +1,374 @@
+/**
+ * Web Workerによる手の検出パイプライン
+ * カメラのフレームをImageBitmapとしてWorkerに転送し、手の検出バックエンドの推論・平滑化・角度計算を
+ * メインスレッドの外で行う。処理中に届いたフレームは待ち行列に積まずに破棄する
+ */
+
+import type { SmoothingSettings } from '@/core/domain/types/angle';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type {
+  HandFrameInput,
+  ProcessedHandFrame,
+} from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import type {
+  HandTrackingBackendId,
+  HandTrackingOptions,
+} from './hand-tracking-backend';
+
+/**
+ * ランドマーク1点あたりの要素数（x, y, z）
+ */
+const LANDMARK_STRIDE = 3;
+
+/**
+ * Workerの初期化の待機時間（ミリ秒）
+ */
+const WORKER_INIT_TIMEOUT_MS = 30000;
+
+/**
+ * Workerに送るフレームの情報（画像以外）
+ */
+export type HandTrackingFrameContext = Omit<HandFrameInput, 'hands'>;
+
+/**
+ * Workerとの間で転送する処理結果
+ * ランドマークは転送できるようにFloat32Array（x, y, zの順）に詰める
+ */
+export interface CompactHandFrame
+  extends Omit<ProcessedHandFrame, 'landmarks' | 'smoothedLandmarks'> {
+  landmarks: Float32Array | null;
+  smoothedLandmarks: Float32Array | null;
+}
+
+/**
+ * Workerへのメッセージ
+ */
+export type HandTrackingRequest =
+  | {
+      type: 'init';
+      smoothing: SmoothingSettings;
+      backend: HandTrackingBackendId;
+      options: HandTrackingOptions;
+    }
+  | { type: 'configure'; smoothing: SmoothingSettings }
+  | { type: 'reset' }
+  | ({
+      type: 'frame';
+      frameId: number;
+      bitmap: ImageBitmap;
+    } & HandTrackingFrameContext);
+
+/**
+ * Workerからのメッセージ
+ */
+export type HandTrackingResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string; frameId?: number }
+  | {
+      type: 'result';
+      frameId: number;
+      frame: CompactHandFrame;
+      /** Worker内の推論・角度計算の処理時間（ミリ秒） */
+      processingMs: number;
+    };
+
+/**
+ * パイプラインのコールバック
+ */
+export interface HandTrackingPipelineCallbacks {
+  onResult: (frame: ProcessedHandFrame) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * パイプラインの処理状況
+ */
+export interface HandTrackingStats {
+  /** Workerに送信したフレーム数 */
+  submittedFrames: number;
+
+  /** 処理を終えたフレーム数 */
+  processedFrames: number;
+
+  /** 前のフレームの処理中のため破棄したフレーム数 */
+  droppedFrames: number;
+
+  /** 直近のフレームの送信から結果の受信までの時間（ミリ秒） */
+  lastLatencyMs: number | null;
+}
+
+/**
+ * ランドマークをFloat32Arrayに詰める
+ */
+export const encodeLandmarks = (
+  landmarks: Array<{ x: number; y: number; z: number }>
+): Float32Array => {
+  const packed = new Float32Array(landmarks.length * LANDMARK_STRIDE);
+  landmarks.forEach(({ x, y, z }, index) => {
+    packed.set([x, y, z], index * LANDMARK_STRIDE);
+  });
+  return packed;
+};
+
+/**
+ * Float32Arrayに詰めたランドマークを復元
+ */
+export const decodeLandmarks = (packed: Float32Array): Point3D[] =>
+  Array.from({ length: packed.length / LANDMARK_STRIDE }, (_, id) => ({
+    id,
+    x: packed[id * LANDMARK_STRIDE] ?? 0,
+    y: packed[id * LANDMARK_STRIDE + 1] ?? 0,
+    z: packed[id * LANDMARK_STRIDE + 2] ?? 0,
+  }));
+
+/**
+ * 処理結果を転送用に詰める
+ *
+ * @returns 転送用の処理結果と、所有権を移すバッファ
+ */
+export const packHandFrame = (
+  frame: ProcessedHandFrame
+): { frame: CompactHandFrame; transfer: ArrayBuffer[] } => {
+  const landmarks = frame.landmarks ? encodeLandmarks(frame.landmarks) : null;
+  // 平滑化しなかった場合は同じ配列を送る
+  const smoothedLandmarks =
+    frame.smoothedLandmarks && frame.smoothedLandmarks !== frame.landmarks
+      ? encodeLandmarks(frame.smoothedLandmarks)
+      : landmarks;
+
+  return {
+    frame: { ...frame, landmarks, smoothedLandmarks },
+    transfer: [landmarks, smoothedLandmarks]
+      .filter((packed): packed is Float32Array => packed !== null)
+      .map((packed) => packed.buffer as ArrayBuffer)
+      .filter((buffer, index, buffers) => buffers.indexOf(buffer) === index),
+  };
+};
+
+/**
+ * 転送された処理結果を復元
+ */
+export const unpackHandFrame = (
+  frame: CompactHandFrame
+): ProcessedHandFrame => {
+  const landmarks = frame.landmarks ? decodeLandmarks(frame.landmarks) : null;
+  return {
+    ...frame,
+    landmarks,
+    smoothedLandmarks:
+      frame.smoothedLandmarks && frame.smoothedLandmarks !== frame.landmarks
+        ? decodeLandmarks(frame.smoothedLandmarks)
+        : landmarks,
+  };
+};
+
+/**
+ * Web Workerによる手の検出パイプラインクラス
+ * 同時に処理するフレームは1枚のみとし、処理中に送られたフレームは破棄する
+ */
+export class HandTrackingPipeline {
+  private readonly createWorker: () => Worker;
+  private readonly callbacks: HandTrackingPipelineCallbacks;
+  private worker: Worker | null = null;
+  private isInitialized = false;
+  private nextFrameId = 0;
+  private inFlight: { frameId: number; submittedAt: number } | null = null;
+  private isPreparingFrame = false;
+  private droppedFrameIds = new Set<number>();
+  private stats: HandTrackingStats = {
+    submittedFrames: 0,
+    processedFrames: 0,
+    droppedFrames: 0,
+    lastLatencyMs: null,
+  };
+
+  /**
+   * @param createWorker Workerの生成関数
+   * @param callbacks 処理結果・エラーの通知先
+   */
+  constructor(
+    createWorker: () => Worker,
+    callbacks: HandTrackingPipelineCallbacks
+  ) {
+    this.createWorker = createWorker;
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Web Worker・ImageBitmap・OffscreenCanvasが利用できるか
+   */
+  static isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' &&
+      typeof createImageBitmap !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined'
+    );
+  }
+
+  /**
+   * Workerを起動し、手の検出バックエンドの初期化を待つ
+   *
+   * @param smoothing 平滑化設定
+   * @param backend 手の検出バックエンドの種類
+   * @param options 検出の設定
+   */
+  async initialize(
+    smoothing: SmoothingSettings,
+    backend: HandTrackingBackendId,
+    options: HandTrackingOptions
+  ): Promise<void> {
+    if (this.worker) {
+      console.warn('HandTrackingPipeline: 既に初期化済みです');
+      return;
+    }
+
+    const worker = this.createWorker();
+    this.worker = worker;
+
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        reject(new Error('Workerの初期化がタイムアウトしました'));
+      }, WORKER_INIT_TIMEOUT_MS);
+
+      worker.onmessage = (event: MessageEvent<HandTrackingResponse>) => {
+        const message = event.data;
+        if (message.type === 'ready') {
+          clearTimeout(timeoutId);
+          this.isInitialized = true;
+          worker.onmessage = (next: MessageEvent<HandTrackingResponse>) =>
+            this.handleMessage(next.data);
+          resolve();
+        } else if (message.type === 'error') {
+          clearTimeout(timeoutId);
+          reject(new Error(message.message));
+        }
+      };
+      worker.onerror = (event) => {
+        clearTimeout(timeoutId);
+        reject(new Error(event.message || 'Workerの起動に失敗しました'));
+      };
+
+      this.post({ type: 'init', smoothing, backend, options });
+    }).catch((error: unknown) => {
+      this.close();
+      throw error;
+    });
+
+    worker.onerror = (event) => {
+      this.inFlight = null;
+      this.callbacks.onError(new Error(event.message || 'Workerのエラー'));
+    };
+  }
+
+  /**
+   * フレームを受け付けられるか（初期化済みで、処理中のフレームが無い）
+   */
+  isReady(): boolean {
+    return (
+      this.isInitialized && this.inFlight === null && !this.isPreparingFrame
+    );
+  }
+
+  /**
+   * フレームを送信
+   * 前のフレームを処理中の場合は送信せずに破棄する
+   *
+   * @param source カメラの映像
+   * @param context フレームの時刻・ステップ・対象の手・前腕ランドマーク
+   * @returns 送信した場合はtrue
+   */
+  async submitFrame(
+    source: HTMLVideoElement | HTMLCanvasElement,
+    context: HandTrackingFrameContext
+  ): Promise<boolean> {
+    if (!this.isReady()) {
+      if (this.isInitialized) this.stats.droppedFrames++;
+      return false;
+    }
+
+    this.isPreparingFrame = true;
+    try {
+      const bitmap = await createImageBitmap(source);
+      if (!this.worker) {
+        bitmap.close();
+        return false;
+      }
+
+      const frameId = this.nextFrameId++;
+      this.inFlight = { frameId, submittedAt: performance.now() };
+      this.stats.submittedFrames++;
+      this.post({ type: 'frame', frameId, bitmap, ...context }, [bitmap]);
+      return true;
+    } catch (error) {
+      console.error('フレームの送信エラー:', error);
+      return false;
+    } finally {
+      this.isPreparingFrame = false;
+    }
+  }
+
+  /**
+   * 平滑化設定を変更
+   */
+  configure(smoothing: SmoothingSettings): void {
+    this.post({ type: 'configure', smoothing });
+  }
+
+  /**
+   * 平滑化フィルターの履歴をリセット
+   * 処理中のフレームの結果は以前のステップのものとして破棄する
+   */
+  reset(): void {
+    if (this.inFlight) this.droppedFrameIds.add(this.inFlight.frameId);
+    this.post({ type: 'reset' });
+  }
+
+  /**
+   * 処理状況を取得
+   */
+  getStats(): HandTrackingStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Workerを終了
+   */
+  close(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.isInitialized = false;
+    this.inFlight = null;
+    this.droppedFrameIds.clear();
+  }
+
+  private post(
+    message: HandTrackingRequest,
+    transfer: Array<ArrayBuffer | ImageBitmap> = []
+  ) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private handleMessage(message: HandTrackingResponse): void {
+    if (message.type === 'ready') return;
+
+    if (
+      message.frameId !== undefined &&
+      this.inFlight?.frameId === message.frameId
+    ) {
+      this.stats.lastLatencyMs = performance.now() - this.inFlight.submittedAt;
+      this.inFlight = null;
+    }
+
+    if (message.type === 'error') {
+      if (message.frameId !== undefined) {
+        this.droppedFrameIds.delete(message.frameId);
+      }
+      this.callbacks.onError(new Error(message.message));
+      return;
+    }
+
+    this.stats.processedFrames++;
+    if (this.droppedFrameIds.delete(message.frameId)) return;
+    this.callbacks.onResult(unpackHandFrame(message.frame));
+  }
+}
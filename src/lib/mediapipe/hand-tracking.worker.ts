@@ -0,0 +1,98 @@
+/**
+ * 手の検出Worker
+ * 転送されたImageBitmapを設定で選択した検出バックエンドで推論し、HandFrameProcessorで平滑化・角度計算した結果を返す
+ * メッセージは1件ずつ順に処理し、推論中のフレームに平滑化のリセットが割り込まないようにする
+ */
+
+import { HandFrameProcessor } from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import {
+  createHandTrackingBackend,
+  HandTrackingBackend,
+  toDetectedHands,
+} from './hand-tracking-backend';
+import {
+  HandTrackingRequest,
+  HandTrackingResponse,
+  packHandFrame,
+} from './hand-tracking-pipeline';
+
+let backend: HandTrackingBackend | null = null;
+let processor: HandFrameProcessor | null = null;
+let queue: Promise<void> = Promise.resolve();
+
+const respond = (
+  message: HandTrackingResponse,
+  transfer: ArrayBuffer[] = []
+): void => {
+  self.postMessage(message, { transfer });
+};
+
+/**
+ * メッセージを処理
+ */
+const handleRequest = async (request: HandTrackingRequest): Promise<void> => {
+  switch (request.type) {
+    case 'init': {
+      processor = new HandFrameProcessor(request.smoothing);
+      backend = await createHandTrackingBackend(
+        request.backend,
+        request.options
+      );
+      await backend.initialize();
+      respond({ type: 'ready' });
+      return;
+    }
+
+    case 'configure':
+      processor?.setSmoothing(request.smoothing);
+      return;
+
+    case 'reset':
+      processor?.reset();
+      return;
+
+    case 'frame': {
+      const { frameId, bitmap, ...context } = request;
+      try {
+        if (!backend || !processor) {
+          throw new Error('Workerが初期化されていません');
+        }
+        const startedAt = performance.now();
+
+        const result = await backend.processFrame(bitmap, context.timestampMs);
+
+        const frame = processor.process({
+          ...context,
+          hands: toDetectedHands(result, backend.capabilities),
+        });
+        const packed = packHandFrame(frame);
+        respond(
+          {
+            type: 'result',
+            frameId,
+            frame: packed.frame,
+            processingMs: performance.now() - startedAt,
+          },
+          packed.transfer
+        );
+      } finally {
+        bitmap.close();
+      }
+      return;
+    }
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<HandTrackingRequest>) => {
+  const request = event.data;
+  queue = queue
+    .then(() => handleRequest(request))
+    .catch((error: unknown) => {
+      console.error('手の検出Workerのエラー:', error);
+      respond({
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+        ...(request.type === 'frame' ? { frameId: request.frameId } : {}),
+      });
+    });
+});
@@ -1,31 +1,26 @@
 /**
  * MediaPipe Hands検出器ライブラリ
  * リアルタイム手の検出とランドマーク取得
+ * 検出には設定で選択したバックエンド（HandTrackingBackend）を使用する
  */
 
-import { Hands, Results, NormalizedLandmark } from '@mediapipe/hands';
+import {
+  createHandTrackingBackend,
+  DEFAULT_HAND_TRACKING_BACKEND,
+  HandDetectionResult,
+  HandLandmarks,
+  HandTrackingBackend,
+  HandTrackingBackendId,
+  HandTrackingOptions,
+  NormalizedLandmark,
+} from './hand-tracking-backend';
 
-export interface HandLandmarks {
-  landmarks: NormalizedLandmark[];
-  handedness: 'Left' | 'Right';
-  confidence: number;
-}
-
-export interface HandDetectionResult {
-  detected: boolean;
-  hands: HandLandmarks[];
-  timestamp: number;
-  frameWidth: number;
-  frameHeight: number;
-}
+export type {
+  HandDetectionResult,
+  HandLandmarks,
+} from './hand-tracking-backend';
 
-export interface HandDetectorConfig {
-  maxNumHands: number;
-  modelComplexity: 0 | 1;
-  minDetectionConfidence: number;
-  minTrackingConfidence: number;
-  staticImageMode: boolean;
-}
+export type HandDetectorConfig = HandTrackingOptions;
 
 export interface HandDetectorCallbacks {
   onResults: (result: HandDetectionResult) => void;
@@ -76,7 +71,8 @@ export const HAND_LANDMARKS = {
  * MediaPipe Hands検出器クラス
  */
 export class HandDetector {
-  private hands: Hands | null = null;
+  private backend: HandTrackingBackend | null = null;
+  private readonly backendId: HandTrackingBackendId;
   private config: HandDetectorConfig;
   private callbacks: HandDetectorCallbacks;
   private isInitialized = false;
@@ -84,10 +80,12 @@ export class HandDetector {
 
   constructor(
     config: Partial<HandDetectorConfig> = {},
-    callbacks: HandDetectorCallbacks
+    callbacks: HandDetectorCallbacks,
+    backendId: HandTrackingBackendId = DEFAULT_HAND_TRACKING_BACKEND
   ) {
     this.config = { ...DEFAULT_HAND_CONFIG, ...config };
     this.callbacks = callbacks;
+    this.backendId = backendId;
   }
 
   /**
@@ -102,25 +100,21 @@ export class HandDetector {
     try {
       this.callbacks.onLoadingStart();
 
-      // MediaPipe Handsインスタンス作成
-      this.hands = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`;
-        },
-      });
-
-      // 設定適用
-      this.hands.setOptions(this.config);
-
-      // 結果コールバック設定
-      this.hands.onResults((results: Results) => {
-        this.processResults(results);
-      });
+      // 設定で選択したバックエンドを生成
+      const backend = await createHandTrackingBackend(
+        this.backendId,
+        this.config
+      );
+      await backend.initialize();
+      this.backend = backend;
 
       this.isInitialized = true;
       this.callbacks.onLoadingComplete();
 
-      console.log('HandDetector: 初期化が完了しました', this.config);
+      console.log('HandDetector: 初期化が完了しました', {
+        backend: this.backendId,
+        ...this.config,
+      });
     } catch (error) {
       const errorMessage =
         error instanceof Error
@@ -136,25 +130,29 @@ export class HandDetector {
    * カメラストリームとの接続（簡素化版）
    */
   async connectCamera(videoElement: HTMLVideoElement): Promise<void> {
-    if (!this.hands) {
+    if (!this.backend) {
       throw new Error('HandDetector: 初期化されていません');
     }
 
     try {
-      // MediaPipeにビデオフレームを送信する関数
+      // バックエンドにビデオフレームを送信する関数
       const sendFrame = async () => {
-        if (this.hands && !this.isProcessing && videoElement.videoWidth > 0) {
+        if (this.backend && !this.isProcessing && videoElement.videoWidth > 0) {
           this.isProcessing = true;
           try {
-            await this.hands.send({ image: videoElement });
+            const result = await this.backend.processFrame(
+              videoElement,
+              performance.now()
+            );
+            this.callbacks.onResults(result);
           } catch (error) {
             console.error('HandDetector: フレーム処理エラー:', error);
           } finally {
             this.isProcessing = false;
           }
         }
-        // 次のフレームをリクエスト
-        requestAnimationFrame(sendFrame);
+        // 次のフレームをリクエスト（破棄後は停止）
+        if (this.backend) requestAnimationFrame(sendFrame);
       };
 
       // フレーム送信を開始
@@ -172,73 +170,24 @@ export class HandDetector {
 
   /**
    * 単一画像の処理
+   * 結果はコールバックではなく戻り値で返す（同時に処理できる画像は1枚のみ）
    */
   async processImage(
     imageElement: HTMLImageElement | HTMLCanvasElement
   ): Promise<HandDetectionResult> {
-    if (!this.hands) {
+    if (!this.backend) {
       throw new Error('HandDetector: 初期化されていません');
     }
-
-    return new Promise((resolve, reject) => {
-      // 一時的に結果コールバックを変更
-      const originalCallback = this.hands!.onResults;
-
-      this.hands!.onResults = (results: any) => {
-        const result = this.convertResults(results);
-        // 元のコールバックを復元
-        this.hands!.onResults = originalCallback;
-        resolve(result);
-      };
-
-      // 画像を送信
-      this.hands!.send({ image: imageElement }).catch(reject);
-    });
-  }
-
-  /**
-   * 検出結果の処理
-   */
-  private processResults(results: Results): void {
-    try {
-      const detectionResult = this.convertResults(results);
-      this.callbacks.onResults(detectionResult);
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error : new Error('Results processing error');
-      console.error('HandDetector: 結果処理エラー:', errorMessage);
-      this.callbacks.onError(errorMessage);
+    if (this.isProcessing) {
+      throw new Error('HandDetector: 別の画像を処理中です');
     }
-  }
-
-  /**
-   * MediaPipe結果をアプリケーション形式に変換
-   */
-  private convertResults(results: any): HandDetectionResult {
-    const hands: HandLandmarks[] = [];
-
-    if (results.multiHandLandmarks && results.multiHandedness) {
-      for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-        const landmarks = results.multiHandLandmarks[i];
-        const handedness = results.multiHandedness[i];
 
-        if (landmarks && handedness) {
-          hands.push({
-            landmarks: landmarks as NormalizedLandmark[],
-            handedness: (handedness.label || 'Left') as 'Left' | 'Right',
-            confidence: handedness.score || 0,
-          });
-        }
-      }
+    this.isProcessing = true;
+    try {
+      return await this.backend.processFrame(imageElement, performance.now());
+    } finally {
+      this.isProcessing = false;
     }
-
-    return {
-      detected: hands.length > 0,
-      hands: hands,
-      timestamp: Date.now(),
-      frameWidth: results.image?.width || 0,
-      frameHeight: results.image?.height || 0,
-    };
   }
 
   /**
@@ -291,8 +240,8 @@ export class HandDetector {
   updateConfig(newConfig: Partial<HandDetectorConfig>): void {
     this.config = { ...this.config, ...newConfig };
 
-    if (this.hands) {
-      this.hands.setOptions(this.config);
+    if (this.backend) {
+      void this.backend.setOptions(this.config);
       console.log('HandDetector: 設定を更新しました', this.config);
     }
   }
@@ -302,10 +251,8 @@ export class HandDetector {
    */
   async dispose(): Promise<void> {
     try {
-      if (this.hands) {
-        this.hands.close();
-        this.hands = null;
-      }
+      this.backend?.dispose();
+      this.backend = null;
 
       this.isInitialized = false;
       this.isProcessing = false;
@@ -320,7 +267,7 @@ export class HandDetector {
    * 初期化状態の確認
    */
   isReady(): boolean {
-    return this.isInitialized && this.hands !== null;
+    return this.isInitialized && this.backend !== null;
   }
 
   /**
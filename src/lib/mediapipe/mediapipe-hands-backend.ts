@@ -0,0 +1,123 @@
+/**
+ * MediaPipe Hands（従来のソリューション）による手の検出バックエンド
+ */
+
+import { Hands, Results } from '@mediapipe/hands';
+import {
+  getInputSize,
+  HAND_TRACKING_BACKEND_CAPABILITIES,
+  HandDetectionResult,
+  HandLandmarks,
+  HandTrackingBackend,
+  HandTrackingCapabilities,
+  HandTrackingInput,
+  HandTrackingOptions,
+} from './hand-tracking-backend';
+
+/**
+ * MediaPipe Handsの配信元
+ */
+const HANDS_CDN_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands';
+
+/**
+ * 検出結果を共通の形式に変換
+ */
+const convertResults = (
+  results: Results,
+  image: HandTrackingInput,
+  timestampMs: number
+): HandDetectionResult => {
+  const hands: HandLandmarks[] = [];
+
+  (results.multiHandLandmarks ?? []).forEach((landmarks, index) => {
+    const handedness = results.multiHandedness?.[index];
+    if (!landmarks || !handedness) return;
+
+    const worldLandmarks = results.multiHandWorldLandmarks?.[index];
+    hands.push({
+      landmarks,
+      ...(worldLandmarks ? { worldLandmarks } : {}),
+      handedness: handedness.label || 'Left',
+      confidence: handedness.score || 0,
+    });
+  });
+
+  const { width, height } = getInputSize(image);
+  return {
+    detected: hands.length > 0,
+    hands,
+    timestamp: timestampMs,
+    frameWidth: width,
+    frameHeight: height,
+  };
+};
+
+/**
+ * MediaPipe Handsによる手の検出バックエンドクラス
+ */
+export class MediaPipeHandsBackend implements HandTrackingBackend {
+  readonly id = 'mediapipe-hands' as const;
+  readonly capabilities: HandTrackingCapabilities =
+    HAND_TRACKING_BACKEND_CAPABILITIES['mediapipe-hands'];
+
+  private hands: Hands | null = null;
+  private options: HandTrackingOptions;
+  private pendingResult: ((results: Results) => void) | null = null;
+
+  constructor(options: HandTrackingOptions) {
+    this.options = options;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.hands) return;
+
+    const hands = new Hands({
+      locateFile: (file) => `${HANDS_CDN_URL}/${file}`,
+    });
+    hands.setOptions(this.options);
+    hands.onResults((results) => {
+      const resolve = this.pendingResult;
+      this.pendingResult = null;
+      resolve?.(results);
+    });
+    await hands.initialize();
+    this.hands = hands;
+  }
+
+  // 時刻はMediaPipe Hands内部で管理されるため、検出結果の時刻としてのみ使用する
+  async processFrame(
+    image: HandTrackingInput,
+    timestampMs: number
+  ): Promise<HandDetectionResult> {
+    const hands = this.hands;
+    if (!hands) {
+      throw new Error('MediaPipeHandsBackend: 初期化されていません');
+    }
+    if (this.pendingResult) {
+      throw new Error('MediaPipeHandsBackend: 別のフレームを処理中です');
+    }
+
+    const results = await new Promise<Results>((resolve, reject) => {
+      this.pendingResult = resolve;
+      // ImageBitmapも入力として受け付けられる（型定義には含まれない）
+      hands
+        .send({ image: image as HTMLCanvasElement })
+        .catch((error: unknown) => {
+          this.pendingResult = null;
+          reject(error);
+        });
+    });
+    return convertResults(results, image, timestampMs);
+  }
+
+  async setOptions(options: Partial<HandTrackingOptions>): Promise<void> {
+    this.options = { ...this.options, ...options };
+    this.hands?.setOptions(this.options);
+  }
+
+  dispose(): void {
+    void this.hands?.close();
+    this.hands = null;
+    this.pendingResult = null;
+  }
+}
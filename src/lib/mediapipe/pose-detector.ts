@@ -0,0 +1,219 @@
+/**
+ * MediaPipe Pose検出器ライブラリ
+ * HandDetectorと並行して動作し、肘・手首キーポイントから前腕軸を取得
+ */
+
+import {
+  Pose,
+  Results,
+  NormalizedLandmark,
+  POSE_LANDMARKS,
+} from '@mediapipe/pose';
+import type { ForearmLandmarks } from '@/core/domain/types/hand-landmark';
+
+export interface PoseDetectionResult {
+  detected: boolean;
+  /** 左右の前腕ランドマーク（被験者から見た左右） */
+  forearms: Partial<Record<'left' | 'right', ForearmLandmarks>>;
+  timestamp: number;
+}
+
+export interface PoseDetectorConfig {
+  modelComplexity: 0 | 1 | 2;
+  smoothLandmarks: boolean;
+  minDetectionConfidence: number;
+  minTrackingConfidence: number;
+}
+
+export interface PoseDetectorCallbacks {
+  onResults: (result: PoseDetectionResult) => void;
+  onError: (error: Error) => void;
+}
+
+/**
+ * デフォルト設定
+ */
+export const DEFAULT_POSE_CONFIG: PoseDetectorConfig = {
+  modelComplexity: 0, // 手の検出と並行して動かすため軽量モデル
+  smoothLandmarks: true, // フレーム間の平滑化
+  minDetectionConfidence: 0.5, // 検出信頼度閾値
+  minTrackingConfidence: 0.5, // トラッキング信頼度閾値
+};
+
+/**
+ * 前腕キーポイント定義（MediaPipe Pose 33点のうち肘・手首）
+ */
+const FOREARM_KEYPOINTS = {
+  left: { elbow: POSE_LANDMARKS.LEFT_ELBOW, wrist: POSE_LANDMARKS.LEFT_WRIST },
+  right: {
+    elbow: POSE_LANDMARKS.RIGHT_ELBOW,
+    wrist: POSE_LANDMARKS.RIGHT_WRIST,
+  },
+} as const;
+
+/**
+ * MediaPipe Pose検出器クラス
+ */
+export class PoseDetector {
+  private pose: Pose | null = null;
+  private config: PoseDetectorConfig;
+  private callbacks: PoseDetectorCallbacks;
+  private isInitialized = false;
+  private isProcessing = false;
+
+  constructor(
+    config: Partial<PoseDetectorConfig> = {},
+    callbacks: PoseDetectorCallbacks
+  ) {
+    this.config = { ...DEFAULT_POSE_CONFIG, ...config };
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * MediaPipe Poseの初期化
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      console.warn('PoseDetector: 既に初期化済みです');
+      return;
+    }
+
+    try {
+      this.pose = new Pose({
+        locateFile: (file) => {
+          return `https://cdn.jsdelivr.net/npm/@mediapipe/pose/${file}`;
+        },
+      });
+
+      this.pose.setOptions(this.config);
+
+      this.pose.onResults((results: Results) => {
+        this.processResults(results);
+      });
+
+      this.isInitialized = true;
+      console.log('PoseDetector: 初期化が完了しました', this.config);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error
+          ? error
+          : new Error('Unknown initialization error');
+      console.error('PoseDetector: 初期化エラー:', errorMessage);
+      this.callbacks.onError(errorMessage);
+      throw errorMessage;
+    }
+  }
+
+  /**
+   * フレームを送信
+   * 前のフレームを処理中の場合は送信をスキップする
+   */
+  async send(
+    image: HTMLVideoElement | HTMLImageElement | HTMLCanvasElement
+  ): Promise<void> {
+    if (!this.pose) {
+      throw new Error('PoseDetector: 初期化されていません');
+    }
+
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    try {
+      await this.pose.send({ image });
+    } catch (error) {
+      console.error('PoseDetector: フレーム処理エラー:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * 検出結果の処理
+   */
+  private processResults(results: Results): void {
+    try {
+      this.callbacks.onResults(this.convertResults(results));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error : new Error('Results processing error');
+      console.error('PoseDetector: 結果処理エラー:', errorMessage);
+      this.callbacks.onError(errorMessage);
+    }
+  }
+
+  /**
+   * MediaPipe結果をアプリケーション形式に変換
+   */
+  private convertResults(results: Results): PoseDetectionResult {
+    const forearms: PoseDetectionResult['forearms'] = {};
+    const landmarks = results.poseLandmarks;
+
+    if (landmarks) {
+      (['left', 'right'] as const).forEach((side) => {
+        const keypoints = FOREARM_KEYPOINTS[side];
+        const elbow = landmarks[keypoints.elbow];
+        const wrist = landmarks[keypoints.wrist];
+
+        if (elbow && wrist) {
+          forearms[side] = {
+            elbow: this.toPoint3D(elbow, keypoints.elbow),
+            wrist: this.toPoint3D(wrist, keypoints.wrist),
+            visibility: Math.min(elbow.visibility ?? 0, wrist.visibility ?? 0),
+          };
+        }
+      });
+    }
+
+    return {
+      detected: Object.keys(forearms).length > 0,
+      forearms,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * ランドマークをPoint3D形式に変換
+   */
+  private toPoint3D(landmark: NormalizedLandmark, id: number) {
+    return {
+      id,
+      x: landmark.x,
+      y: landmark.y,
+      z: landmark.z,
+      visibility: landmark.visibility ?? 0,
+    };
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  async dispose(): Promise<void> {
+    try {
+      if (this.pose) {
+        await this.pose.close();
+        this.pose = null;
+      }
+
+      this.isInitialized = false;
+      this.isProcessing = false;
+
+      console.log('PoseDetector: リソースがクリーンアップされました');
+    } catch (error) {
+      console.error('PoseDetector: クリーンアップエラー:', error);
+    }
+  }
+
+  /**
+   * 初期化状態の確認
+   */
+  isReady(): boolean {
+    return this.isInitialized && this.pose !== null;
+  }
+
+  /**
+   * 処理中状態の確認
+   */
+  isBusy(): boolean {
+    return this.isProcessing;
+  }
+}
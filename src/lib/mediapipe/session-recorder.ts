@@ -0,0 +1,185 @@
+/**
+ * 測定セッションの録画ライブラリ
+ * カメラのストリームをMediaRecorderで録画し、フレームごとのランドマークと角度を録画の経過時間とともに記録する
+ */
+
+import type {
+  RecordedFrame,
+  RecordedStep,
+  SessionRecording,
+} from '@/lib/database/measurement-db';
+
+/**
+ * 録画形式の候補（優先順）
+ */
+const RECORDING_MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4',
+] as const;
+
+/**
+ * 録画データを分割して取得する間隔（ミリ秒）
+ */
+const RECORDING_TIMESLICE_MS = 1000;
+
+/**
+ * 録画の停止結果
+ */
+export type SessionRecordingData = Omit<
+  SessionRecording,
+  'id' | 'sessionId' | 'hand' | 'recordedAt'
+>;
+
+/**
+ * 指定した時刻に表示するフレームを取得
+ * 時刻以前で最も新しいフレームを返す
+ *
+ * @param frames 記録したフレーム（時刻順）
+ * @param timeMs 録画開始からの経過時間（ミリ秒）
+ * @returns フレーム（時刻以前のフレームが無い場合はnull）
+ */
+export const findRecordedFrame = (
+  frames: RecordedFrame[],
+  timeMs: number
+): RecordedFrame | null => {
+  let low = 0;
+  let high = frames.length - 1;
+  let found: RecordedFrame | null = null;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    const frame = frames[middle];
+    if (!frame) break;
+    if (frame.timeMs <= timeMs) {
+      found = frame;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * 測定セッションの録画クラス
+ */
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private startMs = 0;
+  private steps: RecordedStep[] = [];
+  private frames: RecordedFrame[] = [];
+
+  /**
+   * MediaRecorderが利用できるか
+   */
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined';
+  }
+
+  /**
+   * 録画中か
+   */
+  get isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  /**
+   * 録画を開始
+   *
+   * @param stream カメラのストリーム
+   * @param timestampMs 録画開始時刻（ミリ秒、フレームの時刻と同じ時計）
+   */
+  start(stream: MediaStream, timestampMs: number): void {
+    if (this.recorder) return;
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) =>
+      MediaRecorder.isTypeSupported(type)
+    );
+    const recorder = new MediaRecorder(
+      stream,
+      mimeType ? { mimeType } : undefined
+    );
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.chunks.push(event.data);
+    };
+
+    this.chunks = [];
+    this.steps = [];
+    this.frames = [];
+    this.startMs = timestampMs;
+    this.recorder = recorder;
+    recorder.start(RECORDING_TIMESLICE_MS);
+  }
+
+  /**
+   * ステップの測定開始を記録
+   *
+   * @param step ステップの情報
+   * @param timestampMs 測定開始時刻（ミリ秒）
+   */
+  startStep(step: Omit<RecordedStep, 'startMs'>, timestampMs: number): void {
+    if (!this.recorder) return;
+    this.steps.push({ ...step, startMs: timestampMs - this.startMs });
+  }
+
+  /**
+   * フレームの測定状態を記録
+   *
+   * @param timestampMs フレームの時刻（ミリ秒）
+   * @param frame フレームの測定状態
+   */
+  addFrame(timestampMs: number, frame: Omit<RecordedFrame, 'timeMs'>): void {
+    if (!this.recorder) return;
+    const timeMs = timestampMs - this.startMs;
+    if (timeMs < 0) return;
+
+    this.frames.push({
+      ...frame,
+      timeMs,
+      landmarks: frame.landmarks
+        ? frame.landmarks.map(({ x, y, z }) => ({ x, y, z }))
+        : null,
+    });
+  }
+
+  /**
+   * 録画を停止して録画データを取得
+   *
+   * @param timestampMs 停止時刻（ミリ秒）
+   * @returns 録画データ（録画していない場合・データが無い場合はnull）
+   */
+  async stop(timestampMs: number): Promise<SessionRecordingData | null> {
+    const recorder = this.recorder;
+    if (!recorder) return null;
+    this.recorder = null;
+
+    if (recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+    if (this.chunks.length === 0) return null;
+
+    const mimeType = recorder.mimeType || this.chunks[0]?.type || 'video/webm';
+    return {
+      durationMs: timestampMs - this.startMs,
+      mimeType,
+      video: new Blob(this.chunks, { type: mimeType }),
+      steps: this.steps,
+      frames: this.frames,
+    };
+  }
+
+  /**
+   * 録画を破棄
+   */
+  cancel(): void {
+    const recorder = this.recorder;
+    this.recorder = null;
+    this.chunks = [];
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  }
+}
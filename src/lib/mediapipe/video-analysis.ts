@@ -0,0 +1,161 @@
+/**
+ * 動画ファイルの測定解析
+ * 動画から一定間隔でフレームを取り出し、HandDetector.processImageで検出した
+ * 対象の手のランドマークをライブ測定と同じ手順で解析する
+ */
+
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type { SmoothingSettings } from '@/core/domain/types/angle';
+import type { StepId } from '@/core/domain/types/measurement';
+import { FOREARM_AXIS_STEP_IDS } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  VideoStepAnalysis,
+  VideoStepAnalyzer,
+} from '@/core/infrastructure/mediapipe/video-step-analyzer';
+import type { HandDetectionResult, HandDetector } from './hands-detector';
+import type { PoseDetectionResult, PoseDetector } from './pose-detector';
+import type { VideoFileSource } from './video-file-source';
+
+/**
+ * デフォルトのフレーム間隔（15fps）
+ */
+export const DEFAULT_VIDEO_FRAME_STEP_MS = 1000 / 15;
+
+/**
+ * 品質評価のためにフレーム画像を取得する間隔（動画内の時刻、ミリ秒）
+ */
+const QUALITY_IMAGE_INTERVAL_MS = 500;
+
+/**
+ * 動画解析の設定
+ */
+export interface VideoAnalysisOptions {
+  /** フレーム間隔（ミリ秒） */
+  frameStepMs?: number;
+
+  /** 平滑化設定 */
+  smoothing?: SmoothingSettings;
+
+  /** 前腕軸取得用のPose検出器（未指定の場合は手のみで推定） */
+  poseDetector?: PoseDetector | null;
+
+  /** Pose検出器の最新結果を取得する関数 */
+  getPoseResult?: () => PoseDetectionResult | null;
+
+  /** 進捗（0-1）の通知 */
+  onProgress?: (progress: number) => void;
+
+  /** 中断シグナル */
+  signal?: AbortSignal;
+}
+
+/**
+ * 動画解析の結果
+ */
+export interface VideoAnalysisResult {
+  /** ステップの解析結果 */
+  analysis: VideoStepAnalysis;
+
+  /** 動画の長さ（ミリ秒） */
+  durationMs: number;
+
+  /** フレーム間隔（ミリ秒） */
+  frameStepMs: number;
+
+  /** フレームごとの対象の手のランドマーク（タイムライン表示用） */
+  frameLandmarks: Array<Point3D[] | null>;
+}
+
+/**
+ * 検出結果から対象の手のランドマークを取得
+ * MediaPipeのhandednessは鏡像を前提とするため、「Right」は実際には左手、「Left」は実際には右手
+ *
+ * @param result 手の検出結果
+ * @param hand 測定対象の手
+ * @returns ランドマークと検出信頼度（対象の手が無い場合はnull）
+ */
+export const selectTargetHand = (
+  result: HandDetectionResult,
+  hand: 'left' | 'right'
+): { landmarks: Point3D[]; confidence: number } | null => {
+  const target = result.hands.find(
+    (detected) => (detected.handedness === 'Right' ? 'left' : 'right') === hand
+  );
+  if (!target) return null;
+
+  return {
+    landmarks: target.landmarks.map(({ x, y, z }, id) => ({ id, x, y, z })),
+    confidence: target.confidence,
+  };
+};
+
+/**
+ * 動画ファイルを解析
+ *
+ * @param source 動画ファイルのフレーム取得インスタンス
+ * @param detector 初期化済みの手の検出器
+ * @param stepId 測定ステップID
+ * @param hand 測定対象の手
+ * @param options 解析の設定
+ * @returns 解析結果
+ */
+export const analyzeVideoFile = async (
+  source: VideoFileSource,
+  detector: HandDetector,
+  stepId: StepId,
+  hand: 'left' | 'right',
+  options: VideoAnalysisOptions = {}
+): Promise<VideoAnalysisResult> => {
+  const frameStepMs = options.frameStepMs ?? DEFAULT_VIDEO_FRAME_STEP_MS;
+  const analyzer = new VideoStepAnalyzer(
+    stepId,
+    hand,
+    options.smoothing ? { smoothing: options.smoothing } : {}
+  );
+  const usePose =
+    !!options.poseDetector?.isReady() && FOREARM_AXIS_STEP_IDS.includes(stepId);
+
+  const frameTimes = source.getFrameTimes(frameStepMs);
+  const frameLandmarks: Array<Point3D[] | null> = [];
+  let lastImageTime = -Infinity;
+
+  for (let index = 0; index < frameTimes.length; index++) {
+    const timeMs = frameTimes[index] ?? 0;
+    if (options.signal?.aborted) {
+      throw new Error('動画の解析を中断しました');
+    }
+
+    const frame = await source.captureFrame(timeMs);
+    const target = selectTargetHand(await detector.processImage(frame), hand);
+
+    // 前腕軸を使用するステップでは同じフレームをPoseにも送信
+    let forearm = null;
+    if (target && usePose && options.poseDetector) {
+      await options.poseDetector.send(frame);
+      forearm = options.getPoseResult?.()?.forearms[hand] ?? null;
+    }
+
+    let image: ImageData | null = null;
+    if (target && timeMs - lastImageTime >= QUALITY_IMAGE_INTERVAL_MS) {
+      image = source.getFrameImage();
+      lastImageTime = timeMs;
+    }
+
+    analyzer.addFrame({
+      timestampMs: timeMs,
+      landmarks: target?.landmarks ?? null,
+      ...(target ? { detectionConfidence: target.confidence } : {}),
+      forearm,
+      image,
+    });
+    frameLandmarks.push(target?.landmarks ?? null);
+    options.onProgress?.((index + 1) / frameTimes.length);
+  }
+
+  return {
+    analysis: analyzer.getResult(),
+    durationMs: source.durationMs,
+    frameStepMs,
+    frameLandmarks,
+  };
+};
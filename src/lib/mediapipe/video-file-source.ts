@@ -0,0 +1,184 @@
+/**
+ * 動画ファイルのフレーム取得ライブラリ
+ * アップロードされたMP4/WebMを読み込み、指定した時刻のフレームをキャンバスに描画する
+ */
+
+/**
+ * 対応する動画形式
+ */
+export const SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/webm'] as const;
+
+/**
+ * 動画の長さの確定を待つ時間（ミリ秒）
+ */
+const DURATION_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * 動画ファイルのフレーム取得クラス
+ */
+export class VideoFileSource {
+  private readonly video: HTMLVideoElement;
+  private readonly canvas: HTMLCanvasElement;
+  private readonly url: string;
+
+  private constructor(video: HTMLVideoElement, url: string) {
+    this.video = video;
+    this.url = url;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = video.videoWidth;
+    this.canvas.height = video.videoHeight;
+  }
+
+  /**
+   * 動画ファイルを読み込む
+   *
+   * @param file アップロードされた動画ファイル
+   * @returns 読み込み済みのフレーム取得インスタンス
+   */
+  static async load(file: File): Promise<VideoFileSource> {
+    if (!(SUPPORTED_VIDEO_TYPES as readonly string[]).includes(file.type)) {
+      throw new Error(`VideoFileSource: 未対応の動画形式です（${file.type}）`);
+    }
+
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        video.addEventListener('loadeddata', () => resolve(), { once: true });
+        video.addEventListener(
+          'error',
+          () => reject(new Error('VideoFileSource: 動画を読み込めません')),
+          { once: true }
+        );
+        video.src = url;
+      });
+      await VideoFileSource.resolveDuration(video);
+    } catch (error) {
+      URL.revokeObjectURL(url);
+      throw error;
+    }
+
+    return new VideoFileSource(video, url);
+  }
+
+  /**
+   * 動画の長さの確定
+   * MediaRecorderで録画したWebMはメタデータに長さがなく duration が Infinity になるため、
+   * 末尾より後ろにシークして実際の長さを読み込ませてから先頭に戻す
+   */
+  private static async resolveDuration(video: HTMLVideoElement): Promise<void> {
+    if (Number.isFinite(video.duration)) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const fail = () => {
+        video.removeEventListener('durationchange', handleDurationChange);
+        reject(new Error('VideoFileSource: 動画の長さを取得できません'));
+      };
+      const timeoutId = setTimeout(fail, DURATION_PROBE_TIMEOUT_MS);
+      const handleDurationChange = () => {
+        if (!Number.isFinite(video.duration)) return;
+        clearTimeout(timeoutId);
+        video.removeEventListener('durationchange', handleDurationChange);
+        resolve();
+      };
+      video.addEventListener('durationchange', handleDurationChange);
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    });
+
+    await new Promise<void>((resolve) => {
+      video.addEventListener('seeked', () => resolve(), { once: true });
+      video.currentTime = 0;
+    });
+  }
+
+  /**
+   * 動画の長さ（ミリ秒）
+   */
+  get durationMs(): number {
+    return Number.isFinite(this.video.duration)
+      ? this.video.duration * 1000
+      : 0;
+  }
+
+  /**
+   * 動画のオブジェクトURL（プレビュー表示用）
+   */
+  get objectUrl(): string {
+    return this.url;
+  }
+
+  /**
+   * 一定間隔のフレーム時刻を取得
+   *
+   * @param frameStepMs フレーム間隔（ミリ秒）
+   * @returns フレーム時刻の一覧（ミリ秒）
+   */
+  getFrameTimes(frameStepMs: number): number[] {
+    const times: number[] = [];
+    for (let time = 0; time < this.durationMs; time += frameStepMs) {
+      times.push(time);
+    }
+    return times;
+  }
+
+  /**
+   * 指定した時刻のフレームをキャンバスに描画
+   *
+   * @param timeMs 動画内の時刻（ミリ秒）
+   * @returns フレームを描画したキャンバス（呼び出しごとに上書きされる）
+   */
+  async captureFrame(timeMs: number): Promise<HTMLCanvasElement> {
+    await this.seek(timeMs);
+
+    const context = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('VideoFileSource: Canvas context not available');
+    }
+    context.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+    return this.canvas;
+  }
+
+  /**
+   * 描画済みのフレームを画像データとして取得（品質評価用）
+   */
+  getFrameImage(): ImageData | null {
+    const context = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!context || this.canvas.width === 0 || this.canvas.height === 0) {
+      return null;
+    }
+    return context.getImageData(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  /**
+   * リソースのクリーンアップ
+   */
+  dispose(): void {
+    this.video.removeAttribute('src');
+    this.video.load();
+    URL.revokeObjectURL(this.url);
+  }
+
+  /**
+   * 指定した時刻にシークし、フレームの準備を待つ
+   */
+  private seek(timeMs: number): Promise<void> {
+    const time = Math.min(timeMs / 1000, this.video.duration || 0);
+    if (Math.abs(this.video.currentTime - time) < 1e-3) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.video.addEventListener('seeked', () => resolve(), { once: true });
+      this.video.addEventListener(
+        'error',
+        () => reject(new Error('VideoFileSource: シークに失敗しました')),
+        { once: true }
+      );
+      this.video.currentTime = time;
+    });
+  }
+}
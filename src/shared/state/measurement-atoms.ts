@@ -48,3 +48,9 @@ export const isMeasurementCompleteAtom = atom<boolean>((get) => {
   const session = get(currentSessionAtom);
   return session?.status === 'completed';
 });
+
+/**
+ * 実行中の測定・振戦検査・動画解析の数
+ * 手を使わずに操作する測定の途中でロックしないよう、1以上の間は自動ロックを保留する
+ */
+export const activeCaptureCountAtom = atom<number>(0);
@@ -5,7 +5,18 @@
  */
 
 import { atom } from 'jotai';
+import { atomWithStorage } from 'jotai/utils';
 import { UserSettings } from '@/shared/types/common';
+import type { SmoothingSettings } from '@/core/domain/types/angle';
+import { DEFAULT_SMOOTHING_SETTINGS } from '@/core/infrastructure/mediapipe/signal-filter';
+import {
+  DEFAULT_HAND_TRACKING_BACKEND,
+  HandTrackingBackendId,
+} from '@/lib/mediapipe/hand-tracking-backend';
+import {
+  DailyAggregation,
+  DEFAULT_DAILY_AGGREGATION,
+} from '@/lib/data-manager/models/daily-aggregation';
 
 /**
  * アプリ設定
@@ -62,3 +73,65 @@ export const isDarkModeAtom = atom<boolean>((get) => {
   }
   return false;
 });
+
+/**
+ * 角度平滑化設定（localStorageに保存）
+ */
+export const smoothingSettingsAtom = atomWithStorage<SmoothingSettings>(
+  'smoothingSettings',
+  DEFAULT_SMOOTHING_SETTINGS
+);
+
+/**
+ * ゴニオメーター比較モード（localStorageに保存）
+ * 有効時は各ステップの測定後にゴニオメーター測定値を入力する
+ */
+export const goniometerStudyModeAtom = atomWithStorage<boolean>(
+  'goniometerStudyMode',
+  false
+);
+
+/**
+ * 健側の可動域を目標にする設定（localStorageに保存）
+ * 有効時は正常可動域の代わりに、左右比較測定の健側の角度を患側の目標とする
+ */
+export const contralateralTargetAtom = atomWithStorage<boolean>(
+  'contralateralTarget',
+  false
+);
+
+/**
+ * 測定セッションの録画（localStorageに保存）
+ * 有効時は測定中のカメラ映像をランドマーク・角度とともに保存し、後から再生できるようにする
+ */
+export const sessionRecordingAtom = atomWithStorage<boolean>(
+  'sessionRecording',
+  false
+);
+
+/**
+ * 手の検出バックエンド（localStorageに保存）
+ * すべての測定画面でこの設定のバックエンドをファクトリーから生成する
+ */
+export const handTrackingBackendAtom = atomWithStorage<HandTrackingBackendId>(
+  'handTrackingBackend',
+  DEFAULT_HAND_TRACKING_BACKEND
+);
+
+/**
+ * 1日に複数回測定した場合の集計方法（localStorageに保存）
+ * 進捗グラフに表示する1日の代表値を決める
+ */
+export const dailyAggregationAtom = atomWithStorage<DailyAggregation>(
+  'dailyAggregation',
+  DEFAULT_DAILY_AGGREGATION
+);
+
+/**
+ * 暗号化したデータベースの自動ロックまでの時間（分、localStorageに保存）
+ * 操作がないまま経過するとロックする。0の場合は自動ロックしない
+ */
+export const autoLockMinutesAtom = atomWithStorage<number>(
+  'autoLockMinutes',
+  5
+);
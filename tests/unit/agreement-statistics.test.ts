@@ -0,0 +1,82 @@
+/**
+ * ユニットテスト: 測定方法間の一致度の統計
+ *
+ * テスト対象:
+ * - Bland–Altmanプロットの点
+ * - 平均バイアスと95%一致限界
+ * - ICC(2,1)
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculateAgreementStatistics,
+  calculateBlandAltmanPoints,
+  calculateIcc,
+  MeasurementPair,
+} from '@/lib/analysis/agreement-statistics';
+
+const pair = (aiAngle: number, goniometerAngle: number): MeasurementPair => ({
+  aiAngle,
+  goniometerAngle,
+});
+
+describe('Bland–Altmanプロットの点', () => {
+  test('平均と差（AI − ゴニオメーター）を計算する', () => {
+    expect(calculateBlandAltmanPoints([pair(62, 58), pair(40, 45)])).toEqual([
+      { mean: 60, difference: 4 },
+      { mean: 42.5, difference: -5 },
+    ]);
+  });
+});
+
+describe('一致度の統計', () => {
+  test('平均バイアスと95%一致限界を計算する', () => {
+    // 差: 2, 4, 6 → 平均4、標準偏差2（n−1）
+    const statistics = calculateAgreementStatistics([
+      pair(52, 50),
+      pair(64, 60),
+      pair(76, 70),
+    ]);
+
+    expect(statistics?.count).toBe(3);
+    expect(statistics?.meanBias).toBeCloseTo(4, 10);
+    expect(statistics?.sdDifference).toBeCloseTo(2, 10);
+    expect(statistics?.lowerLimit).toBeCloseTo(4 - 1.96 * 2, 10);
+    expect(statistics?.upperLimit).toBeCloseTo(4 + 1.96 * 2, 10);
+  });
+
+  test('測定値の組が2未満の場合はnull', () => {
+    expect(calculateAgreementStatistics([])).toBeNull();
+    expect(calculateAgreementStatistics([pair(60, 58)])).toBeNull();
+  });
+});
+
+describe('ICC(2,1)', () => {
+  test('完全に一致する場合は1', () => {
+    expect(calculateIcc([pair(40, 40), pair(60, 60), pair(80, 80)])).toBe(1);
+  });
+
+  test('系統誤差は一致度を下げる', () => {
+    const icc = calculateIcc([pair(45, 40), pair(65, 60), pair(85, 80)]);
+
+    // MSR=800, MSC=37.5, MSE=0 → 800 / (800 + 2·37.5/3)
+    expect(icc).toBeCloseTo(800 / 825, 10);
+  });
+
+  test('既知のデータで算出値を確認する', () => {
+    const icc = calculateIcc([
+      pair(10, 12),
+      pair(20, 18),
+      pair(30, 33),
+      pair(40, 39),
+    ]);
+
+    // MSR=968.5/3, MSC=0.5, MSE=8.5/3
+    expect(icc).toBeCloseTo(0.9861, 4);
+  });
+
+  test('分散がない場合はnull', () => {
+    expect(calculateIcc([pair(50, 50), pair(50, 50)])).toBeNull();
+    expect(calculateIcc([pair(50, 50)])).toBeNull();
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * 回帰テスト: 合成手モデルによる角度計算の真値比較
+ *
+ * テスト対象:
+ * - 合成手ランドマーク生成（運動学モデル）
+ * - AngleCalculatorの手首・前腕・母指・指の各計算方法を真値の角度でスイープした誤差
+ * - カメラの傾き・ランドマークのノイズに対する誤差
+ *
+ * ANGLE_REGRESSION_REPORT=1 を指定すると誤差曲線を出力する
+ */
+
+import { describe, test, expect, afterAll } from '@jest/globals';
+import { AngleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  generateSyntheticHand,
+  SyntheticHandFrame,
+  SyntheticHandPose,
+  SYNTHETIC_STEP_BASE_POSES,
+} from '@/core/infrastructure/mediapipe/synthetic-hand';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+type Hand = 'left' | 'right';
+
+/**
+ * スイープする計算方法
+ */
+interface SweepCase {
+  /** 表示名 */
+  name: string;
+
+  /** 開始姿勢 */
+  step: keyof typeof SYNTHETIC_STEP_BASE_POSES;
+
+  /** 変化させる関節角度 */
+  parameter:
+    | 'flexion'
+    | 'deviation'
+    | 'pronation'
+    | 'fingerFlexion'
+    | 'thumbFlexion'
+    | 'thumbAbduction';
+
+  /** 測定方向（真値の符号） */
+  direction: 1 | -1;
+
+  /** スイープする最大角度（度） */
+  maxAngle: number;
+
+  /** 評価する手 */
+  hands: readonly Hand[];
+
+  /** 角度の計算 */
+  measure: (frame: SyntheticHandFrame, hand: Hand) => number;
+
+  /** 最大誤差の許容値（度） */
+  tolerance: number;
+
+  /** カメラを±10度傾けた場合の最大誤差の許容値（度） */
+  tiltTolerance: number;
+
+  /** ランドマークのノイズによる平均誤差の許容値（度、省略時は3度） */
+  noiseTolerance?: number;
+}
+
+/**
+ * 誤差曲線の点
+ */
+interface ErrorCurvePoint {
+  truth: number;
+  measured: number;
+  error: number;
+}
+
+const calculator = new AngleCalculator();
+
+const BOTH_HANDS: readonly Hand[] = ['right', 'left'];
+
+const SWEEP_STEP_DEGREES = 5;
+
+const CAMERA_TILTS: readonly Partial<SyntheticHandPose>[] = [
+  { cameraYaw: 10 },
+  { cameraYaw: -10 },
+  { cameraPitch: 10 },
+  { cameraPitch: -10 },
+];
+
+/**
+ * 前腕軸（MediaPipe Pose）を用いたステップ角度
+ */
+const poseCase = (
+  step: SweepCase['step'],
+  parameter: SweepCase['parameter'],
+  direction: 1 | -1,
+  maxAngle: number,
+  tiltTolerance: number
+): SweepCase => ({
+  name: `${step}（前腕軸）`,
+  step,
+  parameter,
+  direction,
+  maxAngle,
+  hands: BOTH_HANDS,
+  measure: (frame, hand) =>
+    calculator.calculateStepAngle(frame.landmarks, step, {
+      hand,
+      forearm: frame.forearm,
+    }).angle,
+  tolerance: 0.5,
+  tiltTolerance,
+});
+
+const SWEEP_CASES: SweepCase[] = [
+  poseCase('palmar-flexion', 'flexion', 1, 90, 0.5),
+  poseCase('dorsal-flexion', 'flexion', -1, 70, 0.5),
+  poseCase('radial-deviation', 'deviation', 1, 25, 0.5),
+  poseCase('ulnar-deviation', 'deviation', -1, 55, 0.5),
+  // 回内・回外はカメラ方向を基準とするため、ヨーの分だけずれる
+  poseCase('pronation', 'pronation', 1, 90, 10.5),
+  poseCase('supination', 'pronation', -1, 90, 10.5),
+  {
+    name: 'calculatePalmarFlexion',
+    step: 'palmar-flexion',
+    parameter: 'flexion',
+    direction: 1,
+    maxAngle: 90,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculatePalmarFlexion(frame.landmarks),
+    tolerance: 5.5,
+    tiltTolerance: 5.5,
+  },
+  {
+    name: 'calculateDorsalFlexion',
+    step: 'dorsal-flexion',
+    parameter: 'flexion',
+    direction: -1,
+    maxAngle: 70,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateDorsalFlexion(frame.landmarks),
+    tolerance: 5.5,
+    tiltTolerance: 5.5,
+  },
+  {
+    name: 'calculateFlexionExtension',
+    step: 'ulnar-deviation',
+    parameter: 'flexion',
+    direction: 1,
+    maxAngle: 30,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateFlexionExtension(frame.landmarks),
+    // 奥行きの変化にスケーリング係数3を掛けるため、角度が大きいほど過大になる
+    tolerance: 21,
+    tiltTolerance: 25,
+  },
+  {
+    name: 'calculateRadialUlnarDeviation（橈屈）',
+    step: 'radial-deviation',
+    parameter: 'deviation',
+    direction: 1,
+    maxAngle: 25,
+    hands: BOTH_HANDS,
+    measure: (frame) =>
+      calculator.calculateRadialUlnarDeviation(frame.landmarks),
+    tolerance: 0.5,
+    // 画像の縦軸を基準とするため、ピッチで手が傾くと誤差が大きい
+    tiltTolerance: 10.5,
+  },
+  {
+    name: 'calculateRadialUlnarDeviation（尺屈）',
+    step: 'ulnar-deviation',
+    parameter: 'deviation',
+    direction: -1,
+    maxAngle: 55,
+    hands: BOTH_HANDS,
+    measure: (frame) =>
+      calculator.calculateRadialUlnarDeviation(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 10.5,
+  },
+  // 手のみの回内・回外は左右を区別せず、手掌の法線の向きが本モデルの左手と一致する
+  {
+    name: 'calculatePronation',
+    step: 'pronation',
+    parameter: 'pronation',
+    direction: 1,
+    maxAngle: 90,
+    hands: ['left'],
+    measure: (frame) => calculator.calculatePronation(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 10.5,
+  },
+  {
+    name: 'calculateSupination',
+    step: 'supination',
+    parameter: 'pronation',
+    direction: -1,
+    maxAngle: 90,
+    hands: ['left'],
+    measure: (frame) => calculator.calculateSupination(frame.landmarks),
+    // 中間位でも示指・小指MCPの奥行きの差を回外として加算する
+    tolerance: 6.5,
+    tiltTolerance: 16,
+  },
+  {
+    name: 'calculateThumbFlexion',
+    step: 'thumb-flexion',
+    parameter: 'thumbFlexion',
+    direction: 1,
+    maxAngle: 60,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateThumbFlexion(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 0.5,
+    // 母指の基節骨は手の大きさの約0.17と短く、ノイズの影響が大きい
+    noiseTolerance: 7.5,
+  },
+  {
+    name: 'calculateThumbExtension',
+    step: 'thumb-extension',
+    parameter: 'thumbFlexion',
+    direction: -1,
+    maxAngle: 20,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateThumbExtension(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 0.5,
+    noiseTolerance: 7.5,
+  },
+  {
+    name: 'calculateThumbAbduction',
+    step: 'thumb-abduction',
+    parameter: 'thumbAbduction',
+    direction: 1,
+    maxAngle: 60,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateThumbAbduction(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 0.5,
+    noiseTolerance: 3.5,
+  },
+  {
+    name: 'calculateThumbAdduction',
+    step: 'thumb-adduction',
+    parameter: 'thumbAbduction',
+    direction: -1,
+    maxAngle: 15,
+    hands: BOTH_HANDS,
+    measure: (frame) => calculator.calculateThumbAdduction(frame.landmarks),
+    tolerance: 0.5,
+    tiltTolerance: 0.5,
+    noiseTolerance: 3.5,
+  },
+  // 指節は手首→MCPの延長から橈尺側にわずかに開いているため、
+  // 伸展位では屈曲軸に垂直な曲がりを±2°程度の屈曲・過伸展として測定する
+  {
+    name: 'calculateFingerAngles（示指PIP）',
+    step: 'finger-flexion',
+    parameter: 'fingerFlexion',
+    direction: 1,
+    maxAngle: 100,
+    hands: BOTH_HANDS,
+    measure: (frame, hand) =>
+      calculator.calculateFingerAngles(frame.landmarks, hand).index.pip,
+    tolerance: 2.5,
+    tiltTolerance: 2.5,
+  },
+  // MCP・PIP・DIPに同じ角度を与えるため、3関節の和の1/3を真値と比較する
+  {
+    name: 'calculateCompositeFingerFlexion（1関節あたり）',
+    step: 'finger-flexion',
+    parameter: 'fingerFlexion',
+    direction: 1,
+    maxAngle: 90,
+    hands: BOTH_HANDS,
+    measure: (frame, hand) =>
+      calculator.calculateCompositeFingerFlexion(frame.landmarks, hand) / 3,
+    tolerance: 2.5,
+    tiltTolerance: 3.5,
+  },
+  {
+    name: 'calculateFingerExtensionDeficit（1関節あたり）',
+    step: 'finger-extension',
+    parameter: 'fingerFlexion',
+    direction: 1,
+    maxAngle: 30,
+    hands: BOTH_HANDS,
+    measure: (frame, hand) =>
+      calculator.calculateFingerExtensionDeficit(frame.landmarks, hand) / 3,
+    tolerance: 2.5,
+    tiltTolerance: 3.5,
+  },
+];
+
+/**
+ * 真値の角度をスイープして誤差曲線を作成
+ */
+const sweep = (
+  sweepCase: SweepCase,
+  hand: Hand,
+  pose: Partial<SyntheticHandPose> = {}
+): ErrorCurvePoint[] => {
+  const points: ErrorCurvePoint[] = [];
+  for (
+    let truth = 0;
+    truth <= sweepCase.maxAngle;
+    truth += SWEEP_STEP_DEGREES
+  ) {
+    const frame = generateSyntheticHand({
+      ...SYNTHETIC_STEP_BASE_POSES[sweepCase.step],
+      ...pose,
+      hand,
+      [sweepCase.parameter]: sweepCase.direction * truth,
+    });
+    const measured = sweepCase.measure(frame, hand);
+    points.push({ truth, measured, error: measured - truth });
+  }
+  return points;
+};
+
+const maxAbsError = (points: ErrorCurvePoint[]): number =>
+  Math.max(...points.map((p) => Math.abs(p.error)));
+
+const meanAbsError = (points: ErrorCurvePoint[]): number =>
+  points.reduce((sum, p) => sum + Math.abs(p.error), 0) / points.length;
+
+/**
+ * 誤差曲線のレポート
+ */
+const report: string[] = [];
+
+const recordCurve = (label: string, points: ErrorCurvePoint[]): void => {
+  report.push(
+    `${label}: 最大 ${maxAbsError(points).toFixed(2)}° / 平均 ${meanAbsError(
+      points
+    ).toFixed(2)}°`,
+    `  ${points
+      .map((p) => `${p.truth}°:${p.error >= 0 ? '+' : ''}${p.error.toFixed(1)}`)
+      .join(' ')}`
+  );
+};
+
+afterAll(() => {
+  if (process.env.ANGLE_REGRESSION_REPORT) {
+    console.log(`角度計算の誤差曲線（真値: 誤差）\n${report.join('\n')}`);
+  }
+});
+
+const distance = (a?: Point3D, b?: Point3D): number =>
+  a && b ? Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) : NaN;
+
+describe('合成手モデル', () => {
+  test('MediaPipe Hands互換の21点を生成する', () => {
+    const { landmarks, forearm } = generateSyntheticHand();
+
+    expect(landmarks).toHaveLength(21);
+    landmarks.forEach((landmark, id) => expect(landmark.id).toBe(id));
+    expect(landmarks[0]).toMatchObject({ x: 0.5, y: 0.6, z: 0 });
+    // 中指先端は手首から手の大きさ（0.2）だけ指先方向にある
+    expect(landmarks[12]?.y).toBeCloseTo(0.4, 10);
+    expect(forearm.wrist).toMatchObject({ id: 16, x: 0.5, y: 0.6 });
+    expect(forearm.elbow.id).toBe(14);
+  });
+
+  test('0度の姿勢では中指が上を向き、前腕は手首の下にある', () => {
+    const { landmarks, forearm } = generateSyntheticHand();
+
+    expect(landmarks[12]?.y).toBeLessThan(0.6);
+    expect(forearm.elbow.y).toBeGreaterThan(0.6);
+    expect(forearm.elbow.x).toBeCloseTo(0.5, 10);
+  });
+
+  test('左手は右手の左右反転', () => {
+    const right = generateSyntheticHand({ flexion: 20, pronation: 30 });
+    const left = generateSyntheticHand({
+      hand: 'left',
+      flexion: 20,
+      pronation: 30,
+    });
+
+    right.landmarks.forEach((landmark, id) => {
+      expect(left.landmarks[id]?.x).toBeCloseTo(1 - landmark.x, 10);
+      expect(left.landmarks[id]?.y).toBeCloseTo(landmark.y, 10);
+      expect(left.landmarks[id]?.z).toBeCloseTo(landmark.z, 10);
+    });
+  });
+
+  test('関節角度の変化で骨の長さは変わらない', () => {
+    const neutral = generateSyntheticHand().landmarks;
+    const moved = generateSyntheticHand({
+      flexion: 40,
+      deviation: -20,
+      pronation: 60,
+      cameraYaw: 15,
+    }).landmarks;
+
+    const bones: [number, number][] = [
+      [0, 5],
+      [5, 6],
+      [9, 12],
+      [17, 20],
+      [1, 4],
+    ];
+    bones.forEach(([a, b]) => {
+      expect(distance(moved[a], moved[b])).toBeCloseTo(
+        distance(neutral[a], neutral[b]),
+        10
+      );
+    });
+  });
+
+  test('母指・指の関節を動かしても指節の長さは変わらない', () => {
+    const neutral = generateSyntheticHand().landmarks;
+    const moved = generateSyntheticHand({
+      fingerFlexion: 60,
+      thumbFlexion: 40,
+      thumbAbduction: 50,
+    }).landmarks;
+
+    const bones: [number, number][] = [
+      [1, 2],
+      [2, 3],
+      [3, 4],
+      [5, 6],
+      [6, 7],
+      [7, 8],
+      [18, 19],
+    ];
+    bones.forEach(([a, b]) => {
+      expect(distance(moved[a], moved[b])).toBeCloseTo(
+        distance(neutral[a], neutral[b]),
+        10
+      );
+    });
+  });
+
+  test('同じシードのノイズは再現する', () => {
+    const a = generateSyntheticHand({ noiseSigma: 0.01, seed: 7 });
+    const b = generateSyntheticHand({ noiseSigma: 0.01, seed: 7 });
+    const c = generateSyntheticHand({ noiseSigma: 0.01, seed: 8 });
+
+    expect(a.landmarks).toEqual(b.landmarks);
+    expect(a.landmarks).not.toEqual(c.landmarks);
+  });
+});
+
+describe('角度計算の回帰スイープ', () => {
+  for (const sweepCase of SWEEP_CASES) {
+    for (const hand of sweepCase.hands) {
+      const label = `${sweepCase.name} ${hand === 'right' ? '右手' : '左手'}`;
+
+      test(`${label}: 真値との誤差が${sweepCase.tolerance}°以内`, () => {
+        const points = sweep(sweepCase, hand);
+        recordCurve(label, points);
+
+        expect(maxAbsError(points)).toBeLessThanOrEqual(sweepCase.tolerance);
+      });
+
+      test(`${label}: カメラの傾きによる誤差が${sweepCase.tiltTolerance}°以内`, () => {
+        const errors = CAMERA_TILTS.map((tilt) => {
+          const points = sweep(sweepCase, hand, tilt);
+          recordCurve(`${label} ${JSON.stringify(tilt)}`, points);
+          return maxAbsError(points);
+        });
+
+        expect(Math.max(...errors)).toBeLessThanOrEqual(
+          sweepCase.tiltTolerance
+        );
+      });
+    }
+  }
+});
+
+describe('ランドマークのノイズに対する誤差', () => {
+  // 手の大きさ0.2に対して0.002（640pxで約1px）の揺らぎ
+  const NOISE_SIGMA = 0.002;
+  const SEEDS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+  for (const sweepCase of SWEEP_CASES.filter((c) => c.tolerance <= 1)) {
+    const noiseTolerance = sweepCase.noiseTolerance ?? 3;
+
+    test(`${sweepCase.name}: ノイズによる平均誤差が${noiseTolerance}°以内`, () => {
+      const hand = sweepCase.hands[0] ?? 'right';
+      const points = SEEDS.flatMap((seed) =>
+        sweep(sweepCase, hand, { noiseSigma: NOISE_SIGMA, seed })
+      );
+      report.push(
+        `${sweepCase.name} ノイズσ=${NOISE_SIGMA}: 平均 ${meanAbsError(
+          points
+        ).toFixed(2)}°`
+      );
+
+      expect(meanAbsError(points)).toBeLessThanOrEqual(noiseTolerance);
+    });
+  }
+});
@@ -0,0 +1,172 @@
+/**
+ * ユニットテスト: 測定角度の再計算
+ *
+ * テスト対象:
+ * - 表示する角度バージョンの解決
+ * - アルゴリズムバージョンの一覧
+ * - 保存済みランドマークからの角度の再計算（基準角度・保持中の平均）
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { NeutralCalibration } from '@/core/domain/types/measurement';
+import { LEGACY_ANGLE_ALGORITHM_VERSION } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  generateSyntheticHand,
+  SYNTHETIC_STEP_BASE_POSES,
+} from '@/core/infrastructure/mediapipe/synthetic-hand';
+import {
+  collectAlgorithmVersions,
+  recomputeResultAngle,
+  resolveResultAngle,
+} from '@/lib/database/angle-reprocessor';
+import type { MeasurementResult } from '@/lib/database/measurement-db';
+
+const createResult = (
+  overrides: Partial<MeasurementResult> = {}
+): MeasurementResult => ({
+  sessionId: 'session-1',
+  timestamp: 0,
+  hand: 'right',
+  stepId: 'palmar-flexion',
+  stepName: '掌屈',
+  angle: 60,
+  targetAngle: 90,
+  isCompleted: true,
+  ...overrides,
+});
+
+const createCalibration = (
+  overrides: Partial<NeutralCalibration> = {}
+): NeutralCalibration => ({
+  stepId: 'palmar-flexion',
+  referenceAngle: 0,
+  angleRange: 1,
+  frameCount: 30,
+  orientation: 'side',
+  palmCameraAlignment: 0,
+  calibratedAt: 0,
+  ...overrides,
+});
+
+describe('表示する角度バージョンの解決', () => {
+  test('記録時の角度を選択した場合はangleを返す', () => {
+    expect(resolveResultAngle(createResult(), 'recorded')).toBe(60);
+  });
+
+  test('記録時と同じバージョンを選択した場合はangleを返す', () => {
+    const result = createResult({ algorithmVersion: 2 });
+
+    expect(resolveResultAngle(result, 2)).toBe(60);
+    expect(
+      resolveResultAngle(createResult(), LEGACY_ANGLE_ALGORITHM_VERSION)
+    ).toBe(60);
+  });
+
+  test('再計算済みのバージョンは再計算した角度を返す', () => {
+    const result = createResult({
+      recomputedAngles: {
+        2: {
+          angle: 72,
+          method: 'pose',
+          referenceRecomputed: true,
+          frameCount: 1,
+          recomputedAt: 0,
+        },
+      },
+    });
+
+    expect(resolveResultAngle(result, 2)).toBe(72);
+  });
+
+  test('計算されていないバージョンはnull', () => {
+    expect(resolveResultAngle(createResult(), 3)).toBeNull();
+  });
+});
+
+describe('アルゴリズムバージョンの一覧', () => {
+  test('記録時と再計算のバージョンを重複なく昇順で返す', () => {
+    const versions = collectAlgorithmVersions([
+      createResult({ algorithmVersion: 3 }),
+      createResult({
+        recomputedAngles: {
+          2: {
+            angle: 50,
+            method: 'hand-only',
+            referenceRecomputed: false,
+            frameCount: 1,
+            recomputedAt: 0,
+          },
+        },
+      }),
+    ]);
+
+    expect(versions).toEqual([1, 2, 3]);
+  });
+});
+
+describe('保存済みランドマークからの角度の再計算', () => {
+  const basePose = {
+    hand: 'right' as const,
+    ...SYNTHETIC_STEP_BASE_POSES['palmar-flexion'],
+  };
+  const peak = generateSyntheticHand({ ...basePose, flexion: 60 });
+  const neutral = generateSyntheticHand({ ...basePose, flexion: 10 });
+
+  test('キャリブレーションのランドマークから基準角度を再計算する', () => {
+    const recomputed = recomputeResultAngle(
+      createResult({ landmarks: peak.landmarks, forearm: peak.forearm }),
+      createCalibration({
+        referenceAngle: 99,
+        landmarks: neutral.landmarks,
+        forearm: neutral.forearm,
+      }),
+      undefined,
+      1000
+    );
+
+    expect(recomputed?.method).toBe('pose');
+    expect(recomputed?.referenceRecomputed).toBe(true);
+    expect(recomputed?.recomputedAt).toBe(1000);
+    expect(recomputed?.angle).toBeCloseTo(50, 0);
+  });
+
+  test('キャリブレーションのランドマークが無い場合は記録時の基準角度を使用する', () => {
+    const recomputed = recomputeResultAngle(
+      createResult({ landmarks: peak.landmarks, forearm: peak.forearm }),
+      createCalibration({ referenceAngle: 20 })
+    );
+
+    expect(recomputed?.referenceRecomputed).toBe(false);
+    expect(recomputed?.angle).toBeCloseTo(40, 0);
+  });
+
+  test('ランドマークが無い測定結果はnull', () => {
+    expect(recomputeResultAngle(createResult(), undefined)).toBeNull();
+  });
+
+  test('キャリブレーションが無い測定結果は記録時の角度と比較できないためnull', () => {
+    expect(
+      recomputeResultAngle(
+        createResult({ landmarks: peak.landmarks, forearm: peak.forearm }),
+        undefined
+      )
+    ).toBeNull();
+  });
+
+  test('保持中のランドマークがある場合は各フレームの角度を平均する', () => {
+    const holdLandmarks = [55, 60, 65].map(
+      (flexion) => generateSyntheticHand({ ...basePose, flexion }).landmarks
+    );
+    const recomputed = recomputeResultAngle(
+      createResult({
+        landmarks: peak.landmarks,
+        forearm: peak.forearm,
+        holdLandmarks,
+      }),
+      createCalibration({ referenceAngle: 20 })
+    );
+
+    expect(recomputed?.frameCount).toBe(3);
+    expect(recomputed?.angle).toBeCloseTo(40, 0);
+  });
+});
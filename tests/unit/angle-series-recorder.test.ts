@@ -0,0 +1,71 @@
+/**
+ * ユニットテスト: 角度の時系列の記録
+ *
+ * テスト対象:
+ * - サンプリング間隔での間引き
+ * - 0度基準確定前のフレームを含む変化量への換算
+ * - 最大角度と保持区間の時刻
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AngleSeriesRecorder } from '@/core/infrastructure/mediapipe/angle-series-recorder';
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+const START_MS = 5000;
+
+describe('角度の時系列の記録', () => {
+  test('サンプリング間隔ごとに1フレームのみ記録する', () => {
+    const recorder = new AngleSeriesRecorder(START_MS, 100);
+    recorder.setReference(START_MS, 0);
+
+    // 30fpsで1秒分
+    for (let i = 0; i < 30; i++) {
+      recorder.addSample(START_MS + i * FRAME_INTERVAL_MS, i);
+    }
+
+    const { samples, sampleIntervalMs } = recorder.getSeries();
+    expect(sampleIntervalMs).toBe(100);
+    expect(samples).toHaveLength(10);
+    expect(samples[0]?.timeMs).toBe(0);
+    samples.slice(1).forEach((sample, i) => {
+      expect(sample.timeMs - (samples[i]?.timeMs ?? 0)).toBeGreaterThan(60);
+    });
+  });
+
+  test('基準角度からの変化量に換算し、基準確定前のフレームもさかのぼって換算する', () => {
+    const recorder = new AngleSeriesRecorder(START_MS);
+    recorder.addSample(START_MS, 12);
+    recorder.addSample(START_MS + 100, null);
+    recorder.setReference(START_MS + 150, 10);
+    recorder.addSample(START_MS + 200, 70);
+
+    const series = recorder.getSeries();
+    expect(series.calibratedAtMs).toBe(150);
+    expect(series.samples.map((sample) => sample.angle)).toEqual([2, null, 60]);
+  });
+
+  test('基準角度が確定していない場合は角度をnullとする', () => {
+    const recorder = new AngleSeriesRecorder(START_MS);
+    recorder.addSample(START_MS, 12);
+
+    const series = recorder.getSeries();
+    expect(series.calibratedAtMs).toBeNull();
+    expect(series.samples).toEqual([{ timeMs: 0, angle: null }]);
+  });
+
+  test('最大角度の確定時刻と保持区間を記録する', () => {
+    const recorder = new AngleSeriesRecorder(START_MS);
+    recorder.markPeak(START_MS + 3500, START_MS + 3000);
+
+    const series = recorder.getSeries();
+    expect(series.peakAtMs).toBe(3500);
+    expect(series.holdWindow).toEqual({ startMs: 3000, endMs: 3500 });
+  });
+
+  test('ステップ開始前のフレームは記録しない', () => {
+    const recorder = new AngleSeriesRecorder(START_MS);
+    recorder.addSample(START_MS - 50, 10);
+
+    expect(recorder.getSeries().samples).toHaveLength(0);
+  });
+});
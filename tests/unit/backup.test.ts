@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * ユニットテスト: バックアップのレコード変換
+ *
+ * テスト対象:
+ * - BlobのフィールドのBase64への変換とBlobへの復元
+ * - Blob以外のフィールドの引き継ぎ
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  decodeBackupRecord,
+  encodeBackupRecord,
+} from '@/lib/data-manager/backup';
+
+describe('バックアップのレコード変換', () => {
+  test('録画のBlobをJSONに書き出せる形式に変換し、読み込み時にBlobに戻す', async () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+    const record = {
+      id: 1,
+      sessionId: 'session-1',
+      mimeType: 'video/webm',
+      video: new Blob([bytes], { type: 'video/webm' }),
+      frames: [{ timeMs: 0, angle: 10 }],
+    };
+
+    const encoded = await encodeBackupRecord(record);
+    const restored = decodeBackupRecord(JSON.parse(JSON.stringify(encoded)));
+
+    expect(encoded.video).toEqual({
+      $blob: { type: 'video/webm', base64: expect.any(String) },
+    });
+    expect(restored.sessionId).toBe('session-1');
+    expect(restored.frames).toEqual([{ timeMs: 0, angle: 10 }]);
+    expect(restored.video).toBeInstanceOf(Blob);
+    const video = restored.video as Blob;
+    expect(video.type).toBe('video/webm');
+    expect(new Uint8Array(await video.arrayBuffer())).toEqual(bytes);
+  });
+
+  test('Blobを含まないレコードはそのまま引き継ぐ', async () => {
+    const record = { id: 'm1', wristFlexion: 60, notes: null };
+
+    expect(await encodeBackupRecord(record)).toEqual(record);
+    expect(decodeBackupRecord(record)).toEqual(record);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * ユニットテスト: 左右比較の可動域不足
+ *
+ * テスト対象:
+ * - 健側に対する可動域不足（度・%）
+ * - 運動ごとの左右差
+ * - 健側の角度による患側の目標
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  calculateBilateralDeficits,
+  calculateDeficit,
+  getContralateralTargets,
+  SideAngle,
+} from '@/lib/analysis/bilateral-deficit';
+
+const sideAngle = (
+  hand: 'left' | 'right',
+  stepId: string,
+  stepName: string,
+  angle: number
+): SideAngle => ({ hand, stepId, stepName, angle });
+
+describe('健側に対する可動域不足', () => {
+  test('不足を度と健側に対する割合で計算する', () => {
+    expect(calculateDeficit(60, 80)).toEqual({
+      deficitDegrees: 20,
+      deficitPercent: 25,
+    });
+  });
+
+  test('患側が健側を上回る場合は負の値', () => {
+    const deficit = calculateDeficit(75, 70);
+
+    expect(deficit.deficitDegrees).toBe(-5);
+    expect(deficit.deficitPercent).toBeCloseTo(-7.14, 2);
+  });
+
+  test('健側が0度の場合は割合をnullとする', () => {
+    expect(calculateDeficit(5, 0)).toEqual({
+      deficitDegrees: -5,
+      deficitPercent: null,
+    });
+  });
+});
+
+describe('運動ごとの左右差', () => {
+  test('左右それぞれの最大角度を比較する', () => {
+    const deficits = calculateBilateralDeficits(
+      [
+        sideAngle('right', 'palmar-flexion', '掌屈', 80),
+        sideAngle('right', 'palmar-flexion', '掌屈', 85),
+        sideAngle('left', 'palmar-flexion', '掌屈', 50),
+        sideAngle('left', 'palmar-flexion', '掌屈', 68),
+        sideAngle('right', 'dorsal-flexion', '背屈', 70),
+        sideAngle('left', 'dorsal-flexion', '背屈', 35),
+      ],
+      'left'
+    );
+
+    expect(deficits).toEqual([
+      {
+        stepId: 'palmar-flexion',
+        stepName: '掌屈',
+        affectedAngle: 68,
+        unaffectedAngle: 85,
+        deficitDegrees: 17,
+        deficitPercent: 20,
+      },
+      {
+        stepId: 'dorsal-flexion',
+        stepName: '背屈',
+        affectedAngle: 35,
+        unaffectedAngle: 70,
+        deficitDegrees: 35,
+        deficitPercent: 50,
+      },
+    ]);
+  });
+
+  test('片側のみ測定した運動は含めない', () => {
+    const deficits = calculateBilateralDeficits(
+      [
+        sideAngle('right', 'palmar-flexion', '掌屈', 80),
+        sideAngle('left', 'palmar-flexion', '掌屈', 60),
+        sideAngle('right', 'pronation', '回内', 40),
+        sideAngle('left', 'supination', '回外', 70),
+      ],
+      'right'
+    );
+
+    expect(deficits.map((d) => d.stepId)).toEqual(['palmar-flexion']);
+    expect(deficits[0]?.deficitDegrees).toBe(-20);
+  });
+});
+
+describe('健側の角度による患側の目標', () => {
+  test('ステップごとの最大角度を目標とする', () => {
+    expect(
+      getContralateralTargets([
+        sideAngle('right', 'palmar-flexion', '掌屈', 78),
+        sideAngle('right', 'palmar-flexion', '掌屈', 82),
+        sideAngle('right', 'ulnar-deviation', '尺屈', 40),
+      ])
+    ).toEqual({ 'palmar-flexion': 82, 'ulnar-deviation': 40 });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * ユニットテスト: CSVのエクスポート・取り込み
+ *
+ * テスト対象:
+ * - CSVの作成と読み込み（エスケープ・数式の無効化・BOM・改行コード・行番号）
+ * - 測定データ・カレンダー記録のCSVエクスポート（列の選択・期間）
+ * - ゴニオメーター測定値の取り込み（列の対応の推測・検証・取得元の記録）
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  CSV_BOM,
+  formatCsv,
+  parseCsv,
+  parseCsvRows,
+} from '@/lib/data-manager/csv';
+import {
+  createCalendarCsv,
+  createMeasurementCsv,
+} from '@/lib/data-manager/csv-export';
+import {
+  guessColumnMapping,
+  importGoniometerMeasurements,
+  parseImportDate,
+  validateColumnMapping,
+} from '@/lib/data-manager/csv-import';
+import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import type { CalendarRecord } from '@/lib/data-manager/models/calendar-record';
+
+const measurement = (
+  id: string,
+  measurementDate: Date,
+  overrides: Partial<MotionMeasurement> = {}
+) =>
+  ({
+    id,
+    userId: 'user-1',
+    sessionId: `session-${id}`,
+    measurementDate,
+    wristFlexion: 60,
+    wristExtension: 50,
+    wristUlnarDeviation: 30,
+    wristRadialDeviation: 15,
+    thumbFlexion: 45,
+    thumbExtension: 5,
+    thumbAdduction: 0,
+    thumbAbduction: 40,
+    accuracyScore: 0.9,
+    handUsed: 'right',
+    comparisonResult: {
+      wristFlexion: { status: 'below_normal', deficit_degrees: 30 },
+    },
+    createdAt: measurementDate,
+    ...overrides,
+  }) as MotionMeasurement;
+
+const record = (recordDate: Date, notes?: string): CalendarRecord => ({
+  userId: 'user-1',
+  recordDate,
+  rehabCompleted: true,
+  measurementCompleted: false,
+  painLevel: 2,
+  motivationLevel: 4,
+  ...(notes !== undefined ? { notes } : {}),
+  createdAt: recordDate,
+  updatedAt: recordDate,
+});
+
+describe('formatCsv / parseCsv', () => {
+  test('カンマ・改行・ダブルクォートを含む値をエスケープし、読み込むと元に戻る', () => {
+    const rows = [
+      ['メモ', '値'],
+      ['痛み, 少し', '"強い"'],
+      ['1行目\n2行目', ''],
+    ];
+    const csv = formatCsv(rows);
+
+    expect(csv).toBe(
+      'メモ,値\r\n"痛み, 少し","""強い"""\r\n"1行目\n2行目",\r\n'
+    );
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  test('先頭のBOMと空行を除いて読み込む', () => {
+    expect(parseCsv(`${CSV_BOM}a,b\n\n1,2\n`)).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  test("数式として扱われる値は先頭に「'」を付け、数値はそのまま出力する", () => {
+    expect(
+      formatCsv([['=HYPERLINK("x")', '+1+1', '@SUM(A1)', '-5', '2.5']])
+    ).toBe('"\'=HYPERLINK(""x"")",\'+1+1,\'@SUM(A1),-5,2.5\r\n');
+  });
+
+  test('空行と値の中の改行を数えたファイル上の行番号を付ける', () => {
+    expect(parseCsvRows('a,b\r\n\r\n"1行目\r\n2行目",1\r\n2,3\r\n')).toEqual([
+      { line: 1, values: ['a', 'b'] },
+      { line: 3, values: ['1行目\r\n2行目', '1'] },
+      { line: 5, values: ['2', '3'] },
+    ]);
+  });
+});
+
+describe('createMeasurementCsv', () => {
+  test('1回の測定の測定項目ごとに1行を出力する', () => {
+    const rows = parseCsv(
+      createMeasurementCsv([measurement('m1', new Date(2026, 9, 1, 8, 5))])
+    );
+
+    // ヘッダー + 未測定の回内・回外を除く8項目
+    expect(rows).toHaveLength(9);
+    expect(rows[0]).toEqual([
+      '測定日',
+      '測定時刻',
+      '時間帯',
+      'セッションID',
+      '測定手',
+      '測定項目',
+      '角度（度）',
+      '測定精度',
+      '正常範囲との比較',
+      '取得元',
+    ]);
+    expect(rows[1]).toEqual([
+      '2026-10-01',
+      '08:05',
+      '朝',
+      'session-m1',
+      '右手',
+      '手関節掌屈',
+      '60',
+      '0.9',
+      '不足（30度）',
+      'カメラ測定',
+    ]);
+  });
+
+  test('選択した列のみを、期間内の測定について日付順に出力する', () => {
+    const csv = createMeasurementCsv(
+      [
+        measurement('m3', new Date(2026, 9, 3, 9, 0)),
+        measurement('m1', new Date(2026, 9, 1, 9, 0)),
+        measurement('m2', new Date(2026, 9, 2, 21, 0)),
+      ],
+      {
+        columns: ['date', 'angle', 'motion'],
+        startDate: new Date(2026, 9, 2),
+        endDate: new Date(2026, 9, 3),
+      }
+    );
+    const rows = parseCsv(csv);
+
+    // 列の順序は選択順ではなく定義順
+    expect(rows[0]).toEqual(['測定日', '測定項目', '角度（度）']);
+    expect(new Set(rows.slice(1).map((row) => row[0]))).toEqual(
+      new Set(['2026-10-02', '2026-10-03'])
+    );
+    expect(rows[1]?.[0]).toBe('2026-10-02');
+  });
+});
+
+describe('createCalendarCsv', () => {
+  test('痛み・モチベーション・動作レベル・メモを出力し、未記録は空欄にする', () => {
+    const rows = parseCsv(
+      createCalendarCsv([
+        record(new Date(2026, 9, 2), '手首が重い, 朝だけ'),
+        record(new Date(2026, 9, 1)),
+      ])
+    );
+
+    expect(rows).toEqual([
+      [
+        '記録日',
+        'リハビリ実施',
+        '測定実施',
+        '痛みレベル',
+        'モチベーション',
+        '動作レベル',
+        'メモ',
+      ],
+      ['2026-10-01', 'はい', 'いいえ', '2', '4', '', ''],
+      ['2026-10-02', 'はい', 'いいえ', '2', '4', '', '手首が重い, 朝だけ'],
+    ]);
+  });
+});
+
+/**
+ * 空行・複数行の値を含まないCSVの行（行番号は配列の順）
+ */
+const toCsvRows = (rows: string[][]) =>
+  rows.map((values, index) => ({ line: index + 1, values }));
+
+describe('ゴニオメーター測定値の取り込み', () => {
+  const rows = [
+    ['日付', '左右', '掌屈（°）', '背屈（°）', '備考'],
+    ['2026/09/01', '右', '40°', '35', ''],
+    ['2026-09-08 10:30', 'L', '45', '', '回内未測定'],
+    ['2026/09/15', '右', 'abc', '40', ''],
+    ['2026/09/22', '右', '500', '40', ''],
+    ['2026/02/30', '', '50', '45', ''],
+  ];
+
+  test('ヘッダー名から列の対応を推測する', () => {
+    const mapping = guessColumnMapping(rows[0] ?? []);
+
+    expect(mapping).toEqual({
+      measurementDate: 0,
+      handUsed: 1,
+      wristFlexion: 2,
+      wristExtension: 3,
+    });
+    expect(validateColumnMapping(mapping)).toEqual([]);
+    expect(validateColumnMapping({ wristFlexion: 2 })).toHaveLength(2);
+    expect(validateColumnMapping({ measurementDate: 0 }, 'right')).toEqual([
+      '角度の列を1つ以上選択してください',
+    ]);
+  });
+
+  test('測定日は時刻を含む形式とスラッシュ区切りに対応し、存在しない日付は読み込まない', () => {
+    expect(parseImportDate('2026/09/01')).toEqual(new Date(2026, 8, 1));
+    expect(parseImportDate('2026-09-08 10:30')).toEqual(
+      new Date(2026, 8, 8, 10, 30)
+    );
+    expect(parseImportDate('2026/02/30')).toBeNull();
+    expect(parseImportDate('9/1/2026')).toBeNull();
+  });
+
+  test('検証を通過した行を取得元付きの測定データに変換し、エラーの行は行番号とともに返す', () => {
+    const importedAt = new Date(2026, 9, 19);
+    const result = importGoniometerMeasurements(
+      toCsvRows(rows),
+      guessColumnMapping(rows[0] ?? []),
+      { userId: 'user-1', fileName: 'clinic.csv', importedAt }
+    );
+
+    expect(result.measurements).toHaveLength(2);
+    const [first, second] = result.measurements;
+    expect(first?.wristFlexion).toBe(40);
+    expect(first?.wristExtension).toBe(35);
+    expect(first?.handUsed).toBe('right');
+    expect(first?.accuracyScore).toBe(1);
+    expect(first?.source).toEqual({
+      type: 'goniometer-import',
+      fileName: 'clinic.csv',
+      importedAt,
+    });
+    expect(second?.handUsed).toBe('left');
+    expect(second?.measurementDate).toEqual(new Date(2026, 8, 8, 10, 30));
+    // 空欄の角度は測定した項目に含めず、正常範囲とも比較しない
+    expect(first?.measuredFields).toEqual(['wristFlexion', 'wristExtension']);
+    expect(second?.measuredFields).toEqual(['wristFlexion']);
+    expect(second?.comparisonResult.wristExtension).toBeUndefined();
+    expect(second?.comparisonResult.overallStatus).toBe('normal');
+    expect(
+      parseCsv(createMeasurementCsv([second as MotionMeasurement])).map(
+        (row) => row[5]
+      )
+    ).toEqual(['測定項目', '手関節掌屈']);
+
+    expect(result.errors.map((error) => error.line)).toEqual([4, 5, 6]);
+    expect(result.errors[0]?.messages).toEqual([
+      '手関節掌屈の角度を読み込めません（abc）',
+    ]);
+    // validateMeasurementによる検証
+    expect(result.errors[1]?.messages).toEqual([
+      '手首掌屈の角度が異常に大きい値です（500度）',
+    ]);
+    expect(result.errors[2]?.messages).toEqual([
+      '測定日を読み込めません（2026/02/30）',
+      '測定手が空欄です',
+    ]);
+  });
+
+  test('測定手が空欄の行は指定した測定手で取り込む', () => {
+    const result = importGoniometerMeasurements(
+      toCsvRows([
+        ['測定日', '手関節掌屈'],
+        ['2026-09-01', '40'],
+      ]),
+      { measurementDate: 0, wristFlexion: 1 },
+      { userId: 'user-1', defaultHand: 'left', fileName: 'clinic.csv' }
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.measurements[0]?.handUsed).toBe('left');
+  });
+
+  test('空行や備考の改行があってもファイル上の行番号でエラーを返す', () => {
+    const result = importGoniometerMeasurements(
+      parseCsvRows(
+        [
+          '測定日,測定手,掌屈,備考',
+          '',
+          '2026-09-01,右,40,"朝\nこわばりあり"',
+          '2026-09-08,右,abc,',
+        ].join('\n')
+      ),
+      { measurementDate: 0, handUsed: 1, wristFlexion: 2 },
+      { userId: 'user-1', fileName: 'clinic.csv' }
+    );
+
+    expect(result.measurements).toHaveLength(1);
+    expect(result.errors.map((error) => error.line)).toEqual([5]);
+  });
+
+  test('回内・回外も他の測定項目と同じ範囲で検証する', () => {
+    const result = importGoniometerMeasurements(
+      toCsvRows([
+        ['測定日', '測定手', '回内', '回外'],
+        ['2026-09-01', '右', '80', '85'],
+        ['2026-09-08', '右', '-10', '500'],
+      ]),
+      guessColumnMapping(['測定日', '測定手', '回内', '回外']),
+      { userId: 'user-1', fileName: 'clinic.csv' }
+    );
+
+    expect(result.measurements[0]?.wristPronation).toBe(80);
+    expect(result.errors).toEqual([
+      {
+        line: 3,
+        messages: [
+          '前腕回内の角度は0度以上である必要があります',
+          '前腕回外の角度が異常に大きい値です（500度）',
+        ],
+      },
+    ]);
+  });
+});
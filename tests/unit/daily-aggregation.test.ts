@@ -0,0 +1,136 @@
+/**
+ * ユニットテスト: 日ごとの測定データの集計
+ *
+ * テスト対象:
+ * - 1日の値の集計（最大・平均・最初・最後）
+ * - 同じ日の複数回の測定データの集計
+ * - 1日の集計方法を指定した角度トレンドの計算
+ * - 測定日時からの時間帯の判定
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  aggregateDailyValues,
+  aggregateMeasurementsByDay,
+} from '@/lib/data-manager/models/daily-aggregation';
+import { calculateAngleTrend } from '@/lib/data-manager/models/progress-data';
+import {
+  getTimeOfDay,
+  MotionMeasurement,
+} from '@/lib/data-manager/models/motion-measurement';
+
+/**
+ * 測定データ
+ */
+const createMeasurement = (
+  id: string,
+  measurementDate: Date,
+  wristFlexion: number,
+  overrides: Partial<MotionMeasurement> = {}
+) =>
+  ({
+    id,
+    userId: 'test-user-id',
+    sessionId: `session-${id}`,
+    measurementDate,
+    wristFlexion,
+    wristExtension: 50,
+    handUsed: 'right',
+    createdAt: measurementDate,
+    ...overrides,
+  }) as MotionMeasurement;
+
+describe('aggregateDailyValues', () => {
+  test('測定順の値を集計方法に従って集計する', () => {
+    const values = [40, 60, 50];
+
+    expect(aggregateDailyValues(values, 'best')).toBe(60);
+    expect(aggregateDailyValues(values, 'mean')).toBe(50);
+    expect(aggregateDailyValues(values, 'first')).toBe(40);
+    expect(aggregateDailyValues(values, 'last')).toBe(50);
+  });
+
+  test('値がない場合はundefinedを返す', () => {
+    expect(aggregateDailyValues([], 'mean')).toBeUndefined();
+  });
+});
+
+describe('aggregateMeasurementsByDay', () => {
+  // 朝のこわばりで朝の角度が小さい2日分の測定（保存順は日付順ではない）
+  const measurements = [
+    createMeasurement('day1-evening', new Date(2026, 9, 1, 19, 0), 70),
+    createMeasurement('day1-morning', new Date(2026, 9, 1, 7, 0), 50),
+    createMeasurement('day2-morning', new Date(2026, 9, 2, 7, 30), 60),
+  ];
+
+  test('最初・最後は同じ日のその測定データをそのまま返す', () => {
+    expect(
+      aggregateMeasurementsByDay(measurements, 'first').map((m) => m.id)
+    ).toEqual(['day1-morning', 'day2-morning']);
+    expect(
+      aggregateMeasurementsByDay(measurements, 'last').map((m) => m.id)
+    ).toEqual(['day1-evening', 'day2-morning']);
+  });
+
+  test('最大・平均は測定項目ごとに集計し、集計元のセッションは引き継がない', () => {
+    const [best] = aggregateMeasurementsByDay(measurements, 'best');
+    const [mean] = aggregateMeasurementsByDay(measurements, 'mean');
+
+    expect(best?.wristFlexion).toBe(70);
+    expect(mean?.wristFlexion).toBe(60);
+    expect(mean?.wristExtension).toBe(50);
+    expect(mean?.sessionId).toBeUndefined();
+    // 未測定の項目は集計しない
+    expect(mean?.wristPronation).toBeUndefined();
+  });
+
+  test('測定した項目として記録されていない0度は集計に含めない', () => {
+    const [mean] = aggregateMeasurementsByDay(
+      [
+        createMeasurement('camera', new Date(2026, 9, 1, 7, 0), 50),
+        createMeasurement('import', new Date(2026, 9, 1, 19, 0), 70, {
+          wristExtension: 0,
+          measuredFields: ['wristFlexion'],
+        }),
+      ],
+      'mean'
+    );
+
+    expect(mean?.wristFlexion).toBe(60);
+    expect(mean?.wristExtension).toBe(50);
+    expect(mean?.measuredFields).toEqual(['wristFlexion', 'wristExtension']);
+  });
+});
+
+describe('calculateAngleTrend', () => {
+  test('1日の値を集計方法に従って集計してから比較する', () => {
+    // 前日: 朝40度・夕60度、当日: 朝45度・夕60度
+    const previous = [40, 60];
+    const current = [45, 60];
+
+    expect(calculateAngleTrend(current, previous, 'first').changeAmount).toBe(
+      5
+    );
+    expect(calculateAngleTrend(current, previous, 'best').changeAmount).toBe(0);
+    expect(calculateAngleTrend(current, previous, 'mean').currentValue).toBe(
+      52.5
+    );
+  });
+
+  test('数値を渡した場合は従来どおり比較する', () => {
+    const trend = calculateAngleTrend(60, 50);
+
+    expect(trend.changeAmount).toBe(10);
+    expect(trend.trend).toBe('improving');
+  });
+});
+
+describe('getTimeOfDay', () => {
+  test('測定時刻から時間帯を判定する', () => {
+    expect(getTimeOfDay(new Date(2026, 9, 1, 5, 0))).toBe('morning');
+    expect(getTimeOfDay(new Date(2026, 9, 1, 12, 0))).toBe('afternoon');
+    expect(getTimeOfDay(new Date(2026, 9, 1, 18, 0))).toBe('evening');
+    expect(getTimeOfDay(new Date(2026, 9, 1, 23, 0))).toBe('night');
+    expect(getTimeOfDay(new Date(2026, 9, 1, 4, 59))).toBe('night');
+  });
+});
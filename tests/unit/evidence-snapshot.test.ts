@@ -0,0 +1,74 @@
+/**
+ * ユニットテスト: 最大角度の根拠画像
+ *
+ * テスト対象:
+ * - 中間位のランドマークを基準とした軸線の算出
+ * - 前腕軸を基準とした軸線の算出
+ * - 基準軸を決められない場合の扱い
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { calculateEvidenceAxes } from '@/lib/mediapipe/evidence-snapshot';
+
+/**
+ * 手首（0）と中指MCP（9）のみ位置を指定したランドマーク
+ */
+const createLandmarks = (
+  wrist: { x: number; y: number },
+  middleMcp: { x: number; y: number }
+) =>
+  Array.from({ length: 21 }, (_, i) =>
+    i === 0 ? wrist : i === 9 ? middleMcp : { x: 0.5, y: 0.5 }
+  );
+
+describe('calculateEvidenceAxes', () => {
+  test('中間位のランドマークがあれば中間位の向きを基準軸とする', () => {
+    const landmarks = createLandmarks({ x: 0.5, y: 0.5 }, { x: 0.5, y: 0.3 });
+    const reference = createLandmarks({ x: 0.4, y: 0.5 }, { x: 0.6, y: 0.5 });
+
+    const axes = calculateEvidenceAxes(
+      'palmar-flexion',
+      landmarks,
+      reference,
+      null
+    );
+
+    expect(axes).not.toBeNull();
+    expect(axes?.isForearmAxis).toBe(false);
+    expect(axes?.pivot).toEqual({ x: 0.5, y: 0.5 });
+    expect(axes?.moving).toEqual({ x: 0.5, y: 0.3 });
+    // 基準軸は中間位の向き（右向き）で、可動部の軸と同じ長さ
+    expect(axes?.reference.x).toBeCloseTo(0.7);
+    expect(axes?.reference.y).toBeCloseTo(0.5);
+  });
+
+  test('中間位のランドマークが無ければ前腕軸を基準軸とする', () => {
+    const landmarks = createLandmarks({ x: 0.5, y: 0.5 }, { x: 0.6, y: 0.5 });
+    const forearm = {
+      elbow: { x: 0.5, y: 0.9, z: 0 },
+      wrist: { x: 0.5, y: 0.6, z: 0 },
+      visibility: 0.9,
+    };
+
+    const axes = calculateEvidenceAxes(
+      'dorsal-flexion',
+      landmarks,
+      null,
+      forearm
+    );
+
+    expect(axes?.isForearmAxis).toBe(true);
+    // 肘→手首の延長（上向き）
+    expect(axes?.reference.x).toBeCloseTo(0.5);
+    expect(axes?.reference.y).toBeCloseTo(0.4);
+  });
+
+  test('基準軸を決められない場合はnullを返す', () => {
+    const landmarks = createLandmarks({ x: 0.5, y: 0.5 }, { x: 0.6, y: 0.5 });
+
+    expect(
+      calculateEvidenceAxes('palmar-flexion', landmarks, null, null)
+    ).toBeNull();
+    expect(calculateEvidenceAxes('palmar-flexion', [], null, null)).toBeNull();
+  });
+});
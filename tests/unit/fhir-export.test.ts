@@ -0,0 +1,219 @@
+/**
+ * ユニットテスト: FHIR R4形式のエクスポート
+ *
+ * テスト対象:
+ * - 測定データの角度ごとのObservationへの変換（コード・動作のcomponent・左右の拡張・測定方法・未測定の項目の除外）
+ * - カレンダー記録の痛みレベルのObservationへの変換
+ * - transaction Bundleの作成とPatientへの参照
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  createFhirBundle,
+  createMotionObservations,
+  createPainObservation,
+  FhirObservation,
+} from '@/lib/data-manager/fhir-export';
+import type { User } from '@/lib/data-manager/models/user';
+import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+import type { CalendarRecord } from '@/lib/data-manager/models/calendar-record';
+
+const user: User = {
+  id: 'user-1',
+  name: '山田 花子',
+  rehabStartDate: new Date(2026, 8, 1),
+  currentSymptomLevel: 2,
+  preferredHand: 'right',
+  createdAt: new Date(2026, 8, 1),
+  updatedAt: new Date(2026, 8, 1),
+};
+
+const measurement = {
+  id: 'measurement-1',
+  userId: 'user-1',
+  measurementDate: new Date('2026-10-01T08:00:00Z'),
+  wristFlexion: 60,
+  wristExtension: 50,
+  wristUlnarDeviation: 30,
+  wristRadialDeviation: 15,
+  thumbFlexion: 45,
+  thumbExtension: 5,
+  thumbAdduction: 0,
+  thumbAbduction: 40,
+  accuracyScore: 0.9,
+  handUsed: 'left',
+  createdAt: new Date('2026-10-01T08:00:00Z'),
+} as MotionMeasurement;
+
+const record: CalendarRecord = {
+  userId: 'user-1',
+  recordDate: new Date(2026, 9, 1),
+  rehabCompleted: true,
+  measurementCompleted: true,
+  painLevel: 3,
+  createdAt: new Date(2026, 9, 1),
+  updatedAt: new Date(2026, 9, 1),
+};
+
+/**
+ * 測定した動作のコード
+ */
+const motionCode = (observation: FhirObservation) =>
+  observation.component?.[0]?.code.coding?.[0]?.code;
+
+/**
+ * 測定項目のObservation
+ */
+const findObservation = (observations: FhirObservation[], field: string) =>
+  observations.find((observation) => motionCode(observation) === field);
+
+describe('createMotionObservations', () => {
+  test('測定した角度ごとに関節可動域のObservationを作成する', () => {
+    const observations = createMotionObservations(measurement, 'urn:uuid:p');
+
+    // 回内・回外は未測定のため出力しない
+    expect(observations).toHaveLength(8);
+
+    const flexion = findObservation(observations, 'wristFlexion');
+    // 関節可動域のコードと、より詳細な動作のコードは別のCodeableConceptにする
+    expect(flexion?.code.coding).toEqual([
+      {
+        system: 'http://snomed.info/sct',
+        code: '364564000',
+        display: 'Range of joint movement',
+      },
+    ]);
+    expect(flexion?.valueQuantity).toBeUndefined();
+    expect(flexion?.component).toEqual([
+      {
+        code: {
+          coding: [
+            {
+              system: 'urn:rehabit:motion',
+              code: 'wristFlexion',
+              display: 'Wrist flexion',
+            },
+          ],
+          text: '手関節掌屈',
+        },
+        valueQuantity: {
+          value: 60,
+          unit: '°',
+          system: 'http://unitsofmeasure.org',
+          code: 'deg',
+        },
+      },
+    ]);
+    expect(flexion?.subject.reference).toBe('urn:uuid:p');
+    expect(flexion?.effectiveDateTime).toBe('2026-10-01T08:00:00.000Z');
+    expect(flexion?.method?.coding?.[0]?.code).toBe(
+      'camera-hand-pose-estimation'
+    );
+  });
+
+  test('ゴニオメーター測定値を取り込んだ測定は測定方法をゴニオメーターにする', () => {
+    const observations = createMotionObservations(
+      { ...measurement, source: { type: 'goniometer-import' } },
+      'urn:uuid:p'
+    );
+
+    expect(observations[0]?.method?.coding?.[0]?.code).toBe('goniometer');
+  });
+
+  test('測定した項目のみを出力し、結果のないステップの0度は出力しない', () => {
+    const observations = createMotionObservations(
+      { ...measurement, measuredFields: ['wristFlexion', 'thumbAbduction'] },
+      'urn:uuid:p'
+    );
+
+    expect(observations.map(motionCode)).toEqual([
+      'wristFlexion',
+      'thumbAbduction',
+    ]);
+  });
+
+  test('測定部位の左右は拡張で修飾する', () => {
+    const observations = createMotionObservations(measurement, 'urn:uuid:p');
+
+    expect(findObservation(observations, 'wristFlexion')?.bodySite).toEqual({
+      extension: [
+        {
+          url: 'http://hl7.org/fhir/us/mcode/StructureDefinition/mcode-laterality-qualifier',
+          valueCodeableConcept: {
+            coding: [
+              {
+                system: 'http://snomed.info/sct',
+                code: '7771000',
+                display: 'Left',
+              },
+            ],
+            text: '左',
+          },
+        },
+      ],
+      coding: [
+        {
+          system: 'http://snomed.info/sct',
+          code: '74670003',
+          display: 'Wrist joint structure',
+        },
+      ],
+      text: '左手首',
+    });
+    expect(
+      findObservation(observations, 'thumbAbduction')?.bodySite?.text
+    ).toBe('左母指');
+  });
+});
+
+describe('createPainObservation', () => {
+  test('痛みレベルを痛みの程度のObservationに変換する', () => {
+    const observation = createPainObservation(record, 'urn:uuid:p');
+
+    expect(observation?.code.coding?.[0]?.code).toBe('38208-5');
+    expect(observation?.valueQuantity.value).toBe(3);
+    expect(observation?.effectiveDateTime).toBe('2026-10-01');
+  });
+
+  test('痛みレベルが未記録の場合は作成しない', () => {
+    const withoutPain = { ...record };
+    delete withoutPain.painLevel;
+
+    expect(createPainObservation(withoutPain, 'urn:uuid:p')).toBeNull();
+  });
+});
+
+describe('createFhirBundle', () => {
+  test('Patientと各Observationを条件付き作成するtransaction Bundleを作成する', () => {
+    let counter = 0;
+    const bundle = createFhirBundle(
+      [{ user, measurements: [measurement], records: [record] }],
+      new Date('2026-10-19T00:00:00Z'),
+      () => `id-${++counter}`
+    );
+
+    expect(bundle.type).toBe('transaction');
+    expect(bundle.timestamp).toBe('2026-10-19T00:00:00.000Z');
+    // Patient + 角度8件 + 痛みレベル1件
+    expect(bundle.entry).toHaveLength(10);
+
+    const [patientEntry, ...observationEntries] = bundle.entry;
+    expect(patientEntry?.resource).toEqual({
+      resourceType: 'Patient',
+      identifier: [{ system: 'urn:rehabit:user-id', value: 'user-1' }],
+      name: [{ text: '山田 花子' }],
+    });
+    expect(patientEntry?.request.ifNoneExist).toBe(
+      'identifier=urn:rehabit:user-id|user-1'
+    );
+
+    // ObservationはBundle内のPatientのfullUrlを参照する
+    observationEntries.forEach((entry) => {
+      expect(entry.request.url).toBe('Observation');
+      expect((entry.resource as FhirObservation).subject.reference).toBe(
+        patientEntry?.fullUrl
+      );
+    });
+    expect(new Set(bundle.entry.map((entry) => entry.fullUrl)).size).toBe(10);
+  });
+});
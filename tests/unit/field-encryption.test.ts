@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * ユニットテスト: 保存時の暗号化
+ *
+ * テスト対象:
+ * - パスフレーズからの鍵の作成と、パスフレーズの検証
+ * - レコードのフィールド単位の暗号化・復号（JSON・Blob）
+ * - 暗号化ミドルウェアによる保存時の暗号化・読み込み時の復号
+ */
+
+import { afterEach, describe, test, expect } from '@jest/globals';
+import type { DBCore, DBCoreTable, DBCoreTransaction } from 'dexie';
+import {
+  createKeyring,
+  decryptRecord,
+  encryptRecord,
+  isEncryptedField,
+  unlockKeyring,
+} from '@/lib/database/field-encryption';
+import {
+  DATABASE_LOCKED_MESSAGE,
+  encryptionMiddleware,
+  setEncryptionState,
+} from '@/lib/database/encryption-middleware';
+
+/**
+ * テスト用に反復回数を減らした鍵（鍵の導出はcreateKeyringのテストで確認する）
+ */
+const createTestKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, [
+    'encrypt',
+    'decrypt',
+  ]);
+
+/**
+ * 主キーをidとするメモリ上のテーブル（get・mutateのみ）
+ * IndexedDBと同様に、読み込みの完了はイベントループの次のタスクで通知する
+ */
+const createMemoryCore = () => {
+  const rows = new Map<unknown, unknown>();
+  const table = {
+    name: 'records',
+    get: ({ key }: { key: unknown }) =>
+      new Promise((resolve) => setTimeout(() => resolve(rows.get(key)))),
+    mutate: async ({ values }: { values: Array<{ id: string }> }) => {
+      values.forEach((value) => rows.set(value.id, value));
+      return { numFailures: 0, failures: {}, results: [] };
+    },
+  } as unknown as DBCoreTable;
+  const core = { table: () => table } as unknown as DBCore;
+  return { rows, table: encryptionMiddleware.create(core).table!('records') };
+};
+
+const trans = {} as DBCoreTransaction;
+
+describe('createKeyring / unlockKeyring', () => {
+  test('作成時のパスフレーズでのみ鍵を導出できる', async () => {
+    const { keyring } = await createKeyring('default', 'correct horse');
+
+    expect(await unlockKeyring(keyring, 'correct horse')).not.toBeNull();
+    expect(await unlockKeyring(keyring, 'wrong horse')).toBeNull();
+  });
+});
+
+describe('encryptRecord / decryptRecord', () => {
+  test('指定したフィールドだけを暗号化し、復号すると元の値に戻る', async () => {
+    const key = await createTestKey();
+    const record = {
+      id: 'record-1',
+      userId: 'user-1',
+      notes: '朝はこわばりが強い',
+      painLevel: 3,
+    };
+
+    const encrypted = await encryptRecord(key, record, ['notes', 'painLevel']);
+
+    expect(encrypted.userId).toBe('user-1');
+    expect(isEncryptedField(encrypted.notes)).toBe(true);
+    expect(isEncryptedField(encrypted.painLevel)).toBe(true);
+    expect(await decryptRecord(key, encrypted)).toEqual(record);
+    // 元のレコードは変更しない
+    expect(record.notes).toBe('朝はこわばりが強い');
+  });
+
+  test('Blobは形式を保って暗号化・復号する', async () => {
+    const key = await createTestKey();
+    const video = new Blob(['frame-data'], { type: 'video/webm' });
+
+    const encrypted = await encryptRecord(key, { id: 1, video }, ['video']);
+    const decrypted = await decryptRecord(key, encrypted);
+
+    expect(decrypted.video).toBeInstanceOf(Blob);
+    expect(decrypted.video.type).toBe('video/webm');
+    expect(await decrypted.video.text()).toBe('frame-data');
+  });
+
+  test('異なる鍵では復号できない', async () => {
+    const encrypted = await encryptRecord(
+      await createTestKey(),
+      { id: 'record-1', notes: 'メモ' },
+      ['notes']
+    );
+
+    await expect(
+      decryptRecord(await createTestKey(), encrypted)
+    ).rejects.toThrow();
+  });
+});
+
+describe('encryptionMiddleware', () => {
+  afterEach(() => {
+    setEncryptionState({ enabled: false, key: null });
+  });
+
+  test('暗号化が無効な場合はそのまま保存する', async () => {
+    const { rows, table } = createMemoryCore();
+
+    await table.mutate({
+      type: 'put',
+      trans,
+      values: [{ id: 'r1', notes: 'メモ' }],
+    });
+
+    expect(rows.get('r1')).toEqual({ id: 'r1', notes: 'メモ' });
+  });
+
+  test('有効な場合は保存時に暗号化し、読み込み時に復号する', async () => {
+    const { rows, table } = createMemoryCore();
+    setEncryptionState({ enabled: true, key: await createTestKey() });
+
+    await table.mutate({
+      type: 'put',
+      trans,
+      values: [{ id: 'r1', notes: 'メモ' }],
+    });
+
+    expect(isEncryptedField((rows.get('r1') as { notes: unknown }).notes)).toBe(
+      true
+    );
+    expect(await table.get({ trans, key: 'r1' })).toEqual({
+      id: 'r1',
+      notes: 'メモ',
+    });
+  });
+
+  test('ロック中は暗号化したデータを読み書きできない', async () => {
+    const { table } = createMemoryCore();
+    setEncryptionState({ enabled: true, key: await createTestKey() });
+    await table.mutate({
+      type: 'put',
+      trans,
+      values: [{ id: 'r1', notes: 'メモ' }],
+    });
+
+    setEncryptionState({ enabled: true, key: null });
+
+    await expect(table.get({ trans, key: 'r1' })).rejects.toThrow(
+      DATABASE_LOCKED_MESSAGE
+    );
+    await expect(
+      table.mutate({
+        type: 'put',
+        trans,
+        values: [{ id: 'r2', notes: 'メモ' }],
+      })
+    ).rejects.toThrow(DATABASE_LOCKED_MESSAGE);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * ユニットテスト: 指関節角度計算
+ *
+ * テスト対象:
+ * - 示指〜小指のMCP・PIP・DIP関節の屈曲角度
+ * - 左右の手に応じた屈曲・過伸展の判定
+ * - TAM（Total Active Motion）の算出
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AngleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import type {
+  FingerAngles,
+  FingerJointAngles,
+} from '@/core/domain/types/angle';
+
+const toRad = (deg: number): number => (deg * Math.PI) / 180;
+
+/**
+ * 手のひらをカメラに向けた右手のランドマークを生成
+ * 手のひらはXY平面（z=0）、指は -Y 方向、掌側は -Z 方向（カメラ側）
+ *
+ * @param joint 4指共通の関節角度（負の値で過伸展）
+ */
+const createRightHand = (joint: FingerJointAngles): Point3D[] => {
+  const landmarks: Point3D[] = Array.from({ length: 21 }, (_, id) => ({
+    id,
+    x: 0.5,
+    y: 0.5,
+    z: 0,
+  }));
+
+  const wrist = { x: 0.55, y: 0.8, z: 0 };
+  landmarks[0] = { id: 0, ...wrist };
+
+  // 母指（角度計算には使用しない）
+  [1, 2, 3, 4].forEach((id, i) => {
+    landmarks[id] = { id, x: 0.45 - i * 0.02, y: 0.75 - i * 0.05, z: 0 };
+  });
+
+  const mcpXs = [0.5, 0.533, 0.566, 0.6];
+  const segmentLengths = [0.05, 0.03, 0.025];
+
+  mcpXs.forEach((mcpX, finger) => {
+    const baseId = 5 + finger * 4;
+    const mcp = { x: mcpX, y: 0.5, z: 0 };
+    landmarks[baseId] = { id: baseId, ...mcp };
+
+    // 中手骨軸（手首 → MCP）の手掌平面内の単位ベクトル
+    const dx = mcp.x - wrist.x;
+    const dy = mcp.y - wrist.y;
+    const length = Math.hypot(dx, dy);
+    const axis = { x: dx / length, y: dy / length };
+
+    let point = mcp;
+    let cumulative = 0;
+    [joint.mcp, joint.pip, joint.dip].forEach((angle, segment) => {
+      cumulative += angle;
+      const segmentLength = segmentLengths[segment] ?? 0;
+      point = {
+        x: point.x + axis.x * Math.cos(toRad(cumulative)) * segmentLength,
+        y: point.y + axis.y * Math.cos(toRad(cumulative)) * segmentLength,
+        z: point.z - Math.sin(toRad(cumulative)) * segmentLength,
+      };
+      const id = baseId + segment + 1;
+      landmarks[id] = { id, ...point };
+    });
+  });
+
+  return landmarks;
+};
+
+/**
+ * 左右反転して左手のランドマークを生成
+ */
+const mirror = (landmarks: Point3D[]): Point3D[] =>
+  landmarks.map((landmark) => ({ ...landmark, x: 1 - landmark.x }));
+
+const uniformAngles = (joint: FingerJointAngles): FingerAngles => ({
+  index: joint,
+  middle: joint,
+  ring: joint,
+  pinky: joint,
+});
+
+describe('指関節角度計算', () => {
+  const calculator = new AngleCalculator();
+
+  test('MCP・PIP・DIP関節の屈曲角度を計算する', () => {
+    const angles = calculator.calculateFingerAngles(
+      createRightHand({ mcp: 60, pip: 80, dip: 40 }),
+      'right'
+    );
+
+    for (const joint of Object.values(angles)) {
+      expect(joint.mcp).toBeCloseTo(60, 0);
+      expect(joint.pip).toBeCloseTo(80, 0);
+      expect(joint.dip).toBeCloseTo(40, 0);
+    }
+  });
+
+  test('測定対象の手を指定した場合は過伸展を負の値で返す', () => {
+    const angles = calculator.calculateFingerAngles(
+      createRightHand({ mcp: -20, pip: 0, dip: 0 }),
+      'right'
+    );
+
+    expect(angles.index.mcp).toBeCloseTo(-20, 0);
+  });
+
+  test('測定対象の手を指定しない場合は曲がりの大きさを返す', () => {
+    const angles = calculator.calculateFingerAngles(
+      createRightHand({ mcp: -20, pip: 0, dip: 0 })
+    );
+
+    expect(angles.index.mcp).toBeCloseTo(20, 0);
+  });
+
+  test('左手でも屈曲を正の値として計算する', () => {
+    const angles = calculator.calculateFingerAngles(
+      mirror(createRightHand({ mcp: 45, pip: 30, dip: 10 })),
+      'left'
+    );
+
+    expect(angles.middle.mcp).toBeCloseTo(45, 0);
+    expect(angles.middle.pip).toBeCloseTo(30, 0);
+    expect(angles.middle.dip).toBeCloseTo(10, 0);
+  });
+
+  test('屈曲角度の総和から伸展不足を引いてTAMを計算する', () => {
+    const flexion = uniformAngles({ mcp: 80, pip: 90, dip: 70 });
+    const extension: FingerAngles = {
+      ...uniformAngles({ mcp: 10, pip: 5, dip: 0 }),
+      pinky: { mcp: -15, pip: 0, dip: 0 },
+    };
+
+    const rom = calculator.calculateTotalActiveMotion(flexion, extension);
+
+    expect(rom.totalActiveMotion.index).toBe(225);
+    // 過伸展は伸展不足0度として扱う
+    expect(rom.totalActiveMotion.pinky).toBe(240);
+  });
+
+  test('ステップIDに応じて4指平均の複合角度を返す', () => {
+    const landmarks = createRightHand({ mcp: 30, pip: 40, dip: 20 });
+
+    expect(
+      calculator.calculateAngleForStep(landmarks, 'finger-flexion', 'right')
+    ).toBeCloseTo(90, 0);
+    expect(
+      calculator.calculateAngleForStep(landmarks, 'finger-extension', 'right')
+    ).toBeCloseTo(90, 0);
+  });
+
+  test('ランドマーク不足時は0を返す', () => {
+    const angles = calculator.calculateFingerAngles([], 'right');
+
+    expect(angles).toEqual(uniformAngles({ mcp: 0, pip: 0, dip: 0 }));
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * ユニットテスト: 前腕軸（MediaPipe Pose）を用いた手首角度計算
+ *
+ * テスト対象:
+ * - 肘→手首ベクトルを前腕軸とした掌屈・背屈、橈屈・尺屈、回内・回外
+ * - 前腕ランドマークが無い・可視性が低い場合の手のみの推定へのフォールバック
+ * - 使用した推定方法の報告
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AngleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import type {
+  ForearmLandmarks,
+  Point3D,
+} from '@/core/domain/types/hand-landmark';
+
+type Vec = { x: number; y: number; z: number };
+
+const toRad = (deg: number): number => (deg * Math.PI) / 180;
+
+const rotateX = (v: Vec, deg: number): Vec => ({
+  x: v.x,
+  y: v.y * Math.cos(toRad(deg)) - v.z * Math.sin(toRad(deg)),
+  z: v.y * Math.sin(toRad(deg)) + v.z * Math.cos(toRad(deg)),
+});
+
+const rotateY = (v: Vec, deg: number): Vec => ({
+  x: v.x * Math.cos(toRad(deg)) - v.z * Math.sin(toRad(deg)),
+  y: v.y,
+  z: v.x * Math.sin(toRad(deg)) + v.z * Math.cos(toRad(deg)),
+});
+
+const rotateZ = (v: Vec, deg: number): Vec => ({
+  x: v.x * Math.cos(toRad(deg)) + v.y * Math.sin(toRad(deg)),
+  y: -v.x * Math.sin(toRad(deg)) + v.y * Math.cos(toRad(deg)),
+  z: v.z,
+});
+
+const WRIST = { x: 0.5, y: 0.6, z: 0 };
+
+/**
+ * 手のひらをカメラに向けた右手（手首基準の相対座標）
+ * 指は -Y 方向、橈側は -X 方向、掌側は -Z 方向
+ */
+const RIGHT_HAND_OFFSETS: Vec[] = (() => {
+  const offsets: Vec[] = Array.from({ length: 21 }, () => ({
+    x: 0,
+    y: 0,
+    z: 0,
+  }));
+  [1, 2, 3, 4].forEach((id, i) => {
+    offsets[id] = { x: -0.04 - i * 0.015, y: -0.03 - i * 0.03, z: 0 };
+  });
+  [-0.03, -0.01, 0.01, 0.03].forEach((x, finger) => {
+    [0.1, 0.14, 0.17, 0.19].forEach((y, joint) => {
+      offsets[5 + finger * 4 + joint] = { x, y: -y, z: 0 };
+    });
+  });
+  return offsets;
+})();
+
+/**
+ * 手の姿勢を回転して右手ランドマークを生成
+ */
+const createRightHand = (transform: (v: Vec) => Vec): Point3D[] =>
+  RIGHT_HAND_OFFSETS.map((offset, id) => {
+    const v = transform(offset);
+    return { id, x: WRIST.x + v.x, y: WRIST.y + v.y, z: WRIST.z + v.z };
+  });
+
+/**
+ * 前腕ランドマーク（肘は手首から +Y 方向）
+ */
+const createForearm = (
+  transform: (v: Vec) => Vec = (v) => v,
+  visibility = 0.9
+): ForearmLandmarks => {
+  const elbow = transform({ x: 0, y: 0.25, z: 0 });
+  return {
+    elbow: { id: 13, x: WRIST.x + elbow.x, y: WRIST.y + elbow.y, z: elbow.z },
+    wrist: { id: 15, ...WRIST },
+    visibility,
+  };
+};
+
+describe('前腕軸を用いた手首角度計算', () => {
+  const calculator = new AngleCalculator();
+
+  test('前腕軸に対する掌屈・背屈角度を計算する', () => {
+    const flexed = createRightHand((v) => rotateX(v, 40));
+    const context = { hand: 'right' as const, forearm: createForearm() };
+
+    const palmar = calculator.calculateStepAngle(
+      flexed,
+      'palmar-flexion',
+      context
+    );
+    expect(palmar.method).toBe('pose');
+    expect(palmar.angle).toBeCloseTo(40, 0);
+    expect(
+      calculator.calculateStepAngle(flexed, 'dorsal-flexion', context).angle
+    ).toBe(0);
+
+    const extended = createRightHand((v) => rotateX(v, -30));
+    expect(
+      calculator.calculateStepAngle(extended, 'dorsal-flexion', context).angle
+    ).toBeCloseTo(30, 0);
+  });
+
+  test('肘の位置が変わっても前腕との相対角度を計算する', () => {
+    // 前腕ごと20度傾けた状態で掌屈30度
+    const tilt = (v: Vec) => rotateZ(v, 20);
+    const landmarks = createRightHand((v) => tilt(rotateX(v, 30)));
+
+    const result = calculator.calculateStepAngle(landmarks, 'palmar-flexion', {
+      hand: 'right',
+      forearm: createForearm(tilt),
+    });
+
+    expect(result.method).toBe('pose');
+    expect(result.angle).toBeCloseTo(30, 0);
+  });
+
+  test('前腕軸に対する橈屈・尺屈角度を計算する', () => {
+    const context = { hand: 'right' as const, forearm: createForearm() };
+
+    const radial = createRightHand((v) => rotateZ(v, 20));
+    expect(
+      calculator.calculateStepAngle(radial, 'radial-deviation', context).angle
+    ).toBeCloseTo(20, 0);
+
+    const ulnar = createRightHand((v) => rotateZ(v, -35));
+    expect(
+      calculator.calculateStepAngle(ulnar, 'ulnar-deviation', context).angle
+    ).toBeCloseTo(35, 0);
+  });
+
+  test('前腕軸まわりの回内・回外角度を計算する', () => {
+    const context = { hand: 'right' as const, forearm: createForearm() };
+
+    // 手のひらがカメラに垂直な状態から手のひらをカメラ側へ30度回転
+    const pronated = createRightHand((v) => rotateY(v, 60));
+    expect(
+      calculator.calculateStepAngle(pronated, 'pronation', context).angle
+    ).toBeCloseTo(30, 0);
+
+    const supinated = createRightHand((v) => rotateY(v, 120));
+    expect(
+      calculator.calculateStepAngle(supinated, 'supination', context).angle
+    ).toBeCloseTo(30, 0);
+  });
+
+  test('前腕ランドマークが無い場合は手のみの推定にフォールバックする', () => {
+    const landmarks = createRightHand((v) => rotateX(v, 40));
+
+    const result = calculator.calculateStepAngle(landmarks, 'palmar-flexion', {
+      hand: 'right',
+    });
+
+    expect(result.method).toBe('hand-only');
+    expect(result.angle).toBe(
+      calculator.calculateAngleForStep(landmarks, 'palmar-flexion')
+    );
+  });
+
+  test('前腕ランドマークの可視性が低い場合は使用しない', () => {
+    const landmarks = createRightHand((v) => rotateX(v, 40));
+
+    const result = calculator.calculateStepAngle(landmarks, 'palmar-flexion', {
+      hand: 'right',
+      forearm: createForearm(undefined, 0.3),
+    });
+
+    expect(result.method).toBe('hand-only');
+  });
+
+  test('母指ステップでは前腕軸を使用しない', () => {
+    const landmarks = createRightHand((v) => v);
+
+    const result = calculator.calculateStepAngle(landmarks, 'thumb-abduction', {
+      hand: 'right',
+      forearm: createForearm(),
+    });
+
+    expect(result.method).toBe('hand-only');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * ユニットテスト: 手の検出結果のフレーム処理
+ *
+ * テスト対象:
+ * - 鏡像のhandednessによる測定対象の手の選択
+ * - 手を検出できない・対象外の手のみのフレームの扱い
+ * - 平滑化と角度計算
+ * - 世界座標ランドマークがある場合も画像座標で角度を計算すること
+ * - 平滑化フィルターの履歴のリセット
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  findTargetHand,
+  HandFrameProcessor,
+} from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import {
+  angleCalculator,
+  ANGLE_CONFIDENCE_THRESHOLDS,
+} from '@/core/infrastructure/mediapipe/angle-calculator';
+import { DEFAULT_SMOOTHING_SETTINGS } from '@/core/infrastructure/mediapipe/signal-filter';
+import {
+  generateSyntheticHand,
+  SYNTHETIC_STEP_BASE_POSES,
+} from '@/core/infrastructure/mediapipe/synthetic-hand';
+
+/**
+ * 平滑化しない設定
+ */
+const NO_SMOOTHING = {
+  ...DEFAULT_SMOOTHING_SETTINGS,
+  filterType: 'none',
+} as const;
+
+/**
+ * 掌屈の姿勢の右手（MediaPipeのhandednessでは「Left」）
+ */
+const createRightHand = (flexion: number) => ({
+  landmarks: generateSyntheticHand({
+    ...SYNTHETIC_STEP_BASE_POSES['palmar-flexion'],
+    flexion,
+  }).landmarks,
+  handedness: 'Left' as const,
+  score: 0.95,
+});
+
+describe('findTargetHand', () => {
+  test('handednessを鏡像として実際の左右を判定する', () => {
+    const left = { landmarks: [], handedness: 'Right' as const };
+    const right = { landmarks: [], handedness: 'Left' as const };
+
+    expect(findTargetHand([left, right], 'left')).toBe(left);
+    expect(findTargetHand([left, right], 'right')).toBe(right);
+    expect(findTargetHand([left], 'right')).toBeNull();
+  });
+});
+
+describe('HandFrameProcessor', () => {
+  const context = {
+    stepId: 'palmar-flexion' as const,
+    hand: 'right' as const,
+    forearm: null,
+  };
+
+  test('手を検出できないフレームと対象外の手のみのフレームを区別する', () => {
+    const processor = new HandFrameProcessor(NO_SMOOTHING);
+
+    const missing = processor.process({
+      ...context,
+      timestampMs: 0,
+      hands: [],
+    });
+    expect(missing.status).toBe('missing');
+    expect(missing.angle).toBeNull();
+
+    const otherHand = processor.process({
+      ...context,
+      timestampMs: 33,
+      hands: [{ ...createRightHand(0), handedness: 'Right' }],
+    });
+    expect(otherHand.status).toBe('other-hand');
+    expect(otherHand.landmarks).toBeNull();
+  });
+
+  test('対象の手の角度・手の向き・精度を算出する', () => {
+    const processor = new HandFrameProcessor(NO_SMOOTHING);
+    const hand = createRightHand(40);
+
+    const frame = processor.process({
+      ...context,
+      timestampMs: 0,
+      hands: [hand],
+    });
+
+    expect(frame.status).toBe('tracked');
+    expect(frame.stepId).toBe('palmar-flexion');
+    expect(frame.detectionConfidence).toBe(0.95);
+    expect(frame.landmarks).toHaveLength(21);
+    expect(frame.landmarks?.[8]?.id).toBe(8);
+    expect(frame.method).toBe('hand-only');
+    expect(frame.angle).toBeCloseTo(
+      angleCalculator.calculateStepAngle(hand.landmarks, 'palmar-flexion', {
+        hand: 'right',
+      }).angle
+    );
+    expect(frame.palmCameraAlignment).not.toBeNull();
+    expect(frame.accuracy).toBeGreaterThanOrEqual(
+      ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM
+    );
+  });
+
+  test('世界座標のランドマークがある場合も、保存・再計算と同じ画像座標で角度を計算する', () => {
+    const processor = new HandFrameProcessor(NO_SMOOTHING);
+    const hand = createRightHand(10);
+    const world = createRightHand(50).landmarks.map(({ x, y, z }) => ({
+      x: x - 0.5,
+      y: y - 0.5,
+      z,
+    }));
+
+    const frame = processor.process({
+      ...context,
+      timestampMs: 0,
+      hands: [{ ...hand, worldLandmarks: world }],
+    });
+
+    expect(frame.method).toBe('hand-only');
+    expect(frame.angle).toBeCloseTo(
+      angleCalculator.calculateStepAngle(
+        hand.landmarks.map((point, id) => ({ id, ...point })),
+        'palmar-flexion',
+        { hand: 'right' }
+      ).angle
+    );
+  });
+
+  test('リセットすると平滑化の履歴を引き継がない', () => {
+    const processor = new HandFrameProcessor(DEFAULT_SMOOTHING_SETTINGS);
+    const reference = new HandFrameProcessor(DEFAULT_SMOOTHING_SETTINGS);
+
+    processor.process({
+      ...context,
+      timestampMs: 0,
+      hands: [createRightHand(0)],
+    });
+    const smoothed = processor.process({
+      ...context,
+      timestampMs: 33,
+      hands: [createRightHand(60)],
+    });
+    processor.reset();
+    const afterReset = processor.process({
+      ...context,
+      timestampMs: 66,
+      hands: [createRightHand(60)],
+    });
+    const fresh = reference.process({
+      ...context,
+      timestampMs: 66,
+      hands: [createRightHand(60)],
+    });
+
+    // 平滑化中は急な変化に遅れて追従する
+    expect(smoothed.angle ?? 0).toBeLessThan(fresh.angle ?? 0);
+    expect(afterReset.angle).toBeCloseTo(fresh.angle ?? 0);
+  });
+});
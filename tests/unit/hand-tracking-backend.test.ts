@@ -0,0 +1,157 @@
+/**
+ * ユニットテスト: 手の検出バックエンド
+ *
+ * テスト対象:
+ * - HandLandmarkerの検出結果の共通形式への変換（世界座標ランドマークを含む）
+ * - 検出結果からフレーム処理の入力への変換（世界座標はバックエンドの機能に応じて引き継ぐ）
+ * - Worker内でも利用できる画像サイズの取得
+ * - Workerで検出する場合のバックエンドの決定
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { convertHandLandmarkerResult } from '@/lib/mediapipe/hand-landmarker-backend';
+import {
+  DEFAULT_HAND_TRACKING_BACKEND,
+  getInputSize,
+  HAND_TRACKING_BACKEND_CAPABILITIES,
+  HandDetectionResult,
+  resolveWorkerBackend,
+  toDetectedHands,
+} from '@/lib/mediapipe/hand-tracking-backend';
+
+/**
+ * 21点のランドマーク
+ */
+const createLandmarks = (offset: number) =>
+  Array.from({ length: 21 }, (_, index) => ({
+    x: offset + index * 0.01,
+    y: 0.5,
+    z: 0,
+    visibility: 0,
+  }));
+
+describe('convertHandLandmarkerResult', () => {
+  test('正規化座標・世界座標・handednessを手ごとに変換する', () => {
+    const result = {
+      landmarks: [createLandmarks(0.2), createLandmarks(0.6)],
+      worldLandmarks: [createLandmarks(-0.05), createLandmarks(0.05)],
+      handedness: [
+        [{ categoryName: 'Left', displayName: '', index: 0, score: 0.9 }],
+        [{ categoryName: 'Right', displayName: '', index: 1, score: 0.8 }],
+      ],
+      handednesses: [],
+    } as HandLandmarkerResult;
+
+    const converted = convertHandLandmarkerResult(result, 640, 480, 1000);
+
+    expect(converted.detected).toBe(true);
+    expect(converted.frameWidth).toBe(640);
+    expect(converted.frameHeight).toBe(480);
+    expect(converted.timestamp).toBe(1000);
+    expect(converted.hands).toHaveLength(2);
+    expect(converted.hands[0]?.handedness).toBe('Left');
+    expect(converted.hands[0]?.confidence).toBe(0.9);
+    expect(converted.hands[0]?.landmarks).toHaveLength(21);
+    expect(converted.hands[1]?.handedness).toBe('Right');
+    expect(converted.hands[1]?.worldLandmarks?.[0]).toEqual({
+      x: 0.05,
+      y: 0.5,
+      z: 0,
+    });
+  });
+
+  test('handednessのない手は除外する', () => {
+    const result = {
+      landmarks: [createLandmarks(0.2)],
+      worldLandmarks: [],
+      handedness: [],
+      handednesses: [],
+    } as HandLandmarkerResult;
+
+    const converted = convertHandLandmarkerResult(result, 640, 480, 1000);
+
+    expect(converted.detected).toBe(false);
+    expect(converted.hands).toEqual([]);
+  });
+});
+
+describe('toDetectedHands', () => {
+  test('信頼度をスコアとして引き継ぐ', () => {
+    const landmarks = createLandmarks(0.2);
+    const result: HandDetectionResult = {
+      detected: true,
+      hands: [{ landmarks, handedness: 'Right', confidence: 0.75 }],
+      timestamp: 0,
+      frameWidth: 640,
+      frameHeight: 480,
+    };
+
+    expect(toDetectedHands(result)).toEqual([
+      { landmarks, handedness: 'Right', score: 0.75 },
+    ]);
+  });
+
+  test('世界座標はバックエンドが対応している場合のみ引き継ぐ', () => {
+    const landmarks = createLandmarks(0.2);
+    const worldLandmarks = createLandmarks(-0.05).map(({ x, y, z }) => ({
+      x,
+      y,
+      z,
+    }));
+    const result: HandDetectionResult = {
+      detected: true,
+      hands: [
+        { landmarks, worldLandmarks, handedness: 'Left', confidence: 0.9 },
+      ],
+      timestamp: 0,
+      frameWidth: 640,
+      frameHeight: 480,
+    };
+
+    expect(
+      toDetectedHands(
+        result,
+        HAND_TRACKING_BACKEND_CAPABILITIES['tasks-vision']
+      )[0]?.worldLandmarks
+    ).toBe(worldLandmarks);
+    expect(
+      toDetectedHands(result, {
+        worldLandmarks: false,
+        gpuDelegate: false,
+        workerSupport: false,
+      })[0]?.worldLandmarks
+    ).toBeUndefined();
+  });
+});
+
+describe('getInputSize', () => {
+  test('動画は元の解像度、それ以外は幅と高さを返す', () => {
+    const video = { videoWidth: 1280, videoHeight: 720, width: 320 };
+    const bitmap = { width: 640, height: 480 };
+
+    expect(getInputSize(video as unknown as HTMLVideoElement)).toEqual({
+      width: 1280,
+      height: 720,
+    });
+    expect(getInputSize(bitmap as ImageBitmap)).toEqual({
+      width: 640,
+      height: 480,
+    });
+  });
+});
+
+describe('resolveWorkerBackend', () => {
+  test('デフォルトの設定でもWorker内で動作するバックエンドで検出する', () => {
+    const backend = resolveWorkerBackend(DEFAULT_HAND_TRACKING_BACKEND);
+
+    expect(backend).toBe('tasks-vision');
+    expect(HAND_TRACKING_BACKEND_CAPABILITIES[backend].workerSupport).toBe(
+      true
+    );
+  });
+
+  test('Worker内で動作するバックエンドはそのまま使う', () => {
+    expect(resolveWorkerBackend('tasks-vision')).toBe('tasks-vision');
+  });
+});
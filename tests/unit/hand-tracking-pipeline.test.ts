@@ -0,0 +1,255 @@
+/**
+ * ユニットテスト: Web Workerによる手の検出パイプライン
+ *
+ * テスト対象:
+ * - 転送用のランドマークの詰め込みと復元
+ * - 処理中に届いたフレームの破棄（待ち行列に積まない）
+ * - リセット前に送信したフレームの結果の破棄
+ */
+
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  jest,
+} from '@jest/globals';
+import type { ProcessedHandFrame } from '@/core/infrastructure/mediapipe/hand-frame-processor';
+import {
+  decodeLandmarks,
+  encodeLandmarks,
+  HandTrackingPipeline,
+  HandTrackingRequest,
+  HandTrackingResponse,
+  packHandFrame,
+  unpackHandFrame,
+} from '@/lib/mediapipe/hand-tracking-pipeline';
+import { DEFAULT_SMOOTHING_SETTINGS } from '@/core/infrastructure/mediapipe/signal-filter';
+import type { HandTrackingOptions } from '@/lib/mediapipe/hand-tracking-backend';
+
+/**
+ * Workerに渡す検出の設定
+ */
+const TRACKING_OPTIONS: HandTrackingOptions = {
+  maxNumHands: 2,
+  modelComplexity: 1,
+  minDetectionConfidence: 0.3,
+  minTrackingConfidence: 0.2,
+  staticImageMode: false,
+};
+
+/**
+ * テスト用のWorker
+ * 受信したメッセージを記録し、テストから任意のタイミングで応答する
+ */
+class FakeWorker {
+  onmessage: ((event: { data: HandTrackingResponse }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  received: HandTrackingRequest[] = [];
+  terminated = false;
+
+  postMessage(message: HandTrackingRequest): void {
+    this.received.push(message);
+    if (message.type === 'init') {
+      queueMicrotask(() => this.respond({ type: 'ready' }));
+    }
+  }
+
+  respond(message: HandTrackingResponse): void {
+    this.onmessage?.({ data: message });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  frames() {
+    return this.received.filter(
+      (message): message is Extract<HandTrackingRequest, { type: 'frame' }> =>
+        message.type === 'frame'
+    );
+  }
+}
+
+/**
+ * テスト用の処理結果
+ */
+const createFrame = (
+  overrides: Partial<ProcessedHandFrame> = {}
+): ProcessedHandFrame => ({
+  timestampMs: 0,
+  stepId: 'palmar-flexion',
+  status: 'tracked',
+  landmarks: Array.from({ length: 21 }, (_, id) => ({
+    id,
+    x: id / 40,
+    y: 0.5,
+    z: -0.01 * id,
+  })),
+  smoothedLandmarks: null,
+  detectionConfidence: 0.9,
+  angle: 42,
+  method: 'hand-only',
+  palmCameraAlignment: 0.1,
+  view: 'ulnar-side',
+  accuracy: 0.85,
+  forearm: null,
+  ...overrides,
+});
+
+const frameContext = {
+  timestampMs: 0,
+  stepId: 'palmar-flexion' as const,
+  hand: 'right' as const,
+  forearm: null,
+};
+
+const originalCreateImageBitmap = globalThis.createImageBitmap;
+
+beforeAll(() => {
+  globalThis.createImageBitmap = (async () => ({
+    width: 640,
+    height: 480,
+    close: () => undefined,
+  })) as unknown as typeof createImageBitmap;
+});
+
+afterAll(() => {
+  globalThis.createImageBitmap = originalCreateImageBitmap;
+});
+
+/**
+ * 初期化済みのパイプラインを作成
+ */
+const createPipeline = async () => {
+  const worker = new FakeWorker();
+  const onResult = jest.fn<(frame: ProcessedHandFrame) => void>();
+  const pipeline = new HandTrackingPipeline(() => worker as unknown as Worker, {
+    onResult,
+    onError: () => undefined,
+  });
+  await pipeline.initialize(
+    DEFAULT_SMOOTHING_SETTINGS,
+    'mediapipe-hands',
+    TRACKING_OPTIONS
+  );
+  return { worker, pipeline, onResult };
+};
+
+describe('ランドマークの転送形式', () => {
+  test('Float32Arrayに詰めたランドマークを復元できる', () => {
+    const landmarks = createFrame().landmarks ?? [];
+    const decoded = decodeLandmarks(encodeLandmarks(landmarks));
+
+    expect(decoded).toHaveLength(21);
+    decoded.forEach((point, index) => {
+      expect(point.id).toBe(index);
+      expect(point.x).toBeCloseTo(landmarks[index]?.x ?? NaN, 5);
+      expect(point.z).toBeCloseTo(landmarks[index]?.z ?? NaN, 5);
+    });
+  });
+
+  test('平滑化しなかったランドマークは1つのバッファで転送する', () => {
+    const frame = createFrame();
+    const unsmoothed = packHandFrame({
+      ...frame,
+      smoothedLandmarks: frame.landmarks,
+    });
+    expect(unsmoothed.transfer).toHaveLength(1);
+
+    const restored = unpackHandFrame(unsmoothed.frame);
+    expect(restored.smoothedLandmarks).toBe(restored.landmarks);
+    expect(restored.angle).toBe(42);
+
+    const missing = packHandFrame(
+      createFrame({ status: 'missing', landmarks: null })
+    );
+    expect(missing.transfer).toHaveLength(0);
+    expect(unpackHandFrame(missing.frame).landmarks).toBeNull();
+  });
+});
+
+describe('HandTrackingPipeline', () => {
+  test('処理中に届いたフレームは送信せずに破棄する', async () => {
+    const { worker, pipeline, onResult } = await createPipeline();
+
+    expect(
+      await pipeline.submitFrame({} as HTMLCanvasElement, frameContext)
+    ).toBe(true);
+    expect(
+      await pipeline.submitFrame({} as HTMLCanvasElement, frameContext)
+    ).toBe(false);
+    expect(
+      await pipeline.submitFrame({} as HTMLCanvasElement, frameContext)
+    ).toBe(false);
+    expect(worker.frames()).toHaveLength(1);
+
+    const [first] = worker.frames();
+    worker.respond({
+      type: 'result',
+      frameId: first?.frameId ?? -1,
+      frame: packHandFrame(createFrame()).frame,
+      processingMs: 20,
+    });
+    expect(onResult).toHaveBeenCalledTimes(1);
+    expect(onResult.mock.calls[0]?.[0].angle).toBe(42);
+
+    // 結果を受け取った後は次のフレームを受け付ける
+    expect(
+      await pipeline.submitFrame({} as HTMLCanvasElement, frameContext)
+    ).toBe(true);
+    expect(pipeline.getStats()).toMatchObject({
+      submittedFrames: 2,
+      processedFrames: 1,
+      droppedFrames: 2,
+    });
+  });
+
+  test('リセット前に送信したフレームの結果は通知しない', async () => {
+    const { worker, pipeline, onResult } = await createPipeline();
+
+    await pipeline.submitFrame({} as HTMLCanvasElement, frameContext);
+    pipeline.reset();
+    const [frame] = worker.frames();
+    worker.respond({
+      type: 'result',
+      frameId: frame?.frameId ?? -1,
+      frame: packHandFrame(createFrame()).frame,
+      processingMs: 20,
+    });
+
+    expect(onResult).not.toHaveBeenCalled();
+    expect(worker.received.map((message) => message.type)).toEqual([
+      'init',
+      'frame',
+      'reset',
+    ]);
+    expect(pipeline.isReady()).toBe(true);
+  });
+
+  test('Workerの初期化に失敗した場合はWorkerを終了する', async () => {
+    const worker = new FakeWorker();
+    worker.postMessage = (message) => {
+      if (message.type === 'init') {
+        queueMicrotask(() =>
+          worker.respond({ type: 'error', message: '読み込み失敗' })
+        );
+      }
+    };
+    const pipeline = new HandTrackingPipeline(
+      () => worker as unknown as Worker,
+      { onResult: () => undefined, onError: () => undefined }
+    );
+
+    await expect(
+      pipeline.initialize(
+        DEFAULT_SMOOTHING_SETTINGS,
+        'mediapipe-hands',
+        TRACKING_OPTIONS
+      )
+    ).rejects.toThrow('読み込み失敗');
+    expect(worker.terminated).toBe(true);
+    expect(pipeline.isReady()).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * ユニットテスト: 手の面の判定
+ *
+ * テスト対象:
+ * - 掌側・橈側方向とカメラ方向の余弦からの手の面の判定
+ * - 合成手ランドマークでの手の面の判定（左右の手）
+ * - 各ステップの開始姿勢での手の面
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  classifyHandView,
+  isOppositeHandView,
+} from '@/core/infrastructure/mediapipe/hand-view-classifier';
+import { angleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  generateSyntheticHand,
+  SYNTHETIC_STEP_BASE_POSES,
+} from '@/core/infrastructure/mediapipe/synthetic-hand';
+import { STEP_REQUIRED_VIEW } from '@/core/domain/types/measurement';
+
+/**
+ * 合成手の手の面を判定
+ */
+const classifySyntheticHand = (
+  hand: 'left' | 'right',
+  pose: Parameters<typeof generateSyntheticHand>[0] = {}
+) =>
+  classifyHandView(
+    angleCalculator.calculateHandViewAlignment(
+      generateSyntheticHand({ ...pose, hand }).landmarks,
+      hand
+    )
+  );
+
+describe('classifyHandView', () => {
+  test('手のひら・手の甲の判定を優先し、側面は橈側方向で区別する', () => {
+    expect(classifyHandView({ palmar: 0.9, radial: 0.3 })).toBe('palm-facing');
+    expect(classifyHandView({ palmar: -0.8, radial: 0 })).toBe('dorsum-facing');
+    expect(classifyHandView({ palmar: 0.1, radial: -0.9 })).toBe('ulnar-side');
+    expect(classifyHandView({ palmar: -0.2, radial: 0.9 })).toBe('radial-side');
+  });
+
+  test('どの面もカメラに向いていない場合は判定しない', () => {
+    // 指先がカメラを向いている
+    expect(classifyHandView({ palmar: 0.1, radial: 0.1 })).toBeNull();
+    expect(classifyHandView(null)).toBeNull();
+  });
+
+  test('反対側の面を判定する', () => {
+    expect(isOppositeHandView('palm-facing', 'dorsum-facing')).toBe(true);
+    expect(isOppositeHandView('ulnar-side', 'radial-side')).toBe(true);
+    expect(isOppositeHandView('ulnar-side', 'palm-facing')).toBe(false);
+  });
+});
+
+describe('合成手ランドマークでの判定', () => {
+  test.each(['right', 'left'] as const)(
+    '%s: 前腕の回内・回外に応じて手の面が変わる',
+    (hand) => {
+      expect(classifySyntheticHand(hand)).toBe('ulnar-side');
+      expect(classifySyntheticHand(hand, { pronation: 90 })).toBe(
+        'palm-facing'
+      );
+      expect(classifySyntheticHand(hand, { pronation: -90 })).toBe(
+        'dorsum-facing'
+      );
+      expect(classifySyntheticHand(hand, { pronation: 180 })).toBe(
+        'radial-side'
+      );
+    }
+  );
+
+  test('手首ステップの開始姿勢は必要な手の面と一致する', () => {
+    (
+      Object.keys(
+        SYNTHETIC_STEP_BASE_POSES
+      ) as (keyof typeof SYNTHETIC_STEP_BASE_POSES)[]
+    ).forEach((stepId) => {
+      expect(
+        classifySyntheticHand('right', SYNTHETIC_STEP_BASE_POSES[stepId])
+      ).toBe(STEP_REQUIRED_VIEW[stepId]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * ユニットテスト: 旧データベースからのデータ移行
+ *
+ * テスト対象:
+ * - 移行するデータからの自動採番の主キーの除去
+ * - 集計した測定データと集計元のセッションの関連付け
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  linkMeasurementsToSessions,
+  withoutAutoIncrementId,
+} from '@/lib/database/legacy-migration';
+import type { MeasurementSession } from '@/lib/database/measurement-db';
+import type { MotionMeasurement } from '@/lib/data-manager/models/motion-measurement';
+
+/**
+ * 測定セッション
+ */
+const createSession = (
+  sessionId: string,
+  startTime: Date,
+  overrides: Partial<MeasurementSession> = {}
+): MeasurementSession => ({
+  sessionId,
+  startTime: startTime.getTime(),
+  hand: 'right',
+  mode: 'wrist',
+  isCompleted: true,
+  totalSteps: 8,
+  completedSteps: 8,
+  ...overrides,
+});
+
+/**
+ * 集計した測定データ
+ */
+const createMeasurement = (
+  id: string,
+  createdAt: Date,
+  overrides: Partial<MotionMeasurement> = {}
+) =>
+  ({
+    id,
+    userId: 'test-user-id',
+    measurementDate: createdAt,
+    handUsed: 'right',
+    createdAt,
+    ...overrides,
+  }) as MotionMeasurement;
+
+describe('withoutAutoIncrementId', () => {
+  test('主キー以外の項目を残して主キーを除去する', () => {
+    const rows = [
+      { id: 1, sessionId: 'a', angle: 45 },
+      { id: 2, sessionId: 'b', angle: 60 },
+    ];
+
+    expect(withoutAutoIncrementId(rows)).toEqual([
+      { sessionId: 'a', angle: 45 },
+      { sessionId: 'b', angle: 60 },
+    ]);
+    // 元のデータは変更しない
+    expect(rows[0]?.id).toBe(1);
+  });
+});
+
+describe('linkMeasurementsToSessions', () => {
+  test('同じ日・同じ手で作成時刻までに開始した最新のセッションに関連付ける', () => {
+    const sessions = [
+      createSession('morning', new Date(2026, 9, 1, 8, 0)),
+      createSession('evening', new Date(2026, 9, 1, 19, 0)),
+      createSession('next-day', new Date(2026, 9, 2, 8, 0)),
+      createSession('left', new Date(2026, 9, 1, 9, 0), { hand: 'left' }),
+    ];
+    const measurements = [
+      createMeasurement('m1', new Date(2026, 9, 1, 8, 10)),
+      createMeasurement('m2', new Date(2026, 9, 1, 20, 0)),
+    ];
+
+    expect(linkMeasurementsToSessions(measurements, sessions)).toEqual([
+      { measurementId: 'm1', sessionId: 'morning' },
+      { measurementId: 'm2', sessionId: 'evening' },
+    ]);
+  });
+
+  test('未完了・指モードのセッションには関連付けない', () => {
+    const sessions = [
+      createSession('incomplete', new Date(2026, 9, 1, 8, 0), {
+        isCompleted: false,
+      }),
+      createSession('finger', new Date(2026, 9, 1, 8, 5), { mode: 'finger' }),
+    ];
+    const measurements = [createMeasurement('m1', new Date(2026, 9, 1, 9, 0))];
+
+    expect(linkMeasurementsToSessions(measurements, sessions)).toEqual([]);
+  });
+
+  test('関連付け済みの測定データは変更しない', () => {
+    const sessions = [createSession('morning', new Date(2026, 9, 1, 8, 0))];
+    const measurements = [
+      createMeasurement('m1', new Date(2026, 9, 1, 9, 0), {
+        sessionId: 'other',
+      }),
+    ];
+
+    expect(linkMeasurementsToSessions(measurements, sessions)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * ユニットテスト: 動作の質の運動学的指標
+ *
+ * テスト対象:
+ * - 最大角速度と最大角度到達時間
+ * - 速度ピークの数
+ * - 無次元化ジャークとスペクトル弧長（SPARC）による滑らかさの比較
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { AngleSeries } from '@/core/domain/types/measurement';
+import { calculateMovementKinematics } from '@/core/infrastructure/mediapipe/movement-kinematics';
+
+/**
+ * 最小ジャーク軌道（0→1）
+ */
+const minimumJerk = (tau: number): number => {
+  const t = Math.min(1, Math.max(0, tau));
+  return 10 * t ** 3 - 15 * t ** 4 + 6 * t ** 5;
+};
+
+/**
+ * 時刻ごとの角度から時系列を生成
+ * 0度基準は500ミリ秒で確定し、保持区間はholdStartMsから始まる
+ */
+const createSeries = (
+  angleAt: (timeMs: number) => number | null,
+  options: {
+    intervalMs?: number;
+    durationMs?: number;
+    holdStartMs?: number;
+  } = {}
+): AngleSeries => {
+  const { intervalMs = 100, durationMs = 3000, holdStartMs = 2000 } = options;
+  const samples = [];
+  for (let timeMs = 0; timeMs <= durationMs; timeMs += intervalMs) {
+    samples.push({ timeMs, angle: angleAt(timeMs) });
+  }
+  return {
+    sampleIntervalMs: intervalMs,
+    samples,
+    calibratedAtMs: 500,
+    peakAtMs: holdStartMs + 500,
+    holdWindow: { startMs: holdStartMs, endMs: holdStartMs + 500 },
+  };
+};
+
+/**
+ * 1秒（1000〜2000ミリ秒）で60度まで動かす最小ジャーク動作
+ */
+const smoothMovement = (timeMs: number): number =>
+  60 * minimumJerk((timeMs - 1000) / 1000);
+
+/**
+ * 途中で止まりながら2回に分けて60度まで動かす動作
+ */
+const hesitantMovement = (timeMs: number): number =>
+  30 * minimumJerk((timeMs - 1000) / 400) +
+  30 * minimumJerk((timeMs - 1600) / 400);
+
+describe('動作の質の運動学的指標', () => {
+  test('最小ジャーク動作の最大角速度（1.875 × 振幅 / 時間）を算出する', () => {
+    const kinematics = calculateMovementKinematics(
+      createSeries(smoothMovement, { intervalMs: 10 })
+    );
+
+    expect(kinematics?.peakAngularVelocity).toBeCloseTo(112.5, 0);
+    expect(kinematics?.velocityPeakCount).toBe(1);
+  });
+
+  test('動作開始（最大角速度の10%）から最大角度到達までの時間を算出する', () => {
+    const kinematics = calculateMovementKinematics(
+      createSeries(smoothMovement)
+    );
+
+    // 静止区間は含めない
+    expect(kinematics?.timeToPeakMs).toBeGreaterThan(700);
+    expect(kinematics?.timeToPeakMs).toBeLessThanOrEqual(1000);
+  });
+
+  test('途中で止まる動作は速度ピークが増え、滑らかさの指標が悪化する', () => {
+    const smooth = calculateMovementKinematics(createSeries(smoothMovement));
+    const hesitant = calculateMovementKinematics(
+      createSeries(hesitantMovement)
+    );
+
+    expect(hesitant?.velocityPeakCount).toBe(2);
+    expect(hesitant?.normalizedJerk ?? 0).toBeGreaterThan(
+      smooth?.normalizedJerk ?? Infinity
+    );
+    expect(hesitant?.spectralArcLength ?? 0).toBeLessThan(
+      smooth?.spectralArcLength ?? -Infinity
+    );
+  });
+
+  test('最小ジャーク動作の無次元化ジャークは理論値（√360）に近い', () => {
+    const kinematics = calculateMovementKinematics(
+      createSeries(smoothMovement, { intervalMs: 5, holdStartMs: 2000 })
+    );
+
+    // 動作開始の閾値で両端が除かれるため理論値よりやや小さい
+    expect(kinematics?.normalizedJerk).toBeGreaterThan(Math.sqrt(360) * 0.5);
+    expect(kinematics?.normalizedJerk).toBeLessThan(Math.sqrt(360) * 1.2);
+  });
+
+  test('手を検出できなかったサンプルは補間する', () => {
+    const kinematics = calculateMovementKinematics(
+      createSeries((timeMs) =>
+        timeMs === 1500 ? null : smoothMovement(timeMs)
+      )
+    );
+
+    expect(kinematics?.velocityPeakCount).toBe(1);
+  });
+
+  test('動作区間のサンプルが不足する場合はnull', () => {
+    expect(calculateMovementKinematics(createSeries(() => null))).toBeNull();
+    expect(calculateMovementKinematics(createSeries(() => 0))).toBeNull();
+  });
+});
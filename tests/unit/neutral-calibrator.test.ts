@@ -0,0 +1,175 @@
+/**
+ * ユニットテスト: 中間位キャリブレーション
+ *
+ * テスト対象:
+ * - 開始姿勢を一定フレーム保持した場合の基準角度の取得
+ * - 角度の揺れ・フレームの途切れによる収集のやり直し
+ * - ステップの開始姿勢と手の向きが一致しない場合の拒否
+ * - 小指側・母指側を区別した手の面による拒否
+ * - 手のひらの向きの判定
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  classifyHandOrientation,
+  NeutralCalibrator,
+} from '@/core/infrastructure/mediapipe/neutral-calibrator';
+import { AngleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+/**
+ * 指定フレーム数のサンプルを追加し、最後の進捗を返す
+ */
+const feed = (
+  calibrator: NeutralCalibrator,
+  angles: number[],
+  palmCameraAlignment: number | null,
+  startFrame = 0
+) =>
+  angles.map((angle, i) =>
+    calibrator.addSample({
+      angle,
+      palmCameraAlignment,
+      timestampMs: (startFrame + i) * FRAME_INTERVAL_MS,
+    })
+  );
+
+describe('中間位キャリブレーション', () => {
+  test('開始姿勢を保持すると平均角度を基準角度として記録する', () => {
+    const calibrator = new NeutralCalibrator('palmar-flexion', {
+      requiredStableFrames: 10,
+    });
+
+    const progress = feed(
+      calibrator,
+      [12, 13, 12, 11, 12, 13, 12, 11, 12, 12],
+      0.1
+    );
+
+    expect(progress[8]?.status).toBe('collecting');
+    expect(progress[8]?.stableFrames).toBe(9);
+    expect(progress[9]?.status).toBe('complete');
+
+    const calibration = calibrator.getCalibration();
+    expect(calibration?.stepId).toBe('palmar-flexion');
+    expect(calibration?.referenceAngle).toBeCloseTo(12, 5);
+    expect(calibration?.angleRange).toBe(2);
+    expect(calibration?.frameCount).toBe(10);
+    expect(calibration?.orientation).toBe('side');
+  });
+
+  test('角度が揺れている間は完了しない', () => {
+    const calibrator = new NeutralCalibrator('ulnar-deviation', {
+      requiredStableFrames: 5,
+      maxAngleRange: 3,
+    });
+
+    const progress = feed(calibrator, [0, 10, 20, 30, 40, 50], 0.9);
+
+    expect(progress.map((p) => p.status)).not.toContain('complete');
+    expect(progress[5]?.status).toBe('unstable');
+    expect(progress[5]?.stableFrames).toBe(1);
+    expect(calibrator.getCalibration()).toBeNull();
+  });
+
+  test('手の向きが開始姿勢と一致しない場合は拒否する', () => {
+    const calibrator = new NeutralCalibrator('radial-deviation', {
+      requiredStableFrames: 5,
+    });
+
+    // 手首の測定で小指側をカメラに向けている
+    const progress = feed(calibrator, [5, 5, 5, 5, 5, 5], 0);
+
+    expect(progress[5]?.status).toBe('wrong-orientation');
+    expect(progress[5]?.requiredOrientation).toBe('palm');
+    expect(progress[5]?.detectedOrientation).toBe('side');
+    expect(calibrator.getCalibration()).toBeNull();
+  });
+
+  test('手の面を指定した場合は小指側と母指側を区別する', () => {
+    const calibrator = new NeutralCalibrator('palmar-flexion', {
+      requiredStableFrames: 3,
+    });
+    const feedView = (view: 'ulnar-side' | 'radial-side', startFrame: number) =>
+      [0, 1, 2].map((i) =>
+        calibrator.addSample({
+          angle: 10,
+          palmCameraAlignment: 0,
+          view,
+          timestampMs: (startFrame + i) * FRAME_INTERVAL_MS,
+        })
+      );
+
+    // 親指側をカメラに向けている
+    const rejected = feedView('radial-side', 0);
+    expect(rejected[2]?.status).toBe('wrong-orientation');
+    expect(rejected[2]?.requiredView).toBe('ulnar-side');
+    expect(rejected[2]?.detectedView).toBe('radial-side');
+    expect(calibrator.getCalibration()).toBeNull();
+
+    const accepted = feedView('ulnar-side', 3);
+    expect(accepted[2]?.status).toBe('complete');
+    expect(calibrator.getCalibration()?.orientation).toBe('side');
+    expect(calibrator.getCalibration()?.view).toBe('ulnar-side');
+  });
+
+  test('手を見失った場合は収集をやり直す', () => {
+    const calibrator = new NeutralCalibrator('pronation', {
+      requiredStableFrames: 5,
+    });
+
+    feed(calibrator, [0, 0, 0, 0], -0.2);
+    // 1秒間検出が途切れた後に再開
+    const progress = feed(calibrator, [0], -0.2, 34);
+
+    expect(progress[0]?.status).toBe('collecting');
+    expect(progress[0]?.stableFrames).toBe(1);
+  });
+
+  test('リセットすると再度キャリブレーションできる', () => {
+    const calibrator = new NeutralCalibrator('thumb-flexion', {
+      requiredStableFrames: 3,
+    });
+    feed(calibrator, [4, 4, 4], 0.8);
+    expect(calibrator.getCalibration()?.referenceAngle).toBe(4);
+
+    calibrator.reset();
+
+    expect(calibrator.getCalibration()).toBeNull();
+    feed(calibrator, [7, 7, 7], 0.8);
+    expect(calibrator.getCalibration()?.referenceAngle).toBe(7);
+  });
+});
+
+describe('手の向きの判定', () => {
+  test('手のひらとカメラ方向の余弦から向きを判定する', () => {
+    expect(classifyHandOrientation(0.9)).toBe('palm');
+    expect(classifyHandOrientation(0.2)).toBe('side');
+    expect(classifyHandOrientation(-0.8)).toBe('dorsal');
+    expect(classifyHandOrientation(null)).toBeNull();
+  });
+
+  test('手のひらをカメラに向けた手の向きを計算する', () => {
+    const calculator = new AngleCalculator();
+    // 右手: 指は -Y 方向、橈側は -X 方向
+    const rightHand: Point3D[] = Array.from({ length: 21 }, (_, id) => ({
+      id,
+      x: 0.5,
+      y: 0.5,
+      z: 0,
+    }));
+    rightHand[0] = { id: 0, x: 0.5, y: 0.6, z: 0 };
+    rightHand[5] = { id: 5, x: 0.47, y: 0.5, z: 0 };
+    rightHand[17] = { id: 17, x: 0.53, y: 0.5, z: 0 };
+
+    expect(
+      calculator.calculatePalmCameraAlignment(rightHand, 'right')
+    ).toBeCloseTo(1, 5);
+    // 同じ形を左手として扱うと手の甲がカメラに向いている
+    expect(
+      calculator.calculatePalmCameraAlignment(rightHand, 'left')
+    ).toBeCloseTo(-1, 5);
+  });
+});
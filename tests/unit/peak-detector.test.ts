@@ -0,0 +1,183 @@
+/**
+ * ユニットテスト: 最大角度の保持確認
+ *
+ * テスト対象:
+ * - 許容幅内で保持時間に達した角度のみを最大角度として確定
+ * - 誤検出による単発の外れ値の除外
+ * - ゆっくり動き続ける角度を保持とみなさない
+ * - 検出精度が低いフレームの除外
+ * - ランドマークの検出精度計算
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { PeakDetector } from '@/core/infrastructure/mediapipe/peak-detector';
+import {
+  AngleCalculator,
+  ANGLE_CONFIDENCE_THRESHOLDS,
+} from '@/core/infrastructure/mediapipe/angle-calculator';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+/**
+ * 角度列を30fpsのフレームとして追加し、各フレームの状態を返す
+ */
+const feed = (
+  detector: PeakDetector,
+  angles: number[],
+  accuracy = 0.9,
+  startFrame = 0
+) =>
+  angles.map((angle, i) =>
+    detector.addSample({
+      angle,
+      accuracy,
+      timestampMs: (startFrame + i) * FRAME_INTERVAL_MS,
+    })
+  );
+
+const repeat = (angle: number, frames: number): number[] =>
+  Array.from({ length: frames }, () => angle);
+
+describe('最大角度の保持確認', () => {
+  test('保持時間に達した角度を最大角度として確定する', () => {
+    const detector = new PeakDetector();
+
+    const states = feed(detector, [...repeat(0, 5), ...repeat(62, 20)]);
+
+    // 0.5秒（15フレーム）未満は保持中
+    expect(states[10]?.status).toBe('holding');
+    expect(states[10]?.confirmedPeak).toBeNull();
+    expect(states[19]?.status).toBe('holding');
+    expect(states[19]?.holdProgress).toBeCloseTo(14 / 15, 5);
+
+    expect(states[20]?.status).toBe('confirmed');
+    expect(states[20]?.isNewPeak).toBe(true);
+    expect(detector.getConfirmedPeak()).toBeCloseTo(62, 5);
+  });
+
+  test('保持の開始時刻を返す', () => {
+    const detector = new PeakDetector();
+
+    const states = feed(detector, [...repeat(0, 5), ...repeat(62, 20)]);
+
+    expect(states[20]?.holdStartMs).toBeCloseTo(5 * FRAME_INTERVAL_MS, 5);
+    expect(states[3]?.holdStartMs).toBe(0);
+  });
+
+  test('単発の外れ値は最大角度として採用しない', () => {
+    const detector = new PeakDetector();
+
+    feed(detector, [
+      ...repeat(60, 20),
+      140, // 誤検出フレーム
+      ...repeat(60, 5),
+    ]);
+
+    expect(detector.getConfirmedPeak()).toBeCloseTo(60, 5);
+  });
+
+  test('許容幅を超えて揺れている間は確定しない', () => {
+    const detector = new PeakDetector({ toleranceDegrees: 3 });
+
+    const states = feed(
+      detector,
+      Array.from({ length: 30 }, (_, i) => (i % 2 === 0 ? 50 : 58))
+    );
+
+    expect(states.map((s) => s.status)).not.toContain('confirmed');
+    expect(detector.getConfirmedPeak()).toBeNull();
+  });
+
+  test('ゆっくり動き続けている間は保持とみなさない', () => {
+    const detector = new PeakDetector({ toleranceDegrees: 3 });
+
+    // 9度/秒（0.5秒で4.5度）で動き続ける
+    const states = feed(
+      detector,
+      Array.from({ length: 60 }, (_, i) => 40 + i * 0.3)
+    );
+
+    expect(states.map((s) => s.status)).not.toContain('confirmed');
+    expect(states.some((s) => s.isHoldRestarted)).toBe(true);
+    expect(detector.getConfirmedPeak()).toBeNull();
+  });
+
+  test('除外したフレームでは保持をやり直さない', () => {
+    const detector = new PeakDetector();
+    const holding = feed(detector, repeat(62, 10));
+
+    const rejected = feed(
+      detector,
+      [62],
+      ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM - 0.1,
+      10
+    );
+    const resumed = feed(detector, repeat(62, 5), 0.9, 11);
+
+    expect(holding[0]?.isHoldRestarted).toBe(true);
+    expect(holding.slice(1).some((s) => s.isHoldRestarted)).toBe(false);
+    expect(rejected[0]?.isHoldRestarted).toBe(false);
+    expect(resumed.some((s) => s.isHoldRestarted)).toBe(false);
+    // 除外したフレームをはさんでも、最初のフレームから0.5秒で確定する
+    expect(resumed[4]?.status).toBe('confirmed');
+    expect(resumed[4]?.holdStartMs).toBe(0);
+  });
+
+  test('確定済みの最大角度より小さい保持では更新しない', () => {
+    const detector = new PeakDetector();
+    feed(detector, repeat(70, 20));
+
+    const states = feed(detector, repeat(40, 20), 0.9, 20);
+
+    expect(states[19]?.status).toBe('tracking');
+    expect(detector.getConfirmedPeak()).toBeCloseTo(70, 5);
+  });
+
+  test('検出精度が中信頼度未満のフレームを除外する', () => {
+    const detector = new PeakDetector();
+
+    const states = feed(
+      detector,
+      repeat(80, 20),
+      ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM - 0.1
+    );
+
+    expect(states.every((s) => s.status === 'rejected')).toBe(true);
+    expect(detector.getConfirmedPeak()).toBeNull();
+  });
+
+  test('リセットすると確定済みの最大角度を破棄する', () => {
+    const detector = new PeakDetector();
+    feed(detector, repeat(45, 20));
+
+    detector.reset();
+
+    expect(detector.getConfirmedPeak()).toBeNull();
+  });
+});
+
+describe('ランドマークの検出精度', () => {
+  const calculator = new AngleCalculator();
+  const createHand = (scale: number): Point3D[] =>
+    Array.from({ length: 21 }, (_, id) => ({
+      id,
+      x: 0.5 + (id === 5 ? -0.02 : id === 9 ? 0.01 : 0) * scale,
+      y: 0.6 - (id === 5 || id === 9 ? 0.1 : 0) * scale,
+      z: 0,
+    }));
+
+  test('手が十分な大きさで映っている場合は高精度', () => {
+    expect(calculator.calculateLandmarkAccuracy(createHand(1))).toBe(1);
+  });
+
+  test('手が小さく映っている場合は精度が下がる', () => {
+    expect(calculator.calculateLandmarkAccuracy(createHand(0.3))).toBeLessThan(
+      ANGLE_CONFIDENCE_THRESHOLDS.MEDIUM
+    );
+  });
+
+  test('検出信頼度が低い場合はその値を上限とする', () => {
+    expect(calculator.calculateLandmarkAccuracy(createHand(1), 0.4)).toBe(0.4);
+  });
+});
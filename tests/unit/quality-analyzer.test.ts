@@ -0,0 +1,197 @@
+/**
+ * ユニットテスト: 測定品質の評価
+ *
+ * テスト対象:
+ * - ランドマークの揺れ・移動速度・可視性の評価
+ * - カメラ画像のノイズ・照明条件の評価
+ * - ステップ単位の集計と品質レベルの判定
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  aggregateQualityMetrics,
+  calculateQualityScore,
+  estimateImageNoise,
+  estimateLightingCondition,
+  getQualityLevel,
+  QualityAnalyzer,
+  QualityImage,
+} from '@/core/infrastructure/mediapipe/quality-analyzer';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+/**
+ * 手首(0)から中指MCP(9)まで0.2の大きさの手を作成
+ */
+const createHand = (offsetX = 0, offsetY = 0): Point3D[] =>
+  Array.from({ length: 21 }, (_, id) => ({
+    id,
+    x: 0.5 + offsetX + (id === 9 ? 0 : (id % 5) * 0.02),
+    y: 0.7 + offsetY - (id === 9 ? 0.2 : Math.floor(id / 5) * 0.04),
+    z: 0,
+  }));
+
+/**
+ * 均一な輝度にノイズを加えたグレースケール画像を作成
+ */
+const createImage = (
+  luminance: number,
+  noiseSigma = 0,
+  width = 64,
+  height = 48
+): QualityImage => {
+  // シード固定の疑似乱数（Box-Muller法で正規分布に変換）
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return (seed + 1) / 2147483649;
+  };
+  const gaussian = () =>
+    Math.sqrt(-2 * Math.log(random())) * Math.cos(2 * Math.PI * random());
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const value = luminance + noiseSigma * gaussian();
+    data[i * 4] = value;
+    data[i * 4 + 1] = value;
+    data[i * 4 + 2] = value;
+    data[i * 4 + 3] = 255;
+  }
+  return { data, width, height };
+};
+
+describe('ランドマークの品質評価', () => {
+  test('静止した手は安定性が高くブレがない', () => {
+    const analyzer = new QualityAnalyzer();
+
+    const metrics = [0, 1, 2, 3].map((frame) =>
+      analyzer.analyzeFrame({
+        landmarks: createHand(),
+        timestampMs: frame * FRAME_INTERVAL_MS,
+      })
+    );
+
+    expect(metrics[3]?.handVisibility).toBe(1);
+    expect(metrics[3]?.landmarkStability).toBe(1);
+    expect(metrics[3]?.motionBlur).toBe(0);
+  });
+
+  test('フレームごとに揺れる手は安定性が低い', () => {
+    const analyzer = new QualityAnalyzer();
+
+    const metrics = [0, 1, 2, 3].map((frame) =>
+      analyzer.analyzeFrame({
+        landmarks: createHand(frame % 2 === 0 ? 0 : 0.01),
+        timestampMs: frame * FRAME_INTERVAL_MS,
+      })
+    );
+
+    // 手の大きさ0.2に対して2階差分0.02（10%）の揺れ
+    expect(metrics[3]?.landmarkStability).toBe(0);
+  });
+
+  test('等速の動きは揺れとみなさずブレとして評価する', () => {
+    const analyzer = new QualityAnalyzer();
+
+    const metrics = [0, 1, 2, 3].map((frame) =>
+      analyzer.analyzeFrame({
+        landmarks: createHand(frame * 0.01),
+        timestampMs: frame * FRAME_INTERVAL_MS,
+      })
+    );
+
+    expect(metrics[3]?.landmarkStability).toBeCloseTo(1, 5);
+    // 1秒に手の大きさ1.5個分の移動
+    expect(metrics[3]?.motionBlur).toBeCloseTo(0.5, 5);
+  });
+
+  test('画面外のランドマークと検出信頼度で可視性が下がる', () => {
+    const analyzer = new QualityAnalyzer();
+    const landmarks = createHand();
+    landmarks[20] = { id: 20, x: 1.05, y: 0.5, z: 0 };
+
+    const metrics = analyzer.analyzeFrame({
+      landmarks,
+      detectionConfidence: 0.9,
+      timestampMs: 0,
+    });
+
+    expect(metrics.handVisibility).toBeCloseTo((20 / 21) * 0.9, 5);
+  });
+});
+
+describe('カメラ画像の品質評価', () => {
+  test('画像のノイズの標準偏差を推定する', () => {
+    expect(estimateImageNoise(createImage(128), 1)).toBe(0);
+    expect(estimateImageNoise(createImage(128, 8), 1)).toBeCloseTo(8, 0);
+  });
+
+  test('適正な明るさの画像は照明条件が良好', () => {
+    expect(estimateLightingCondition(createImage(128))).toBe(1);
+    expect(estimateLightingCondition(createImage(20))).toBeLessThan(0.3);
+    expect(estimateLightingCondition(createImage(255))).toBe(0);
+  });
+
+  test('画像の評価は次の画像まで引き継ぐ', () => {
+    const analyzer = new QualityAnalyzer({ pixelStride: 1 });
+
+    const withImage = analyzer.analyzeFrame({
+      landmarks: createHand(),
+      image: createImage(128, 5),
+      timestampMs: 0,
+    });
+    const withoutImage = analyzer.analyzeFrame({
+      landmarks: createHand(),
+      timestampMs: FRAME_INTERVAL_MS,
+    });
+
+    expect(withImage.cameraNoise).toBeCloseTo(0.5, 1);
+    expect(withImage.lightingCondition).toBe(1);
+    expect(withoutImage.cameraNoise).toBe(withImage.cameraNoise);
+    expect(withoutImage.lightingCondition).toBe(1);
+  });
+});
+
+describe('品質指標の集計', () => {
+  test('フレームの品質指標を平均する', () => {
+    const aggregated = aggregateQualityMetrics([
+      { handVisibility: 1, landmarkStability: 0.8, cameraNoise: 0.2 },
+      {
+        handVisibility: 0.5,
+        landmarkStability: 0.6,
+        cameraNoise: 0.4,
+        lightingCondition: 0.9,
+      },
+    ]);
+
+    expect(aggregated?.handVisibility).toBeCloseTo(0.75, 5);
+    expect(aggregated?.landmarkStability).toBeCloseTo(0.7, 5);
+    expect(aggregated?.cameraNoise).toBeCloseTo(0.3, 5);
+    expect(aggregated?.lightingCondition).toBeCloseTo(0.9, 5);
+    expect(aggregated?.motionBlur).toBeUndefined();
+    expect(aggregateQualityMetrics([])).toBeNull();
+  });
+
+  test('総合スコアから品質レベルを判定する', () => {
+    const good = {
+      handVisibility: 1,
+      landmarkStability: 1,
+      cameraNoise: 0,
+      lightingCondition: 1,
+      motionBlur: 0,
+    };
+    const poor = {
+      handVisibility: 0.5,
+      landmarkStability: 0.3,
+      cameraNoise: 0.8,
+      lightingCondition: 0.2,
+      motionBlur: 0.6,
+    };
+
+    expect(calculateQualityScore(good)).toBe(1);
+    expect(getQualityLevel(calculateQualityScore(good))).toBe('high');
+    expect(getQualityLevel(0.7)).toBe('medium');
+    expect(getQualityLevel(calculateQualityScore(poor))).toBe('low');
+  });
+});
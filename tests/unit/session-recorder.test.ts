@@ -0,0 +1,145 @@
+/**
+ * ユニットテスト: 測定セッションの録画
+ *
+ * テスト対象:
+ * - 録画開始からの経過時間でのフレームの記録
+ * - ステップの頭出し位置の記録
+ * - 再生位置に対応するフレームの検索
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import {
+  findRecordedFrame,
+  SessionRecorder,
+} from '@/lib/mediapipe/session-recorder';
+import type { RecordedFrame } from '@/lib/database/measurement-db';
+
+/**
+ * テスト用のMediaRecorder（jsdomには無いため）
+ * 停止時に1つの録画データを返す
+ */
+class FakeMediaRecorder extends EventTarget {
+  static isTypeSupported = (type: string) => type === 'video/webm';
+  state: 'inactive' | 'recording' = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+
+  constructor(_stream: unknown, options?: { mimeType?: string }) {
+    super();
+    this.mimeType = options?.mimeType ?? '';
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({
+      data: new Blob(['video'], { type: this.mimeType }),
+    });
+    this.dispatchEvent(new Event('stop'));
+  }
+}
+
+const START_MS = 1000;
+const stream = {} as MediaStream;
+const landmarks = Array.from({ length: 21 }, (_, id) => ({
+  id,
+  x: id / 21,
+  y: 0.5,
+  z: 0,
+}));
+
+describe('測定セッションの録画', () => {
+  const originalMediaRecorder = (globalThis as { MediaRecorder?: unknown })
+    .MediaRecorder;
+
+  beforeAll(() => {
+    (globalThis as { MediaRecorder?: unknown }).MediaRecorder =
+      FakeMediaRecorder;
+  });
+
+  afterAll(() => {
+    (globalThis as { MediaRecorder?: unknown }).MediaRecorder =
+      originalMediaRecorder;
+  });
+
+  test('フレームとステップを録画開始からの経過時間で記録する', async () => {
+    const recorder = new SessionRecorder();
+    recorder.start(stream, START_MS);
+    expect(recorder.isRecording).toBe(true);
+
+    recorder.startStep(
+      { stepId: 'palmar-flexion', stepName: '掌屈', targetAngle: 90 },
+      START_MS + 500
+    );
+    recorder.addFrame(START_MS + 533, {
+      stepId: 'palmar-flexion',
+      landmarks,
+      angle: null,
+    });
+    recorder.addFrame(START_MS + 566, {
+      stepId: 'palmar-flexion',
+      landmarks: null,
+      angle: 12,
+    });
+
+    const recording = await recorder.stop(START_MS + 2000);
+    expect(recorder.isRecording).toBe(false);
+    expect(recording?.mimeType).toBe('video/webm');
+    expect(recording?.video.size).toBeGreaterThan(0);
+    expect(recording?.durationMs).toBe(2000);
+    expect(recording?.steps).toEqual([
+      {
+        stepId: 'palmar-flexion',
+        stepName: '掌屈',
+        targetAngle: 90,
+        startMs: 500,
+      },
+    ]);
+    expect(recording?.frames.map((frame) => frame.timeMs)).toEqual([533, 566]);
+    // 保存用にx・y・zのみを記録する
+    expect(recording?.frames[0]?.landmarks?.[3]).toEqual({
+      x: 3 / 21,
+      y: 0.5,
+      z: 0,
+    });
+    expect(recording?.frames[1]?.angle).toBe(12);
+  });
+
+  test('録画していない間のフレームは記録しない', async () => {
+    const recorder = new SessionRecorder();
+    recorder.addFrame(START_MS, {
+      stepId: 'palmar-flexion',
+      landmarks,
+      angle: 0,
+    });
+    expect(await recorder.stop(START_MS)).toBeNull();
+
+    recorder.start(stream, START_MS);
+    recorder.cancel();
+    expect(recorder.isRecording).toBe(false);
+    expect(await recorder.stop(START_MS + 100)).toBeNull();
+  });
+});
+
+describe('再生位置のフレームの検索', () => {
+  const frames: RecordedFrame[] = [100, 133, 166, 400].map((timeMs) => ({
+    timeMs,
+    stepId: 'palmar-flexion',
+    landmarks: null,
+    angle: timeMs / 10,
+  }));
+
+  test('再生位置以前で最も新しいフレームを返す', () => {
+    expect(findRecordedFrame(frames, 133)?.timeMs).toBe(133);
+    expect(findRecordedFrame(frames, 150)?.timeMs).toBe(133);
+    expect(findRecordedFrame(frames, 1000)?.timeMs).toBe(400);
+  });
+
+  test('最初のフレームより前はnullを返す', () => {
+    expect(findRecordedFrame(frames, 50)).toBeNull();
+    expect(findRecordedFrame([], 50)).toBeNull();
+  });
+});
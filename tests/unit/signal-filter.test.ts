@@ -0,0 +1,183 @@
+/**
+ * ユニットテスト: 角度・ランドマークの平滑化フィルター
+ *
+ * テスト対象:
+ * - 1€フィルターの静止時のノイズ抑制と動作時の追従性
+ * - 等速度カルマンフィルターの追従性とパラメータの下限
+ * - 設定に応じたフィルターの生成
+ * - ランドマーク座標ごとの平滑化
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AngleSmoothing } from '@/core/infrastructure/mediapipe/angle-calculator';
+import {
+  createSignalFilter,
+  DEFAULT_SMOOTHING_SETTINGS,
+  KalmanFilter,
+  LandmarkFilter,
+  OneEuroFilter,
+  PassThroughFilter,
+  SignalFilter,
+} from '@/core/infrastructure/mediapipe/signal-filter';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+/**
+ * 再現性のある疑似乱数（線形合同法）
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return (): number => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+/**
+ * 信号をフィルターに通した結果を返す
+ */
+const applyFilter = (filter: SignalFilter, signal: number[]): number[] =>
+  signal.map((value, frame) => filter.filter(value, frame * FRAME_INTERVAL_MS));
+
+const standardDeviation = (values: number[]): number => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length
+  );
+};
+
+/**
+ * 0度から90度まで1秒で動かし、その後静止する信号
+ */
+const rampSignal = (): number[] =>
+  Array.from({ length: 60 }, (_, frame) => Math.min(frame * 3, 90));
+
+describe('1€フィルター', () => {
+  test('静止時のノイズを抑制する', () => {
+    const random = createRandom(1);
+    const noisy = Array.from({ length: 90 }, () => 30 + (random() - 0.5) * 4);
+
+    const filtered = applyFilter(
+      new OneEuroFilter(DEFAULT_SMOOTHING_SETTINGS.oneEuro),
+      noisy
+    ).slice(30);
+
+    expect(standardDeviation(filtered)).toBeLessThan(
+      standardDeviation(noisy.slice(30)) / 2
+    );
+  });
+
+  test('動作時は移動平均より遅延が小さい', () => {
+    const signal = rampSignal();
+    const oneEuro = applyFilter(
+      new OneEuroFilter(DEFAULT_SMOOTHING_SETTINGS.oneEuro),
+      signal
+    );
+
+    const movingAverage = new AngleSmoothing(5);
+    const averaged = signal.map((value) => {
+      movingAverage.addAngle(value);
+      return movingAverage.getSmoothedAngle() ?? 0;
+    });
+
+    // 動作中（20フレーム目）の目標値との差
+    const target = signal[20] ?? 0;
+    expect(Math.abs(target - (oneEuro[20] ?? 0))).toBeLessThan(
+      Math.abs(target - (averaged[20] ?? 0))
+    );
+    // 静止後は最大角度に収束する
+    expect(oneEuro[oneEuro.length - 1]).toBeCloseTo(90, 0);
+  });
+
+  test('リセット後は最初の入力値をそのまま返す', () => {
+    const filter = new OneEuroFilter(DEFAULT_SMOOTHING_SETTINGS.oneEuro);
+    applyFilter(filter, [10, 20, 30]);
+
+    filter.reset();
+
+    expect(filter.filter(60, 0)).toBe(60);
+  });
+});
+
+describe('等速度カルマンフィルター', () => {
+  test('等速で変化する角度に遅れなく追従する', () => {
+    const signal = Array.from({ length: 60 }, (_, frame) => frame * 2);
+
+    const filtered = applyFilter(
+      new KalmanFilter(DEFAULT_SMOOTHING_SETTINGS.kalman),
+      signal
+    );
+
+    expect(filtered[59]).toBeCloseTo(118, 0);
+  });
+
+  test('静止時のノイズを抑制する', () => {
+    const random = createRandom(2);
+    const noisy = Array.from({ length: 90 }, () => 45 + (random() - 0.5) * 4);
+
+    const filtered = applyFilter(
+      new KalmanFilter(DEFAULT_SMOOTHING_SETTINGS.kalman),
+      noisy
+    ).slice(30);
+
+    expect(standardDeviation(filtered)).toBeLessThan(
+      standardDeviation(noisy.slice(30))
+    );
+  });
+
+  test('ノイズが0の場合も下限に丸めて数値を出力する', () => {
+    const filtered = applyFilter(
+      new KalmanFilter({ processNoise: 0, measurementNoise: 0 }),
+      [10, 12, 14, 16]
+    );
+
+    filtered.forEach((value) => expect(Number.isFinite(value)).toBe(true));
+  });
+});
+
+describe('フィルターの生成', () => {
+  test('設定に応じたフィルターを生成する', () => {
+    expect(createSignalFilter(DEFAULT_SMOOTHING_SETTINGS)).toBeInstanceOf(
+      OneEuroFilter
+    );
+    expect(
+      createSignalFilter({
+        ...DEFAULT_SMOOTHING_SETTINGS,
+        filterType: 'kalman',
+      })
+    ).toBeInstanceOf(KalmanFilter);
+
+    const passThrough = createSignalFilter({
+      ...DEFAULT_SMOOTHING_SETTINGS,
+      filterType: 'none',
+    });
+    expect(passThrough).toBeInstanceOf(PassThroughFilter);
+    expect(passThrough.filter(12.3, 0)).toBe(12.3);
+  });
+});
+
+describe('ランドマーク平滑化', () => {
+  test('各ランドマークの座標を個別に平滑化する', () => {
+    const filter = new LandmarkFilter({
+      ...DEFAULT_SMOOTHING_SETTINGS,
+      target: 'landmark',
+    });
+    const frame = (offset: number): Point3D[] => [
+      { id: 0, x: 0.5 + offset, y: 0.5, z: 0 },
+      { id: 1, x: 0.2, y: 0.3 + offset, z: -0.1 },
+    ];
+
+    const first = filter.filter(frame(0), 0);
+    expect(first).toEqual(frame(0));
+
+    const second = filter.filter(frame(0.02), FRAME_INTERVAL_MS);
+    expect(second[0]?.id).toBe(0);
+    expect(second[0]?.x).toBeGreaterThan(0.5);
+    expect(second[0]?.x).toBeLessThan(0.52);
+    expect(second[0]?.y).toBeCloseTo(0.5, 6);
+    expect(second[1]?.x).toBeCloseTo(0.2, 6);
+    expect(second[1]?.y).toBeGreaterThan(0.3);
+    expect(second[1]?.y).toBeLessThan(0.32);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * ユニットテスト: 母指角度計算
+ *
+ * テスト対象:
+ * - 示指中手骨平面を基準とした橈側外転・尺側内転
+ * - MCP関節の屈曲・過伸展
+ * - 掌側外転
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { AngleCalculator } from '@/core/infrastructure/mediapipe/angle-calculator';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+
+const toRad = (deg: number): number => (deg * Math.PI) / 180;
+
+/**
+ * 手のひらをXY平面（z=0）に置いた右手のランドマークを生成
+ * 示指中手骨軸は -Y 方向、橈側は -X 方向
+ *
+ * @param abduction 母指中手骨の橈側外転角度（負の値で尺側内転）
+ * @param mcpFlexion MCP関節の屈曲角度（負の値で過伸展）
+ * @param palmarAbduction 母指中手骨の掌側外転角度
+ */
+const createHand = (
+  abduction: number,
+  mcpFlexion: number,
+  palmarAbduction = 0
+): Point3D[] => {
+  const landmarks: Point3D[] = Array.from({ length: 21 }, (_, id) => ({
+    id,
+    x: 0.5,
+    y: 0.5,
+    z: 0,
+  }));
+
+  const set = (id: number, x: number, y: number, z = 0) => {
+    landmarks[id] = { id, x, y, z };
+  };
+
+  // 手首・4指MCP
+  set(0, 0.5, 0.8);
+  set(5, 0.5, 0.5);
+  set(9, 0.533, 0.5);
+  set(13, 0.566, 0.5);
+  set(17, 0.6, 0.5);
+
+  // 母指: CMC → MCP（中手骨）
+  const cmc = { x: 0.45, y: 0.75, z: 0 };
+  const metacarpalLength = 0.08;
+  const inPlane = Math.cos(toRad(palmarAbduction));
+  const mcp = {
+    x: cmc.x - Math.sin(toRad(abduction)) * inPlane * metacarpalLength,
+    y: cmc.y - Math.cos(toRad(abduction)) * inPlane * metacarpalLength,
+    z: cmc.z - Math.sin(toRad(palmarAbduction)) * metacarpalLength,
+  };
+
+  // MCP → IP → TIP（基節・末節は手掌平面内で屈曲方向＝尺側へ回転）
+  const distalDirection = abduction - mcpFlexion;
+  const ip = {
+    x: mcp.x - Math.sin(toRad(distalDirection)) * 0.05,
+    y: mcp.y - Math.cos(toRad(distalDirection)) * 0.05,
+    z: mcp.z,
+  };
+  const tip = {
+    x: ip.x - Math.sin(toRad(distalDirection)) * 0.04,
+    y: ip.y - Math.cos(toRad(distalDirection)) * 0.04,
+    z: ip.z,
+  };
+
+  set(1, cmc.x, cmc.y, cmc.z);
+  set(2, mcp.x, mcp.y, mcp.z);
+  set(3, ip.x, ip.y, ip.z);
+  set(4, tip.x, tip.y, tip.z);
+
+  return landmarks;
+};
+
+describe('母指角度計算', () => {
+  const calculator = new AngleCalculator();
+
+  test('橈側外転角度を示指中手骨基準で計算する', () => {
+    const angles = calculator.calculateThumbAngles(createHand(40, 0));
+
+    expect(angles.abduction).toBeCloseTo(40, 0);
+    expect(angles.adduction).toBe(0);
+  });
+
+  test('示指中手骨を越えた尺側への移動を内転として計算する', () => {
+    const angles = calculator.calculateThumbAngles(createHand(-10, 0));
+
+    expect(angles.adduction).toBeCloseTo(10, 0);
+    expect(angles.abduction).toBe(0);
+  });
+
+  test('MCP関節の屈曲と過伸展を区別する', () => {
+    const flexed = calculator.calculateThumbAngles(createHand(30, 45));
+    expect(flexed.flexion).toBeCloseTo(45, 0);
+    expect(flexed.extension).toBe(0);
+
+    const extended = calculator.calculateThumbAngles(createHand(30, -8));
+    expect(extended.extension).toBeCloseTo(8, 0);
+    expect(extended.flexion).toBe(0);
+  });
+
+  test('掌側外転角度を手掌平面からの角度として計算する', () => {
+    const angles = calculator.calculateThumbAngles(createHand(0, 0, 50));
+
+    expect(angles.palmarAbduction).toBeCloseTo(50, 0);
+  });
+
+  test('ステップIDに応じて母指角度を返す', () => {
+    const landmarks = createHand(35, 20);
+
+    expect(
+      calculator.calculateAngleForStep(landmarks, 'thumb-abduction')
+    ).toBeCloseTo(35, 0);
+    expect(
+      calculator.calculateAngleForStep(landmarks, 'thumb-flexion')
+    ).toBeCloseTo(20, 0);
+  });
+
+  test('ランドマーク不足時は0を返す', () => {
+    const angles = calculator.calculateThumbAngles([]);
+
+    expect(angles).toEqual({
+      flexion: 0,
+      extension: 0,
+      abduction: 0,
+      adduction: 0,
+      palmarAbduction: 0,
+      ipFlexion: 0,
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * ユニットテスト: 振戦の周波数解析
+ *
+ * テスト対象:
+ * - 主周波数と手の大きさで正規化した振幅
+ * - 縦横比が1でない映像での手の向きによらない振幅
+ * - 直線トレンド（手全体のゆっくりした移動）の除去
+ * - 不等間隔のフレームと検出できないフレームの扱い
+ * - フレームレートが低い場合の帯域の制限
+ * - 記録時間が不足する場合
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import { generateSyntheticHand } from '@/core/infrastructure/mediapipe/synthetic-hand';
+import {
+  analyzeTremor,
+  detrend,
+  TremorFrame,
+  TremorFrameSize,
+} from '@/core/infrastructure/mediapipe/tremor-analyzer';
+
+/**
+ * 静止した手のランドマーク（手首〜中指MCPの長さは0.2 × 0.52）
+ */
+const BASE_HAND = generateSyntheticHand().landmarks;
+const HAND_SIZE = 0.2 * 0.52;
+
+/**
+ * 縦横比1の映像（ランドマークの正規化座標がそのまま等方的な距離になる）
+ */
+const SQUARE_FRAME: TremorFrameSize = { width: 480, height: 480 };
+
+/**
+ * 手全体を指定した変位だけ平行移動したフレームを生成
+ */
+const createFrames = (
+  offsetAt: (timeMs: number) => { x: number; y: number } | null,
+  options: {
+    durationMs?: number;
+    fps?: number;
+    jitterMs?: number;
+    baseHand?: Point3D[];
+  } = {}
+): TremorFrame[] => {
+  const {
+    durationMs = 10000,
+    fps = 30,
+    jitterMs = 0,
+    baseHand = BASE_HAND,
+  } = options;
+  const frames: TremorFrame[] = [];
+  for (let i = 0; i * (1000 / fps) <= durationMs; i++) {
+    // フレーム間隔の揺らぎ（決定的な擬似乱数）
+    const timestampMs = i * (1000 / fps) + jitterMs * Math.sin(i * 12.9898);
+    const offset = offsetAt(timestampMs);
+    frames.push({
+      timestampMs,
+      landmarks: offset
+        ? baseHand.map(
+            (point): Point3D => ({
+              ...point,
+              x: point.x + offset.x,
+              y: point.y + offset.y,
+            })
+          )
+        : null,
+    });
+  }
+  return frames;
+};
+
+/**
+ * 周波数・振幅（手の大きさに対する比）を指定したx方向の正弦波
+ */
+const sine =
+  (frequencyHz: number, amplitude: number) =>
+  (timeMs: number): { x: number; y: number } => ({
+    x:
+      amplitude *
+      HAND_SIZE *
+      Math.sin(2 * Math.PI * frequencyHz * (timeMs / 1000)),
+    y: 0,
+  });
+
+describe('振戦の周波数解析', () => {
+  test('主周波数と正規化した振幅を求める', () => {
+    const result = analyzeTremor(createFrames(sine(5, 0.1)), SQUARE_FRAME);
+
+    expect(Math.abs((result?.dominantFrequencyHz ?? 0) - 5)).toBeLessThan(0.2);
+    expect(result?.amplitude).toBeGreaterThan(0.09);
+    expect(result?.amplitude).toBeLessThan(0.11);
+    expect(result?.tremorBandRatio).toBeGreaterThan(0.9);
+    expect(result?.sampleRateHz).toBeCloseTo(30, 0);
+    expect(result?.isBandLimited).toBe(false);
+  });
+
+  test('横長の映像でも手の向きによらず同じ振幅になる', () => {
+    // 縦横比1の座標で生成したフレームを、幅640・高さ480の映像の正規化座標に変換
+    const wideFrame: TremorFrameSize = { width: 640, height: 480 };
+    const toWideFrame = (frames: TremorFrame[]): TremorFrame[] =>
+      frames.map((frame) => ({
+        ...frame,
+        landmarks:
+          frame.landmarks?.map((point) => ({
+            ...point,
+            x: 0.5 + ((point.x - 0.5) * wideFrame.height) / wideFrame.width,
+          })) ?? null,
+      }));
+    const upright = analyzeTremor(
+      toWideFrame(createFrames(sine(5, 0.1))),
+      wideFrame
+    );
+    const sideways = analyzeTremor(
+      toWideFrame(
+        createFrames(sine(5, 0.1), {
+          baseHand: generateSyntheticHand({ cameraRoll: 90 }).landmarks,
+        })
+      ),
+      wideFrame
+    );
+
+    expect(upright?.amplitude).toBeGreaterThan(0.09);
+    expect(upright?.amplitude).toBeLessThan(0.11);
+    expect(sideways?.amplitude).toBeGreaterThan(0.09);
+    expect(sideways?.amplitude).toBeLessThan(0.11);
+  });
+
+  test('映像の大きさが不明な場合はnull', () => {
+    expect(
+      analyzeTremor(createFrames(sine(5, 0.1)), { width: 0, height: 0 })
+    ).toBeNull();
+  });
+
+  test('本態性振戦の高い周波数も検出する', () => {
+    const result = analyzeTremor(createFrames(sine(9, 0.05)), SQUARE_FRAME);
+
+    expect(Math.abs((result?.dominantFrequencyHz ?? 0) - 9)).toBeLessThan(0.2);
+    expect(result?.amplitude).toBeCloseTo(0.05, 2);
+  });
+
+  test('手全体のゆっくりした移動は振戦の振幅に含めない', () => {
+    const drifting = (timeMs: number) => ({
+      x: sine(5, 0.1)(timeMs).x + 0.00002 * timeMs,
+      y: -0.00001 * timeMs,
+    });
+    const result = analyzeTremor(createFrames(drifting), SQUARE_FRAME);
+
+    expect(Math.abs((result?.dominantFrequencyHz ?? 0) - 5)).toBeLessThan(0.2);
+    expect(result?.amplitude).toBeGreaterThan(0.09);
+    expect(result?.amplitude).toBeLessThan(0.11);
+  });
+
+  test('振戦がない場合は振幅が小さい', () => {
+    const result = analyzeTremor(
+      createFrames(() => ({ x: 0, y: 0 })),
+      SQUARE_FRAME
+    );
+
+    expect(result?.amplitude).toBeLessThan(1e-6);
+  });
+
+  test('フレーム間隔の揺らぎと検出できないフレームがあっても解析できる', () => {
+    const tremor = sine(6, 0.1);
+    const frames = createFrames(
+      (timeMs) =>
+        Math.floor(timeMs / 1000) % 4 === 2 && timeMs % 1000 < 100
+          ? null
+          : tremor(timeMs),
+      { jitterMs: 5 }
+    );
+    const result = analyzeTremor(frames, SQUARE_FRAME);
+
+    expect(Math.abs((result?.dominantFrequencyHz ?? 0) - 6)).toBeLessThan(0.3);
+    expect(result?.frameCount).toBeLessThan(frames.length);
+  });
+
+  test('フレームレートが振戦帯域の上限の2倍に満たない場合は帯域の制限を記録する', () => {
+    const result = analyzeTremor(
+      createFrames(sine(5, 0.1), { fps: 15 }),
+      SQUARE_FRAME
+    );
+
+    expect(Math.abs((result?.dominantFrequencyHz ?? 0) - 5)).toBeLessThan(0.2);
+    expect(result?.isBandLimited).toBe(true);
+  });
+
+  test('記録時間が不足する場合はnull', () => {
+    expect(
+      analyzeTremor(
+        createFrames(sine(5, 0.1), { durationMs: 3000 }),
+        SQUARE_FRAME
+      )
+    ).toBeNull();
+    expect(
+      analyzeTremor(
+        createFrames(() => null),
+        SQUARE_FRAME
+      )
+    ).toBeNull();
+  });
+});
+
+describe('トレンド除去', () => {
+  test('直線成分を除去する', () => {
+    const values = [1, 3, 5, 7, 9];
+
+    detrend(values).forEach((value) => expect(value).toBeCloseTo(0, 10));
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * ユニットテスト: 動画ファイルのステップ解析
+ *
+ * テスト対象:
+ * - 開始姿勢からの中間位キャリブレーション
+ * - 保持確認による最大角度とそのフレーム時刻
+ * - 手を検出できないフレームの扱い
+ * - 保存用の角度の時系列
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import type { Point3D } from '@/core/domain/types/hand-landmark';
+import {
+  generateSyntheticHand,
+  SYNTHETIC_STEP_BASE_POSES,
+} from '@/core/infrastructure/mediapipe/synthetic-hand';
+import { VideoStepAnalyzer } from '@/core/infrastructure/mediapipe/video-step-analyzer';
+
+/**
+ * フレーム間隔（15fps）
+ */
+const FRAME_STEP_MS = 1000 / 15;
+
+/**
+ * 時刻ごとの掌屈角度から動画フレームを生成
+ */
+const createFrames = (
+  flexionAt: (timeMs: number) => number | null,
+  durationMs: number
+): Array<{ timestampMs: number; landmarks: Point3D[] | null }> => {
+  const frames = [];
+  for (let timeMs = 0; timeMs <= durationMs; timeMs += FRAME_STEP_MS) {
+    const flexion = flexionAt(timeMs);
+    frames.push({
+      timestampMs: timeMs,
+      landmarks:
+        flexion === null
+          ? null
+          : generateSyntheticHand({
+              ...SYNTHETIC_STEP_BASE_POSES['palmar-flexion'],
+              flexion,
+            }).landmarks,
+    });
+  }
+  return frames;
+};
+
+/**
+ * 手のみの前腕軸推定による掌屈の許容誤差（度）
+ * angle-regression.test.tsの回帰スイープで確認した誤差の上限
+ */
+const HAND_ONLY_TOLERANCE = 5;
+
+/**
+ * 開始姿勢2秒 → 1秒で60度まで掌屈 → 1.5秒保持 → 1秒で戻す
+ */
+const flexionProfile = (timeMs: number): number => {
+  if (timeMs < 2000) return 0;
+  if (timeMs < 3000) return ((timeMs - 2000) / 1000) * 60;
+  if (timeMs < 4500) return 60;
+  return Math.max(0, 60 - ((timeMs - 4500) / 1000) * 60);
+};
+
+describe('動画ファイルのステップ解析', () => {
+  test('開始姿勢から基準角度を取得し、保持した最大角度を確定する', () => {
+    const analyzer = new VideoStepAnalyzer('palmar-flexion', 'right');
+    const frames = createFrames(flexionProfile, 6000);
+    frames.forEach((frame) => analyzer.addFrame(frame));
+    const result = analyzer.getResult();
+
+    expect(result.samples).toHaveLength(frames.length);
+    expect(result.calibration?.stepId).toBe('palmar-flexion');
+    expect(result.calibration?.landmarks).toHaveLength(21);
+    expect(Math.abs((result.peak?.angle ?? 0) - 60)).toBeLessThan(
+      HAND_ONLY_TOLERANCE
+    );
+    expect(result.peak?.method).toBe('hand-only');
+    expect(result.peak?.timestampMs).toBeGreaterThanOrEqual(3000);
+    expect(result.peak?.timestampMs).toBeLessThan(4500);
+    expect(result.qualityMetrics).not.toBeNull();
+  });
+
+  test('保存用の角度の時系列に基準確定・最大角度・保持区間の時刻を記録する', () => {
+    const analyzer = new VideoStepAnalyzer('palmar-flexion', 'right');
+    createFrames(flexionProfile, 6000).forEach((frame) =>
+      analyzer.addFrame(frame)
+    );
+    const { angleSeries, peak } = analyzer.getResult();
+
+    expect(angleSeries.samples.length).toBeGreaterThan(0);
+    expect(angleSeries.calibratedAtMs).not.toBeNull();
+    expect(angleSeries.calibratedAtMs).toBeLessThan(2000);
+    expect(angleSeries.peakAtMs).toBe(peak?.timestampMs);
+    expect(angleSeries.holdWindow?.startMs).toBeGreaterThanOrEqual(2500);
+    expect(angleSeries.holdWindow?.endMs).toBe(peak?.timestampMs);
+  });
+
+  test('キャリブレーション完了までのフレームは角度を持たない', () => {
+    const analyzer = new VideoStepAnalyzer('palmar-flexion', 'right');
+    createFrames(flexionProfile, 6000).forEach((frame) =>
+      analyzer.addFrame(frame)
+    );
+    const { samples } = analyzer.getResult();
+
+    const firstMeasuring = samples.findIndex((s) => s.phase === 'measuring');
+    expect(firstMeasuring).toBeGreaterThan(0);
+    expect(
+      samples.slice(0, firstMeasuring).every((s) => s.angle === null)
+    ).toBe(true);
+    expect(
+      samples
+        .slice(firstMeasuring)
+        .every((s) => s.angle !== null && s.angle >= 0)
+    ).toBe(true);
+  });
+
+  test('手を検出できないフレームはmissingとして記録する', () => {
+    const analyzer = new VideoStepAnalyzer('palmar-flexion', 'right');
+    createFrames(
+      (timeMs) => (timeMs < 500 ? null : flexionProfile(timeMs)),
+      6000
+    ).forEach((frame) => analyzer.addFrame(frame));
+    const { samples, peak } = analyzer.getResult();
+
+    expect(samples[0]?.phase).toBe('missing');
+    expect(Math.abs((peak?.angle ?? 0) - 60)).toBeLessThan(HAND_ONLY_TOLERANCE);
+  });
+
+  test('開始姿勢で静止しない動画は最大角度を確定しない', () => {
+    const analyzer = new VideoStepAnalyzer('palmar-flexion', 'right');
+    createFrames((timeMs) => (timeMs / 1000) * 30, 3000).forEach((frame) =>
+      analyzer.addFrame(frame)
+    );
+    const result = analyzer.getResult();
+
+    expect(result.calibration).toBeNull();
+    expect(result.peak).toBeNull();
+    expect(result.qualityMetrics).toBeNull();
+  });
+});